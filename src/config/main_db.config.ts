@@ -21,6 +21,7 @@ export class InitiConnection {
             throw new ResponseError(500, "MONGODB_URI is not defined");
         }
 
+        // Requiere un replica set: la API usa transacciones (ver docs/DATABASE.md)
         try {
             const db = await mongoose.connect(
                 GLOBAL_ENV.MONGODB_URI,
@@ -8,7 +8,9 @@ export type ProductionState =
   | 'PRODUCIDO' 
   | 'QC' 
   | 'ETIQUETADO' 
-  | 'FINALIZADO';
+  | 'FINALIZADO'
+  | 'RECHAZADO'
+  | 'ANULADO';
 
 export type UserRole = 'AUXILIAR' | 'QUIMICO' | 'COORDINADOR' | 'AUDITOR';
 
@@ -20,9 +22,61 @@ export type DocumentType =
   | 'ETIQUETAS' 
   | 'ACTA';
 
+export interface AdvertenciaValidacion {
+  codigo: string; // Identificador estable de la regla (ej: DOSIS_ACUMULADA_EXCEDIDA)
+  mensaje: string;
+}
+
 export interface ValidationResult {
   isValid: boolean;
-  errors: string[];
+  errors: string[]; // Errores bloqueantes
+  warnings?: AdvertenciaValidacion[]; // Advertencias que un QF puede aceptar con motivo
+}
+
+export type CriterioPresentacion = 'MENOS_UNIDADES' | 'MENOR_DESPERDICIO';
+
+export interface PresentacionDisponible {
+  volumen: number;
+  unidad: string;
+  cantidad: number;
+  tipoEnvase: string;
+}
+
+export interface PresentacionSeleccionada {
+  volumen: number; // Volumen de la presentación en ml
+  unidad: string;
+  tipoEnvase: string;
+  volumenUnidad: number; // Volumen de cada unidad (volumen / cantidad)
+  unidades: number; // Unidades abiertas de esta presentación
+}
+
+export type TipoDosificacion = 'ABSOLUTA' | 'SUPERFICIE_CORPORAL' | 'PESO' | 'AUC_CALVERT';
+
+export type FormulaSuperficieCorporal = 'MOSTELLER' | 'DUBOIS';
+
+export interface DosificacionInput {
+  tipo: TipoDosificacion;
+  dosisReferencia: number; // mg/m², mg/kg, AUC (mg/ml·min) o dosis absoluta
+  unidadDosis: string; // Unidad del principio activo (ej: mg)
+  pesoKg?: number;
+  tallaCm?: number;
+  sexo?: 'M' | 'F';
+  edad?: number;
+  formulaSC?: FormulaSuperficieCorporal;
+  superficieCorporalMaxima?: number; // Tope de SC en m² (ej: 2.0)
+  dosisMaxima?: number; // Tope de dosis absoluta en unidadDosis
+  tfg?: number; // Tasa de filtración glomerular en ml/min (si no se envía se estima con Cockcroft-Gault)
+  creatininaSerica?: number; // mg/dl, requerida para estimar TFG
+  tfgMaxima?: number; // Tope de TFG para Calvert (por defecto 125 ml/min)
+}
+
+export interface DosificacionResult {
+  dosisCalculada: number; // Dosis derivada antes del tope de dosis máxima
+  dosisFinal: number; // Dosis absoluta a preparar
+  unidadDosis: string;
+  superficieCorporal?: number; // m² usados en el cálculo
+  tfg?: number; // ml/min usados en el cálculo
+  topeAplicado: boolean;
 }
 
 export interface CalculationInput {
@@ -32,22 +86,63 @@ export interface CalculationInput {
   volumenPresentacion: number;
   unidadesPresentacion: number;
   horasEstabilidad: number;
+  fechaPreparacion?: Date; // Momento de la preparación; el vencimiento se cuenta desde aquí
+  presentaciones?: PresentacionDisponible[]; // Si se envía, el motor elige la mejor combinación
+  criterioPresentacion?: CriterioPresentacion;
+  concentracionFinalMin?: number; // Rango de concentración final permitido (unidad del principio activo por ml)
+  concentracionFinalMax?: number;
+  volumenesEstandar?: number[]; // Volúmenes nominales de vehículo del envase en ml
+  volumenMaxEnvase?: number; // Capacidad máxima del envase en ml
+  volumenVehiculo?: number; // Volumen de vehículo fijado manualmente en ml
+}
+
+export interface CalculationOptions {
+  criterioPresentacion?: CriterioPresentacion;
+  fechaPreparacion?: Date;
+  volumenVehiculo?: number;
+  estabilidadId?: Types.ObjectId; // Estabilidad elegida por condición de almacenamiento
 }
 
 export interface CalculationResult {
   volumenExtraer: number;
+  volumenVehiculo: number;
   volumenFinal: number;
+  concentracionFinal: number; // Concentración final en la unidad del principio activo por ml
   unidadesInsumo: number;
+  presentaciones: PresentacionSeleccionada[];
+  volumenDesperdicio: number;
   lote: string;
   fechaVencimiento: Date;
 }
 
+export interface MezclaValidationData {
+  dosisPrescrita: number;
+  unidadDosis: string;
+  cantidadMezclas: number;
+  concentracionFinal?: number; // Unidad del principio activo por ml
+  pacienteDocumento: string;
+  topeAplicado?: boolean; // La dosis derivada fue limitada por un tope
+  excluirProduccionId?: Types.ObjectId; // Producción a excluir del acumulado (revalidaciones)
+  fechaProduccion?: Date; // Centro de la ventana de dosis acumulada (por defecto, ahora)
+  mezclasOrden?: DosisMezclaOrden[]; // Otras mezclas de la misma orden, que aún no están guardadas o se excluyen
+}
+
+export interface DosisMezclaOrden {
+  medicamentoId: Types.ObjectId;
+  pacienteDocumento: string;
+  dosisPrescrita: number;
+  unidadDosis: string;
+  cantidadMezclas: number;
+}
+
 export interface ProductionValidationData {
   medicamentoId: Types.ObjectId;
   laboratorioId: Types.ObjectId;
   vehiculoId: Types.ObjectId;
   envaseId: Types.ObjectId;
+  estabilidadId?: Types.ObjectId; // Estabilidad elegida; si no, se valida la combinación
   lineaProductiva: 'ONCO' | 'ESTERIL';
+  mezcla?: MezclaValidationData; // Si se envía, se validan también los límites clínicos de la mezcla
 }
 
 
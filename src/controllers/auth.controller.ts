@@ -1,6 +1,7 @@
 import { Request, Response } from 'express';
 import { Types } from 'mongoose';
 import { authService } from '@/services/auth/auth.service';
+import { userService } from '@/services/users/user.service';
 import { ResponseError } from '@/utils/erros';
 import { UserRole } from '@/models/User.model';
 
@@ -60,7 +61,7 @@ export class AuthController {
           cargo: user.cargo,
           identificacion: user.identificacion,
           tarjetaProfesional: user.tarjetaProfesional,
-          firmaUrl: user.firmaUrl,
+          firmaUrl: await userService.getFirmaUrl(user),
           firmaPublicId: user.firmaPublicId,
           rolSistema: user.rolSistema,
           esInterpretacion: user.esInterpretacion,
@@ -157,7 +158,7 @@ export class AuthController {
           cargo: user.cargo,
           identificacion: user.identificacion,
           tarjetaProfesional: user.tarjetaProfesional,
-          firmaUrl: user.firmaUrl,
+          firmaUrl: await userService.getFirmaUrl(user),
           firmaPublicId: user.firmaPublicId,
           rolSistema: user.rolSistema,
           activo: user.activo,
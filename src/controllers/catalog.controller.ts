@@ -1,12 +1,27 @@
 import { Request, Response } from 'express';
 import { Types } from 'mongoose';
-import { Medicine } from '@/models/Medicine.model';
-import { Lab } from '@/models/Lab.model';
-import { Vehicle } from '@/models/Vehicle.model';
-import { Container } from '@/models/Container.model';
-import { Stability } from '@/models/Stability.model';
+import { catalogService, CatalogEntity } from '@/services/catalog/catalog.service';
+import { stabilityImportService } from '@/services/catalog/stabilityImport.service';
+import { catalogExportService } from '@/services/catalog/catalogExport.service';
 import { ResponseError } from '@/utils/erros';
 
+/**
+ * Responde un error de catálogo respetando el código de ResponseError
+ */
+const sendCatalogError = (res: Response, error: unknown, mensaje: string): void => {
+  if (error instanceof ResponseError) {
+    res.status(error.statusCode).json({
+      ok: false,
+      error: error.message
+    });
+  } else {
+    res.status(500).json({
+      ok: false,
+      error: mensaje
+    });
+  }
+};
+
 export class CatalogController {
   /**
    * Obtener todos los medicamentos
@@ -14,28 +29,14 @@ export class CatalogController {
    */
   async getMedicines(req: Request, res: Response): Promise<void> {
     try {
-      const { habilitado, lineaProductiva } = req.query;
-      const query: any = {};
-
-      if (habilitado !== undefined) {
-        query.habilitado = habilitado === 'true';
-      }
-
-      if (lineaProductiva) {
-        query.lineaProductiva = lineaProductiva;
-      }
-
-      const medicines = await Medicine.find(query).sort({ nombre: 1 });
+      const medicines = await catalogService.list('Medicine', req.query);
 
       res.status(200).json({
         ok: true,
         data: medicines
       });
     } catch (error) {
-      res.status(500).json({
-        ok: false,
-        error: 'Error al obtener medicamentos'
-      });
+      sendCatalogError(res, error, 'Error al obtener medicamentos');
     }
   }
 
@@ -45,7 +46,15 @@ export class CatalogController {
    */
   async createMedicine(req: Request, res: Response): Promise<void> {
     try {
-      const medicine = await Medicine.create(req.body);
+      if (!req.user) {
+        throw new ResponseError(401, 'Usuario no autenticado');
+      }
+
+      const medicine = await catalogService.create(
+        'Medicine',
+        req.body,
+        new Types.ObjectId(req.user.userId)
+      );
 
       res.status(201).json({
         ok: true,
@@ -53,10 +62,7 @@ export class CatalogController {
         data: medicine
       });
     } catch (error) {
-      res.status(500).json({
-        ok: false,
-        error: 'Error al crear medicamento'
-      });
+      sendCatalogError(res, error, 'Error al crear medicamento');
     }
   }
 
@@ -66,24 +72,14 @@ export class CatalogController {
    */
   async getLabs(req: Request, res: Response): Promise<void> {
     try {
-      const { habilitado } = req.query;
-      const query: any = {};
-
-      if (habilitado !== undefined) {
-        query.habilitado = habilitado === 'true';
-      }
-
-      const labs = await Lab.find(query).sort({ nombre: 1 });
+      const labs = await catalogService.list('Laboratory', req.query);
 
       res.status(200).json({
         ok: true,
         data: labs
       });
     } catch (error) {
-      res.status(500).json({
-        ok: false,
-        error: 'Error al obtener laboratorios'
-      });
+      sendCatalogError(res, error, 'Error al obtener laboratorios');
     }
   }
 
@@ -93,7 +89,15 @@ export class CatalogController {
    */
   async createLab(req: Request, res: Response): Promise<void> {
     try {
-      const lab = await Lab.create(req.body);
+      if (!req.user) {
+        throw new ResponseError(401, 'Usuario no autenticado');
+      }
+
+      const lab = await catalogService.create(
+        'Laboratory',
+        req.body,
+        new Types.ObjectId(req.user.userId)
+      );
 
       res.status(201).json({
         ok: true,
@@ -101,10 +105,7 @@ export class CatalogController {
         data: lab
       });
     } catch (error) {
-      res.status(500).json({
-        ok: false,
-        error: 'Error al crear laboratorio'
-      });
+      sendCatalogError(res, error, 'Error al crear laboratorio');
     }
   }
 
@@ -114,17 +115,14 @@ export class CatalogController {
    */
   async getVehicles(req: Request, res: Response): Promise<void> {
     try {
-      const vehicles = await Vehicle.find().sort({ nombre: 1 });
+      const vehicles = await catalogService.list('Vehicle', req.query);
 
       res.status(200).json({
         ok: true,
         data: vehicles
       });
     } catch (error) {
-      res.status(500).json({
-        ok: false,
-        error: 'Error al obtener vehículos'
-      });
+      sendCatalogError(res, error, 'Error al obtener vehículos');
     }
   }
 
@@ -134,7 +132,15 @@ export class CatalogController {
    */
   async createVehicle(req: Request, res: Response): Promise<void> {
     try {
-      const vehicle = await Vehicle.create(req.body);
+      if (!req.user) {
+        throw new ResponseError(401, 'Usuario no autenticado');
+      }
+
+      const vehicle = await catalogService.create(
+        'Vehicle',
+        req.body,
+        new Types.ObjectId(req.user.userId)
+      );
 
       res.status(201).json({
         ok: true,
@@ -142,10 +148,7 @@ export class CatalogController {
         data: vehicle
       });
     } catch (error) {
-      res.status(500).json({
-        ok: false,
-        error: 'Error al crear vehículo'
-      });
+      sendCatalogError(res, error, 'Error al crear vehículo');
     }
   }
 
@@ -155,17 +158,14 @@ export class CatalogController {
    */
   async getContainers(req: Request, res: Response): Promise<void> {
     try {
-      const containers = await Container.find().sort({ tipo: 1 });
+      const containers = await catalogService.list('Container', req.query);
 
       res.status(200).json({
         ok: true,
         data: containers
       });
     } catch (error) {
-      res.status(500).json({
-        ok: false,
-        error: 'Error al obtener envases'
-      });
+      sendCatalogError(res, error, 'Error al obtener envases');
     }
   }
 
@@ -175,7 +175,15 @@ export class CatalogController {
    */
   async createContainer(req: Request, res: Response): Promise<void> {
     try {
-      const container = await Container.create(req.body);
+      if (!req.user) {
+        throw new ResponseError(401, 'Usuario no autenticado');
+      }
+
+      const container = await catalogService.create(
+        'Container',
+        req.body,
+        new Types.ObjectId(req.user.userId)
+      );
 
       res.status(201).json({
         ok: true,
@@ -183,10 +191,7 @@ export class CatalogController {
         data: container
       });
     } catch (error) {
-      res.status(500).json({
-        ok: false,
-        error: 'Error al crear envase'
-      });
+      sendCatalogError(res, error, 'Error al crear envase');
     }
   }
 
@@ -196,37 +201,14 @@ export class CatalogController {
    */
   async getStabilities(req: Request, res: Response): Promise<void> {
     try {
-      const { medicamentoId, laboratorioId, vehiculoId, envaseId } = req.query;
-      const query: any = {};
-
-      if (medicamentoId) {
-        query.medicamentoId = new Types.ObjectId(medicamentoId as string);
-      }
-
-      if (laboratorioId) {
-        query.laboratorioId = new Types.ObjectId(laboratorioId as string);
-      }
-
-      if (vehiculoId) {
-        query.vehiculoId = new Types.ObjectId(vehiculoId as string);
-      }
-
-      if (envaseId) {
-        query.envaseId = new Types.ObjectId(envaseId as string);
-      }
-
-      const stabilities = await Stability.find(query)
-        .populate('medicamentoId laboratorioId vehiculoId envaseId');
+      const stabilities = await catalogService.list('Stability', req.query);
 
       res.status(200).json({
         ok: true,
         data: stabilities
       });
     } catch (error) {
-      res.status(500).json({
-        ok: false,
-        error: 'Error al obtener estabilidades'
-      });
+      sendCatalogError(res, error, 'Error al obtener estabilidades');
     }
   }
 
@@ -236,7 +218,15 @@ export class CatalogController {
    */
   async createStability(req: Request, res: Response): Promise<void> {
     try {
-      const stability = await Stability.create(req.body);
+      if (!req.user) {
+        throw new ResponseError(401, 'Usuario no autenticado');
+      }
+
+      const stability = await catalogService.create(
+        'Stability',
+        req.body,
+        new Types.ObjectId(req.user.userId)
+      );
 
       res.status(201).json({
         ok: true,
@@ -244,15 +234,219 @@ export class CatalogController {
         data: stability
       });
     } catch (error) {
-      res.status(500).json({
-        ok: false,
-        error: 'Error al crear estabilidad'
+      sendCatalogError(res, error, 'Error al crear estabilidad');
+    }
+  }
+
+  /**
+   * Importar estabilidades desde CSV/XLSX
+   * Con ?dryRun=true solo valida y reporta errores por fila
+   * POST /api/catalog/stabilities/import
+   */
+  async importStabilities(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new ResponseError(401, 'Usuario no autenticado');
+      }
+
+      if (!req.file) {
+        throw new ResponseError(400, 'Debe adjuntar un archivo CSV o XLSX en el campo "archivo"');
+      }
+
+      const resultado = await stabilityImportService.importStabilities(
+        req.file,
+        req.query.dryRun === 'true',
+        new Types.ObjectId(req.user.userId)
+      );
+
+      // Con errores no se escribe nada; se devuelve el detalle por fila
+      const status = resultado.errores.length > 0 ? 422 : 200;
+
+      res.status(status).json({
+        ok: resultado.errores.length === 0,
+        message: resultado.aplicado
+          ? 'Estabilidades importadas exitosamente'
+          : 'Importación validada sin aplicar cambios',
+        data: resultado
       });
+    } catch (error) {
+      sendCatalogError(res, error, 'Error al importar estabilidades');
     }
   }
-}
 
-export const catalogController = new CatalogController();
+  /**
+   * Exportar catálogo como CSV, XLSX o JSON
+   * Acepta los mismos filtros que el listado GET
+   * GET /api/catalog/{entidad}/export?formato=csv|xlsx|json
+   */
+  export(entidad: CatalogEntity) {
+    return async (req: Request, res: Response): Promise<void> => {
+      try {
+        if (!req.user) {
+          throw new ResponseError(401, 'Usuario no autenticado');
+        }
+
+        const exportacion = catalogExportService.prepare(entidad, req.query.formato as string, req.query);
+
+        res.status(200);
+        res.setHeader('Content-Type', exportacion.contentType);
+        res.setHeader('Content-Disposition', `attachment; filename="${exportacion.nombreArchivo}"`);
+
+        await catalogExportService.write(exportacion, res, new Types.ObjectId(req.user.userId));
+      } catch (error) {
+        // Si ya se comenzó a enviar el archivo no es posible responder JSON
+        if (res.headersSent) {
+          console.error('Error al exportar catálogo:', error);
+          res.destroy();
+          return;
+        }
+        sendCatalogError(res, error, 'Error al exportar catálogo');
+      }
+    };
+  }
+
+  /**
+   * Obtener registro de catálogo por ID
+   * GET /api/catalog/{entidad}/:id
+   */
+  getById(entidad: CatalogEntity) {
+    return async (req: Request, res: Response): Promise<void> => {
+      try {
+        const registro = await catalogService.getById(entidad, req.params.id);
+
+        res.status(200).json({
+          ok: true,
+          data: registro
+        });
+      } catch (error) {
+        sendCatalogError(res, error, 'Error al obtener registro del catálogo');
+      }
+    };
+  }
 
+  /**
+   * Actualizar parcialmente un registro de catálogo
+   * PATCH /api/catalog/{entidad}/:id
+   */
+  update(entidad: CatalogEntity) {
+    return async (req: Request, res: Response): Promise<void> => {
+      try {
+        if (!req.user) {
+          throw new ResponseError(401, 'Usuario no autenticado');
+        }
+
+        const registro = await catalogService.update(
+          entidad,
+          req.params.id,
+          req.body,
+          new Types.ObjectId(req.user.userId)
+        );
+
+        res.status(200).json({
+          ok: true,
+          message: 'Registro actualizado exitosamente',
+          data: registro
+        });
+      } catch (error) {
+        sendCatalogError(res, error, 'Error al actualizar registro del catálogo');
+      }
+    };
+  }
+
+  /**
+   * Reemplazar un registro de catálogo con el cuerpo completo
+   * PUT /api/catalog/{entidad}/:id
+   */
+  replace(entidad: CatalogEntity) {
+    return async (req: Request, res: Response): Promise<void> => {
+      try {
+        if (!req.user) {
+          throw new ResponseError(401, 'Usuario no autenticado');
+        }
+
+        const registro = await catalogService.replace(
+          entidad,
+          req.params.id,
+          req.body,
+          new Types.ObjectId(req.user.userId)
+        );
+
+        res.status(200).json({
+          ok: true,
+          message: 'Registro reemplazado exitosamente',
+          data: registro
+        });
+      } catch (error) {
+        sendCatalogError(res, error, 'Error al reemplazar registro del catálogo');
+      }
+    };
+  }
+
+  /**
+   * Deshabilitar registro de catálogo
+   * Con ?permanente=true se elimina físicamente si no tiene referencias
+   * DELETE /api/catalog/{entidad}/:id
+   */
+  remove(entidad: CatalogEntity) {
+    return async (req: Request, res: Response): Promise<void> => {
+      try {
+        if (!req.user) {
+          throw new ResponseError(401, 'Usuario no autenticado');
+        }
+
+        const userId = new Types.ObjectId(req.user.userId);
+
+        if (req.query.permanente === 'true') {
+          await catalogService.remove(entidad, req.params.id, userId);
+
+          res.status(200).json({
+            ok: true,
+            message: 'Registro eliminado exitosamente'
+          });
+          return;
+        }
+
+        const registro = await catalogService.setHabilitado(entidad, req.params.id, false, userId);
+
+        res.status(200).json({
+          ok: true,
+          message: 'Registro deshabilitado exitosamente',
+          data: registro
+        });
+      } catch (error) {
+        sendCatalogError(res, error, 'Error al eliminar registro del catálogo');
+      }
+    };
+  }
 
+  /**
+   * Rehabilitar registro de catálogo
+   * POST /api/catalog/{entidad}/:id/enable
+   */
+  enable(entidad: CatalogEntity) {
+    return async (req: Request, res: Response): Promise<void> => {
+      try {
+        if (!req.user) {
+          throw new ResponseError(401, 'Usuario no autenticado');
+        }
+
+        const registro = await catalogService.setHabilitado(
+          entidad,
+          req.params.id,
+          true,
+          new Types.ObjectId(req.user.userId)
+        );
+
+        res.status(200).json({
+          ok: true,
+          message: 'Registro habilitado exitosamente',
+          data: registro
+        });
+      } catch (error) {
+        sendCatalogError(res, error, 'Error al habilitar registro del catálogo');
+      }
+    };
+  }
+}
 
+export const catalogController = new CatalogController();
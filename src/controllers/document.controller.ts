@@ -1,6 +1,8 @@
 import { Request, Response } from 'express';
 import { Types } from 'mongoose';
 import { documentGenerationService } from '@/services/documents/documentGeneration.service';
+import { documentDownloadService } from '@/services/documents/documentDownload.service';
+import { DocumentType } from '@/models/Document.model';
 import { ResponseError } from '@/utils/erros';
 
 export class DocumentController {
@@ -25,43 +27,52 @@ export class DocumentController {
         throw new ResponseError(400, 'Tipo de documento inválido');
       }
 
+      // Obligatorio si el tipo ya tiene una versión activa
+      const motivo = typeof req.body?.motivo === 'string' ? req.body.motivo : undefined;
+
       let fileUrl: string;
 
       switch (tipo) {
         case 'SOLICITUD':
           fileUrl = await documentGenerationService.generateSolicitud(
             new Types.ObjectId(productionId),
-            req.user.userId as any
+            req.user.userId as any,
+            motivo
           );
           break;
         case 'ORDEN':
           fileUrl = await documentGenerationService.generateOrden(
             new Types.ObjectId(productionId),
-            req.user.userId as any
+            req.user.userId as any,
+            motivo
           );
           break;
         case 'INSUMOS':
           fileUrl = await documentGenerationService.generateSolicitudInsumos(
             new Types.ObjectId(productionId),
-            req.user.userId as any
+            req.user.userId as any,
+            motivo
           );
           break;
         case 'QC':
           fileUrl = await documentGenerationService.generateQC(
             new Types.ObjectId(productionId),
-            req.user.userId as any
+            req.user.userId as any,
+            motivo
           );
           break;
         case 'ETIQUETAS':
           fileUrl = await documentGenerationService.generateEtiquetas(
             new Types.ObjectId(productionId),
-            req.user.userId as any
+            req.user.userId as any,
+            motivo
           );
           break;
         case 'ACTA':
           fileUrl = await documentGenerationService.generateActaEntrega(
             new Types.ObjectId(productionId),
-            req.user.userId as any
+            req.user.userId as any,
+            motivo
           );
           break;
         default:
@@ -109,7 +120,8 @@ export class DocumentController {
 
       const documents = await documentGenerationService.generateAllAvailableDocuments(
         new Types.ObjectId(productionId),
-        req.user.userId as any
+        req.user.userId as any,
+        typeof req.body?.motivo === 'string' ? req.body.motivo : undefined
       );
 
       res.status(200).json({
@@ -145,7 +157,8 @@ export class DocumentController {
       }
 
       const documents = await documentGenerationService.getProductionDocuments(
-        new Types.ObjectId(productionId)
+        new Types.ObjectId(productionId),
+        req.query.historial === 'true'
       );
 
       res.status(200).json({
@@ -166,6 +179,96 @@ export class DocumentController {
       }
     }
   }
+
+  /**
+   * Obtener la cadena de versiones de un tipo de documento
+   * GET /api/documents/:productionId/:tipo/versions
+   */
+  async getVersions(req: Request, res: Response): Promise<void> {
+    try {
+      const { productionId, tipo } = req.params;
+
+      if (!Types.ObjectId.isValid(productionId)) {
+        throw new ResponseError(400, 'ID de producción inválido');
+      }
+
+      const validTypes = ['SOLICITUD', 'ORDEN', 'INSUMOS', 'QC', 'ETIQUETAS', 'ACTA'];
+      if (!validTypes.includes(tipo)) {
+        throw new ResponseError(400, 'Tipo de documento inválido');
+      }
+
+      const versions = await documentGenerationService.getDocumentVersions(
+        new Types.ObjectId(productionId),
+        tipo as DocumentType
+      );
+
+      res.status(200).json({
+        ok: true,
+        data: versions
+      });
+    } catch (error) {
+      if (error instanceof ResponseError) {
+        res.status(error.statusCode).json({
+          ok: false,
+          error: error.message
+        });
+      } else {
+        res.status(500).json({
+          ok: false,
+          error: 'Error al obtener versiones del documento'
+        });
+      }
+    }
+  }
+
+  /**
+   * Descargar un documento a través de la API (verifica rol y SHA-256)
+   * GET /api/documents/:documentId/download
+   */
+  async download(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new ResponseError(401, 'Usuario no autenticado');
+      }
+
+      const descarga = await documentDownloadService.prepare(req.params.documentId, req.user.rolSistema);
+
+      res.status(200);
+      res.setHeader('Content-Type', descarga.contentType);
+      res.setHeader('Content-Disposition', `attachment; filename="${descarga.nombreArchivo}"`);
+      res.setHeader('Cache-Control', 'no-store');
+      if (descarga.document.tamanoBytes) {
+        // Con la longitud declarada el cliente detecta la descarga cortada por hash inválido
+        res.setHeader('Content-Length', descarga.document.tamanoBytes);
+      }
+      if (descarga.document.hashArchivo) {
+        res.setHeader('X-Content-SHA256', descarga.document.hashArchivo);
+      }
+
+      await documentDownloadService.write(descarga, res, new Types.ObjectId(req.user.userId));
+    } catch (error) {
+      // Si ya se comenzó a enviar el archivo no es posible responder JSON
+      if (res.headersSent) {
+        console.error('Error al descargar documento:', error);
+        res.destroy();
+        return;
+      }
+      res.removeHeader('Content-Disposition');
+      res.removeHeader('X-Content-SHA256');
+
+      if (error instanceof ResponseError) {
+        res.status(error.statusCode).json({
+          ok: false,
+          error: error.message
+        });
+      } else {
+        res.status(500).json({
+          ok: false,
+          error: 'Error al descargar documento'
+        });
+      }
+    }
+  }
 }
 
 export const documentController = new DocumentController();
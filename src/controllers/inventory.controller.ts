@@ -0,0 +1,130 @@
+import { Request, Response } from 'express';
+import { Types } from 'mongoose';
+import { inventoryService } from '@/services/inventory/inventory.service';
+import { ResponseError } from '@/utils/erros';
+
+/**
+ * Responde un error de inventario respetando el código de ResponseError
+ */
+const sendInventoryError = (res: Response, error: unknown, mensaje: string): void => {
+  if (error instanceof ResponseError) {
+    res.status(error.statusCode).json({
+      ok: false,
+      error: error.message
+    });
+  } else {
+    res.status(500).json({
+      ok: false,
+      error: mensaje
+    });
+  }
+};
+
+export class InventoryController {
+  /**
+   * Obtener lotes de inventario
+   * GET /api/inventory/lots
+   */
+  async getLots(req: Request, res: Response): Promise<void> {
+    try {
+      const lotes = await inventoryService.listLots({
+        medicamentoId: req.query.medicamentoId as string | undefined,
+        vigentes: req.query.vigentes as string | undefined,
+        habilitado: req.query.habilitado as string | undefined
+      });
+
+      res.status(200).json({
+        ok: true,
+        data: lotes
+      });
+    } catch (error) {
+      sendInventoryError(res, error, 'Error al obtener lotes');
+    }
+  }
+
+  /**
+   * Registrar entrada de un lote
+   * POST /api/inventory/lots
+   */
+  async createLot(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new ResponseError(401, 'Usuario no autenticado');
+      }
+
+      const lote = await inventoryService.createLot(req.body, new Types.ObjectId(req.user.userId));
+
+      res.status(201).json({
+        ok: true,
+        message: 'Lote registrado exitosamente',
+        data: lote
+      });
+    } catch (error) {
+      sendInventoryError(res, error, 'Error al registrar lote');
+    }
+  }
+
+  /**
+   * Ajustar disponible o habilitación de un lote
+   * POST /api/inventory/lots/:id/adjust
+   */
+  async adjustLot(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new ResponseError(401, 'Usuario no autenticado');
+      }
+
+      const lote = await inventoryService.adjustLot(
+        req.params.id,
+        req.body,
+        new Types.ObjectId(req.user.userId)
+      );
+
+      res.status(200).json({
+        ok: true,
+        message: 'Lote ajustado exitosamente',
+        data: lote
+      });
+    } catch (error) {
+      sendInventoryError(res, error, 'Error al ajustar lote');
+    }
+  }
+
+  /**
+   * Obtener movimientos de un lote
+   * GET /api/inventory/lots/:id/movements
+   */
+  async getMovements(req: Request, res: Response): Promise<void> {
+    try {
+      const movimientos = await inventoryService.getMovements(req.params.id);
+
+      res.status(200).json({
+        ok: true,
+        data: movimientos
+      });
+    } catch (error) {
+      sendInventoryError(res, error, 'Error al obtener movimientos');
+    }
+  }
+
+  /**
+   * Obtener stock por medicamento y presentación
+   * GET /api/inventory/stock
+   */
+  async getStock(req: Request, res: Response): Promise<void> {
+    try {
+      const stock = await inventoryService.getStock({
+        medicamentoId: req.query.medicamentoId as string | undefined
+      });
+
+      res.status(200).json({
+        ok: true,
+        data: stock
+      });
+    } catch (error) {
+      sendInventoryError(res, error, 'Error al obtener stock');
+    }
+  }
+}
+
+export const inventoryController = new InventoryController();
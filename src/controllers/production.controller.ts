@@ -3,6 +3,7 @@ import { Types } from 'mongoose';
 import dayjs from 'dayjs';
 import { productionService } from '@/services/production/production.service';
 import { productionWorkflowService } from '@/services/workflow/productionWorkflow.service';
+import { signatureService } from '@/services/signature/signature.service';
 import { ResponseError } from '@/utils/erros';
 
 export class ProductionController {
@@ -94,6 +95,10 @@ export class ProductionController {
         filters.lineaProduccion = req.query.lineaProduccion;
       }
 
+      if (req.query.loteMezcla) {
+        filters.loteMezcla = String(req.query.loteMezcla);
+      }
+
       if (req.query.fechaDesde) {
         filters.fechaDesde = dayjs(req.query.fechaDesde as string).toDate();
       }
@@ -155,7 +160,8 @@ export class ProductionController {
       const production = await productionService.validateAndCalculate(
         new Types.ObjectId(id),
         req.user.userId as any,
-        req.user.rolSistema
+        req.user.rolSistema,
+        req.body?.firma
       );
 
       res.status(200).json({
@@ -178,6 +184,356 @@ export class ProductionController {
     }
   }
 
+  /**
+   * Aceptar una advertencia clínica de una mezcla
+   * POST /api/productions/:id/mezclas/:index/advertencias/:codigo/override
+   */
+  async overrideAdvertencia(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new ResponseError(401, 'Usuario no autenticado');
+      }
+
+      const { id, index, codigo } = req.params;
+      const { motivo } = req.body;
+
+      if (!Types.ObjectId.isValid(id)) {
+        throw new ResponseError(400, 'ID inválido');
+      }
+
+      const mezclaIndex = parseInt(index);
+      if (isNaN(mezclaIndex) || mezclaIndex < 0) {
+        throw new ResponseError(400, 'Índice de mezcla inválido');
+      }
+
+      const production = await productionService.overrideAdvertencia(
+        new Types.ObjectId(id),
+        mezclaIndex,
+        codigo,
+        motivo,
+        new Types.ObjectId(req.user.userId)
+      );
+
+      res.status(200).json({
+        ok: true,
+        message: `Advertencia ${codigo} aceptada`,
+        data: production
+      });
+    } catch (error) {
+      if (error instanceof ResponseError) {
+        res.status(error.statusCode).json({
+          ok: false,
+          error: error.message
+        });
+      } else {
+        res.status(500).json({
+          ok: false,
+          error: 'Error al aceptar advertencia'
+        });
+      }
+    }
+  }
+
+  /**
+   * Cambiar el estado de una mezcla de la orden
+   * POST /api/productions/:id/mezclas/:index/transition
+   */
+  async transitionMezcla(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new ResponseError(401, 'Usuario no autenticado');
+      }
+
+      const { id, index } = req.params;
+      const { estado, motivo } = req.body;
+
+      if (!Types.ObjectId.isValid(id)) {
+        throw new ResponseError(400, 'ID inválido');
+      }
+
+      const mezclaIndex = parseInt(index);
+      if (isNaN(mezclaIndex) || mezclaIndex < 0) {
+        throw new ResponseError(400, 'Índice de mezcla inválido');
+      }
+
+      if (!estado) {
+        throw new ResponseError(400, 'Estado requerido');
+      }
+
+      const production = await productionWorkflowService.transitionMezcla(
+        new Types.ObjectId(id),
+        mezclaIndex,
+        estado,
+        new Types.ObjectId(req.user.userId),
+        req.user.rolSistema,
+        motivo
+      );
+
+      res.status(200).json({
+        ok: true,
+        message: `Mezcla ${mezclaIndex} marcada como ${estado}`,
+        data: production
+      });
+    } catch (error) {
+      if (error instanceof ResponseError) {
+        res.status(error.statusCode).json({
+          ok: false,
+          error: error.message
+        });
+      } else {
+        res.status(500).json({
+          ok: false,
+          error: 'Error al cambiar estado de la mezcla'
+        });
+      }
+    }
+  }
+
+  /**
+   * Agregar una mezcla a una producción en estado CREADO
+   * POST /api/productions/:id/mezclas
+   */
+  async addMezcla(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new ResponseError(401, 'Usuario no autenticado');
+      }
+
+      const { id } = req.params;
+
+      if (!Types.ObjectId.isValid(id)) {
+        throw new ResponseError(400, 'ID inválido');
+      }
+
+      const { paciente, medicamentoId, vehiculoId, envaseId, unidadDosis } = req.body || {};
+      if (!paciente || !medicamentoId || !vehiculoId || !envaseId || !unidadDosis) {
+        throw new ResponseError(400, 'Paciente, medicamento, vehículo, envase y unidad de dosis son requeridos');
+      }
+
+      const production = await productionService.addMezcla(
+        new Types.ObjectId(id),
+        req.body,
+        new Types.ObjectId(req.user.userId)
+      );
+
+      res.status(201).json({
+        ok: true,
+        message: 'Mezcla agregada y recalculada',
+        data: production
+      });
+    } catch (error) {
+      if (error instanceof ResponseError) {
+        res.status(error.statusCode).json({
+          ok: false,
+          error: error.message
+        });
+      } else {
+        res.status(500).json({
+          ok: false,
+          error: 'Error al agregar mezcla'
+        });
+      }
+    }
+  }
+
+  /**
+   * Corregir una mezcla de una producción en estado CREADO
+   * PUT /api/productions/:id/mezclas/:index
+   */
+  async updateMezcla(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new ResponseError(401, 'Usuario no autenticado');
+      }
+
+      const { id, index } = req.params;
+
+      if (!Types.ObjectId.isValid(id)) {
+        throw new ResponseError(400, 'ID inválido');
+      }
+
+      const mezclaIndex = parseInt(index);
+      if (isNaN(mezclaIndex) || mezclaIndex < 0) {
+        throw new ResponseError(400, 'Índice de mezcla inválido');
+      }
+
+      if (!req.body || Object.keys(req.body).length === 0) {
+        throw new ResponseError(400, 'No se enviaron campos para actualizar');
+      }
+
+      const production = await productionService.updateMezcla(
+        new Types.ObjectId(id),
+        mezclaIndex,
+        req.body,
+        new Types.ObjectId(req.user.userId)
+      );
+
+      res.status(200).json({
+        ok: true,
+        message: `Mezcla ${mezclaIndex} actualizada y recalculada`,
+        data: production
+      });
+    } catch (error) {
+      if (error instanceof ResponseError) {
+        res.status(error.statusCode).json({
+          ok: false,
+          error: error.message
+        });
+      } else {
+        res.status(500).json({
+          ok: false,
+          error: 'Error al actualizar mezcla'
+        });
+      }
+    }
+  }
+
+  /**
+   * Eliminar una mezcla de una producción en estado CREADO
+   * DELETE /api/productions/:id/mezclas/:index
+   */
+  async removeMezcla(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new ResponseError(401, 'Usuario no autenticado');
+      }
+
+      const { id, index } = req.params;
+
+      if (!Types.ObjectId.isValid(id)) {
+        throw new ResponseError(400, 'ID inválido');
+      }
+
+      const mezclaIndex = parseInt(index);
+      if (isNaN(mezclaIndex) || mezclaIndex < 0) {
+        throw new ResponseError(400, 'Índice de mezcla inválido');
+      }
+
+      const production = await productionService.removeMezcla(
+        new Types.ObjectId(id),
+        mezclaIndex,
+        new Types.ObjectId(req.user.userId)
+      );
+
+      res.status(200).json({
+        ok: true,
+        message: `Mezcla ${mezclaIndex} eliminada`,
+        data: production
+      });
+    } catch (error) {
+      if (error instanceof ResponseError) {
+        res.status(error.statusCode).json({
+          ok: false,
+          error: error.message
+        });
+      } else {
+        res.status(500).json({
+          ok: false,
+          error: 'Error al eliminar mezcla'
+        });
+      }
+    }
+  }
+
+  /**
+   * Recalcular una producción con el motor actual y comparar contra lo guardado
+   * GET /api/productions/:id/recalculate
+   */
+  async recalculate(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      if (!Types.ObjectId.isValid(id)) {
+        throw new ResponseError(400, 'ID inválido');
+      }
+
+      const recalculo = await productionService.recalculateProduction(new Types.ObjectId(id));
+
+      res.status(200).json({
+        ok: true,
+        data: recalculo
+      });
+    } catch (error) {
+      if (error instanceof ResponseError) {
+        res.status(error.statusCode).json({
+          ok: false,
+          error: error.message
+        });
+      } else {
+        res.status(500).json({
+          ok: false,
+          error: 'Error al recalcular producción'
+        });
+      }
+    }
+  }
+
+  /**
+   * Obtener insumos consolidados compartiendo viales abiertos entre mezclas
+   * GET /api/productions/:id/insumos
+   */
+  async getInsumos(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      if (!Types.ObjectId.isValid(id)) {
+        throw new ResponseError(400, 'ID inválido');
+      }
+
+      const insumos = await productionService.consolidateInsumos(new Types.ObjectId(id));
+
+      res.status(200).json({
+        ok: true,
+        data: insumos
+      });
+    } catch (error) {
+      if (error instanceof ResponseError) {
+        res.status(error.statusCode).json({
+          ok: false,
+          error: error.message
+        });
+      } else {
+        res.status(500).json({
+          ok: false,
+          error: 'Error al consolidar insumos'
+        });
+      }
+    }
+  }
+
+  /**
+   * Obtener firmas electrónicas de una producción
+   * GET /api/productions/:id/signatures
+   */
+  async getSignatures(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      if (!Types.ObjectId.isValid(id)) {
+        throw new ResponseError(400, 'ID inválido');
+      }
+
+      const signatures = await signatureService.getSignaturesConImagen(new Types.ObjectId(id));
+
+      res.status(200).json({
+        ok: true,
+        data: signatures
+      });
+    } catch (error) {
+      if (error instanceof ResponseError) {
+        res.status(error.statusCode).json({
+          ok: false,
+          error: error.message
+        });
+      } else {
+        res.status(500).json({
+          ok: false,
+          error: 'Error al obtener firmas'
+        });
+      }
+    }
+  }
+
   /**
    * Avanzar producción al siguiente estado automáticamente
    * POST /api/productions/:id/advance
@@ -222,7 +578,9 @@ export class ProductionController {
         new Types.ObjectId(id),
         nextState,
         req.user.userId as any,
-        req.user.rolSistema
+        req.user.rolSistema,
+        undefined,
+        req.body?.firma
       );
 
       console.log('[ADVANCE] Avance exitoso:', {
@@ -268,7 +626,7 @@ export class ProductionController {
       }
 
       const { id } = req.params;
-      const { estado } = req.body;
+      const { estado, motivo, firma } = req.body;
 
       console.log('[TRANSITION] Iniciando transición:', {
         productionId: id,
@@ -289,7 +647,9 @@ export class ProductionController {
         new Types.ObjectId(id),
         estado,
         req.user.userId as any,
-        req.user.rolSistema
+        req.user.rolSistema,
+        motivo,
+        firma
       );
 
       console.log('[TRANSITION] Transición exitosa:', {
@@ -0,0 +1,173 @@
+import { Request, Response } from 'express';
+import { Types } from 'mongoose';
+import { scheduleService } from '@/services/schedule/schedule.service';
+import { ResponseError } from '@/utils/erros';
+
+/**
+ * Responde un error de programación respetando el código de ResponseError
+ */
+const sendScheduleError = (res: Response, error: unknown, mensaje: string): void => {
+  if (error instanceof ResponseError) {
+    res.status(error.statusCode).json({
+      ok: false,
+      error: error.message
+    });
+  } else {
+    res.status(500).json({
+      ok: false,
+      error: mensaje
+    });
+  }
+};
+
+export class ScheduleController {
+  /**
+   * Obtener el tablero de programación
+   * GET /api/schedule/board
+   */
+  async getBoard(req: Request, res: Response): Promise<void> {
+    try {
+      const tablero = await scheduleService.getBoard({
+        fecha: req.query.fecha as string | undefined,
+        vista: req.query.vista as string | undefined,
+        lineaProduccion: req.query.lineaProduccion as string | undefined
+      });
+
+      res.status(200).json({
+        ok: true,
+        data: tablero
+      });
+    } catch (error) {
+      sendScheduleError(res, error, 'Error al obtener tablero de programación');
+    }
+  }
+
+  /**
+   * Obtener recursos de programación (cabinas)
+   * GET /api/schedule/resources
+   */
+  async getResources(req: Request, res: Response): Promise<void> {
+    try {
+      const recursos = await scheduleService.listResources({
+        lineaProduccion: req.query.lineaProduccion as string | undefined,
+        habilitado: req.query.habilitado as string | undefined
+      });
+
+      res.status(200).json({
+        ok: true,
+        data: recursos
+      });
+    } catch (error) {
+      sendScheduleError(res, error, 'Error al obtener recursos');
+    }
+  }
+
+  /**
+   * Crear recurso de programación
+   * POST /api/schedule/resources
+   */
+  async createResource(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new ResponseError(401, 'Usuario no autenticado');
+      }
+
+      const recurso = await scheduleService.createResource(req.body, new Types.ObjectId(req.user.userId));
+
+      res.status(201).json({
+        ok: true,
+        message: 'Recurso creado exitosamente',
+        data: recurso
+      });
+    } catch (error) {
+      sendScheduleError(res, error, 'Error al crear recurso');
+    }
+  }
+
+  /**
+   * Actualizar recurso de programación
+   * PUT /api/schedule/resources/:id
+   */
+  async updateResource(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new ResponseError(401, 'Usuario no autenticado');
+      }
+
+      const recurso = await scheduleService.updateResource(
+        req.params.id,
+        req.body,
+        new Types.ObjectId(req.user.userId)
+      );
+
+      res.status(200).json({
+        ok: true,
+        message: 'Recurso actualizado exitosamente',
+        data: recurso
+      });
+    } catch (error) {
+      sendScheduleError(res, error, 'Error al actualizar recurso');
+    }
+  }
+
+  /**
+   * Asignar una producción a un turno
+   * POST /api/schedule/assignments
+   */
+  async assign(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new ResponseError(401, 'Usuario no autenticado');
+      }
+
+      const { productionId, recursoId, fecha, turno } = req.body || {};
+      if (!productionId || !recursoId || !fecha || !turno) {
+        throw new ResponseError(400, 'productionId, recursoId, fecha y turno son requeridos');
+      }
+
+      const asignacion = await scheduleService.assignProduction(
+        req.body,
+        new Types.ObjectId(req.user.userId),
+        req.user.rolSistema
+      );
+
+      res.status(201).json({
+        ok: true,
+        message: asignacion.sobrecupo
+          ? `Producción programada con sobrecupo en el turno ${asignacion.turno}`
+          : `Producción programada en el turno ${asignacion.turno}`,
+        data: asignacion
+      });
+    } catch (error) {
+      sendScheduleError(res, error, 'Error al programar producción');
+    }
+  }
+
+  /**
+   * Liberar la asignación de una producción
+   * DELETE /api/schedule/assignments/:id
+   */
+  async release(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new ResponseError(401, 'Usuario no autenticado');
+      }
+
+      const asignacion = await scheduleService.releaseAssignment(
+        req.params.id,
+        req.body?.motivo,
+        new Types.ObjectId(req.user.userId)
+      );
+
+      res.status(200).json({
+        ok: true,
+        message: 'Turno liberado',
+        data: asignacion
+      });
+    } catch (error) {
+      sendScheduleError(res, error, 'Error al liberar turno');
+    }
+  }
+}
+
+export const scheduleController = new ScheduleController();
@@ -90,11 +90,18 @@ const options: swaggerJsdoc.Options = {
             },
             firmaUrl: {
               type: 'string',
-              example: 'https://res.cloudinary.com/cloud_name/image/upload/v1234567890/firmas/RBOCNETT_43_977_097.png'
+              description: 'URL de la firma generada en cada consulta (no se guarda: en S3 vence)',
+              example: 'https://res.cloudinary.com/cloud_name/image/upload/v1234567890/firmas/RBOCNETT_43_977_097_1718000000000.png'
             },
             firmaPublicId: {
               type: 'string',
-              example: 'firmas/RBOCNETT_43_977_097'
+              description: 'Clave de la firma en el almacenamiento',
+              example: 'firmas/RBOCNETT_43_977_097_1718000000000'
+            },
+            firmaStorageDriver: {
+              type: 'string',
+              enum: ['cloudinary', 'local', 's3'],
+              description: 'Almacenamiento de la firma; sin valor en firmas anteriores (Cloudinary)'
             },
             rolSistema: {
               type: 'string',
@@ -151,7 +158,7 @@ const options: swaggerJsdoc.Options = {
             firma: {
               type: 'string',
               format: 'base64',
-              description: 'Firma en formato base64 (se subirá a Cloudinary automáticamente). Formato: data:image/png;base64,...',
+              description: 'Firma en formato base64 (se subirá al almacenamiento configurado automáticamente). Formato: data:image/png;base64,...',
               example: 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAA...'
             },
             password: {
@@ -253,12 +260,73 @@ const options: swaggerJsdoc.Options = {
             diagnostico: {
               type: 'string',
               example: 'Cáncer de pulmón - Estadio III'
+            },
+            peso: {
+              type: 'number',
+              description: 'Peso en kg',
+              example: 70
+            },
+            talla: {
+              type: 'number',
+              description: 'Talla en cm',
+              example: 170
+            },
+            sexo: {
+              type: 'string',
+              enum: ['M', 'F'],
+              example: 'M'
+            },
+            edad: {
+              type: 'number',
+              example: 58
+            }
+          }
+        },
+        Dosificacion: {
+          type: 'object',
+          required: ['tipo', 'dosisReferencia'],
+          description: 'Dosificación relativa; la dosis absoluta se deriva con los datos del paciente',
+          properties: {
+            tipo: {
+              type: 'string',
+              enum: ['ABSOLUTA', 'SUPERFICIE_CORPORAL', 'PESO', 'AUC_CALVERT'],
+              example: 'SUPERFICIE_CORPORAL'
+            },
+            dosisReferencia: {
+              type: 'number',
+              description: 'mg/m², mg/kg o AUC (mg/ml·min) según el tipo',
+              example: 75
+            },
+            formulaSC: {
+              type: 'string',
+              enum: ['MOSTELLER', 'DUBOIS'],
+              default: 'MOSTELLER'
+            },
+            superficieCorporalMaxima: {
+              type: 'number',
+              example: 2
+            },
+            dosisMaxima: {
+              type: 'number',
+              example: 150
+            },
+            tfg: {
+              type: 'number',
+              description: 'TFG en ml/min; si se omite se estima con Cockcroft-Gault'
+            },
+            creatininaSerica: {
+              type: 'number',
+              description: 'Creatinina sérica en mg/dl'
+            },
+            tfgMaxima: {
+              type: 'number',
+              default: 125
             }
           }
         },
         CreateMezclaRequest: {
           type: 'object',
-          required: ['paciente', 'medicamentoId', 'vehiculoId', 'envaseId', 'dosisPrescrita', 'unidadDosis'],
+          required: ['paciente', 'medicamentoId', 'vehiculoId', 'envaseId', 'unidadDosis'],
           properties: {
             paciente: {
               $ref: '#/components/schemas/Paciente'
@@ -281,8 +349,17 @@ const options: swaggerJsdoc.Options = {
             dosisPrescrita: {
               type: 'number',
               minimum: 0,
+              description: 'Dosis absoluta; requerida si no se envía dosificacion',
               example: 50
             },
+            dosificacion: {
+              $ref: '#/components/schemas/Dosificacion'
+            },
+            volumenVehiculo: {
+              type: 'number',
+              minimum: 0,
+              description: 'Volumen de vehículo manual; si se omite lo calcula el motor'
+            },
             unidadDosis: {
               type: 'string',
               example: 'mg'
@@ -292,9 +369,50 @@ const options: swaggerJsdoc.Options = {
               minimum: 1,
               default: 1,
               example: 1
+            },
+            criterioPresentacion: {
+              type: 'string',
+              enum: ['MENOS_UNIDADES', 'MENOR_DESPERDICIO'],
+              default: 'MENOS_UNIDADES',
+              description: 'Criterio para combinar las presentaciones del medicamento'
+            },
+            condicionAlmacenamiento: {
+              type: 'string',
+              example: 'Refrigerado 2-8°C, protegido de la luz',
+              description: 'Condiciones de la estabilidad que definen el vencimiento; obligatoria si la combinación tiene estabilidades para varias condiciones'
             }
           }
         },
+        UpdateMezclaRequest: {
+          type: 'object',
+          description: 'Campos a corregir; los omitidos se conservan. Enviar dosisPrescrita sin dosificacion reemplaza la dosificación por SC, peso o AUC',
+          properties: {
+            paciente: {
+              type: 'object',
+              description: 'Solo los datos del paciente a corregir',
+              properties: {
+                nombre: { type: 'string' },
+                documento: { type: 'string' },
+                aseguradora: { type: 'string' },
+                diagnostico: { type: 'string' },
+                peso: { type: 'number', example: 68 },
+                talla: { type: 'number' },
+                sexo: { type: 'string', enum: ['M', 'F'] },
+                edad: { type: 'number' }
+              }
+            },
+            medicamentoId: { type: 'string', format: 'ObjectId' },
+            vehiculoId: { type: 'string', format: 'ObjectId', example: '507f1f77bcf86cd799439013' },
+            envaseId: { type: 'string', format: 'ObjectId' },
+            dosisPrescrita: { type: 'number', minimum: 0, example: 45 },
+            dosificacion: { $ref: '#/components/schemas/Dosificacion' },
+            volumenVehiculo: { type: 'number', minimum: 0 },
+            unidadDosis: { type: 'string' },
+            cantidadMezclas: { type: 'number', minimum: 1 },
+            criterioPresentacion: { type: 'string', enum: ['MENOS_UNIDADES', 'MENOR_DESPERDICIO'] },
+            condicionAlmacenamiento: { type: 'string' }
+          }
+        },
         CreateProductionRequest: {
           type: 'object',
           required: ['lineaProduccion', 'mezclas'],
@@ -418,15 +536,132 @@ const options: swaggerJsdoc.Options = {
                   type: 'number',
                   example: 100
                 },
+                concentracionFinal: {
+                  type: 'number',
+                  example: 0.16
+                },
                 unidadesInsumo: {
                   type: 'number',
                   example: 1
+                },
+                presentaciones: {
+                  type: 'array',
+                  description: 'Unidades abiertas por presentación',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      volumen: { type: 'number', example: 4 },
+                      unidad: { type: 'string', example: 'ml' },
+                      tipoEnvase: { type: 'string', example: 'Ampolla' },
+                      volumenUnidad: { type: 'number', example: 4 },
+                      unidades: { type: 'number', example: 2 }
+                    }
+                  }
+                },
+                volumenDesperdicio: {
+                  type: 'number',
+                  example: 0
                 }
               }
             },
             loteMezcla: {
               type: 'string',
-              example: 'HG0117-160724-ET-01954'
+              example: 'HG241215-ET-00001'
+            },
+            advertencias: {
+              type: 'array',
+              description: 'Advertencias clínicas; deben aceptarse antes de VALIDADO',
+              items: {
+                type: 'object',
+                properties: {
+                  codigo: { type: 'string', example: 'DOSIS_ACUMULADA_EXCEDIDA' },
+                  mensaje: { type: 'string' },
+                  aceptada: { type: 'boolean', example: false },
+                  aceptadaPor: { type: 'string', format: 'ObjectId' },
+                  motivo: { type: 'string' },
+                  fechaAceptacion: { type: 'string', format: 'date-time' }
+                }
+              }
+            },
+            estado: {
+              type: 'string',
+              enum: ['PENDIENTE', 'PREPARADA', 'QC_APROBADA', 'RECHAZADA', 'ETIQUETADA'],
+              example: 'PENDIENTE'
+            },
+            historialEstado: {
+              type: 'array',
+              description: 'Cambios de estado de la mezcla con usuario y fecha',
+              items: {
+                type: 'object',
+                properties: {
+                  estadoAnterior: { type: 'string', example: 'PREPARADA' },
+                  estadoNuevo: { type: 'string', example: 'QC_APROBADA' },
+                  usuarioId: { type: 'string', format: 'ObjectId' },
+                  fecha: { type: 'string', format: 'date-time' },
+                  motivo: { type: 'string' }
+                }
+              }
+            },
+            snapshotCalculo: {
+              type: 'object',
+              description: 'Entrada del motor y versión con que se calculó la mezcla, para reproducir el resultado',
+              properties: {
+                versionMotor: { type: 'string', example: '1.0.0' },
+                fechaCalculo: { type: 'string', format: 'date-time' },
+                entrada: {
+                  type: 'object',
+                  properties: {
+                    dosisPrescrita: { type: 'number', example: 50 },
+                    unidadDosis: { type: 'string', example: 'mg' },
+                    concentracion: { type: 'string', example: '10mg/ml' },
+                    volumenPresentacion: { type: 'number' },
+                    unidadesPresentacion: { type: 'number' },
+                    horasEstabilidad: { type: 'number', example: 24 },
+                    fechaPreparacion: { type: 'string', format: 'date-time' },
+                    presentaciones: {
+                      type: 'array',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          volumen: { type: 'number' },
+                          unidad: { type: 'string' },
+                          cantidad: { type: 'number' },
+                          tipoEnvase: { type: 'string' }
+                        }
+                      }
+                    },
+                    criterioPresentacion: { type: 'string', enum: ['MENOS_UNIDADES', 'MENOR_DESPERDICIO'] },
+                    concentracionFinalMin: { type: 'number' },
+                    concentracionFinalMax: { type: 'number' },
+                    volumenesEstandar: { type: 'array', items: { type: 'number' } },
+                    volumenMaxEnvase: { type: 'number' },
+                    volumenVehiculo: { type: 'number', description: 'Solo si se fijó manualmente' }
+                  }
+                }
+              }
+            },
+            lotesInsumo: {
+              type: 'array',
+              description: 'Lotes del fabricante reservados al programar y consumidos al producir',
+              items: { $ref: '#/components/schemas/LoteInsumo' }
+            },
+            estabilidad: {
+              type: 'object',
+              description: 'Estabilidad usada para calcular el vencimiento',
+              properties: {
+                id: {
+                  type: 'string',
+                  format: 'ObjectId'
+                },
+                horasEstabilidad: {
+                  type: 'number',
+                  example: 24
+                },
+                condiciones: {
+                  type: 'string',
+                  example: 'Refrigerado 2-8°C'
+                }
+              }
             },
             fechaVencimiento: {
               type: 'string',
@@ -449,7 +684,7 @@ const options: swaggerJsdoc.Options = {
             },
             codigo: {
               type: 'string',
-              example: 'PROD-20241215-0001'
+              example: 'PROD-ON-20241215-0001'
             },
             fechaProduccion: {
               type: 'string',
@@ -485,23 +720,388 @@ const options: swaggerJsdoc.Options = {
             },
             estado: {
               type: 'string',
-              enum: ['CREADO', 'VALIDADO', 'CALCULADO', 'PROGRAMADO', 'PRODUCIDO', 'QC', 'ETIQUETADO', 'FINALIZADO'],
+              enum: ['CREADO', 'VALIDADO', 'CALCULADO', 'PROGRAMADO', 'PRODUCIDO', 'QC', 'ETIQUETADO', 'FINALIZADO', 'RECHAZADO', 'ANULADO'],
               example: 'CREADO'
             },
+            novedadesEstado: {
+              type: 'array',
+              description: 'Rechazos, retornos y anulaciones con su motivo',
+              items: {
+                type: 'object',
+                properties: {
+                  estadoAnterior: { type: 'string', example: 'QC' },
+                  estadoNuevo: { type: 'string', example: 'PRODUCIDO' },
+                  motivo: { type: 'string', example: 'Partículas visibles en la inspección' },
+                  usuarioId: { type: 'string', format: 'ObjectId' },
+                  fecha: { type: 'string', format: 'date-time' }
+                }
+              }
+            },
             versionMotorCalculo: {
               type: 'string',
               example: '1.0.0'
             }
           }
         },
+        CambiosCampo: {
+          type: 'object',
+          description: 'Diferencias por ruta de campo',
+          additionalProperties: {
+            type: 'object',
+            properties: {
+              anterior: {},
+              nuevo: {}
+            }
+          },
+          example: {
+            'calculos.volumenVehiculo': { anterior: 100, nuevo: 250 },
+            'calculos.presentaciones.0.unidades': { anterior: 2, nuevo: 1 }
+          }
+        },
+        RecalculoProduccion: {
+          type: 'object',
+          properties: {
+            productionId: { type: 'string', format: 'ObjectId' },
+            codigo: { type: 'string' },
+            estado: { type: 'string' },
+            versionMotorOriginal: { type: 'string', example: '1.0.0' },
+            versionMotorActual: { type: 'string', example: '1.0.0' },
+            hayDiferencias: { type: 'boolean' },
+            mezclas: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  mezclaIndex: { type: 'integer' },
+                  loteMezcla: { type: 'string' },
+                  versionMotorOriginal: { type: 'string' },
+                  conSnapshot: { type: 'boolean' },
+                  cambiosEntrada: { $ref: '#/components/schemas/CambiosCampo' },
+                  cambiosMotor: { $ref: '#/components/schemas/CambiosCampo' },
+                  cambiosResultado: { $ref: '#/components/schemas/CambiosCampo' },
+                  error: { type: 'string', description: 'El catálogo vigente ya no permite calcular la mezcla' }
+                }
+              }
+            }
+          }
+        },
+        ScheduleResource: {
+          type: 'object',
+          required: ['nombre', 'lineaProduccion', 'turnos'],
+          properties: {
+            _id: { type: 'string', format: 'ObjectId' },
+            nombre: { type: 'string', example: 'CABINA ONCO 1' },
+            tipo: {
+              type: 'string',
+              enum: ['CABINA_BIOSEGURIDAD', 'CAMPANA_FLUJO_LAMINAR'],
+              default: 'CABINA_BIOSEGURIDAD'
+            },
+            lineaProduccion: { type: 'string', enum: ['ONCO', 'ESTERIL'] },
+            turnos: {
+              type: 'array',
+              items: {
+                type: 'object',
+                required: ['nombre', 'horaInicio', 'horaFin', 'capacidadMezclas'],
+                properties: {
+                  nombre: { type: 'string', example: 'MAÑANA' },
+                  horaInicio: { type: 'string', example: '06:00' },
+                  horaFin: { type: 'string', example: '14:00', description: 'Si es menor que horaInicio el turno termina al día siguiente' },
+                  capacidadMezclas: { type: 'integer', minimum: 1, example: 12 }
+                }
+              }
+            },
+            habilitado: { type: 'boolean', default: true }
+          }
+        },
+        ScheduleAssignment: {
+          type: 'object',
+          properties: {
+            _id: { type: 'string', format: 'ObjectId' },
+            productionId: { type: 'string', format: 'ObjectId' },
+            recursoId: { type: 'string', format: 'ObjectId' },
+            fecha: { type: 'string', format: 'date-time' },
+            turno: { type: 'string', example: 'MAÑANA' },
+            inicio: { type: 'string', format: 'date-time' },
+            fin: { type: 'string', format: 'date-time' },
+            cantidadMezclas: { type: 'integer', example: 4 },
+            sobrecupo: { type: 'boolean' },
+            activa: { type: 'boolean' },
+            asignadoPor: { type: 'string', format: 'ObjectId' },
+            liberadaPor: { type: 'string', format: 'ObjectId' },
+            fechaLiberacion: { type: 'string', format: 'date-time' },
+            motivoLiberacion: { type: 'string' }
+          }
+        },
+        ScheduleBoard: {
+          type: 'object',
+          properties: {
+            vista: { type: 'string', enum: ['dia', 'semana'] },
+            desde: { type: 'string', format: 'date', example: '2026-10-19' },
+            hasta: { type: 'string', format: 'date', example: '2026-10-25' },
+            lineaProduccion: { type: 'string', enum: ['ONCO', 'ESTERIL'] },
+            turnosConSobrecupo: { type: 'integer', example: 1 },
+            dias: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  fecha: { type: 'string', format: 'date' },
+                  recursos: {
+                    type: 'array',
+                    items: {
+                      type: 'object',
+                      properties: {
+                        recursoId: { type: 'string', format: 'ObjectId' },
+                        nombre: { type: 'string' },
+                        tipo: { type: 'string' },
+                        lineaProduccion: { type: 'string' },
+                        turnos: {
+                          type: 'array',
+                          items: {
+                            type: 'object',
+                            properties: {
+                              nombre: { type: 'string' },
+                              horaInicio: { type: 'string' },
+                              horaFin: { type: 'string' },
+                              capacidad: { type: 'integer' },
+                              ocupado: { type: 'integer' },
+                              disponible: { type: 'integer' },
+                              sobrecupo: { type: 'boolean' },
+                              asignaciones: {
+                                type: 'array',
+                                items: {
+                                  type: 'object',
+                                  properties: {
+                                    asignacionId: { type: 'string', format: 'ObjectId' },
+                                    productionId: { type: 'string', format: 'ObjectId' },
+                                    codigo: { type: 'string' },
+                                    estado: { type: 'string' },
+                                    cantidadMezclas: { type: 'integer' },
+                                    sobrecupo: { type: 'boolean' }
+                                  }
+                                }
+                              }
+                            }
+                          }
+                        }
+                      }
+                    }
+                  }
+                }
+              }
+            },
+            pendientes: {
+              type: 'array',
+              description: 'Órdenes CALCULADO sin turno',
+              items: { $ref: '#/components/schemas/OrdenSinTurno' }
+            },
+            programadasSinTurno: {
+              type: 'array',
+              description: 'Órdenes PROGRAMADO sin asignación vigente',
+              items: { $ref: '#/components/schemas/OrdenSinTurno' }
+            }
+          }
+        },
+        OrdenSinTurno: {
+          type: 'object',
+          properties: {
+            productionId: { type: 'string', format: 'ObjectId' },
+            codigo: { type: 'string' },
+            estado: { type: 'string' },
+            lineaProduccion: { type: 'string' },
+            cantidadMezclas: { type: 'integer' },
+            fechaProduccion: { type: 'string', format: 'date-time' }
+          }
+        },
+        ConsolidadoInsumos: {
+          type: 'object',
+          properties: {
+            productionId: { type: 'string', format: 'ObjectId' },
+            codigo: { type: 'string' },
+            unidadesIndividual: { type: 'integer', description: 'Unidades calculando cada mezcla por separado', example: 6 },
+            unidadesCompartido: { type: 'integer', description: 'Unidades compartiendo viales abiertos', example: 4 },
+            unidadesAhorradas: { type: 'integer', example: 2 },
+            grupos: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  medicamentoId: { type: 'string', format: 'ObjectId' },
+                  medicamento: { type: 'string' },
+                  concentracion: { type: 'string' },
+                  horasEstabilidadViaAbierto: { type: 'number', description: '0: las unidades abiertas no se comparten' },
+                  inicioVentana: { type: 'string', format: 'date-time' },
+                  finVentana: { type: 'string', format: 'date-time' },
+                  mezclas: {
+                    type: 'array',
+                    items: {
+                      type: 'object',
+                      properties: {
+                        mezclaIndex: { type: 'integer' },
+                        loteMezcla: { type: 'string' },
+                        fechaPreparacion: { type: 'string', format: 'date-time' },
+                        volumenExtraer: { type: 'number' },
+                        unidadesIndividual: { type: 'integer' },
+                        vialAbiertoPor: { type: 'integer', description: 'Índice de la mezcla que abrió el vial que esta usa' },
+                        presentaciones: {
+                          type: 'array',
+                          description: 'Unidades que abre (y reserva) la mezcla; vacío si usa las abiertas por otra del grupo',
+                          items: {
+                            type: 'object',
+                            properties: {
+                              volumen: { type: 'number' },
+                              tipoEnvase: { type: 'string' },
+                              unidades: { type: 'integer' }
+                            }
+                          }
+                        }
+                      }
+                    }
+                  },
+                  volumenTotal: { type: 'number' },
+                  presentaciones: {
+                    type: 'array',
+                    items: {
+                      type: 'object',
+                      properties: {
+                        volumen: { type: 'number' },
+                        unidad: { type: 'string' },
+                        tipoEnvase: { type: 'string' },
+                        volumenUnidad: { type: 'number' },
+                        unidades: { type: 'integer' }
+                      }
+                    }
+                  },
+                  unidadesIndividual: { type: 'integer' },
+                  unidadesCompartido: { type: 'integer' },
+                  volumenDesperdicioIndividual: { type: 'number' },
+                  volumenDesperdicioCompartido: { type: 'number' }
+                }
+              }
+            }
+          }
+        },
+        LoteInsumo: {
+          type: 'object',
+          properties: {
+            loteId: { type: 'string', format: 'ObjectId' },
+            loteFabricante: { type: 'string', example: 'AB1234' },
+            fechaVencimiento: { type: 'string', format: 'date-time' },
+            volumenPresentacion: { type: 'number', example: 10 },
+            tipoEnvase: { type: 'string', example: 'Vial' },
+            unidades: { type: 'integer', example: 2, description: '0 si usa el vial abierto por otra mezcla' },
+            vialCompartidoDe: { type: 'string', description: 'Lote de la mezcla que abrió el vial compartido', example: 'HG241215-ONCO-00001' },
+            estado: { type: 'string', enum: ['RESERVADO', 'CONSUMIDO', 'LIBERADO'] },
+            fechaReserva: { type: 'string', format: 'date-time' },
+            fechaConsumo: { type: 'string', format: 'date-time' },
+            fechaLiberacion: { type: 'string', format: 'date-time' },
+            advertencia: { type: 'string', example: 'El lote AB1234 vence el 2026-10-20, antes que la mezcla (2026-10-21)' }
+          }
+        },
+        InventoryLot: {
+          type: 'object',
+          properties: {
+            _id: { type: 'string', format: 'ObjectId' },
+            medicamentoId: { type: 'string', format: 'ObjectId' },
+            presentacion: {
+              type: 'object',
+              properties: {
+                volumen: { type: 'number', example: 10 },
+                unidad: { type: 'string', example: 'ml' },
+                tipoEnvase: { type: 'string', example: 'Vial' }
+              }
+            },
+            loteFabricante: { type: 'string', example: 'AB1234' },
+            fechaVencimiento: { type: 'string', format: 'date-time' },
+            cantidadInicial: { type: 'integer', example: 50 },
+            cantidadDisponible: { type: 'integer', example: 42 },
+            cantidadReservada: { type: 'integer', example: 6 },
+            habilitado: { type: 'boolean', description: 'false para lotes en cuarentena' },
+            registradoPor: { type: 'string', format: 'ObjectId' }
+          }
+        },
+        InventoryMovement: {
+          type: 'object',
+          properties: {
+            loteId: { type: 'string', format: 'ObjectId' },
+            medicamentoId: { type: 'string', format: 'ObjectId' },
+            tipo: { type: 'string', enum: ['ENTRADA', 'AJUSTE', 'RESERVA', 'LIBERACION', 'CONSUMO'] },
+            cantidad: { type: 'integer', description: 'Unidades; negativa en ajustes que descuentan' },
+            productionId: { type: 'string', format: 'ObjectId' },
+            mezclaIndex: { type: 'integer' },
+            loteMezcla: { type: 'string' },
+            motivo: { type: 'string' },
+            usuarioId: { type: 'string', format: 'ObjectId' },
+            fecha: { type: 'string', format: 'date-time' }
+          }
+        },
+        StockPresentacion: {
+          type: 'object',
+          properties: {
+            medicamentoId: { type: 'string', format: 'ObjectId' },
+            medicamento: { type: 'string' },
+            volumen: { type: 'number' },
+            unidad: { type: 'string' },
+            tipoEnvase: { type: 'string' },
+            disponible: { type: 'integer', description: 'Unidades vigentes sin reservar' },
+            reservado: { type: 'integer' },
+            vencido: { type: 'integer', description: 'Unidades sin reservar de lotes vencidos' },
+            lotesVigentes: { type: 'integer' },
+            proximoVencimiento: { type: 'string', format: 'date-time' }
+          }
+        },
+        FirmaElectronica: {
+          type: 'object',
+          description: 'Requerida al pasar a VALIDADO, QC y FINALIZADO',
+          required: ['password', 'significado'],
+          properties: {
+            password: {
+              type: 'string',
+              format: 'password',
+              description: 'Contraseña del usuario reingresada para firmar'
+            },
+            significado: {
+              type: 'string',
+              enum: ['REVISADO', 'APROBADO'],
+              example: 'APROBADO'
+            }
+          }
+        },
+        Signature: {
+          type: 'object',
+          properties: {
+            _id: { type: 'string', format: 'ObjectId' },
+            productionId: { type: 'string', format: 'ObjectId' },
+            estado: { type: 'string', example: 'QC' },
+            usuarioId: { type: 'string', format: 'ObjectId' },
+            nombre: { type: 'string', example: 'SARA ARBELAEZ' },
+            cargo: { type: 'string', example: 'DIRECTORA TÉCNICA' },
+            tarjetaProfesional: { type: 'string' },
+            firmaPublicId: { type: 'string', description: 'Clave de la imagen de firma del usuario al firmar' },
+            firmaStorageDriver: { type: 'string', enum: ['cloudinary', 'local', 's3'] },
+            firmaUrl: { type: 'string', description: 'URL de la imagen de firma generada en cada consulta' },
+            significado: { type: 'string', enum: ['REVISADO', 'APROBADO'] },
+            hashContenido: { type: 'string', description: 'SHA-256 de la orden al momento de firmar' },
+            algoritmoHash: { type: 'string', example: 'SHA-256' },
+            fechaFirma: { type: 'string', format: 'date-time' }
+          }
+        },
         TransitionRequest: {
           type: 'object',
           required: ['estado'],
           properties: {
             estado: {
               type: 'string',
-              enum: ['VALIDADO', 'CALCULADO', 'PROGRAMADO', 'PRODUCIDO', 'QC', 'ETIQUETADO', 'FINALIZADO'],
+              enum: ['CREADO', 'VALIDADO', 'CALCULADO', 'PROGRAMADO', 'PRODUCIDO', 'QC', 'ETIQUETADO', 'FINALIZADO', 'RECHAZADO', 'ANULADO'],
               example: 'VALIDADO'
+            },
+            motivo: {
+              type: 'string',
+              description: 'Obligatorio para rechazos (RECHAZADO), anulaciones (ANULADO) y retornos a una etapa anterior (ej: QC → PRODUCIDO)',
+              example: 'Falla de hermeticidad detectada en QC'
+            },
+            firma: {
+              $ref: '#/components/schemas/FirmaElectronica'
             }
           }
         },
@@ -557,6 +1157,42 @@ const options: swaggerJsdoc.Options = {
               enum: ['ONCO', 'ESTERIL'],
               example: 'ONCO'
             },
+            concentracionFinalMin: {
+              type: 'number',
+              description: 'Concentración final mínima en el vehículo (unidad del principio activo por ml)',
+              example: 0.1
+            },
+            concentracionFinalMax: {
+              type: 'number',
+              description: 'Concentración final máxima en el vehículo (unidad del principio activo por ml)',
+              example: 1
+            },
+            dosisMaximaUnica: {
+              type: 'number',
+              description: 'Dosis máxima por administración (bloqueante)',
+              example: 200
+            },
+            dosisMaximaAcumulada: {
+              type: 'number',
+              description: 'Dosis máxima acumulada por paciente (advertencia)',
+              example: 1000
+            },
+            diasDosisAcumulada: {
+              type: 'number',
+              minimum: 1,
+              description: 'Ventana del ciclo en días: la dosis acumulada suma las órdenes programadas a menos de esos días de la nueva (vacío: toda la historia del paciente, para máximos de por vida)',
+              example: 21
+            },
+            unidadDosisMaxima: {
+              type: 'string',
+              default: 'mg',
+              example: 'mg'
+            },
+            horasEstabilidadViaAbierto: {
+              type: 'number',
+              description: 'Horas que un vial abierto se puede compartir entre mezclas de la misma orden (0 o vacío: no se comparte)',
+              example: 24
+            },
             habilitado: {
               type: 'boolean',
               example: true
@@ -613,6 +1249,42 @@ const options: swaggerJsdoc.Options = {
               enum: ['ONCO', 'ESTERIL'],
               example: 'ONCO'
             },
+            concentracionFinalMin: {
+              type: 'number',
+              description: 'Concentración final mínima en el vehículo (unidad del principio activo por ml)',
+              example: 0.1
+            },
+            concentracionFinalMax: {
+              type: 'number',
+              description: 'Concentración final máxima en el vehículo (unidad del principio activo por ml)',
+              example: 1
+            },
+            dosisMaximaUnica: {
+              type: 'number',
+              description: 'Dosis máxima por administración (bloqueante)',
+              example: 200
+            },
+            dosisMaximaAcumulada: {
+              type: 'number',
+              description: 'Dosis máxima acumulada por paciente (advertencia)',
+              example: 1000
+            },
+            diasDosisAcumulada: {
+              type: 'number',
+              minimum: 1,
+              description: 'Ventana del ciclo en días: la dosis acumulada suma las órdenes programadas a menos de esos días de la nueva (vacío: toda la historia del paciente, para máximos de por vida)',
+              example: 21
+            },
+            unidadDosisMaxima: {
+              type: 'string',
+              default: 'mg',
+              example: 'mg'
+            },
+            horasEstabilidadViaAbierto: {
+              type: 'number',
+              description: 'Horas que un vial abierto se puede compartir entre mezclas de la misma orden (0 o vacío: no se comparte)',
+              example: 24
+            },
             habilitado: {
               type: 'boolean',
               example: true
@@ -676,6 +1348,10 @@ const options: swaggerJsdoc.Options = {
                 enum: ['ONCO', 'ESTERIL']
               },
               example: ['ONCO', 'ESTERIL']
+            },
+            habilitado: {
+              type: 'boolean',
+              example: true
             }
           }
         },
@@ -712,9 +1388,19 @@ const options: swaggerJsdoc.Options = {
               type: 'number',
               example: 10
             },
+            volumenesEstandar: {
+              type: 'array',
+              items: { type: 'number' },
+              description: 'Volúmenes nominales de vehículo disponibles en ml',
+              example: [50, 100, 250]
+            },
             material: {
               type: 'string',
               example: 'Plástico'
+            },
+            habilitado: {
+              type: 'boolean',
+              example: true
             }
           }
         },
@@ -731,6 +1417,12 @@ const options: swaggerJsdoc.Options = {
               minimum: 0,
               example: 10
             },
+            volumenesEstandar: {
+              type: 'array',
+              items: { type: 'number' },
+              description: 'Volúmenes nominales de vehículo disponibles en ml',
+              example: [50, 100, 250]
+            },
             material: {
               type: 'string',
               example: 'Plástico'
@@ -768,6 +1460,36 @@ const options: swaggerJsdoc.Options = {
             condiciones: {
               type: 'string',
               example: 'Refrigerado 2-8°C, protegido de la luz'
+            },
+            habilitado: {
+              type: 'boolean',
+              example: true
+            }
+          }
+        },
+        StabilityImportResult: {
+          type: 'object',
+          properties: {
+            dryRun: { type: 'boolean', example: true },
+            aplicado: { type: 'boolean', example: false },
+            totalFilas: { type: 'integer', example: 120 },
+            filasValidas: { type: 'integer', example: 118 },
+            creadas: { type: 'integer', example: 40 },
+            actualizadas: { type: 'integer', example: 12 },
+            sinCambios: { type: 'integer', example: 66 },
+            errores: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  fila: { type: 'integer', example: 7 },
+                  errores: {
+                    type: 'array',
+                    items: { type: 'string' },
+                    example: ['Vehículo no encontrado: Dextrosa 10%']
+                  }
+                }
+              }
             }
           }
         },
@@ -822,13 +1544,59 @@ const options: swaggerJsdoc.Options = {
               enum: ['SOLICITUD', 'ORDEN', 'INSUMOS', 'QC', 'ETIQUETAS', 'ACTA'],
               example: 'SOLICITUD'
             },
-            fileUrl: {
+            storageDriver: {
+              type: 'string',
+              enum: ['cloudinary', 'local', 's3'],
+              description: 'Almacenamiento donde se guardó el PDF (STORAGE_DRIVER al generarlo)',
+              example: 'cloudinary'
+            },
+            downloadUrl: {
+              type: 'string',
+              description: 'Ruta de descarga autenticada; la clave y la URL del almacenamiento no se exponen',
+              example: '/documents/6650a1f77bcf86cd79943901/download'
+            },
+            hashArchivo: {
+              type: 'string',
+              description: 'SHA-256 del PDF al generarlo; ausente en documentos anteriores',
+              example: '9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08'
+            },
+            tamanoBytes: {
+              type: 'number',
+              example: 48213
+            },
+            version: {
+              type: 'number',
+              description: 'Número de versión dentro de la producción y el tipo',
+              example: 2
+            },
+            activo: {
+              type: 'boolean',
+              description: 'Solo la última versión de cada producción y tipo está activa',
+              example: true
+            },
+            motivoRegeneracion: {
+              type: 'string',
+              description: 'Motivo con que se generó esta versión (desde la versión 2)',
+              example: 'Corrección del volumen final de la mezcla 2'
+            },
+            versionAnterior: {
+              type: 'string',
+              format: 'ObjectId',
+              description: 'Versión que esta reemplazó'
+            },
+            reemplazadoPor: {
               type: 'string',
-              example: '/documents/solicitud-507f1f77bcf86cd799439011.pdf'
+              format: 'ObjectId',
+              description: 'Versión que reemplazó a esta'
+            },
+            reemplazadoEn: {
+              type: 'string',
+              format: 'date-time'
             },
             versionPlantilla: {
               type: 'string',
-              example: '1.0.0'
+              description: 'Versión de la plantilla del tipo con que se generó el documento',
+              example: '2.0.0'
             },
             generadoPor: {
               type: 'string',
@@ -895,6 +1663,14 @@ const options: swaggerJsdoc.Options = {
       {
         name: 'Audit',
         description: 'Endpoints para consulta de auditoría'
+      },
+      {
+        name: 'Schedule',
+        description: 'Programación de producción por cabina y turno'
+      },
+      {
+        name: 'Inventory',
+        description: 'Inventario de medicamentos por lote del fabricante'
       }
     ]
   },
@@ -3,7 +3,9 @@ import mongoose, { Schema, Document } from 'mongoose';
 export interface IContainer extends Document {
   tipo: string;
   volumenMax: number;
+  volumenesEstandar: number[]; // Volúmenes nominales de vehículo disponibles en ml (ej: 50, 100, 250)
   material: string;
+  habilitado: boolean;
   createdAt?: Date;
   updatedAt?: Date;
 }
@@ -11,7 +13,9 @@ export interface IContainer extends Document {
 const ContainerSchema = new Schema<IContainer>({
   tipo: { type: String, required: true, trim: true, unique: true },
   volumenMax: { type: Number, required: true, min: 0 },
-  material: { type: String, required: true, trim: true }
+  volumenesEstandar: { type: [Number], default: [] },
+  material: { type: String, required: true, trim: true },
+  habilitado: { type: Boolean, default: true }
 }, {
   timestamps: true
 });
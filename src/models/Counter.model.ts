@@ -0,0 +1,19 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface ICounter extends Document {
+  clave: string; // Alcance de la secuencia (ej: PROD-ON-20261019-, HG261019-ON-)
+  secuencia: number; // Último valor entregado
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const CounterSchema = new Schema<ICounter>({
+  clave: { type: String, required: true, trim: true, unique: true },
+  secuencia: { type: Number, required: true, min: 0, default: 0 }
+}, {
+  timestamps: true
+});
+
+// clave ya tiene índice por unique: true, no duplicar
+
+export const Counter = mongoose.model<ICounter>('Counter', CounterSchema);
@@ -1,4 +1,5 @@
 import mongoose, { Schema, Document as MongooseDocument, Types } from 'mongoose';
+import { StorageDriverName, STORAGE_DRIVERS } from '@/services/storage/storage.types';
 
 export type DocumentType = 
   | 'SOLICITUD' 
@@ -11,9 +12,19 @@ export type DocumentType =
 export interface IDocument extends MongooseDocument {
   productionId: Types.ObjectId;
   tipo: DocumentType;
-  fileUrl: string; // URL del documento en Cloudinary
-  filePublicId: string; // Public ID del documento en Cloudinary
+  storageDriver: StorageDriverName; // Almacenamiento donde se guardó el PDF
+  storageKey: string; // Clave del PDF dentro de ese almacenamiento
+  fileUrl?: string; // Solo en documentos anteriores: ya no se guarda, la descarga pasa por la API
+  hashArchivo?: string; // SHA-256 del PDF al generarlo (ausente en documentos anteriores)
+  tamanoBytes?: number;
   versionPlantilla: string;
+  // Cadena de versiones por producción y tipo (ausente en documentos anteriores al versionado)
+  version: number; // 1, 2, ... dentro de la producción y el tipo
+  activo: boolean; // Solo la última versión está activa
+  motivoRegeneracion?: string; // Obligatorio desde la versión 2
+  versionAnterior?: Types.ObjectId; // Versión que esta reemplazó
+  reemplazadoPor?: Types.ObjectId; // Versión que reemplazó a esta
+  reemplazadoEn?: Date;
   generadoPor: Types.ObjectId;
   generadoEn: Date;
   createdAt?: Date;
@@ -31,9 +42,23 @@ const DocumentSchema = new Schema<IDocument>({
     required: true, 
     enum: ['SOLICITUD', 'ORDEN', 'INSUMOS', 'QC', 'ETIQUETAS', 'ACTA'] 
   },
-  fileUrl: { type: String, required: true, trim: true }, // URL del documento en Cloudinary
-  filePublicId: { type: String, required: true, trim: true }, // Public ID del documento en Cloudinary
+  storageDriver: {
+    type: String,
+    required: true,
+    enum: STORAGE_DRIVERS,
+    default: 'cloudinary' // Documentos anteriores al almacenamiento configurable
+  },
+  storageKey: { type: String, required: true, trim: true, select: false },
+  fileUrl: { type: String, trim: true, select: false },
+  hashArchivo: { type: String, trim: true },
+  tamanoBytes: { type: Number, min: 0 },
   versionPlantilla: { type: String, required: true, trim: true },
+  version: { type: Number, required: true, min: 1 },
+  activo: { type: Boolean, required: true },
+  motivoRegeneracion: { type: String, trim: true },
+  versionAnterior: { type: Schema.Types.ObjectId, ref: 'Document' },
+  reemplazadoPor: { type: Schema.Types.ObjectId, ref: 'Document' },
+  reemplazadoEn: { type: Date },
   generadoPor: { 
     type: Schema.Types.ObjectId, 
     ref: 'User', 
@@ -44,7 +69,25 @@ const DocumentSchema = new Schema<IDocument>({
   timestamps: true
 });
 
+// Los documentos anteriores al almacenamiento configurable guardaban la clave de Cloudinary en filePublicId
+DocumentSchema.post('init', function (doc) {
+  const filePublicId = doc.get('filePublicId');
+  if (doc.isSelected('storageKey') && !doc.storageKey && filePublicId) {
+    doc.storageDriver = 'cloudinary';
+    doc.storageKey = filePublicId;
+  }
+});
+
 DocumentSchema.index({ productionId: 1, tipo: 1 });
+// Números de versión únicos y una sola versión activa por producción y tipo
+DocumentSchema.index(
+  { productionId: 1, tipo: 1, version: 1 },
+  { unique: true, partialFilterExpression: { version: { $exists: true } } }
+);
+DocumentSchema.index(
+  { productionId: 1, tipo: 1, activo: 1 },
+  { unique: true, partialFilterExpression: { activo: true } }
+);
 DocumentSchema.index({ generadoEn: -1 });
 
 export const Document = mongoose.model<IDocument>('Document', DocumentSchema);
@@ -0,0 +1,51 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+export interface IPresentacionLote {
+  volumen: number; // Volumen de la presentación en mL (debe existir en el medicamento)
+  unidad: string;
+  tipoEnvase: string; // Vial, ampolla, etc.
+}
+
+export interface IInventoryLot extends Document {
+  medicamentoId: Types.ObjectId;
+  presentacion: IPresentacionLote;
+  loteFabricante: string; // Lote impreso por el fabricante
+  fechaVencimiento: Date; // Vencimiento del fabricante
+  cantidadInicial: number; // Unidades (viales/ampollas) recibidas
+  cantidadDisponible: number; // Unidades libres para reservar
+  cantidadReservada: number; // Unidades reservadas por órdenes PROGRAMADO aún no producidas
+  habilitado: boolean; // false para lotes en cuarentena o retirados
+  registradoPor: Types.ObjectId;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const PresentacionLoteSchema = new Schema<IPresentacionLote>({
+  volumen: { type: Number, required: true, min: 0 },
+  unidad: { type: String, required: true, trim: true },
+  tipoEnvase: { type: String, required: true, trim: true }
+}, { _id: false });
+
+const InventoryLotSchema = new Schema<IInventoryLot>({
+  medicamentoId: { type: Schema.Types.ObjectId, ref: 'Medicine', required: true },
+  presentacion: { type: PresentacionLoteSchema, required: true },
+  loteFabricante: { type: String, required: true, trim: true, uppercase: true },
+  fechaVencimiento: { type: Date, required: true },
+  cantidadInicial: { type: Number, required: true, min: 1 },
+  cantidadDisponible: { type: Number, required: true, min: 0 },
+  cantidadReservada: { type: Number, required: true, min: 0, default: 0 },
+  habilitado: { type: Boolean, default: true },
+  registradoPor: { type: Schema.Types.ObjectId, ref: 'User', required: true }
+}, {
+  timestamps: true
+});
+
+// Búsqueda FEFO (primero en vencer, primero en salir) por medicamento y presentación
+InventoryLotSchema.index({ medicamentoId: 1, 'presentacion.volumen': 1, habilitado: 1, fechaVencimiento: 1 });
+// Un lote del fabricante se registra una sola vez por presentación
+InventoryLotSchema.index(
+  { medicamentoId: 1, loteFabricante: 1, 'presentacion.volumen': 1, 'presentacion.tipoEnvase': 1 },
+  { unique: true }
+);
+
+export const InventoryLot = mongoose.model<IInventoryLot>('InventoryLot', InventoryLotSchema);
@@ -0,0 +1,39 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+export type TipoMovimientoInventario = 'ENTRADA' | 'AJUSTE' | 'RESERVA' | 'LIBERACION' | 'CONSUMO';
+
+export interface IInventoryMovement extends Document {
+  loteId: Types.ObjectId;
+  medicamentoId: Types.ObjectId;
+  tipo: TipoMovimientoInventario;
+  cantidad: number; // Unidades; en AJUSTE puede ser negativa
+  productionId?: Types.ObjectId; // Orden que reservó, liberó o consumió
+  mezclaIndex?: number;
+  loteMezcla?: string;
+  motivo?: string; // Obligatorio en AJUSTE
+  usuarioId: Types.ObjectId;
+  fecha: Date;
+}
+
+const InventoryMovementSchema = new Schema<IInventoryMovement>({
+  loteId: { type: Schema.Types.ObjectId, ref: 'InventoryLot', required: true },
+  medicamentoId: { type: Schema.Types.ObjectId, ref: 'Medicine', required: true },
+  tipo: {
+    type: String,
+    required: true,
+    enum: ['ENTRADA', 'AJUSTE', 'RESERVA', 'LIBERACION', 'CONSUMO']
+  },
+  cantidad: { type: Number, required: true },
+  productionId: { type: Schema.Types.ObjectId, ref: 'Production' },
+  mezclaIndex: { type: Number, min: 0 },
+  loteMezcla: { type: String, trim: true },
+  motivo: { type: String, trim: true },
+  usuarioId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  fecha: { type: Date, required: true, default: Date.now }
+});
+
+// Kardex por lote y trazabilidad por orden
+InventoryMovementSchema.index({ loteId: 1, fecha: -1 });
+InventoryMovementSchema.index({ productionId: 1 });
+
+export const InventoryMovement = mongoose.model<IInventoryMovement>('InventoryMovement', InventoryMovementSchema);
@@ -14,6 +14,13 @@ export interface IMedicine extends Document {
   presentaciones: IPresentation[];
   viaAdministracion: string;
   lineaProductiva: 'ONCO' | 'ESTERIL';
+  concentracionFinalMin?: number; // Concentración final mínima en el vehículo (unidad del principio activo por ml)
+  concentracionFinalMax?: number; // Concentración final máxima en el vehículo (unidad del principio activo por ml)
+  dosisMaximaUnica?: number; // Dosis máxima por administración (bloqueante)
+  dosisMaximaAcumulada?: number; // Dosis máxima acumulada por paciente (advertencia)
+  diasDosisAcumulada?: number; // Ventana del ciclo en días para la dosis acumulada (vacío: toda la historia del paciente)
+  unidadDosisMaxima?: string; // Unidad de las dosis máximas (por defecto mg)
+  horasEstabilidadViaAbierto?: number; // Horas que un vial abierto se puede seguir usando para otras mezclas (0 o vacío: no se comparte)
   habilitado: boolean;
   createdAt?: Date;
   updatedAt?: Date;
@@ -37,6 +44,13 @@ const MedicineSchema = new Schema<IMedicine>({
     required: true, 
     enum: ['ONCO', 'ESTERIL'] 
   },
+  concentracionFinalMin: { type: Number, min: 0 },
+  concentracionFinalMax: { type: Number, min: 0 },
+  dosisMaximaUnica: { type: Number, min: 0 },
+  dosisMaximaAcumulada: { type: Number, min: 0 },
+  diasDosisAcumulada: { type: Number, min: 1 },
+  unidadDosisMaxima: { type: String, trim: true, default: 'mg' },
+  horasEstabilidadViaAbierto: { type: Number, min: 0 },
   habilitado: { type: Boolean, default: true }
 }, {
   timestamps: true
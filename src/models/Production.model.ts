@@ -1,4 +1,5 @@
 import mongoose, { Schema, Document, Types } from 'mongoose';
+import { TipoDosificacion } from '@/contracts/types/production.types';
 
 export type ProductionState = 
   | 'CREADO' 
@@ -8,15 +9,39 @@ export type ProductionState =
   | 'PRODUCIDO' 
   | 'QC' 
   | 'ETIQUETADO' 
-  | 'FINALIZADO';
+  | 'FINALIZADO'
+  | 'RECHAZADO'
+  | 'ANULADO';
 
 export type LineaProduccion = 'ONCO' | 'ESTERIL';
 
+// Estado individual de cada mezcla dentro de la orden
+export type EstadoMezcla = 'PENDIENTE' | 'PREPARADA' | 'QC_APROBADA' | 'RECHAZADA' | 'ETIQUETADA';
+
 export interface IPaciente {
   nombre: string;
   documento: string;
   aseguradora: string; // EPS o aseguradora del paciente
   diagnostico: string; // Diagnóstico del paciente
+  peso?: number; // Peso en kg
+  talla?: number; // Talla en cm
+  sexo?: 'M' | 'F';
+  edad?: number; // Edad en años
+}
+
+export interface IDosificacionMezcla {
+  tipo: TipoDosificacion;
+  dosisReferencia: number; // mg/m², mg/kg o AUC según el tipo
+  formulaSC?: 'MOSTELLER' | 'DUBOIS';
+  pesoKg?: number; // Peso usado en el cálculo
+  tallaCm?: number; // Talla usada en el cálculo
+  superficieCorporal?: number; // SC usada en el cálculo (m²), ya con tope si aplica
+  superficieCorporalMaxima?: number;
+  creatininaSerica?: number;
+  tfg?: number; // TFG usada en Calvert (ml/min), ya con tope si aplica
+  dosisCalculada: number; // Dosis derivada antes del tope de dosis máxima
+  dosisMaxima?: number;
+  topeAplicado: boolean;
 }
 
 export interface IMedicamentoMezcla {
@@ -40,12 +65,95 @@ export interface IVehiculoMezcla {
   volumenVehiculo: number; // Volumen del vehículo en mL
 }
 
+export interface IDesglosePresentacion {
+  volumen: number; // Volumen de la presentación en mL
+  unidad: string;
+  tipoEnvase: string;
+  volumenUnidad: number; // Volumen de cada unidad (vial/ampolla) en mL
+  unidades: number; // Unidades abiertas de esta presentación
+}
+
 export interface ICalculosMezcla {
   volumenExtraer: number; // Volumen a extraer del medicamento
   volumenMezcla: number; // Volumen de la mezcla (medicamento)
   volumenVehiculo: number; // Volumen del vehículo
   volumenTotal: number; // Volumen total final (mezcla + vehículo)
-  unidadesInsumo: number; // Unidades de insumo necesarias
+  concentracionFinal?: number; // Concentración final en el vehículo (unidad del principio activo por ml)
+  unidadesInsumo: number; // Unidades de insumo necesarias (suma del desglose)
+  presentaciones?: IDesglosePresentacion[]; // Unidades abiertas por presentación
+  volumenDesperdicio?: number; // Volumen sobrante de las unidades abiertas en mL
+}
+
+export interface IEstabilidadMezcla {
+  id: Types.ObjectId; // Registro de estabilidad usado para el vencimiento
+  horasEstabilidad: number;
+  condiciones: string; // Condición de almacenamiento (ej: Refrigerado 2-8°C)
+}
+
+export interface IAdvertenciaMezcla {
+  codigo: string; // Regla que generó la advertencia (ej: DOSIS_ACUMULADA_EXCEDIDA)
+  mensaje: string;
+  aceptada: boolean; // Un QF aceptó la advertencia
+  aceptadaPor?: Types.ObjectId;
+  motivo?: string; // Justificación registrada al aceptar
+  fechaAceptacion?: Date;
+}
+
+export interface ICambioEstadoMezcla {
+  estadoAnterior: EstadoMezcla;
+  estadoNuevo: EstadoMezcla;
+  usuarioId: Types.ObjectId;
+  fecha: Date;
+  motivo?: string; // Obligatorio al rechazar
+}
+
+export type EstadoLoteInsumo = 'RESERVADO' | 'CONSUMIDO' | 'LIBERADO';
+
+// Lote del fabricante reservado o consumido por la mezcla
+export interface ILoteInsumo {
+  loteId: Types.ObjectId;
+  loteFabricante: string;
+  fechaVencimiento: Date; // Vencimiento del fabricante
+  volumenPresentacion: number;
+  tipoEnvase: string;
+  unidades: number; // 0: usa el vial abierto por otra mezcla (vialCompartidoDe)
+  vialCompartidoDe?: string; // Lote de la mezcla que abrió el vial
+  estado: EstadoLoteInsumo;
+  fechaReserva: Date;
+  fechaConsumo?: Date;
+  fechaLiberacion?: Date;
+  advertencia?: string; // Ej: el lote vence antes que la mezcla
+}
+
+export interface IPresentacionEntrada {
+  volumen: number;
+  unidad: string;
+  cantidad: number;
+  tipoEnvase: string;
+}
+
+// Copia de la entrada del motor de cálculo (CalculationInput) tal como estaba al calcular
+export interface IEntradaCalculo {
+  dosisPrescrita: number;
+  unidadDosis: string;
+  concentracion: string;
+  volumenPresentacion: number;
+  unidadesPresentacion: number;
+  horasEstabilidad: number;
+  fechaPreparacion?: Date;
+  presentaciones?: IPresentacionEntrada[];
+  criterioPresentacion?: 'MENOS_UNIDADES' | 'MENOR_DESPERDICIO';
+  concentracionFinalMin?: number;
+  concentracionFinalMax?: number;
+  volumenesEstandar?: number[];
+  volumenMaxEnvase?: number;
+  volumenVehiculo?: number; // Solo si se fijó manualmente
+}
+
+export interface ISnapshotCalculo {
+  versionMotor: string; // Versión del motor que produjo los cálculos de la mezcla
+  entrada: IEntradaCalculo;
+  fechaCalculo: Date;
 }
 
 export interface IMezcla {
@@ -55,8 +163,15 @@ export interface IMezcla {
   vehiculo: IVehiculoMezcla;
   calculos: ICalculosMezcla;
   loteMezcla: string; // Lote específico de esta mezcla
-  fechaVencimiento: Date; // Fecha de vencimiento de esta mezcla
+  estabilidad?: IEstabilidadMezcla; // Estabilidad aplicada al calcular el vencimiento
+  fechaVencimiento: Date; // Fecha de vencimiento de esta mezcla (preparación + horas de estabilidad)
   cantidadMezclas: number; // Cantidad de mezclas para este paciente/medicamento
+  dosificacion?: IDosificacionMezcla; // Datos usados para derivar la dosis absoluta (mg/m², mg/kg, AUC)
+  advertencias?: IAdvertenciaMezcla[]; // Advertencias clínicas; deben aceptarse antes de VALIDADO
+  estado: EstadoMezcla; // Estado de la mezcla (preparada, QC, rechazada, etiquetada)
+  historialEstado: ICambioEstadoMezcla[]; // Quién y cuándo cambió el estado de la mezcla
+  snapshotCalculo?: ISnapshotCalculo; // Entrada y versión del motor para reproducir los cálculos
+  lotesInsumo?: ILoteInsumo[]; // Lotes del fabricante reservados al programar y consumidos al producir
 }
 
 export interface ITimestamps {
@@ -68,6 +183,16 @@ export interface ITimestamps {
   qc?: Date;
   etiquetado?: Date;
   finalizado?: Date;
+  rechazado?: Date;
+  anulado?: Date;
+}
+
+export interface INovedadEstado {
+  estadoAnterior: ProductionState;
+  estadoNuevo: ProductionState;
+  motivo: string; // Causa del rechazo, retorno o anulación (obligatoria)
+  usuarioId: Types.ObjectId;
+  fecha: Date;
 }
 
 export interface IProduction extends Document {
@@ -90,6 +215,9 @@ export interface IProduction extends Document {
   qcPor?: Types.ObjectId;
   etiquetadoPor?: Types.ObjectId;
   finalizadoPor?: Types.ObjectId;
+  rechazadoPor?: Types.ObjectId;
+  anuladoPor?: Types.ObjectId;
+  novedadesEstado: INovedadEstado[]; // Rechazos, retornos y anulaciones con su causa
   createdAt?: Date;
   updatedAt?: Date;
 }
@@ -98,7 +226,30 @@ const PacienteSchema = new Schema<IPaciente>({
   nombre: { type: String, required: true, trim: true },
   documento: { type: String, required: true, trim: true },
   aseguradora: { type: String, required: true, trim: true },
-  diagnostico: { type: String, required: true, trim: true }
+  diagnostico: { type: String, required: true, trim: true },
+  peso: { type: Number, min: 0 },
+  talla: { type: Number, min: 0 },
+  sexo: { type: String, enum: ['M', 'F'] },
+  edad: { type: Number, min: 0 }
+}, { _id: false });
+
+const DosificacionMezclaSchema = new Schema<IDosificacionMezcla>({
+  tipo: {
+    type: String,
+    required: true,
+    enum: ['ABSOLUTA', 'SUPERFICIE_CORPORAL', 'PESO', 'AUC_CALVERT']
+  },
+  dosisReferencia: { type: Number, required: true, min: 0 },
+  formulaSC: { type: String, enum: ['MOSTELLER', 'DUBOIS'] },
+  pesoKg: { type: Number, min: 0 },
+  tallaCm: { type: Number, min: 0 },
+  superficieCorporal: { type: Number, min: 0 },
+  superficieCorporalMaxima: { type: Number, min: 0 },
+  creatininaSerica: { type: Number, min: 0 },
+  tfg: { type: Number, min: 0 },
+  dosisCalculada: { type: Number, required: true, min: 0 },
+  dosisMaxima: { type: Number, min: 0 },
+  topeAplicado: { type: Boolean, default: false }
 }, { _id: false });
 
 const MedicamentoMezclaSchema = new Schema<IMedicamentoMezcla>({
@@ -122,12 +273,91 @@ const VehiculoMezclaSchema = new Schema<IVehiculoMezcla>({
   volumenVehiculo: { type: Number, required: true, min: 0 }
 }, { _id: false });
 
+const DesglosePresentacionSchema = new Schema<IDesglosePresentacion>({
+  volumen: { type: Number, required: true, min: 0 },
+  unidad: { type: String, required: true, trim: true },
+  tipoEnvase: { type: String, trim: true },
+  volumenUnidad: { type: Number, required: true, min: 0 },
+  unidades: { type: Number, required: true, min: 0 }
+}, { _id: false });
+
 const CalculosMezclaSchema = new Schema<ICalculosMezcla>({
   volumenExtraer: { type: Number, required: true, min: 0 },
   volumenMezcla: { type: Number, required: true, min: 0 },
   volumenVehiculo: { type: Number, required: true, min: 0 },
   volumenTotal: { type: Number, required: true, min: 0 },
-  unidadesInsumo: { type: Number, required: true, min: 0 }
+  concentracionFinal: { type: Number, min: 0 },
+  unidadesInsumo: { type: Number, required: true, min: 0 },
+  presentaciones: { type: [DesglosePresentacionSchema], default: [] },
+  volumenDesperdicio: { type: Number, min: 0 }
+}, { _id: false });
+
+const EstabilidadMezclaSchema = new Schema<IEstabilidadMezcla>({
+  id: { type: Schema.Types.ObjectId, ref: 'Stability', required: true },
+  horasEstabilidad: { type: Number, required: true, min: 0 },
+  condiciones: { type: String, required: true, trim: true }
+}, { _id: false });
+
+const AdvertenciaMezclaSchema = new Schema<IAdvertenciaMezcla>({
+  codigo: { type: String, required: true, trim: true },
+  mensaje: { type: String, required: true, trim: true },
+  aceptada: { type: Boolean, required: true, default: false },
+  aceptadaPor: { type: Schema.Types.ObjectId, ref: 'User' },
+  motivo: { type: String, trim: true },
+  fechaAceptacion: { type: Date }
+}, { _id: false });
+
+const CambioEstadoMezclaSchema = new Schema<ICambioEstadoMezcla>({
+  estadoAnterior: { type: String, required: true },
+  estadoNuevo: { type: String, required: true },
+  usuarioId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  fecha: { type: Date, required: true },
+  motivo: { type: String, trim: true }
+}, { _id: false });
+
+const LoteInsumoSchema = new Schema<ILoteInsumo>({
+  loteId: { type: Schema.Types.ObjectId, ref: 'InventoryLot', required: true },
+  loteFabricante: { type: String, required: true, trim: true },
+  fechaVencimiento: { type: Date, required: true },
+  volumenPresentacion: { type: Number, required: true },
+  tipoEnvase: { type: String, trim: true },
+  unidades: { type: Number, required: true, min: 0 },
+  vialCompartidoDe: { type: String, trim: true },
+  estado: { type: String, required: true, enum: ['RESERVADO', 'CONSUMIDO', 'LIBERADO'] },
+  fechaReserva: { type: Date, required: true },
+  fechaConsumo: { type: Date },
+  fechaLiberacion: { type: Date },
+  advertencia: { type: String, trim: true }
+}, { _id: false });
+
+const PresentacionEntradaSchema = new Schema<IPresentacionEntrada>({
+  volumen: { type: Number, required: true, min: 0 },
+  unidad: { type: String, required: true, trim: true },
+  cantidad: { type: Number, required: true, min: 0 },
+  tipoEnvase: { type: String, trim: true }
+}, { _id: false });
+
+const EntradaCalculoSchema = new Schema<IEntradaCalculo>({
+  dosisPrescrita: { type: Number, required: true, min: 0 },
+  unidadDosis: { type: String, required: true, trim: true },
+  concentracion: { type: String, required: true, trim: true },
+  volumenPresentacion: { type: Number, required: true, min: 0 },
+  unidadesPresentacion: { type: Number, required: true, min: 0 },
+  horasEstabilidad: { type: Number, required: true, min: 0 },
+  fechaPreparacion: { type: Date },
+  presentaciones: { type: [PresentacionEntradaSchema], default: undefined },
+  criterioPresentacion: { type: String, enum: ['MENOS_UNIDADES', 'MENOR_DESPERDICIO'] },
+  concentracionFinalMin: { type: Number },
+  concentracionFinalMax: { type: Number },
+  volumenesEstandar: { type: [Number], default: undefined },
+  volumenMaxEnvase: { type: Number },
+  volumenVehiculo: { type: Number }
+}, { _id: false });
+
+const SnapshotCalculoSchema = new Schema<ISnapshotCalculo>({
+  versionMotor: { type: String, required: true, trim: true },
+  entrada: { type: EntradaCalculoSchema, required: true },
+  fechaCalculo: { type: Date, required: true }
 }, { _id: false });
 
 const MezclaSchema = new Schema<IMezcla>({
@@ -137,8 +367,20 @@ const MezclaSchema = new Schema<IMezcla>({
   vehiculo: { type: VehiculoMezclaSchema, required: true },
   calculos: { type: CalculosMezclaSchema, required: true },
   loteMezcla: { type: String, required: true, trim: true },
+  estabilidad: { type: EstabilidadMezclaSchema },
   fechaVencimiento: { type: Date, required: true },
-  cantidadMezclas: { type: Number, required: true, min: 1, default: 1 }
+  cantidadMezclas: { type: Number, required: true, min: 1, default: 1 },
+  dosificacion: { type: DosificacionMezclaSchema },
+  advertencias: { type: [AdvertenciaMezclaSchema], default: [] },
+  estado: {
+    type: String,
+    required: true,
+    enum: ['PENDIENTE', 'PREPARADA', 'QC_APROBADA', 'RECHAZADA', 'ETIQUETADA'],
+    default: 'PENDIENTE'
+  },
+  historialEstado: { type: [CambioEstadoMezclaSchema], default: [] },
+  snapshotCalculo: { type: SnapshotCalculoSchema },
+  lotesInsumo: { type: [LoteInsumoSchema], default: [] }
 }, { _id: false });
 
 const TimestampsSchema = new Schema<ITimestamps>({
@@ -149,7 +391,17 @@ const TimestampsSchema = new Schema<ITimestamps>({
   producido: { type: Date },
   qc: { type: Date },
   etiquetado: { type: Date },
-  finalizado: { type: Date }
+  finalizado: { type: Date },
+  rechazado: { type: Date },
+  anulado: { type: Date }
+}, { _id: false });
+
+const NovedadEstadoSchema = new Schema<INovedadEstado>({
+  estadoAnterior: { type: String, required: true },
+  estadoNuevo: { type: String, required: true },
+  motivo: { type: String, required: true, trim: true },
+  usuarioId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  fecha: { type: Date, required: true }
 }, { _id: false });
 
 const ProductionSchema = new Schema<IProduction>({
@@ -169,7 +421,7 @@ const ProductionSchema = new Schema<IProduction>({
   estado: { 
     type: String, 
     required: true, 
-    enum: ['CREADO', 'VALIDADO', 'CALCULADO', 'PROGRAMADO', 'PRODUCIDO', 'QC', 'ETIQUETADO', 'FINALIZADO'],
+    enum: ['CREADO', 'VALIDADO', 'CALCULADO', 'PROGRAMADO', 'PRODUCIDO', 'QC', 'ETIQUETADO', 'FINALIZADO', 'RECHAZADO', 'ANULADO'],
     default: 'CREADO'
   },
   versionMotorCalculo: { type: String, trim: true },
@@ -185,7 +437,10 @@ const ProductionSchema = new Schema<IProduction>({
   producidoPor: { type: Schema.Types.ObjectId, ref: 'User' },
   qcPor: { type: Schema.Types.ObjectId, ref: 'User' },
   etiquetadoPor: { type: Schema.Types.ObjectId, ref: 'User' },
-  finalizadoPor: { type: Schema.Types.ObjectId, ref: 'User' }
+  finalizadoPor: { type: Schema.Types.ObjectId, ref: 'User' },
+  rechazadoPor: { type: Schema.Types.ObjectId, ref: 'User' },
+  anuladoPor: { type: Schema.Types.ObjectId, ref: 'User' },
+  novedadesEstado: { type: [NovedadEstadoSchema], default: [] }
 }, {
   timestamps: true
 });
@@ -197,5 +452,6 @@ ProductionSchema.index({ fechaProduccion: -1 });
 ProductionSchema.index({ createdAt: -1 });
 ProductionSchema.index({ 'mezclas.paciente.documento': 1 });
 ProductionSchema.index({ 'mezclas.medicamento.id': 1 });
+ProductionSchema.index({ 'mezclas.loteMezcla': 1 });
 
 export const Production = mongoose.model<IProduction>('Production', ProductionSchema);
@@ -0,0 +1,48 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+export interface IScheduleAssignment extends Document {
+  productionId: Types.ObjectId;
+  recursoId: Types.ObjectId;
+  fecha: Date; // Día del turno (inicio del día)
+  turno: string; // Nombre del turno del recurso
+  inicio: Date; // Fecha y hora de inicio del turno
+  fin: Date; // Fecha y hora de fin del turno
+  cantidadMezclas: number; // Mezclas de la orden al momento de asignar
+  sobrecupo: boolean; // Se asignó superando la capacidad del turno
+  activa: boolean; // false cuando se reprograma, se libera o la orden se anula
+  asignadoPor: Types.ObjectId;
+  liberadaPor?: Types.ObjectId;
+  fechaLiberacion?: Date;
+  motivoLiberacion?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const ScheduleAssignmentSchema = new Schema<IScheduleAssignment>({
+  productionId: { type: Schema.Types.ObjectId, ref: 'Production', required: true },
+  recursoId: { type: Schema.Types.ObjectId, ref: 'ScheduleResource', required: true },
+  fecha: { type: Date, required: true },
+  turno: { type: String, required: true, trim: true, uppercase: true },
+  inicio: { type: Date, required: true },
+  fin: { type: Date, required: true },
+  cantidadMezclas: { type: Number, required: true, min: 1 },
+  sobrecupo: { type: Boolean, required: true, default: false },
+  activa: { type: Boolean, required: true, default: true },
+  asignadoPor: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  liberadaPor: { type: Schema.Types.ObjectId, ref: 'User' },
+  fechaLiberacion: { type: Date },
+  motivoLiberacion: { type: String, trim: true }
+}, {
+  timestamps: true
+});
+
+// Ocupación de un turno y tablero por rango de fechas
+ScheduleAssignmentSchema.index({ recursoId: 1, fecha: 1, turno: 1, activa: 1 });
+ScheduleAssignmentSchema.index({ fecha: 1, activa: 1 });
+// Una sola asignación vigente por orden
+ScheduleAssignmentSchema.index(
+  { productionId: 1 },
+  { unique: true, partialFilterExpression: { activa: true } }
+);
+
+export const ScheduleAssignment = mongoose.model<IScheduleAssignment>('ScheduleAssignment', ScheduleAssignmentSchema);
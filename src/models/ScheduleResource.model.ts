@@ -0,0 +1,48 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { LineaProduccion } from './Production.model';
+
+export type TipoRecurso = 'CABINA_BIOSEGURIDAD' | 'CAMPANA_FLUJO_LAMINAR';
+
+export interface ITurno {
+  nombre: string; // Ej: MAÑANA, TARDE, NOCHE
+  horaInicio: string; // HH:mm
+  horaFin: string; // HH:mm; si es menor que horaInicio el turno termina al día siguiente
+  capacidadMezclas: number; // Mezclas que se pueden preparar en el turno
+}
+
+export interface IScheduleResource extends Document {
+  nombre: string; // Identificación de la cabina (ej: CABINA ONCO 1)
+  tipo: TipoRecurso;
+  lineaProduccion: LineaProduccion;
+  turnos: ITurno[];
+  habilitado: boolean;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const TurnoSchema = new Schema<ITurno>({
+  nombre: { type: String, required: true, trim: true, uppercase: true },
+  horaInicio: { type: String, required: true, match: /^([01]\d|2[0-3]):[0-5]\d$/ },
+  horaFin: { type: String, required: true, match: /^([01]\d|2[0-3]):[0-5]\d$/ },
+  capacidadMezclas: { type: Number, required: true, min: 1 }
+}, { _id: false });
+
+const ScheduleResourceSchema = new Schema<IScheduleResource>({
+  nombre: { type: String, required: true, trim: true, unique: true },
+  tipo: {
+    type: String,
+    required: true,
+    enum: ['CABINA_BIOSEGURIDAD', 'CAMPANA_FLUJO_LAMINAR'],
+    default: 'CABINA_BIOSEGURIDAD'
+  },
+  lineaProduccion: { type: String, required: true, enum: ['ONCO', 'ESTERIL'] },
+  turnos: { type: [TurnoSchema], required: true, default: [] },
+  habilitado: { type: Boolean, default: true }
+}, {
+  timestamps: true
+});
+
+// nombre ya tiene índice por unique: true, no duplicar
+ScheduleResourceSchema.index({ lineaProduccion: 1, habilitado: 1 });
+
+export const ScheduleResource = mongoose.model<IScheduleResource>('ScheduleResource', ScheduleResourceSchema);
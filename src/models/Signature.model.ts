@@ -0,0 +1,58 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import { ProductionState } from './Production.model';
+import { StorageDriverName, STORAGE_DRIVERS } from '@/services/storage/storage.types';
+
+// Significado de la firma electrónica (21 CFR Part 11 §11.50)
+export type SignificadoFirma = 'REVISADO' | 'APROBADO';
+
+export interface ISignature extends Document {
+  productionId: Types.ObjectId;
+  estado: ProductionState; // Transición firmada (VALIDADO, QC, FINALIZADO)
+  usuarioId: Types.ObjectId;
+  nombre: string; // Nombre del firmante al momento de firmar
+  cargo: string;
+  tarjetaProfesional?: string;
+  firmaPublicId?: string; // Clave de la imagen de la firma manuscrita del usuario al firmar
+  firmaStorageDriver?: StorageDriverName;
+  firmaUrl?: string; // Solo en firmas anteriores: la URL vence, se genera al leer con firmaPublicId
+  significado: SignificadoFirma;
+  hashContenido: string; // SHA-256 del contenido de la orden al momento de firmar
+  algoritmoHash: string;
+  fechaFirma: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const SignatureSchema = new Schema<ISignature>({
+  productionId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Production',
+    required: true
+  },
+  estado: { type: String, required: true },
+  usuarioId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  nombre: { type: String, required: true, trim: true },
+  cargo: { type: String, required: true, trim: true },
+  tarjetaProfesional: { type: String, trim: true },
+  firmaPublicId: { type: String, trim: true },
+  firmaStorageDriver: { type: String, enum: STORAGE_DRIVERS },
+  firmaUrl: { type: String, trim: true, select: false }, // Ya no se guarda; no se expone
+  significado: {
+    type: String,
+    required: true,
+    enum: ['REVISADO', 'APROBADO']
+  },
+  hashContenido: { type: String, required: true, trim: true },
+  algoritmoHash: { type: String, required: true, default: 'SHA-256' },
+  fechaFirma: { type: Date, required: true, default: Date.now }
+}, {
+  timestamps: true
+});
+
+SignatureSchema.index({ productionId: 1, fechaFirma: 1 });
+
+export const Signature = mongoose.model<ISignature>('Signature', SignatureSchema);
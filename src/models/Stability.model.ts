@@ -7,6 +7,7 @@ export interface IStability extends Document {
   envaseId: Types.ObjectId;
   horasEstabilidad: number;
   condiciones: string;
+  habilitado: boolean;
   createdAt?: Date;
   updatedAt?: Date;
 }
@@ -33,14 +34,16 @@ const StabilitySchema = new Schema<IStability>({
     required: true 
   },
   horasEstabilidad: { type: Number, required: true, min: 0 },
-  condiciones: { type: String, required: true, trim: true }
+  condiciones: { type: String, required: true, trim: true },
+  habilitado: { type: Boolean, default: true }
 }, {
   timestamps: true
 });
 
-// Índice único para la combinación de medicamento + laboratorio + vehículo + envase
+// Índice único por combinación y condición de almacenamiento: la misma combinación
+// puede tener estabilidades distintas (ej: refrigerada y a temperatura ambiente)
 StabilitySchema.index(
-  { medicamentoId: 1, laboratorioId: 1, vehiculoId: 1, envaseId: 1 },
+  { medicamentoId: 1, laboratorioId: 1, vehiculoId: 1, envaseId: 1, condiciones: 1 },
   { unique: true }
 );
 
@@ -1,4 +1,5 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import { StorageDriverName, STORAGE_DRIVERS } from '@/services/storage/storage.types';
 
 export type UserRole = 'AUXILIAR' | 'QUIMICO' | 'COORDINADOR' | 'AUDITOR';
 
@@ -11,8 +12,9 @@ export interface IUser extends Document {
   cargo: string; // COORDINADOR DE PRODUCCIÓN, DIRECTORA TÉCNICA, etc.
   identificacion: string; // Cédula (ej: 43.977.097)
   tarjetaProfesional?: string; // Número de tarjeta profesional
-  firmaUrl?: string; // URL de la firma en Cloudinary
-  firmaPublicId?: string; // Public ID de la firma en Cloudinary
+  firmaUrl?: string; // Solo en usuarios anteriores: la URL vence, se genera al leer con firmaPublicId
+  firmaPublicId?: string; // Clave de la firma en el almacenamiento
+  firmaStorageDriver?: StorageDriverName; // Almacenamiento donde se guardó la firma
   hashPassword: string;
   rolSistema: UserRole; // Rol de permisos en el sistema
   activo: boolean;
@@ -42,8 +44,9 @@ const UserSchema = new Schema<IUser>({
   cargo: { type: String, required: true, trim: true },
   identificacion: { type: String, required: true, trim: true },
   tarjetaProfesional: { type: String, trim: true },
-  firmaUrl: { type: String, trim: true }, // URL de la firma en Cloudinary
-  firmaPublicId: { type: String, trim: true }, // Public ID de la firma en Cloudinary
+  firmaUrl: { type: String, trim: true, select: false }, // Ya no se guarda; no se expone
+  firmaPublicId: { type: String, trim: true }, // Clave de la firma en el almacenamiento
+  firmaStorageDriver: { type: String, enum: STORAGE_DRIVERS }, // Sin valor: firma anterior, en Cloudinary
   hashPassword: { type: String, required: true },
   rolSistema: { 
     type: String, 
@@ -3,6 +3,7 @@ import mongoose, { Schema, Document } from 'mongoose';
 export interface IVehicle extends Document {
   nombre: string;
   compatibleConLinea: ('ONCO' | 'ESTERIL')[];
+  habilitado: boolean;
   createdAt?: Date;
   updatedAt?: Date;
 }
@@ -13,7 +14,8 @@ const VehicleSchema = new Schema<IVehicle>({
     type: [String], 
     required: true, 
     enum: ['ONCO', 'ESTERIL'] 
-  }
+  },
+  habilitado: { type: Boolean, default: true }
 }, {
   timestamps: true
 });
@@ -8,6 +8,12 @@ export { Production, IProduction, ProductionState, IPaciente, ITimestamps } from
 export { User, IUser, UserRole } from './User.model';
 export { Document, IDocument, DocumentType } from './Document.model';
 export { AuditLog, IAuditLog } from './AuditLog.model';
+export { Counter, ICounter } from './Counter.model';
+export { Signature, ISignature, SignificadoFirma } from './Signature.model';
+export { ScheduleResource, IScheduleResource, ITurno, TipoRecurso } from './ScheduleResource.model';
+export { ScheduleAssignment, IScheduleAssignment } from './ScheduleAssignment.model';
+export { InventoryLot, IInventoryLot, IPresentacionLote } from './InventoryLot.model';
+export { InventoryMovement, IInventoryMovement, TipoMovimientoInventario } from './InventoryMovement.model';
 
 
 
@@ -3,6 +3,7 @@ import { catalogController } from '@/controllers/catalog.controller';
 import { authenticate, authorize } from '@/middlewares/auth.middleware';
 import { cacheMiddleware, invalidateCache } from '@/middlewares/cache.middleware';
 import { UserRole } from '@/models/User.model';
+import { upload } from '@/middlewares/multer';
 
 const router: Router = Router();
 
@@ -51,6 +52,55 @@ const router: Router = Router();
 // Caché: 1 hora (3600 segundos) - Catálogo de medicamentos es crítico y cambia poco
 router.get('/medicines', authenticate, cacheMiddleware(3600, 'medicines'), catalogController.getMedicines.bind(catalogController));
 
+/**
+ * @swagger
+ * /catalog/medicines/export:
+ *   get:
+ *     summary: Exporta los medicamentos
+ *     description: Acepta los mismos filtros que el listado. Cada exportación queda registrada en auditoría
+ *     tags: [Catalog]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: formato
+ *         schema:
+ *           type: string
+ *           enum: [csv, xlsx, json]
+ *           default: csv
+ *       - in: query
+ *         name: habilitado
+ *         schema:
+ *           type: boolean
+ *       - in: query
+ *         name: lineaProductiva
+ *         schema:
+ *           type: string
+ *           enum: [ONCO, ESTERIL]
+ *     responses:
+ *       200:
+ *         description: Archivo medicamentos_AAAAMMDD_HHmmss con el formato solicitado
+ *         content:
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *           application/vnd.openxmlformats-officedocument.spreadsheetml.sheet:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 type: object
+ *       400:
+ *         description: Formato o filtro inválido
+ *       401:
+ *         description: No autenticado
+ */
+// Sin caché: cada exportación debe quedar en auditoría
+router.get('/medicines/export', authenticate, catalogController.export('Medicine'));
+
 /**
  * @swagger
  * /catalog/medicines:
@@ -111,21 +161,21 @@ router.post(
 
 /**
  * @swagger
- * /catalog/labs:
+ * /catalog/medicines/{id}:
  *   get:
- *     summary: Obtiene todos los laboratorios
+ *     summary: Obtiene el medicamento por ID
  *     tags: [Catalog]
  *     security:
  *       - bearerAuth: []
  *     parameters:
- *       - in: query
- *         name: habilitado
+ *       - in: path
+ *         name: id
+ *         required: true
  *         schema:
- *           type: boolean
- *         description: Filtrar por estado habilitado
+ *           type: string
  *     responses:
  *       200:
- *         description: Lista de laboratorios
+ *         description: Detalle de el medicamento
  *         content:
  *           application/json:
  *             schema:
@@ -135,115 +185,173 @@ router.post(
  *                   type: boolean
  *                   example: true
  *                 data:
- *                   type: array
- *                   items:
- *                     $ref: '#/components/schemas/Lab'
- *       401:
- *         description: No autenticado
- */
-// Caché: 1 hora - Catálogo de laboratorios es crítico y cambia poco
-router.get('/labs', authenticate, cacheMiddleware(3600, 'labs'), catalogController.getLabs.bind(catalogController));
-
-/**
- * @swagger
- * /catalog/labs:
- *   post:
- *     summary: Crea un nuevo laboratorio
+ *                   $ref: '#/components/schemas/Medicine'
+ *       400:
+ *         description: ID inválido
+ *       404:
+ *         description: Registro no encontrado
+ *   put:
+ *     summary: Reemplaza el medicamento
+ *     description: |
+ *       El cuerpo es el registro completo: se validan los campos requeridos y los opcionales omitidos
+ *       se eliminan o vuelven a su valor por defecto. Si no se envía habilitado se conserva el actual.
+ *       Para modificar solo algunos campos use PATCH.
  *     tags: [Catalog]
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
  *     requestBody:
  *       required: true
  *       content:
  *         application/json:
  *           schema:
- *             $ref: '#/components/schemas/CreateLabRequest'
+ *             $ref: '#/components/schemas/Medicine'
  *     responses:
- *       201:
- *         description: Laboratorio creado exitosamente
- *       401:
- *         description: No autenticado
+ *       200:
+ *         description: Registro actualizado (los cambios quedan en auditoría)
+ *       400:
+ *         description: Datos inválidos
  *       403:
  *         description: Sin permisos (requiere rol COORDINADOR)
- */
-// Invalidar caché al crear laboratorio
-router.post(
-  '/labs',
-  authenticate,
-  authorize('COORDINADOR'),
-  invalidateCache('labs'),
-  catalogController.createLab.bind(catalogController)
-);
-
-/**
- * @swagger
- * /catalog/vehicles:
- *   get:
- *     summary: Obtiene todos los vehículos
+ *       404:
+ *         description: Registro no encontrado
+ *       409:
+ *         description: Registro duplicado
+ *   patch:
+ *     summary: Actualiza parcialmente el medicamento
  *     tags: [Catalog]
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
  *     responses:
  *       200:
- *         description: Lista de vehículos
- *         content:
- *           application/json:
- *             schema:
- *               type: object
- *               properties:
- *                 ok:
- *                   type: boolean
- *                   example: true
- *                 data:
- *                   type: array
- *                   items:
- *                     $ref: '#/components/schemas/Vehicle'
+ *         description: Registro actualizado (los cambios quedan en auditoría)
+ *       400:
+ *         description: Datos inválidos
+ *       403:
+ *         description: Sin permisos (requiere rol COORDINADOR)
+ *       404:
+ *         description: Registro no encontrado
+ *   delete:
+ *     summary: Deshabilita el medicamento (borrado lógico)
+ *     description: Con permanente=true se elimina físicamente solo si no está referenciado por estabilidades ni producciones activas
+ *     tags: [Catalog]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: permanente
+ *         schema:
+ *           type: boolean
+ *         description: Eliminar físicamente el registro
+ *     responses:
+ *       200:
+ *         description: Registro deshabilitado o eliminado
+ *       403:
+ *         description: Sin permisos (requiere rol COORDINADOR)
+ *       404:
+ *         description: Registro no encontrado
+ *       409:
+ *         description: El registro tiene referencias y no se puede eliminar
  */
-// Caché: 1 hora - Catálogo de vehículos es crítico y cambia poco
-router.get('/vehicles', authenticate, cacheMiddleware(3600, 'vehicles'), catalogController.getVehicles.bind(catalogController));
+router.get('/medicines/:id', authenticate, cacheMiddleware(3600, 'medicine'), catalogController.getById('Medicine'));
+
+router.put(
+  '/medicines/:id',
+  authenticate,
+  authorize('COORDINADOR'),
+  invalidateCache('medicine', req => req.params.id as string),
+  invalidateCache('stabilities'),
+  catalogController.replace('Medicine')
+);
+
+router.patch(
+  '/medicines/:id',
+  authenticate,
+  authorize('COORDINADOR'),
+  invalidateCache('medicine', req => req.params.id as string),
+  invalidateCache('stabilities'),
+  catalogController.update('Medicine')
+);
+
+router.delete(
+  '/medicines/:id',
+  authenticate,
+  authorize('COORDINADOR'),
+  invalidateCache('medicine', req => req.params.id as string),
+  invalidateCache('stabilities'),
+  catalogController.remove('Medicine')
+);
 
 /**
  * @swagger
- * /catalog/vehicles:
+ * /catalog/medicines/{id}/enable:
  *   post:
- *     summary: Crea un nuevo vehículo
+ *     summary: Vuelve a habilitar el medicamento
  *     tags: [Catalog]
  *     security:
  *       - bearerAuth: []
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             $ref: '#/components/schemas/CreateVehicleRequest'
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
  *     responses:
- *       201:
- *         description: Vehículo creado exitosamente
- *       401:
- *         description: No autenticado
+ *       200:
+ *         description: Registro habilitado
  *       403:
  *         description: Sin permisos (requiere rol COORDINADOR)
+ *       404:
+ *         description: Registro no encontrado
  */
-// Invalidar caché al crear vehículo
 router.post(
-  '/vehicles',
+  '/medicines/:id/enable',
   authenticate,
   authorize('COORDINADOR'),
-  invalidateCache('vehicles'),
-  catalogController.createVehicle.bind(catalogController)
+  invalidateCache('medicine', req => req.params.id as string),
+  invalidateCache('stabilities'),
+  catalogController.enable('Medicine')
 );
 
 /**
  * @swagger
- * /catalog/containers:
+ * /catalog/labs:
  *   get:
- *     summary: Obtiene todos los envases
+ *     summary: Obtiene todos los laboratorios
  *     tags: [Catalog]
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: habilitado
+ *         schema:
+ *           type: boolean
+ *         description: Filtrar por estado habilitado
  *     responses:
  *       200:
- *         description: Lista de envases
+ *         description: Lista de laboratorios
  *         content:
  *           application/json:
  *             schema:
@@ -255,16 +363,62 @@ router.post(
  *                 data:
  *                   type: array
  *                   items:
- *                     $ref: '#/components/schemas/Container'
+ *                     $ref: '#/components/schemas/Lab'
+ *       401:
+ *         description: No autenticado
  */
-// Caché: 1 hora - Catálogo de envases es crítico y cambia poco
-router.get('/containers', authenticate, cacheMiddleware(3600, 'containers'), catalogController.getContainers.bind(catalogController));
+// Caché: 1 hora - Catálogo de laboratorios es crítico y cambia poco
+router.get('/labs', authenticate, cacheMiddleware(3600, 'labs'), catalogController.getLabs.bind(catalogController));
 
 /**
  * @swagger
- * /catalog/containers:
+ * /catalog/labs/export:
+ *   get:
+ *     summary: Exporta los laboratorios
+ *     description: Acepta los mismos filtros que el listado. Cada exportación queda registrada en auditoría
+ *     tags: [Catalog]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: formato
+ *         schema:
+ *           type: string
+ *           enum: [csv, xlsx, json]
+ *           default: csv
+ *       - in: query
+ *         name: habilitado
+ *         schema:
+ *           type: boolean
+ *     responses:
+ *       200:
+ *         description: Archivo laboratorios_AAAAMMDD_HHmmss con el formato solicitado
+ *         content:
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *           application/vnd.openxmlformats-officedocument.spreadsheetml.sheet:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 type: object
+ *       400:
+ *         description: Formato o filtro inválido
+ *       401:
+ *         description: No autenticado
+ */
+// Sin caché: cada exportación debe quedar en auditoría
+router.get('/labs/export', authenticate, catalogController.export('Laboratory'));
+
+/**
+ * @swagger
+ * /catalog/labs:
  *   post:
- *     summary: Crea un nuevo envase
+ *     summary: Crea un nuevo laboratorio
  *     tags: [Catalog]
  *     security:
  *       - bearerAuth: []
@@ -273,60 +427,41 @@ router.get('/containers', authenticate, cacheMiddleware(3600, 'containers'), cat
  *       content:
  *         application/json:
  *           schema:
- *             $ref: '#/components/schemas/CreateContainerRequest'
+ *             $ref: '#/components/schemas/CreateLabRequest'
  *     responses:
  *       201:
- *         description: Envase creado exitosamente
+ *         description: Laboratorio creado exitosamente
  *       401:
  *         description: No autenticado
  *       403:
  *         description: Sin permisos (requiere rol COORDINADOR)
  */
-// Invalidar caché al crear envase
+// Invalidar caché al crear laboratorio
 router.post(
-  '/containers',
+  '/labs',
   authenticate,
   authorize('COORDINADOR'),
-  invalidateCache('containers'),
-  catalogController.createContainer.bind(catalogController)
+  invalidateCache('labs'),
+  catalogController.createLab.bind(catalogController)
 );
 
 /**
  * @swagger
- * /catalog/stabilities:
+ * /catalog/labs/{id}:
  *   get:
- *     summary: Obtiene estabilidades con filtros opcionales
+ *     summary: Obtiene el laboratorio por ID
  *     tags: [Catalog]
  *     security:
  *       - bearerAuth: []
  *     parameters:
- *       - in: query
- *         name: medicamentoId
- *         schema:
- *           type: string
- *           format: ObjectId
- *         description: Filtrar por ID de medicamento
- *       - in: query
- *         name: laboratorioId
- *         schema:
- *           type: string
- *           format: ObjectId
- *         description: Filtrar por ID de laboratorio
- *       - in: query
- *         name: vehiculoId
- *         schema:
- *           type: string
- *           format: ObjectId
- *         description: Filtrar por ID de vehículo
- *       - in: query
- *         name: envaseId
+ *       - in: path
+ *         name: id
+ *         required: true
  *         schema:
  *           type: string
- *           format: ObjectId
- *         description: Filtrar por ID de envase
  *     responses:
  *       200:
- *         description: Lista de estabilidades
+ *         description: Detalle de el laboratorio
  *         content:
  *           application/json:
  *             schema:
@@ -336,31 +471,842 @@ router.post(
  *                   type: boolean
  *                   example: true
  *                 data:
- *                   type: array
- *                   items:
- *                     $ref: '#/components/schemas/Stability'
- */
-// Caché: 30 minutos - Estabilidades son críticas pero pueden cambiar más frecuentemente
-router.get('/stabilities', authenticate, cacheMiddleware(1800, 'stabilities'), catalogController.getStabilities.bind(catalogController));
-
-/**
- * @swagger
- * /catalog/stabilities:
- *   post:
- *     summary: Crea una nueva estabilidad
+ *                   $ref: '#/components/schemas/Lab'
+ *       400:
+ *         description: ID inválido
+ *       404:
+ *         description: Registro no encontrado
+ *   put:
+ *     summary: Reemplaza el laboratorio
+ *     description: |
+ *       El cuerpo es el registro completo: se validan los campos requeridos y los opcionales omitidos
+ *       se eliminan o vuelven a su valor por defecto. Si no se envía habilitado se conserva el actual.
+ *       Para modificar solo algunos campos use PATCH.
  *     tags: [Catalog]
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
  *     requestBody:
  *       required: true
  *       content:
  *         application/json:
  *           schema:
- *             $ref: '#/components/schemas/CreateStabilityRequest'
+ *             $ref: '#/components/schemas/Lab'
  *     responses:
- *       201:
- *         description: Estabilidad creada exitosamente
- *       401:
+ *       200:
+ *         description: Registro actualizado (los cambios quedan en auditoría)
+ *       400:
+ *         description: Datos inválidos
+ *       403:
+ *         description: Sin permisos (requiere rol COORDINADOR)
+ *       404:
+ *         description: Registro no encontrado
+ *       409:
+ *         description: Registro duplicado
+ *   patch:
+ *     summary: Actualiza parcialmente el laboratorio
+ *     tags: [Catalog]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *     responses:
+ *       200:
+ *         description: Registro actualizado (los cambios quedan en auditoría)
+ *       400:
+ *         description: Datos inválidos
+ *       403:
+ *         description: Sin permisos (requiere rol COORDINADOR)
+ *       404:
+ *         description: Registro no encontrado
+ *   delete:
+ *     summary: Deshabilita el laboratorio (borrado lógico)
+ *     description: Con permanente=true se elimina físicamente solo si no está referenciado por estabilidades ni producciones activas
+ *     tags: [Catalog]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: permanente
+ *         schema:
+ *           type: boolean
+ *         description: Eliminar físicamente el registro
+ *     responses:
+ *       200:
+ *         description: Registro deshabilitado o eliminado
+ *       403:
+ *         description: Sin permisos (requiere rol COORDINADOR)
+ *       404:
+ *         description: Registro no encontrado
+ *       409:
+ *         description: El registro tiene referencias y no se puede eliminar
+ */
+router.get('/labs/:id', authenticate, cacheMiddleware(3600, 'lab'), catalogController.getById('Laboratory'));
+
+router.put(
+  '/labs/:id',
+  authenticate,
+  authorize('COORDINADOR'),
+  invalidateCache('lab', req => req.params.id as string),
+  invalidateCache('stabilities'),
+  catalogController.replace('Laboratory')
+);
+
+router.patch(
+  '/labs/:id',
+  authenticate,
+  authorize('COORDINADOR'),
+  invalidateCache('lab', req => req.params.id as string),
+  invalidateCache('stabilities'),
+  catalogController.update('Laboratory')
+);
+
+router.delete(
+  '/labs/:id',
+  authenticate,
+  authorize('COORDINADOR'),
+  invalidateCache('lab', req => req.params.id as string),
+  invalidateCache('stabilities'),
+  catalogController.remove('Laboratory')
+);
+
+/**
+ * @swagger
+ * /catalog/labs/{id}/enable:
+ *   post:
+ *     summary: Vuelve a habilitar el laboratorio
+ *     tags: [Catalog]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Registro habilitado
+ *       403:
+ *         description: Sin permisos (requiere rol COORDINADOR)
+ *       404:
+ *         description: Registro no encontrado
+ */
+router.post(
+  '/labs/:id/enable',
+  authenticate,
+  authorize('COORDINADOR'),
+  invalidateCache('lab', req => req.params.id as string),
+  invalidateCache('stabilities'),
+  catalogController.enable('Laboratory')
+);
+
+/**
+ * @swagger
+ * /catalog/vehicles:
+ *   get:
+ *     summary: Obtiene todos los vehículos
+ *     tags: [Catalog]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Lista de vehículos
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 ok:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Vehicle'
+ */
+// Caché: 1 hora - Catálogo de vehículos es crítico y cambia poco
+router.get('/vehicles', authenticate, cacheMiddleware(3600, 'vehicles'), catalogController.getVehicles.bind(catalogController));
+
+/**
+ * @swagger
+ * /catalog/vehicles/export:
+ *   get:
+ *     summary: Exporta los vehículos
+ *     description: Acepta los mismos filtros que el listado. Cada exportación queda registrada en auditoría
+ *     tags: [Catalog]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: formato
+ *         schema:
+ *           type: string
+ *           enum: [csv, xlsx, json]
+ *           default: csv
+ *       - in: query
+ *         name: habilitado
+ *         schema:
+ *           type: boolean
+ *     responses:
+ *       200:
+ *         description: Archivo vehiculos_AAAAMMDD_HHmmss con el formato solicitado
+ *         content:
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *           application/vnd.openxmlformats-officedocument.spreadsheetml.sheet:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 type: object
+ *       400:
+ *         description: Formato o filtro inválido
+ *       401:
+ *         description: No autenticado
+ */
+// Sin caché: cada exportación debe quedar en auditoría
+router.get('/vehicles/export', authenticate, catalogController.export('Vehicle'));
+
+/**
+ * @swagger
+ * /catalog/vehicles:
+ *   post:
+ *     summary: Crea un nuevo vehículo
+ *     tags: [Catalog]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CreateVehicleRequest'
+ *     responses:
+ *       201:
+ *         description: Vehículo creado exitosamente
+ *       401:
+ *         description: No autenticado
+ *       403:
+ *         description: Sin permisos (requiere rol COORDINADOR)
+ */
+// Invalidar caché al crear vehículo
+router.post(
+  '/vehicles',
+  authenticate,
+  authorize('COORDINADOR'),
+  invalidateCache('vehicles'),
+  catalogController.createVehicle.bind(catalogController)
+);
+
+/**
+ * @swagger
+ * /catalog/vehicles/{id}:
+ *   get:
+ *     summary: Obtiene el vehículo por ID
+ *     tags: [Catalog]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Detalle de el vehículo
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 ok:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/Vehicle'
+ *       400:
+ *         description: ID inválido
+ *       404:
+ *         description: Registro no encontrado
+ *   put:
+ *     summary: Reemplaza el vehículo
+ *     description: |
+ *       El cuerpo es el registro completo: se validan los campos requeridos y los opcionales omitidos
+ *       se eliminan o vuelven a su valor por defecto. Si no se envía habilitado se conserva el actual.
+ *       Para modificar solo algunos campos use PATCH.
+ *     tags: [Catalog]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/Vehicle'
+ *     responses:
+ *       200:
+ *         description: Registro actualizado (los cambios quedan en auditoría)
+ *       400:
+ *         description: Datos inválidos
+ *       403:
+ *         description: Sin permisos (requiere rol COORDINADOR)
+ *       404:
+ *         description: Registro no encontrado
+ *       409:
+ *         description: Registro duplicado
+ *   patch:
+ *     summary: Actualiza parcialmente el vehículo
+ *     tags: [Catalog]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *     responses:
+ *       200:
+ *         description: Registro actualizado (los cambios quedan en auditoría)
+ *       400:
+ *         description: Datos inválidos
+ *       403:
+ *         description: Sin permisos (requiere rol COORDINADOR)
+ *       404:
+ *         description: Registro no encontrado
+ *   delete:
+ *     summary: Deshabilita el vehículo (borrado lógico)
+ *     description: Con permanente=true se elimina físicamente solo si no está referenciado por estabilidades ni producciones activas
+ *     tags: [Catalog]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: permanente
+ *         schema:
+ *           type: boolean
+ *         description: Eliminar físicamente el registro
+ *     responses:
+ *       200:
+ *         description: Registro deshabilitado o eliminado
+ *       403:
+ *         description: Sin permisos (requiere rol COORDINADOR)
+ *       404:
+ *         description: Registro no encontrado
+ *       409:
+ *         description: El registro tiene referencias y no se puede eliminar
+ */
+router.get('/vehicles/:id', authenticate, cacheMiddleware(3600, 'vehicle'), catalogController.getById('Vehicle'));
+
+router.put(
+  '/vehicles/:id',
+  authenticate,
+  authorize('COORDINADOR'),
+  invalidateCache('vehicle', req => req.params.id as string),
+  invalidateCache('stabilities'),
+  catalogController.replace('Vehicle')
+);
+
+router.patch(
+  '/vehicles/:id',
+  authenticate,
+  authorize('COORDINADOR'),
+  invalidateCache('vehicle', req => req.params.id as string),
+  invalidateCache('stabilities'),
+  catalogController.update('Vehicle')
+);
+
+router.delete(
+  '/vehicles/:id',
+  authenticate,
+  authorize('COORDINADOR'),
+  invalidateCache('vehicle', req => req.params.id as string),
+  invalidateCache('stabilities'),
+  catalogController.remove('Vehicle')
+);
+
+/**
+ * @swagger
+ * /catalog/vehicles/{id}/enable:
+ *   post:
+ *     summary: Vuelve a habilitar el vehículo
+ *     tags: [Catalog]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Registro habilitado
+ *       403:
+ *         description: Sin permisos (requiere rol COORDINADOR)
+ *       404:
+ *         description: Registro no encontrado
+ */
+router.post(
+  '/vehicles/:id/enable',
+  authenticate,
+  authorize('COORDINADOR'),
+  invalidateCache('vehicle', req => req.params.id as string),
+  invalidateCache('stabilities'),
+  catalogController.enable('Vehicle')
+);
+
+/**
+ * @swagger
+ * /catalog/containers:
+ *   get:
+ *     summary: Obtiene todos los envases
+ *     tags: [Catalog]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Lista de envases
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 ok:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Container'
+ */
+// Caché: 1 hora - Catálogo de envases es crítico y cambia poco
+router.get('/containers', authenticate, cacheMiddleware(3600, 'containers'), catalogController.getContainers.bind(catalogController));
+
+/**
+ * @swagger
+ * /catalog/containers/export:
+ *   get:
+ *     summary: Exporta los envases
+ *     description: Acepta los mismos filtros que el listado. Cada exportación queda registrada en auditoría
+ *     tags: [Catalog]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: formato
+ *         schema:
+ *           type: string
+ *           enum: [csv, xlsx, json]
+ *           default: csv
+ *       - in: query
+ *         name: habilitado
+ *         schema:
+ *           type: boolean
+ *     responses:
+ *       200:
+ *         description: Archivo envases_AAAAMMDD_HHmmss con el formato solicitado
+ *         content:
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *           application/vnd.openxmlformats-officedocument.spreadsheetml.sheet:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 type: object
+ *       400:
+ *         description: Formato o filtro inválido
+ *       401:
+ *         description: No autenticado
+ */
+// Sin caché: cada exportación debe quedar en auditoría
+router.get('/containers/export', authenticate, catalogController.export('Container'));
+
+/**
+ * @swagger
+ * /catalog/containers:
+ *   post:
+ *     summary: Crea un nuevo envase
+ *     tags: [Catalog]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CreateContainerRequest'
+ *     responses:
+ *       201:
+ *         description: Envase creado exitosamente
+ *       401:
+ *         description: No autenticado
+ *       403:
+ *         description: Sin permisos (requiere rol COORDINADOR)
+ */
+// Invalidar caché al crear envase
+router.post(
+  '/containers',
+  authenticate,
+  authorize('COORDINADOR'),
+  invalidateCache('containers'),
+  catalogController.createContainer.bind(catalogController)
+);
+
+/**
+ * @swagger
+ * /catalog/containers/{id}:
+ *   get:
+ *     summary: Obtiene el envase por ID
+ *     tags: [Catalog]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Detalle de el envase
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 ok:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/Container'
+ *       400:
+ *         description: ID inválido
+ *       404:
+ *         description: Registro no encontrado
+ *   put:
+ *     summary: Reemplaza el envase
+ *     description: |
+ *       El cuerpo es el registro completo: se validan los campos requeridos y los opcionales omitidos
+ *       se eliminan o vuelven a su valor por defecto. Si no se envía habilitado se conserva el actual.
+ *       Para modificar solo algunos campos use PATCH.
+ *     tags: [Catalog]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/Container'
+ *     responses:
+ *       200:
+ *         description: Registro actualizado (los cambios quedan en auditoría)
+ *       400:
+ *         description: Datos inválidos
+ *       403:
+ *         description: Sin permisos (requiere rol COORDINADOR)
+ *       404:
+ *         description: Registro no encontrado
+ *       409:
+ *         description: Registro duplicado
+ *   patch:
+ *     summary: Actualiza parcialmente el envase
+ *     tags: [Catalog]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *     responses:
+ *       200:
+ *         description: Registro actualizado (los cambios quedan en auditoría)
+ *       400:
+ *         description: Datos inválidos
+ *       403:
+ *         description: Sin permisos (requiere rol COORDINADOR)
+ *       404:
+ *         description: Registro no encontrado
+ *   delete:
+ *     summary: Deshabilita el envase (borrado lógico)
+ *     description: Con permanente=true se elimina físicamente solo si no está referenciado por estabilidades ni producciones activas
+ *     tags: [Catalog]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: permanente
+ *         schema:
+ *           type: boolean
+ *         description: Eliminar físicamente el registro
+ *     responses:
+ *       200:
+ *         description: Registro deshabilitado o eliminado
+ *       403:
+ *         description: Sin permisos (requiere rol COORDINADOR)
+ *       404:
+ *         description: Registro no encontrado
+ *       409:
+ *         description: El registro tiene referencias y no se puede eliminar
+ */
+router.get('/containers/:id', authenticate, cacheMiddleware(3600, 'container'), catalogController.getById('Container'));
+
+router.put(
+  '/containers/:id',
+  authenticate,
+  authorize('COORDINADOR'),
+  invalidateCache('container', req => req.params.id as string),
+  invalidateCache('stabilities'),
+  catalogController.replace('Container')
+);
+
+router.patch(
+  '/containers/:id',
+  authenticate,
+  authorize('COORDINADOR'),
+  invalidateCache('container', req => req.params.id as string),
+  invalidateCache('stabilities'),
+  catalogController.update('Container')
+);
+
+router.delete(
+  '/containers/:id',
+  authenticate,
+  authorize('COORDINADOR'),
+  invalidateCache('container', req => req.params.id as string),
+  invalidateCache('stabilities'),
+  catalogController.remove('Container')
+);
+
+/**
+ * @swagger
+ * /catalog/containers/{id}/enable:
+ *   post:
+ *     summary: Vuelve a habilitar el envase
+ *     tags: [Catalog]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Registro habilitado
+ *       403:
+ *         description: Sin permisos (requiere rol COORDINADOR)
+ *       404:
+ *         description: Registro no encontrado
+ */
+router.post(
+  '/containers/:id/enable',
+  authenticate,
+  authorize('COORDINADOR'),
+  invalidateCache('container', req => req.params.id as string),
+  invalidateCache('stabilities'),
+  catalogController.enable('Container')
+);
+
+/**
+ * @swagger
+ * /catalog/stabilities:
+ *   get:
+ *     summary: Obtiene estabilidades con filtros opcionales
+ *     tags: [Catalog]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: medicamentoId
+ *         schema:
+ *           type: string
+ *           format: ObjectId
+ *         description: Filtrar por ID de medicamento
+ *       - in: query
+ *         name: laboratorioId
+ *         schema:
+ *           type: string
+ *           format: ObjectId
+ *         description: Filtrar por ID de laboratorio
+ *       - in: query
+ *         name: vehiculoId
+ *         schema:
+ *           type: string
+ *           format: ObjectId
+ *         description: Filtrar por ID de vehículo
+ *       - in: query
+ *         name: envaseId
+ *         schema:
+ *           type: string
+ *           format: ObjectId
+ *         description: Filtrar por ID de envase
+ *     responses:
+ *       200:
+ *         description: Lista de estabilidades
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 ok:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Stability'
+ */
+// Caché: 30 minutos - Estabilidades son críticas pero pueden cambiar más frecuentemente
+router.get('/stabilities', authenticate, cacheMiddleware(1800, 'stabilities'), catalogController.getStabilities.bind(catalogController));
+
+/**
+ * @swagger
+ * /catalog/stabilities/export:
+ *   get:
+ *     summary: Exporta la matriz de estabilidades (con nombres en lugar de IDs)
+ *     description: Acepta los mismos filtros que el listado. Cada exportación queda registrada en auditoría
+ *     tags: [Catalog]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: formato
+ *         schema:
+ *           type: string
+ *           enum: [csv, xlsx, json]
+ *           default: csv
+ *       - in: query
+ *         name: habilitado
+ *         schema:
+ *           type: boolean
+ *       - in: query
+ *         name: medicamentoId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: laboratorioId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: vehiculoId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: envaseId
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Archivo estabilidades_AAAAMMDD_HHmmss con el formato solicitado
+ *         content:
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *           application/vnd.openxmlformats-officedocument.spreadsheetml.sheet:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 type: object
+ *       400:
+ *         description: Formato o filtro inválido
+ *       401:
+ *         description: No autenticado
+ */
+// Sin caché: cada exportación debe quedar en auditoría
+router.get('/stabilities/export', authenticate, catalogController.export('Stability'));
+
+/**
+ * @swagger
+ * /catalog/stabilities:
+ *   post:
+ *     summary: Crea una nueva estabilidad
+ *     tags: [Catalog]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CreateStabilityRequest'
+ *     responses:
+ *       201:
+ *         description: Estabilidad creada exitosamente
+ *       401:
  *         description: No autenticado
  *       403:
  *         description: Sin permisos (requiere rol COORDINADOR)
@@ -374,4 +1320,242 @@ router.post(
   catalogController.createStability.bind(catalogController)
 );
 
+/**
+ * @swagger
+ * /catalog/stabilities/import:
+ *   post:
+ *     summary: Importa la matriz de estabilidades desde un archivo CSV o XLSX
+ *     description: |
+ *       Columnas: medicamento, laboratorio, vehiculo, envase, horasEstabilidad, condiciones.
+ *       Los nombres se resuelven contra el catálogo y cada fila hace upsert por la combinación
+ *       medicamento + laboratorio + vehículo + envase + condiciones (una combinación puede tener una
+ *       estabilidad por condición de almacenamiento). Los nombres deben corresponder a registros habilitados.
+ *       Si alguna fila tiene errores no se escribe ninguna; las escrituras se aplican en una sola transacción.
+ *     tags: [Catalog]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: dryRun
+ *         schema:
+ *           type: boolean
+ *         description: Solo validar y reportar, sin escribir
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required: [archivo]
+ *             properties:
+ *               archivo:
+ *                 type: string
+ *                 format: binary
+ *     responses:
+ *       200:
+ *         description: Importación aplicada o simulada sin errores
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 ok:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/StabilityImportResult'
+ *       400:
+ *         description: Archivo ausente, vacío o con formato no soportado
+ *       403:
+ *         description: Sin permisos (requiere rol COORDINADOR)
+ *       422:
+ *         description: Filas con errores, no se aplicó ningún cambio
+ */
+router.post(
+  '/stabilities/import',
+  authenticate,
+  authorize('COORDINADOR'),
+  upload.single('archivo'),
+  invalidateCache('stabilities'),
+  catalogController.importStabilities.bind(catalogController)
+);
+
+/**
+ * @swagger
+ * /catalog/stabilities/{id}:
+ *   get:
+ *     summary: Obtiene la estabilidad por ID
+ *     tags: [Catalog]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Detalle de la estabilidad
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 ok:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/Stability'
+ *       400:
+ *         description: ID inválido
+ *       404:
+ *         description: Registro no encontrado
+ *   put:
+ *     summary: Reemplaza la estabilidad
+ *     description: |
+ *       El cuerpo es el registro completo: se validan los campos requeridos y los opcionales omitidos
+ *       se eliminan o vuelven a su valor por defecto. Si no se envía habilitado se conserva el actual.
+ *       Para modificar solo algunos campos use PATCH.
+ *     tags: [Catalog]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/Stability'
+ *     responses:
+ *       200:
+ *         description: Registro actualizado (los cambios quedan en auditoría)
+ *       400:
+ *         description: Datos inválidos
+ *       403:
+ *         description: Sin permisos (requiere rol COORDINADOR)
+ *       404:
+ *         description: Registro no encontrado
+ *       409:
+ *         description: Registro duplicado
+ *   patch:
+ *     summary: Actualiza parcialmente la estabilidad
+ *     tags: [Catalog]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *     responses:
+ *       200:
+ *         description: Registro actualizado (los cambios quedan en auditoría)
+ *       400:
+ *         description: Datos inválidos
+ *       403:
+ *         description: Sin permisos (requiere rol COORDINADOR)
+ *       404:
+ *         description: Registro no encontrado
+ *   delete:
+ *     summary: Deshabilita la estabilidad (borrado lógico)
+ *     description: Con permanente=true se elimina físicamente solo si no está referenciado por estabilidades ni producciones activas
+ *     tags: [Catalog]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: permanente
+ *         schema:
+ *           type: boolean
+ *         description: Eliminar físicamente el registro
+ *     responses:
+ *       200:
+ *         description: Registro deshabilitado o eliminado
+ *       403:
+ *         description: Sin permisos (requiere rol COORDINADOR)
+ *       404:
+ *         description: Registro no encontrado
+ *       409:
+ *         description: El registro tiene referencias y no se puede eliminar
+ */
+router.get('/stabilities/:id', authenticate, cacheMiddleware(1800, 'stability'), catalogController.getById('Stability'));
+
+router.put(
+  '/stabilities/:id',
+  authenticate,
+  authorize('COORDINADOR'),
+  invalidateCache('stability', req => req.params.id as string),
+  invalidateCache('stabilities'),
+  catalogController.replace('Stability')
+);
+
+router.patch(
+  '/stabilities/:id',
+  authenticate,
+  authorize('COORDINADOR'),
+  invalidateCache('stability', req => req.params.id as string),
+  invalidateCache('stabilities'),
+  catalogController.update('Stability')
+);
+
+router.delete(
+  '/stabilities/:id',
+  authenticate,
+  authorize('COORDINADOR'),
+  invalidateCache('stability', req => req.params.id as string),
+  invalidateCache('stabilities'),
+  catalogController.remove('Stability')
+);
+
+/**
+ * @swagger
+ * /catalog/stabilities/{id}/enable:
+ *   post:
+ *     summary: Vuelve a habilitar la estabilidad
+ *     tags: [Catalog]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Registro habilitado
+ *       403:
+ *         description: Sin permisos (requiere rol COORDINADOR)
+ *       404:
+ *         description: Registro no encontrado
+ */
+router.post(
+  '/stabilities/:id/enable',
+  authenticate,
+  authorize('COORDINADOR'),
+  invalidateCache('stability', req => req.params.id as string),
+  invalidateCache('stabilities'),
+  catalogController.enable('Stability')
+);
+
 export default router;
@@ -13,7 +13,7 @@ router.use(authenticate);
  * @swagger
  * /documents/{productionId}:
  *   get:
- *     summary: Obtiene todos los documentos generados para una producción
+ *     summary: Obtiene los documentos vigentes de una producción
  *     tags: [Documents]
  *     security:
  *       - bearerAuth: []
@@ -25,6 +25,12 @@ router.use(authenticate);
  *           type: string
  *           format: ObjectId
  *         description: ID de la producción
+ *       - in: query
+ *         name: historial
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *         description: Incluir las versiones reemplazadas (por defecto solo la versión activa de cada tipo)
  *     responses:
  *       200:
  *         description: Lista de documentos
@@ -56,11 +62,155 @@ router.use(authenticate);
 // Caché: 15 minutos - Documentos de producción
 router.get('/:productionId', cacheMiddleware(900, 'documents'), documentController.getByProduction.bind(documentController));
 
+/**
+ * @swagger
+ * /documents/{documentId}/download:
+ *   get:
+ *     summary: Descarga un documento a través de la API
+ *     description: |
+ *       El PDF se lee del almacenamiento y se entrega por la API; la URL del almacenamiento no se expone.
+ *       Se verifica contra el SHA-256 registrado al generarlo: si no coincide, la descarga se corta antes
+ *       del último fragmento (o responde 409 si aún no se enviaron datos). Los documentos anteriores al
+ *       registro del hash se entregan sin verificar.
+ *       Cada descarga, exitosa o no, queda en auditoría (DOWNLOAD / DOWNLOAD_FAILED).
+ *       QC y ACTA solo los descargan QUIMICO, COORDINADOR y AUDITOR.
+ *     tags: [Documents]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: documentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: ObjectId
+ *         description: ID del documento
+ *     responses:
+ *       200:
+ *         description: Archivo PDF
+ *         headers:
+ *           X-Content-SHA256:
+ *             description: SHA-256 registrado al generar el documento
+ *             schema:
+ *               type: string
+ *         content:
+ *           application/pdf:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       400:
+ *         description: ID de documento inválido
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: No autenticado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: El rol no puede descargar este tipo de documento
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Documento o archivo no encontrado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: El archivo no coincide con el hash registrado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+// Sin caché: cada descarga se verifica y se audita
+router.get(
+  '/:documentId/download',
+  authorize('AUXILIAR', 'QUIMICO', 'COORDINADOR', 'AUDITOR'),
+  documentController.download.bind(documentController)
+);
+
+/**
+ * @swagger
+ * /documents/{productionId}/{tipo}/versions:
+ *   get:
+ *     summary: Obtiene la cadena de versiones de un tipo de documento
+ *     description: |
+ *       Versiones de la más reciente a la primera. Solo la última está activa; las reemplazadas conservan
+ *       su archivo, el motivo de la regeneración que las reemplazó y se descargan con su downloadUrl.
+ *     tags: [Documents]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: productionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: ObjectId
+ *         description: ID de la producción
+ *       - in: path
+ *         name: tipo
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [SOLICITUD, ORDEN, INSUMOS, QC, ETIQUETAS, ACTA]
+ *         description: Tipo de documento
+ *     responses:
+ *       200:
+ *         description: Versiones del documento
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 ok:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Document'
+ *       400:
+ *         description: ID de producción o tipo inválido
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: No autenticado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+// Caché: 15 minutos - Se invalida junto con los documentos de la producción
+router.get(
+  '/:productionId/:tipo/versions',
+  cacheMiddleware(900, 'documents'),
+  documentController.getVersions.bind(documentController)
+);
+
 /**
  * @swagger
  * /documents/{productionId}/{tipo}:
  *   post:
  *     summary: Genera un documento específico para una producción
+ *     description: |
+ *       ETIQUETAS genera una etiqueta por unidad de cada mezcla no rechazada, del tamaño configurado para la línea
+ *       (LABEL_LAYOUTS), con código GS1-128 que lleva el lote de la mezcla (10); la orden se busca por el lote
+ *       en GET /productions?loteMezcla=. Las etiquetas ONCO incluyen las leyendas de citotóxico. Si el ancho
+ *       configurado no alcanza para módulos de 0,25 mm responde 400.
+ *
+ *       Cada generación crea una nueva versión del tipo y la deja como la única activa. Si el tipo ya tiene
+ *       una versión activa se exige el motivo de la regeneración; la versión anterior queda reemplazada
+ *       pero se conserva y se puede descargar.
  *     tags: [Documents]
  *     security:
  *       - bearerAuth: []
@@ -79,6 +229,17 @@ router.get('/:productionId', cacheMiddleware(900, 'documents'), documentControll
  *           type: string
  *           enum: [SOLICITUD, ORDEN, INSUMOS, QC, ETIQUETAS, ACTA]
  *         description: Tipo de documento a generar
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               motivo:
+ *                 type: string
+ *                 description: Motivo de la regeneración (obligatorio si ya existe una versión activa)
+ *                 example: "Corrección del volumen final de la mezcla 2"
  *     responses:
  *       200:
  *         description: Documento generado exitosamente
@@ -98,7 +259,8 @@ router.get('/:productionId', cacheMiddleware(900, 'documents'), documentControll
  *                   properties:
  *                     fileUrl:
  *                       type: string
- *                       example: "/documents/solicitud-507f1f77bcf86cd799439011.pdf"
+ *                       description: Ruta de descarga autenticada del documento
+ *                       example: "/documents/6650a1f77bcf86cd79943901/download"
  *                     tipo:
  *                       type: string
  *                       example: "SOLICITUD"
@@ -121,6 +283,10 @@ router.get('/:productionId', cacheMiddleware(900, 'documents'), documentControll
  *                 value:
  *                   ok: false
  *                   error: "La producción debe estar calculada para generar la orden"
+ *               motivoRequerido:
+ *                 value:
+ *                   ok: false
+ *                   error: "El documento SOLICITUD ya tiene la versión 1: indique el motivo de la regeneración"
  *       401:
  *         description: No autenticado
  *         content:
@@ -133,6 +299,12 @@ router.get('/:productionId', cacheMiddleware(900, 'documents'), documentControll
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Otra solicitud generó una versión del mismo tipo al mismo tiempo
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  */
 // Invalidar caché al generar documento
 router.post(
@@ -147,6 +319,9 @@ router.post(
  * /documents/{productionId}/generate-all:
  *   post:
  *     summary: Genera todos los documentos disponibles según el estado de la producción
+ *     description: |
+ *       Sin motivo solo genera los tipos que no tienen versión activa y devuelve la ruta de descarga de los
+ *       existentes. Con motivo regenera todos como nuevas versiones.
  *     tags: [Documents]
  *     security:
  *       - bearerAuth: []
@@ -158,6 +333,16 @@ router.post(
  *           type: string
  *           format: ObjectId
  *         description: ID de la producción
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               motivo:
+ *                 type: string
+ *                 description: Motivo para regenerar los tipos que ya tienen versión activa
  *     responses:
  *       200:
  *         description: Documentos generados
@@ -178,15 +363,15 @@ router.post(
  *                     SOLICITUD:
  *                       type: string
  *                       nullable: true
- *                       example: "/documents/solicitud-507f1f77bcf86cd799439011.pdf"
+ *                       example: "/documents/6650a1f77bcf86cd79943901/download"
  *                     ORDEN:
  *                       type: string
  *                       nullable: true
- *                       example: "/documents/orden-507f1f77bcf86cd799439011.pdf"
+ *                       example: "/documents/6650a1f77bcf86cd79943902/download"
  *                     INSUMOS:
  *                       type: string
  *                       nullable: true
- *                       example: "/documents/insumos-507f1f77bcf86cd799439011.pdf"
+ *                       example: "/documents/6650a1f77bcf86cd79943903/download"
  *                     QC:
  *                       type: string
  *                       nullable: true
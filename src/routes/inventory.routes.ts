@@ -0,0 +1,231 @@
+import { Router } from 'express';
+import { inventoryController } from '@/controllers/inventory.controller';
+import { authenticate, authorize } from '@/middlewares/auth.middleware';
+
+const router: Router = Router();
+
+// Todas las rutas requieren autenticación
+router.use(authenticate);
+
+// Sin caché: las transiciones de las órdenes reservan, consumen y liberan stock
+
+/**
+ * @swagger
+ * /inventory/stock:
+ *   get:
+ *     summary: Stock por medicamento y presentación
+ *     description: Suma los lotes habilitados; las unidades de lotes vencidos se informan aparte y no se reservan.
+ *     tags: [Inventory]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: medicamentoId
+ *         schema:
+ *           type: string
+ *           format: ObjectId
+ *     responses:
+ *       200:
+ *         description: Stock por presentación
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 ok:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/StockPresentacion'
+ */
+router.get('/stock', inventoryController.getStock.bind(inventoryController));
+
+/**
+ * @swagger
+ * /inventory/lots:
+ *   get:
+ *     summary: Obtiene los lotes de inventario ordenados por vencimiento
+ *     tags: [Inventory]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: medicamentoId
+ *         schema:
+ *           type: string
+ *           format: ObjectId
+ *       - in: query
+ *         name: vigentes
+ *         schema:
+ *           type: boolean
+ *         description: Solo lotes no vencidos
+ *       - in: query
+ *         name: habilitado
+ *         schema:
+ *           type: boolean
+ *     responses:
+ *       200:
+ *         description: Lista de lotes
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 ok:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/InventoryLot'
+ *   post:
+ *     summary: Registra la entrada de un lote del fabricante
+ *     description: La presentación debe existir en el medicamento. No se aceptan lotes vencidos.
+ *     tags: [Inventory]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [medicamentoId, presentacion, loteFabricante, fechaVencimiento, cantidad]
+ *             properties:
+ *               medicamentoId:
+ *                 type: string
+ *                 format: ObjectId
+ *               presentacion:
+ *                 type: object
+ *                 required: [volumen]
+ *                 properties:
+ *                   volumen:
+ *                     type: number
+ *                     example: 10
+ *                   tipoEnvase:
+ *                     type: string
+ *                     example: Vial
+ *               loteFabricante:
+ *                 type: string
+ *                 example: AB1234
+ *               fechaVencimiento:
+ *                 type: string
+ *                 format: date
+ *                 example: "2027-06-30"
+ *               cantidad:
+ *                 type: integer
+ *                 description: Unidades (viales/ampollas) recibidas
+ *                 example: 50
+ *     responses:
+ *       201:
+ *         description: Lote registrado
+ *       400:
+ *         description: Datos inválidos, presentación inexistente o lote vencido
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Medicamento no encontrado
+ *       409:
+ *         description: El lote ya está registrado para esa presentación
+ */
+router.get('/lots', inventoryController.getLots.bind(inventoryController));
+
+router.post(
+  '/lots',
+  authorize('QUIMICO', 'COORDINADOR'),
+  inventoryController.createLot.bind(inventoryController)
+);
+
+/**
+ * @swagger
+ * /inventory/lots/{id}/adjust:
+ *   post:
+ *     summary: Ajusta el disponible de un lote o lo pone en cuarentena
+ *     description: Las unidades reservadas por órdenes no se ajustan; se liberan al anular o devolver la orden.
+ *     tags: [Inventory]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: ObjectId
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [motivo]
+ *             properties:
+ *               cantidad:
+ *                 type: integer
+ *                 description: Unidades a sumar (positivo) o descontar (negativo) del disponible
+ *                 example: -2
+ *               habilitado:
+ *                 type: boolean
+ *               motivo:
+ *                 type: string
+ *                 example: "Viales rotos en recepción"
+ *     responses:
+ *       200:
+ *         description: Lote ajustado
+ *       400:
+ *         description: Motivo faltante o disponible insuficiente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Solo COORDINADOR
+ *       404:
+ *         description: Lote no encontrado
+ */
+router.post(
+  '/lots/:id/adjust',
+  authorize('COORDINADOR'),
+  inventoryController.adjustLot.bind(inventoryController)
+);
+
+/**
+ * @swagger
+ * /inventory/lots/{id}/movements:
+ *   get:
+ *     summary: Kardex del lote (entradas, ajustes, reservas, liberaciones y consumos)
+ *     tags: [Inventory]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: ObjectId
+ *     responses:
+ *       200:
+ *         description: Movimientos del lote, del más reciente al más antiguo
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 ok:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/InventoryMovement'
+ *       404:
+ *         description: Lote no encontrado
+ */
+router.get('/lots/:id/movements', inventoryController.getMovements.bind(inventoryController));
+
+export default router;
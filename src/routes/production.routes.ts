@@ -31,6 +31,12 @@ router.use(authenticate);
  *           enum: [ONCO, ESTERIL]
  *         description: Filtrar por línea de producción
  *       - in: query
+ *         name: loteMezcla
+ *         schema:
+ *           type: string
+ *           example: HG261020-ON-00012
+ *         description: Orden que contiene el lote de mezcla (leído del código de barras de la etiqueta)
+ *       - in: query
  *         name: fechaDesde
  *         schema:
  *           type: string
@@ -142,6 +148,145 @@ router.get('/', cacheMiddleware(300, 'productions'), productionController.getAll
 // Caché: 10 minutos (600 segundos) - Detalle de producción es crítico
 router.get('/:id', cacheMiddleware(600, 'production'), productionController.getById.bind(productionController));
 
+/**
+ * @swagger
+ * /productions/{id}/recalculate:
+ *   get:
+ *     summary: Recalcula una producción con la versión actual del motor y muestra las diferencias
+ *     description: |
+ *       No modifica la orden. Para cada mezcla compara los cálculos guardados contra
+ *       el motor actual con la entrada guardada (cambiosMotor) y contra el motor actual con el
+ *       catálogo vigente (cambiosResultado); cambiosEntrada muestra qué cambió en el catálogo.
+ *       Las mezclas creadas antes de guardar snapshots solo se comparan contra el catálogo vigente.
+ *     tags: [Productions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: ObjectId
+ *         description: ID de la producción
+ *     responses:
+ *       200:
+ *         description: Comparación por mezcla
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 ok:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/RecalculoProduccion'
+ *       400:
+ *         description: ID inválido
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Producción no encontrada
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/:id/recalculate', productionController.recalculate.bind(productionController));
+
+/**
+ * @swagger
+ * /productions/{id}/insumos:
+ *   get:
+ *     summary: Consolida los insumos de la orden compartiendo viales abiertos
+ *     description: |
+ *       Agrupa las mezclas del mismo medicamento cuya preparación cae dentro de la estabilidad del vial abierto
+ *       (horasEstabilidadViaAbierto del medicamento) y calcula las unidades para el volumen total del grupo.
+ *       La preparación de cada mezcla es la hora en que se marcó PREPARADA o, antes de eso, el inicio del turno asignado.
+ *       Compara el total de la orden contra calcular cada mezcla por separado. La solicitud de insumos y la reserva
+ *       de inventario al programar usan estas cifras: cada mezcla reserva solo las unidades que abre.
+ *     tags: [Productions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: ObjectId
+ *         description: ID de la producción
+ *     responses:
+ *       200:
+ *         description: Insumos consolidados por medicamento y ventana de estabilidad
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 ok:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/ConsolidadoInsumos'
+ *       400:
+ *         description: ID inválido
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Producción no encontrada
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/:id/insumos', productionController.getInsumos.bind(productionController));
+
+/**
+ * @swagger
+ * /productions/{id}/signatures:
+ *   get:
+ *     summary: Obtiene las firmas electrónicas de una producción
+ *     tags: [Productions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: ObjectId
+ *         description: ID de la producción
+ *     responses:
+ *       200:
+ *         description: Firmas en orden cronológico
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 ok:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Signature'
+ *       400:
+ *         description: ID inválido
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/:id/signatures', productionController.getSignatures.bind(productionController));
+
 /**
  * @swagger
  * /productions:
@@ -287,6 +432,364 @@ router.post(
   productionController.validateAndCalculate.bind(productionController)
 );
 
+/**
+ * @swagger
+ * /productions/{id}/mezclas:
+ *   post:
+ *     summary: Agrega una mezcla a una orden en estado CREADO
+ *     description: Valida el dominio, calcula la mezcla con el motor, reserva un lote nuevo y actualiza cantidadMezclas.
+ *     tags: [Productions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: ObjectId
+ *         description: ID de la producción
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CreateMezclaRequest'
+ *     responses:
+ *       201:
+ *         description: Mezcla agregada
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 ok:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Mezcla agregada y recalculada"
+ *                 data:
+ *                   $ref: '#/components/schemas/Production'
+ *       400:
+ *         description: Datos incompletos, validación fallida o la orden ya no está en CREADO
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Producción, medicamento, vehículo, envase o estabilidad no encontrados
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+// Invalidar caché al agregar una mezcla
+router.post(
+  '/:id/mezclas',
+  authorize('AUXILIAR', 'QUIMICO', 'COORDINADOR'),
+  invalidateCache('production', (req) => req.params.id),
+  productionController.addMezcla.bind(productionController)
+);
+
+/**
+ * @swagger
+ * /productions/{id}/mezclas/{index}:
+ *   put:
+ *     summary: Corrige una mezcla de una orden en estado CREADO
+ *     description: |
+ *       Combina los campos enviados con los de la mezcla, vuelve a validar el dominio y recalcula con el motor.
+ *       Conserva el lote y las advertencias aceptadas que sigan aplicando. El diff campo a campo queda en auditoría.
+ *     tags: [Productions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: ObjectId
+ *         description: ID de la producción
+ *       - in: path
+ *         name: index
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Índice de la mezcla dentro de la orden
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/UpdateMezclaRequest'
+ *     responses:
+ *       200:
+ *         description: Mezcla actualizada
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 ok:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Mezcla 0 actualizada y recalculada"
+ *                 data:
+ *                   $ref: '#/components/schemas/Production'
+ *       400:
+ *         description: Sin cambios, validación fallida o la orden ya no está en CREADO
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Producción o mezcla no encontrada
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *   delete:
+ *     summary: Elimina una mezcla de una orden en estado CREADO
+ *     description: La orden debe conservar al menos una mezcla. El lote eliminado no se reutiliza.
+ *     tags: [Productions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: ObjectId
+ *         description: ID de la producción
+ *       - in: path
+ *         name: index
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Índice de la mezcla dentro de la orden
+ *     responses:
+ *       200:
+ *         description: Mezcla eliminada
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 ok:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Mezcla 0 eliminada"
+ *                 data:
+ *                   $ref: '#/components/schemas/Production'
+ *       400:
+ *         description: Es la única mezcla o la orden ya no está en CREADO
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Producción o mezcla no encontrada
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+// Invalidar caché al editar una mezcla
+router.put(
+  '/:id/mezclas/:index',
+  authorize('AUXILIAR', 'QUIMICO', 'COORDINADOR'),
+  invalidateCache('production', (req) => req.params.id),
+  productionController.updateMezcla.bind(productionController)
+);
+
+router.delete(
+  '/:id/mezclas/:index',
+  authorize('AUXILIAR', 'QUIMICO', 'COORDINADOR'),
+  invalidateCache('production', (req) => req.params.id),
+  productionController.removeMezcla.bind(productionController)
+);
+
+/**
+ * @swagger
+ * /productions/{id}/mezclas/{index}/advertencias/{codigo}/override:
+ *   post:
+ *     summary: Acepta una advertencia clínica de una mezcla (override de QF)
+ *     description: Solo un usuario con tipo QUÍMICO FARMACÉUTICO puede aceptarla. El motivo queda registrado en auditoría.
+ *     tags: [Productions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: ObjectId
+ *         description: ID de la producción
+ *       - in: path
+ *         name: index
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Índice de la mezcla dentro de la orden
+ *       - in: path
+ *         name: codigo
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: DOSIS_ACUMULADA_EXCEDIDA
+ *         description: Código de la advertencia
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [motivo]
+ *             properties:
+ *               motivo:
+ *                 type: string
+ *                 example: "Dosis acumulada revisada con oncólogo tratante"
+ *     responses:
+ *       200:
+ *         description: Advertencia aceptada
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 ok:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Advertencia DOSIS_ACUMULADA_EXCEDIDA aceptada"
+ *                 data:
+ *                   $ref: '#/components/schemas/Production'
+ *       400:
+ *         description: Motivo faltante o estado no permitido
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: El usuario no es químico farmacéutico
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Producción, mezcla o advertencia no encontrada
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+// Invalidar caché al aceptar advertencia
+router.post(
+  '/:id/mezclas/:index/advertencias/:codigo/override',
+  authorize('QUIMICO', 'COORDINADOR'),
+  invalidateCache('production', (req) => req.params.id),
+  productionController.overrideAdvertencia.bind(productionController)
+);
+
+/**
+ * @swagger
+ * /productions/{id}/mezclas/{index}/transition:
+ *   post:
+ *     summary: Cambia el estado individual de una mezcla
+ *     description: |
+ *       PREPARADA (orden PROGRAMADO), QC_APROBADA o RECHAZADA (orden PRODUCIDO) y ETIQUETADA (orden QC).
+ *       RECHAZADA exige motivo. La orden solo avanza cuando el estado agregado de sus mezclas lo permite:
+ *       a PRODUCIDO con todas preparadas, a QC con todas revisadas y al menos una aprobada,
+ *       y a ETIQUETADO con todas las aprobadas etiquetadas.
+ *     tags: [Productions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: ObjectId
+ *         description: ID de la producción
+ *       - in: path
+ *         name: index
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Índice de la mezcla dentro de la orden
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [estado]
+ *             properties:
+ *               estado:
+ *                 type: string
+ *                 enum: [PREPARADA, QC_APROBADA, RECHAZADA, ETIQUETADA]
+ *                 example: QC_APROBADA
+ *               motivo:
+ *                 type: string
+ *                 example: "Precipitado visible en inspección"
+ *     responses:
+ *       200:
+ *         description: Estado de la mezcla actualizado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 ok:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Mezcla 0 marcada como QC_APROBADA"
+ *                 data:
+ *                   $ref: '#/components/schemas/Production'
+ *       400:
+ *         description: Transición de mezcla no permitida, motivo faltante o estado de la orden incorrecto
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Sin permisos para el estado solicitado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Producción o mezcla no encontrada
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: La mezcla cambió de estado durante la operación
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+// Invalidar caché al cambiar estado de una mezcla
+router.post(
+  '/:id/mezclas/:index/transition',
+  authorize('AUXILIAR', 'QUIMICO', 'COORDINADOR'),
+  invalidateCache('production', (req) => req.params.id),
+  productionController.transitionMezcla.bind(productionController)
+);
+
 /**
  * @swagger
  * /productions/{id}/advance:
@@ -360,6 +863,17 @@ router.post(
  * /productions/{id}/transition:
  *   post:
  *     summary: Transiciona una producción a un nuevo estado específico
+ *     description: |
+ *       Además del avance normal admite rechazos (PRODUCIDO/QC → RECHAZADO), retornos controlados
+ *       (ej: QC → PRODUCIDO, RECHAZADO → PROGRAMADO) y anulaciones (→ ANULADO).
+ *       Estas transiciones exigen `motivo`, quedan en `novedadesEstado` y en auditoría.
+ *       Las producciones anuladas no generan documentos.
+ *       El avance aplica segregación de funciones: quien valida no puede ser quien creó, quien aprueba QC
+ *       no puede ser quien produjo, y el usuario debe tener la función farmacéutica correspondiente
+ *       (esInterpretacion, esProduccion, esCalidad). Las reglas se configuran con SEGREGATION_RULES.
+ *       Al pasar a PROGRAMADO se reservan por FEFO los lotes de inventario de cada mezcla (`lotesInsumo`);
+ *       sin stock vigente suficiente se responde 400, o se programa con advertencia si INVENTORY_STOCK_POLICY=ADVERTIR.
+ *       Al pasar a PRODUCIDO se consumen las reservas y al anular o devolver antes de PROGRAMADO se liberan.
  *     tags: [Productions]
  *     security:
  *       - bearerAuth: []
@@ -377,8 +891,14 @@ router.post(
  *         application/json:
  *           schema:
  *             $ref: '#/components/schemas/TransitionRequest'
- *           example:
- *             estado: "VALIDADO"
+ *           examples:
+ *             avance:
+ *               value:
+ *                 estado: "VALIDADO"
+ *             retornoQC:
+ *               value:
+ *                 estado: "PRODUCIDO"
+ *                 motivo: "Partículas visibles en la inspección de QC"
  *     responses:
  *       200:
  *         description: Producción transicionada exitosamente
@@ -410,15 +930,29 @@ router.post(
  *                 value:
  *                   ok: false
  *                   error: "Estado requerido"
+ *               motivoRequerido:
+ *                 value:
+ *                   ok: false
+ *                   error: "Debe indicar el motivo para pasar de QC a PRODUCIDO"
+ *               stockInsuficiente:
+ *                 value:
+ *                   ok: false
+ *                   error: "Stock insuficiente para programar la orden: Cisplatino 50 mL (mezcla HG261020-ONCO-00012): faltan 2 de 3 unidad(es)"
  *       403:
  *         description: Sin permisos para realizar la transición
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
- *             example:
- *               ok: false
- *               error: "El rol AUXILIAR no tiene permisos para realizar acciones en el estado VALIDADO"
+ *             examples:
+ *               rol:
+ *                 value:
+ *                   ok: false
+ *                   error: "El rol AUXILIAR no tiene permisos para realizar acciones en el estado VALIDADO"
+ *               segregacion:
+ *                 value:
+ *                   ok: false
+ *                   error: "Segregación de funciones: quien registró PRODUCIDO no puede registrar QC"
  *       404:
  *         description: Producción no encontrada
  *         content:
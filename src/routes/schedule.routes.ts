@@ -0,0 +1,297 @@
+import { Router } from 'express';
+import { scheduleController } from '@/controllers/schedule.controller';
+import { authenticate, authorize } from '@/middlewares/auth.middleware';
+import { cacheMiddleware, invalidateCache } from '@/middlewares/cache.middleware';
+
+const router: Router = Router();
+
+// Todas las rutas requieren autenticación
+router.use(authenticate);
+
+/**
+ * @swagger
+ * /schedule/board:
+ *   get:
+ *     summary: Tablero de programación por día o semana
+ *     description: |
+ *       Muestra por cada día, cabina y turno la capacidad, la ocupación y las órdenes asignadas.
+ *       Los turnos con más mezclas que su capacidad se marcan con sobrecupo.
+ *       Incluye las órdenes CALCULADO pendientes de programar y las PROGRAMADO sin turno vigente.
+ *     tags: [Schedule]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: fecha
+ *         schema:
+ *           type: string
+ *           format: date
+ *           example: "2026-10-20"
+ *         description: Día a consultar (por defecto hoy). En vista semana se usa la semana de lunes a domingo que lo contiene
+ *       - in: query
+ *         name: vista
+ *         schema:
+ *           type: string
+ *           enum: [dia, semana]
+ *           default: dia
+ *       - in: query
+ *         name: lineaProduccion
+ *         schema:
+ *           type: string
+ *           enum: [ONCO, ESTERIL]
+ *     responses:
+ *       200:
+ *         description: Tablero de programación
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 ok:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/ScheduleBoard'
+ *       400:
+ *         description: Fecha, vista o línea inválida
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/board', scheduleController.getBoard.bind(scheduleController));
+
+/**
+ * @swagger
+ * /schedule/resources:
+ *   get:
+ *     summary: Obtiene las cabinas y sus turnos
+ *     tags: [Schedule]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: lineaProduccion
+ *         schema:
+ *           type: string
+ *           enum: [ONCO, ESTERIL]
+ *       - in: query
+ *         name: habilitado
+ *         schema:
+ *           type: boolean
+ *     responses:
+ *       200:
+ *         description: Lista de recursos
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 ok:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/ScheduleResource'
+ *   post:
+ *     summary: Crea una cabina con sus turnos y capacidad
+ *     tags: [Schedule]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ScheduleResource'
+ *     responses:
+ *       201:
+ *         description: Recurso creado
+ *       400:
+ *         description: Turnos inválidos o datos incompletos
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Solo COORDINADOR
+ *       409:
+ *         description: Ya existe un recurso con ese nombre
+ */
+router.get('/resources', cacheMiddleware(600, 'scheduleResources'), scheduleController.getResources.bind(scheduleController));
+
+router.post(
+  '/resources',
+  authorize('COORDINADOR'),
+  invalidateCache('scheduleResource'),
+  scheduleController.createResource.bind(scheduleController)
+);
+
+/**
+ * @swagger
+ * /schedule/resources/{id}:
+ *   put:
+ *     summary: Actualiza una cabina (nombre, turnos, capacidad o habilitado)
+ *     description: Los cambios de capacidad aplican a las nuevas asignaciones; el tablero recalcula el sobrecupo con la capacidad vigente.
+ *     tags: [Schedule]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: ObjectId
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ScheduleResource'
+ *     responses:
+ *       200:
+ *         description: Recurso actualizado
+ *       400:
+ *         description: Datos inválidos
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Recurso no encontrado
+ */
+router.put(
+  '/resources/:id',
+  authorize('COORDINADOR'),
+  invalidateCache('scheduleResource', (req) => req.params.id as string),
+  scheduleController.updateResource.bind(scheduleController)
+);
+
+/**
+ * @swagger
+ * /schedule/assignments:
+ *   post:
+ *     summary: Asigna una producción a un turno de una cabina
+ *     description: |
+ *       Una orden CALCULADO pasa a PROGRAMADO; una orden PROGRAMADO se reprograma y la asignación anterior queda en el historial.
+ *       La cabina debe ser de la misma línea que la orden. Si las mezclas de la orden superan la capacidad
+ *       disponible del turno se responde 409, salvo que se envíe permitirSobrecupo.
+ *     tags: [Schedule]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [productionId, recursoId, fecha, turno]
+ *             properties:
+ *               productionId:
+ *                 type: string
+ *                 format: ObjectId
+ *               recursoId:
+ *                 type: string
+ *                 format: ObjectId
+ *               fecha:
+ *                 type: string
+ *                 format: date
+ *                 example: "2026-10-20"
+ *               turno:
+ *                 type: string
+ *                 example: MAÑANA
+ *               permitirSobrecupo:
+ *                 type: boolean
+ *                 default: false
+ *     responses:
+ *       201:
+ *         description: Producción programada
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 ok:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Producción programada en el turno MAÑANA"
+ *                 data:
+ *                   $ref: '#/components/schemas/ScheduleAssignment'
+ *       400:
+ *         description: Estado de la orden, línea, turno o fecha inválidos
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Solo COORDINADOR
+ *       404:
+ *         description: Producción o recurso no encontrado
+ *       409:
+ *         description: Sobrecupo del turno o programación concurrente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *             example:
+ *               ok: false
+ *               error: "Sobrecupo en CABINA ONCO 1 turno MAÑANA del 2026-10-20: ocupado 10 de 12 y la orden tiene 4 mezcla(s). Envíe permitirSobrecupo para asignarla de todas formas"
+ */
+router.post(
+  '/assignments',
+  authorize('COORDINADOR'),
+  invalidateCache('production', (req) => req.body?.productionId),
+  scheduleController.assign.bind(scheduleController)
+);
+
+/**
+ * @swagger
+ * /schedule/assignments/{id}:
+ *   delete:
+ *     summary: Libera el turno asignado a una producción
+ *     description: Solo para órdenes CALCULADO o PROGRAMADO. La orden conserva su estado y aparece como programada sin turno.
+ *     tags: [Schedule]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: ObjectId
+ *         description: ID de la asignación
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [motivo]
+ *             properties:
+ *               motivo:
+ *                 type: string
+ *                 example: "Cabina en mantenimiento"
+ *     responses:
+ *       200:
+ *         description: Turno liberado
+ *       400:
+ *         description: Motivo faltante, asignación no vigente u orden ya producida
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Asignación no encontrada
+ */
+router.delete(
+  '/assignments/:id',
+  authorize('COORDINADOR'),
+  scheduleController.release.bind(scheduleController)
+);
+
+export default router;
@@ -0,0 +1,34 @@
+import mongoose from 'mongoose';
+import { GLOBAL_ENV } from '@/shared/constants';
+import { Stability } from '@/models/Stability.model';
+import { documentGenerationService } from '@/services/documents/documentGeneration.service';
+
+/**
+ * Migraciones de datos para bases existentes; se corre una vez al desplegar (npm run migrate)
+ * - Estabilidades: el índice único incluye las condiciones de almacenamiento, se elimina el anterior
+ * - Documentos anteriores al versionado: se numeran y queda una sola versión activa por tipo
+ */
+const migrate = async (): Promise<void> => {
+  if (!GLOBAL_ENV.MONGODB_URI) {
+    throw new Error('MONGODB_URI is not defined');
+  }
+
+  await mongoose.connect(GLOBAL_ENV.MONGODB_URI, { dbName: 'base_calculo_db' });
+
+  try {
+    await Stability.syncIndexes();
+    console.log('Índices de estabilidades sincronizados');
+
+    const migrados = await documentGenerationService.backfillVersions();
+    console.log(`Versionado de documentos: ${migrados} tipos de documento migrados`);
+  } finally {
+    await mongoose.disconnect();
+  }
+};
+
+migrate()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('Error en la migración:', error);
+    process.exit(1);
+  });
@@ -15,6 +15,8 @@ import productionRoutes from '@/routes/production.routes';
 import documentRoutes from '@/routes/document.routes';
 import catalogRoutes from '@/routes/catalog.routes';
 import auditRoutes from '@/routes/audit.routes';
+import scheduleRoutes from '@/routes/schedule.routes';
+import inventoryRoutes from '@/routes/inventory.routes';
 
 
 const app: Application = express();
@@ -74,6 +76,8 @@ app.use(`${GLOBAL_ENV.ROUTER_SUBFIJE}/productions`, productionRoutes);
 app.use(`${GLOBAL_ENV.ROUTER_SUBFIJE}/documents`, documentRoutes);
 app.use(`${GLOBAL_ENV.ROUTER_SUBFIJE}/catalog`, catalogRoutes);
 app.use(`${GLOBAL_ENV.ROUTER_SUBFIJE}/audit`, auditRoutes);
+app.use(`${GLOBAL_ENV.ROUTER_SUBFIJE}/schedule`, scheduleRoutes);
+app.use(`${GLOBAL_ENV.ROUTER_SUBFIJE}/inventory`, inventoryRoutes);
 
 app.use((req: Request, res: Response) => { // 404 error handler
     res.status(404).json({
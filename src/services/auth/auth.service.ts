@@ -4,7 +4,8 @@ import { Types } from 'mongoose';
 import { User, IUser, UserRole } from '@/models/User.model';
 import { ResponseError } from '@/utils/erros';
 import { GLOBAL_ENV } from '@/shared/constants';
-import { cloudinaryService } from '@/services/cloudinary/cloudinary.service';
+import { storageService } from '@/services/storage/storage.service';
+import { StorageDriverName } from '@/services/storage/storage.types';
 
 export interface AuthTokenPayload {
   userId: string;
@@ -53,21 +54,24 @@ export class AuthService {
     const saltRounds = 10;
     const hashPassword = await bcrypt.hash(password, saltRounds);
 
-    // Subir firma a Cloudinary si se proporciona
-    let firmaUrl: string | undefined;
+    // Subir firma al almacenamiento si se proporciona
     let firmaPublicId: string | undefined;
+    let firmaStorageDriver: StorageDriverName | undefined;
 
     if (firma) {
       try {
-        // Si la firma viene como base64, subirla a Cloudinary
-        const publicId = `firmas/${username.toUpperCase()}_${identificacion.replace(/\./g, '_')}`;
-        const uploadResult = await cloudinaryService.uploadSignature(firma, 'firmas', publicId);
-        firmaUrl = uploadResult.secure_url;
-        firmaPublicId = uploadResult.public_id;
+        // La firma viene como base64
+        const storedFile = await storageService.upload(firma, {
+          folder: 'firmas',
+          fileName: `${username.toUpperCase()}_${identificacion.replace(/\./g, '_')}_${Date.now()}.png`,
+          contentType: 'image/png'
+        });
+        firmaPublicId = storedFile.key;
+        firmaStorageDriver = storedFile.driver;
       } catch (error) {
-        console.error('Error al subir firma a Cloudinary:', error);
+        console.error('Error al subir firma al almacenamiento:', error);
         // Si falla la subida, no bloquear el registro pero registrar el error
-        throw new ResponseError(500, 'Error al subir la firma a Cloudinary');
+        throw new ResponseError(500, 'Error al subir la firma');
       }
     }
 
@@ -79,8 +83,8 @@ export class AuthService {
       cargo,
       identificacion,
       tarjetaProfesional,
-      firmaUrl,
       firmaPublicId,
+      firmaStorageDriver,
       hashPassword,
       rolSistema,
       activo: true,
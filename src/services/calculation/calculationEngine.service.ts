@@ -1,17 +1,31 @@
 import { Types } from 'mongoose';
 import { Medicine } from '@/models/Medicine.model';
 import { Stability } from '@/models/Stability.model';
-import { CalculationInput, CalculationResult } from '@/contracts/types/production.types';
+import { Container } from '@/models/Container.model';
+import {
+  CalculationInput,
+  CalculationOptions,
+  CalculationResult,
+  CriterioPresentacion,
+  DosificacionInput,
+  DosificacionResult,
+  FormulaSuperficieCorporal,
+  PresentacionDisponible,
+  PresentacionSeleccionada
+} from '@/contracts/types/production.types';
 import { ResponseError } from '@/utils/erros';
+import { unitConversionService } from './unitConversion.service';
 import dayjs from 'dayjs';
 
 /**
  * Motor de Cálculo Farmacéutico
  * Replica los cálculos de Excel de forma determinística
- * Debe ser probado con unit tests comparando resultados contra el Excel original
+ * Se prueba contra los casos del Excel original en test/calculationEngine.golden.test.ts (npm test)
+ * Al cambiar VERSION, certificarla con esa suite antes de liberar
  */
 export class CalculationEngineService {
-  private readonly VERSION = '1.0.0';
+  private readonly VERSION = '2.0.0'; // 2.0.0: selección de presentaciones, dosificación por SC/peso/Calvert y volumen de vehículo por rango
+  private readonly TFG_MAXIMA_CALVERT = 125; // ml/min, tope habitual para carboplatino
 
   /**
    * Obtiene la versión del motor de cálculo
@@ -20,11 +34,151 @@ export class CalculationEngineService {
     return this.VERSION;
   }
 
+  /**
+   * Calcula la superficie corporal del paciente
+   * @param pesoKg - Peso en kg
+   * @param tallaCm - Talla en cm
+   * @param formula - MOSTELLER: √(talla × peso / 3600); DUBOIS: 0.007184 × peso^0.425 × talla^0.725
+   * @returns Superficie corporal en m²
+   */
+  calculateSuperficieCorporal(
+    pesoKg: number,
+    tallaCm: number,
+    formula: FormulaSuperficieCorporal = 'MOSTELLER'
+  ): number {
+    if (!pesoKg || pesoKg <= 0 || !tallaCm || tallaCm <= 0) {
+      throw new ResponseError(400, 'Peso y talla del paciente son requeridos para calcular la superficie corporal');
+    }
+
+    const superficie = formula === 'DUBOIS'
+      ? 0.007184 * Math.pow(pesoKg, 0.425) * Math.pow(tallaCm, 0.725)
+      : Math.sqrt((tallaCm * pesoKg) / 3600);
+
+    return Math.round(superficie * 100) / 100;
+  }
+
+  /**
+   * Estima la tasa de filtración glomerular con Cockcroft-Gault
+   * @param edad - Edad en años
+   * @param pesoKg - Peso en kg
+   * @param creatininaSerica - Creatinina sérica en mg/dl
+   * @param sexo - M o F (F aplica factor 0.85)
+   * @returns TFG en ml/min
+   */
+  calculateTFGCockcroftGault(
+    edad: number,
+    pesoKg: number,
+    creatininaSerica: number,
+    sexo: 'M' | 'F'
+  ): number {
+    if (!edad || !pesoKg || !creatininaSerica || creatininaSerica <= 0 || !sexo) {
+      throw new ResponseError(400, 'Edad, peso, sexo y creatinina sérica son requeridos para estimar la TFG');
+    }
+
+    const tfg = ((140 - edad) * pesoKg) / (72 * creatininaSerica) * (sexo === 'F' ? 0.85 : 1);
+
+    return Math.round(tfg * 100) / 100;
+  }
+
+  /**
+   * Calcula la dosis absoluta por fórmula de Calvert: dosis (mg) = AUC × (TFG + 25)
+   * @param auc - AUC objetivo en mg/ml·min
+   * @param tfg - TFG en ml/min
+   * @param tfgMaxima - Tope de TFG aplicado antes del cálculo
+   * @returns Dosis en mg
+   */
+  calculateDosisCalvert(auc: number, tfg: number, tfgMaxima: number = this.TFG_MAXIMA_CALVERT): number {
+    if (auc <= 0 || tfg <= 0) {
+      throw new ResponseError(400, 'AUC y TFG deben ser mayores a 0');
+    }
+
+    return Math.round(auc * (Math.min(tfg, tfgMaxima) + 25) * 100) / 100;
+  }
+
+  /**
+   * Deriva la dosis absoluta a partir de la dosificación prescrita (mg/m², mg/kg, AUC)
+   * Aplica los topes de superficie corporal y de dosis máxima si se enviaron
+   * @param input - Datos de dosificación y del paciente
+   * @returns Dosis absoluta y valores usados para derivarla
+   */
+  calculateDosisAbsoluta(input: DosificacionInput): DosificacionResult {
+    if (!input.dosisReferencia || input.dosisReferencia <= 0) {
+      throw new ResponseError(400, 'Dosis de referencia debe ser mayor a 0');
+    }
+
+    let dosisCalculada: number;
+    let unidadDosis = input.unidadDosis;
+    let superficieCorporal: number | undefined;
+    let tfg: number | undefined;
+    let topeAplicado = false;
+
+    switch (input.tipo) {
+      case 'SUPERFICIE_CORPORAL': {
+        superficieCorporal = this.calculateSuperficieCorporal(
+          input.pesoKg as number,
+          input.tallaCm as number,
+          input.formulaSC
+        );
+        if (input.superficieCorporalMaxima && superficieCorporal > input.superficieCorporalMaxima) {
+          superficieCorporal = input.superficieCorporalMaxima;
+          topeAplicado = true;
+        }
+        dosisCalculada = input.dosisReferencia * superficieCorporal;
+        break;
+      }
+      case 'PESO': {
+        if (!input.pesoKg || input.pesoKg <= 0) {
+          throw new ResponseError(400, 'Peso del paciente es requerido para dosificar por kg');
+        }
+        dosisCalculada = input.dosisReferencia * input.pesoKg;
+        break;
+      }
+      case 'AUC_CALVERT': {
+        tfg = input.tfg ?? this.calculateTFGCockcroftGault(
+          input.edad as number,
+          input.pesoKg as number,
+          input.creatininaSerica as number,
+          input.sexo as 'M' | 'F'
+        );
+        const tfgMaxima = input.tfgMaxima ?? this.TFG_MAXIMA_CALVERT;
+        if (tfg > tfgMaxima) {
+          tfg = tfgMaxima;
+          topeAplicado = true;
+        }
+        dosisCalculada = this.calculateDosisCalvert(input.dosisReferencia, tfg, tfgMaxima);
+        unidadDosis = 'mg';
+        break;
+      }
+      case 'ABSOLUTA':
+        dosisCalculada = input.dosisReferencia;
+        break;
+      default:
+        throw new ResponseError(400, `Tipo de dosificación no soportado: ${input.tipo}`);
+    }
+
+    dosisCalculada = Math.round(dosisCalculada * 100) / 100;
+    let dosisFinal = dosisCalculada;
+
+    if (input.dosisMaxima && dosisFinal > input.dosisMaxima) {
+      dosisFinal = input.dosisMaxima;
+      topeAplicado = true;
+    }
+
+    return {
+      dosisCalculada,
+      dosisFinal,
+      unidadDosis,
+      superficieCorporal,
+      tfg,
+      topeAplicado
+    };
+  }
+
   /**
    * Convierte dosis prescrita a volumen a extraer según concentración
    * @param dosisPrescrita - Dosis prescrita en la unidad especificada
-   * @param unidadDosis - Unidad de la dosis (mg, g, UI, etc.)
-   * @param concentracion - Concentración del medicamento (ej: "50mg/ml", "100UI/ml")
+   * @param unidadDosis - Unidad de la dosis (mg, g, mcg, UI, mEq)
+   * @param concentracion - Concentración del medicamento (ej: "50mg/ml", "100UI/ml", "1g/10ml")
    * @returns Volumen a extraer en ml
    */
   calculateVolumenExtraer(
@@ -32,27 +186,18 @@ export class CalculationEngineService {
     unidadDosis: string,
     concentracion: string
   ): number {
-    // Parsear concentración (formato esperado: "50mg/ml" o "100UI/ml")
-    const concentracionMatch = concentracion.match(/(\d+(?:\.\d+)?)\s*(\w+)\s*\/\s*ml/i);
+    // Parsear concentración (ej: "50mg/ml", "1g/10ml", "50 mg/5 mL")
+    const concentracionParseada = unitConversionService.parseConcentracion(concentracion);
     
-    if (!concentracionMatch) {
-      throw new ResponseError(400, `Formato de concentración inválido: ${concentracion}`);
-    }
-    
-    const concentracionValor = parseFloat(concentracionMatch[1]);
-    const concentracionUnidad = concentracionMatch[2].toLowerCase();
-    
-    // Verificar que las unidades coincidan
-    const dosisUnidad = unidadDosis.toLowerCase();
-    if (dosisUnidad !== concentracionUnidad) {
-      throw new ResponseError(
-        400, 
-        `Unidades no coinciden: dosis en ${unidadDosis}, concentración en ${concentracionUnidad}`
-      );
-    }
+    // Llevar la dosis a la unidad de la concentración (rechaza conversiones sin sentido físico)
+    const dosisConvertida = unitConversionService.convert(
+      dosisPrescrita,
+      unidadDosis,
+      concentracionParseada.unidad.simbolo
+    );
     
-    // Calcular volumen: dosis / concentración
-    const volumen = dosisPrescrita / concentracionValor;
+    // Calcular volumen: dosis / concentración por ml
+    const volumen = dosisConvertida / concentracionParseada.porMl;
     
     // Redondeo clínico seguro: redondear a 2 decimales
     return Math.round(volumen * 100) / 100;
@@ -81,6 +226,176 @@ export class CalculationEngineService {
     return Math.ceil(unidadesNecesarias);
   }
 
+  /**
+   * Selecciona la combinación de presentaciones que cubre el volumen a extraer
+   * Los volúmenes se comparan en centésimas de ml para evitar errores de punto flotante
+   * @param volumenExtraer - Volumen a extraer en ml
+   * @param presentaciones - Presentaciones disponibles del medicamento
+   * @param criterio - MENOS_UNIDADES (menos viales abiertos) o MENOR_DESPERDICIO (menos volumen sobrante)
+   * @returns Desglose de unidades abiertas por presentación
+   */
+  selectPresentaciones(
+    volumenExtraer: number,
+    presentaciones: PresentacionDisponible[],
+    criterio: CriterioPresentacion = 'MENOS_UNIDADES'
+  ): PresentacionSeleccionada[] {
+    const candidatas = presentaciones
+      .filter(p => p.volumen > 0 && p.cantidad > 0)
+      .map(p => ({
+        presentacion: p,
+        volumenUnidad: Math.round((p.volumen / p.cantidad) * 100)
+      }))
+      .filter(c => c.volumenUnidad > 0)
+      .sort((a, b) => b.volumenUnidad - a.volumenUnidad);
+
+    if (candidatas.length === 0) {
+      throw new ResponseError(400, 'Medicamento no tiene presentaciones disponibles');
+    }
+
+    const objetivo = Math.max(Math.round(volumenExtraer * 100), 0);
+
+    // Una combinación óptima no tiene unidades de sobra (quitar una bajaría unidades y desperdicio):
+    // su total queda por debajo del objetivo más la unidad más grande
+    const limite = objetivo + candidatas[0].volumenUnidad;
+
+    // minUnidades[total]: menor cantidad de unidades que suman exactamente ese total (centésimas de ml)
+    const minUnidades = new Array<number>(limite).fill(Number.POSITIVE_INFINITY);
+    minUnidades[0] = 0;
+    for (let total = 1; total < limite; total++) {
+      for (const { volumenUnidad } of candidatas) {
+        if (volumenUnidad <= total && minUnidades[total - volumenUnidad] + 1 < minUnidades[total]) {
+          minUnidades[total] = minUnidades[total - volumenUnidad] + 1;
+        }
+      }
+    }
+
+    // MENOR_DESPERDICIO: el primer total alcanzable desde el objetivo
+    // MENOS_UNIDADES: el de menos unidades; a igual cantidad, el de menor total (menos desperdicio)
+    let mejor = -1;
+    for (let total = objetivo; total < limite; total++) {
+      if (!Number.isFinite(minUnidades[total])) continue;
+      if (mejor === -1) {
+        mejor = total;
+        if (criterio === 'MENOR_DESPERDICIO') break;
+      } else if (minUnidades[total] < minUnidades[mejor]) {
+        mejor = total;
+      }
+    }
+
+    if (mejor === -1) {
+      throw new ResponseError(400, 'No fue posible cubrir la dosis con las presentaciones disponibles');
+    }
+
+    // Entre combinaciones equivalentes se prefieren las presentaciones más grandes
+    const conteos = candidatas.map(() => 0);
+    let restante = mejor;
+    while (restante > 0) {
+      const indice = candidatas.findIndex(c =>
+        c.volumenUnidad <= restante && minUnidades[restante - c.volumenUnidad] === minUnidades[restante] - 1
+      );
+      conteos[indice] += 1;
+      restante -= candidatas[indice].volumenUnidad;
+    }
+
+    return candidatas
+      .map((c, i) => ({
+        volumen: c.presentacion.volumen,
+        unidad: c.presentacion.unidad,
+        tipoEnvase: c.presentacion.tipoEnvase,
+        volumenUnidad: c.volumenUnidad / 100,
+        unidades: conteos[i]
+      }))
+      .filter(p => p.unidades > 0);
+  }
+
+  /**
+   * Calcula el volumen sobrante de las unidades abiertas
+   * @param volumenExtraer - Volumen a extraer en ml
+   * @param presentaciones - Desglose de unidades abiertas
+   * @returns Volumen sobrante en ml
+   */
+  calculateVolumenDesperdicio(
+    volumenExtraer: number,
+    presentaciones: PresentacionSeleccionada[]
+  ): number {
+    const volumenAbierto = presentaciones.reduce(
+      (total, p) => total + p.unidades * p.volumenUnidad,
+      0
+    );
+
+    return Math.max(0, Math.round((volumenAbierto - volumenExtraer) * 100) / 100);
+  }
+
+  /**
+   * Calcula el volumen de vehículo (diluyente) de la mezcla
+   * Elige el menor volumen estándar del envase que deja la concentración final dentro del rango permitido
+   * @param cantidadPrincipioActivo - Dosis expresada en la unidad de la concentración del medicamento
+   * @param volumenExtraer - Volumen de medicamento a extraer en ml
+   * @param opciones - Rango de concentración final, volúmenes estándar y capacidad del envase
+   * @returns Volumen de vehículo en ml
+   */
+  calculateVolumenVehiculo(
+    cantidadPrincipioActivo: number,
+    volumenExtraer: number,
+    opciones: Pick<
+      CalculationInput,
+      'concentracionFinalMin' | 'concentracionFinalMax' | 'volumenesEstandar' | 'volumenMaxEnvase' | 'volumenVehiculo'
+    > = {}
+  ): number {
+    // Volumen total mínimo para no superar la concentración máxima y máximo para no bajar de la mínima
+    const volumenTotalMinimo = opciones.concentracionFinalMax
+      ? cantidadPrincipioActivo / opciones.concentracionFinalMax
+      : 0;
+    const volumenTotalMaximo = opciones.concentracionFinalMin
+      ? cantidadPrincipioActivo / opciones.concentracionFinalMin
+      : Number.POSITIVE_INFINITY;
+    const capacidad = opciones.volumenMaxEnvase || Number.POSITIVE_INFINITY;
+
+    const cumpleRango = (volumenVehiculo: number): boolean => {
+      const total = Math.round((volumenExtraer + volumenVehiculo) * 100) / 100;
+      return total >= Math.round(volumenTotalMinimo * 100) / 100 &&
+        total <= Math.round(volumenTotalMaximo * 100) / 100 &&
+        total <= capacidad;
+    };
+
+    // Volumen fijado manualmente: solo se valida
+    if (opciones.volumenVehiculo !== undefined && opciones.volumenVehiculo !== null) {
+      if (opciones.volumenVehiculo < 0) {
+        throw new ResponseError(400, 'Volumen de vehículo no puede ser negativo');
+      }
+      if (!cumpleRango(opciones.volumenVehiculo)) {
+        throw new ResponseError(
+          400,
+          `Volumen de vehículo ${opciones.volumenVehiculo} ml deja la concentración final fuera del rango permitido o supera la capacidad del envase`
+        );
+      }
+      return opciones.volumenVehiculo;
+    }
+
+    const volumenesEstandar = [...(opciones.volumenesEstandar || [])]
+      .filter(v => v > 0)
+      .sort((a, b) => a - b);
+
+    if (volumenesEstandar.length > 0) {
+      const volumen = volumenesEstandar.find(cumpleRango);
+      if (volumen === undefined) {
+        throw new ResponseError(
+          400,
+          `Ningún volumen estándar del envase (${volumenesEstandar.join(', ')} ml) deja la concentración final dentro del rango permitido`
+        );
+      }
+      return volumen;
+    }
+
+    // Sin volúmenes estándar: completar hasta el mínimo requerido, redondeando al ml superior
+    const volumenVehiculo = Math.max(0, Math.ceil(volumenTotalMinimo - volumenExtraer));
+    if (!cumpleRango(volumenVehiculo)) {
+      throw new ResponseError(400, 'No es posible diluir la dosis dentro del rango de concentración final permitido');
+    }
+
+    return volumenVehiculo;
+  }
+
   /**
    * Calcula el volumen final de la mezcla
    * @param volumenExtraer - Volumen a extraer del medicamento
@@ -110,15 +425,16 @@ export class CalculationEngineService {
   /**
    * Calcula la fecha y hora de vencimiento según estabilidad
    * @param horasEstabilidad - Horas de estabilidad
+   * @param fechaPreparacion - Momento de la preparación (por defecto, ahora)
    * @returns Fecha y hora de vencimiento
    */
-  calculateFechaVencimiento(horasEstabilidad: number): Date {
+  calculateFechaVencimiento(horasEstabilidad: number, fechaPreparacion?: Date): Date {
     if (horasEstabilidad <= 0) {
       throw new ResponseError(400, 'Horas de estabilidad deben ser mayores a 0');
     }
     
-    const ahora = dayjs();
-    const fechaVencimiento = ahora.add(horasEstabilidad, 'hour');
+    const inicio = fechaPreparacion ? dayjs(fechaPreparacion) : dayjs();
+    const fechaVencimiento = inicio.add(horasEstabilidad, 'hour');
     
     return fechaVencimiento.toDate();
   }
@@ -141,68 +457,118 @@ export class CalculationEngineService {
       input.concentracion
     );
     
-    // 2. Calcular unidades de insumo
-    const unidadesInsumo = this.calculateUnidadesInsumo(
-      volumenExtraer,
-      input.volumenPresentacion,
-      input.unidadesPresentacion
-    );
+    // 2. Calcular unidades de insumo (combinando presentaciones si se enviaron varias)
+    let presentaciones: PresentacionSeleccionada[];
+    let unidadesInsumo: number;
+
+    if (input.presentaciones && input.presentaciones.length > 0) {
+      presentaciones = this.selectPresentaciones(
+        volumenExtraer,
+        input.presentaciones,
+        input.criterioPresentacion
+      );
+      unidadesInsumo = presentaciones.reduce((total, p) => total + p.unidades, 0);
+    } else {
+      unidadesInsumo = this.calculateUnidadesInsumo(
+        volumenExtraer,
+        input.volumenPresentacion,
+        input.unidadesPresentacion
+      );
+      presentaciones = [{
+        volumen: input.volumenPresentacion,
+        unidad: 'ml',
+        tipoEnvase: '',
+        volumenUnidad: input.volumenPresentacion / input.unidadesPresentacion,
+        unidades: unidadesInsumo
+      }];
+    }
+
+    const volumenDesperdicio = this.calculateVolumenDesperdicio(volumenExtraer, presentaciones);
     
-    // 3. Calcular volumen final (asumiendo que el vehículo se agrega después)
-    const volumenFinal = this.calculateVolumenFinal(volumenExtraer);
+    // 3. Calcular volumen de vehículo y volumen final
+    const concentracion = unitConversionService.parseConcentracion(input.concentracion);
+    const cantidadPrincipioActivo = unitConversionService.convert(
+      input.dosisPrescrita,
+      input.unidadDosis,
+      concentracion.unidad.simbolo
+    );
+    const volumenVehiculo = this.calculateVolumenVehiculo(cantidadPrincipioActivo, volumenExtraer, input);
+    const volumenFinal = this.calculateVolumenFinal(volumenExtraer, volumenVehiculo);
+
+    if (input.volumenMaxEnvase && volumenFinal > input.volumenMaxEnvase) {
+      throw new ResponseError(
+        400,
+        `Volumen total ${volumenFinal} ml supera la capacidad del envase (${input.volumenMaxEnvase} ml)`
+      );
+    }
+
+    const concentracionFinal = Math.round((cantidadPrincipioActivo / volumenFinal) * 10000) / 10000;
     
     // 4. Generar lote
     const lote = this.generateLote();
     
     // 5. Calcular fecha de vencimiento
-    const fechaVencimiento = this.calculateFechaVencimiento(input.horasEstabilidad);
+    const fechaVencimiento = this.calculateFechaVencimiento(
+      input.horasEstabilidad,
+      input.fechaPreparacion
+    );
     
     return {
       volumenExtraer,
+      volumenVehiculo,
       volumenFinal,
+      concentracionFinal,
       unidadesInsumo,
+      presentaciones,
+      volumenDesperdicio,
       lote,
       fechaVencimiento
     };
   }
 
   /**
-   * Calcula usando datos de la base de datos
+   * Arma la entrada del cálculo con los datos vigentes del catálogo
+   * Es la entrada que se guarda como snapshot en cada mezcla para poder reproducir el resultado
    * @param medicamentoId - ID del medicamento
    * @param laboratorioId - ID del laboratorio
    * @param vehiculoId - ID del vehículo
    * @param envaseId - ID del envase
    * @param dosisPrescrita - Dosis prescrita
    * @param unidadDosis - Unidad de la dosis
-   * @returns Resultados del cálculo
+   * @param opciones - Criterio de presentaciones, fecha de preparación, volumen de vehículo manual y estabilidad elegida
+   * @returns Entrada para calculateComplete
    */
-  async calculateFromDatabase(
+  async buildInputFromDatabase(
     medicamentoId: Types.ObjectId,
     laboratorioId: Types.ObjectId,
     vehiculoId: Types.ObjectId,
     envaseId: Types.ObjectId,
     dosisPrescrita: number,
-    unidadDosis: string
-  ): Promise<CalculationResult> {
+    unidadDosis: string,
+    opciones: CalculationOptions = {}
+  ): Promise<CalculationInput> {
     // Obtener medicamento
     const medicamento = await Medicine.findById(medicamentoId);
     if (!medicamento) {
       throw new ResponseError(404, 'Medicamento no encontrado');
     }
     
-    // Obtener estabilidad
-    const estabilidad = await Stability.findOne({
-      medicamentoId,
-      laboratorioId,
-      vehiculoId,
-      envaseId
-    });
+    // Obtener estabilidad (la elegida por condición de almacenamiento, si se indicó)
+    const estabilidad = opciones.estabilidadId
+      ? await Stability.findOne({ _id: opciones.estabilidadId, medicamentoId, laboratorioId, vehiculoId, envaseId })
+      : await Stability.findOne({ medicamentoId, laboratorioId, vehiculoId, envaseId });
     
     if (!estabilidad) {
       throw new ResponseError(404, 'Estabilidad no encontrada para esta combinación');
     }
     
-    // Obtener primera presentación (se puede mejorar para seleccionar la correcta)
+    // Obtener envase (volúmenes estándar y capacidad)
+    const envase = await Container.findById(envaseId);
+    if (!envase) {
+      throw new ResponseError(404, 'Envase no encontrado');
+    }
+    
+    // La primera presentación solo se usa como respaldo; el motor combina todas
     const presentacion = medicamento.presentaciones[0];
     if (!presentacion) {
       throw new ResponseError(400, 'Medicamento no tiene presentaciones disponibles');
@@ -215,9 +581,55 @@ export class CalculationEngineService {
       concentracion: medicamento.concentracion,
       volumenPresentacion: presentacion.volumen,
       unidadesPresentacion: presentacion.cantidad,
-      horasEstabilidad: estabilidad.horasEstabilidad
+      horasEstabilidad: estabilidad.horasEstabilidad,
+      fechaPreparacion: opciones.fechaPreparacion,
+      presentaciones: medicamento.presentaciones.map(p => ({
+        volumen: p.volumen,
+        unidad: p.unidad,
+        cantidad: p.cantidad,
+        tipoEnvase: p.tipoEnvase
+      })),
+      criterioPresentacion: opciones.criterioPresentacion,
+      concentracionFinalMin: medicamento.concentracionFinalMin,
+      concentracionFinalMax: medicamento.concentracionFinalMax,
+      volumenesEstandar: envase.volumenesEstandar,
+      volumenMaxEnvase: envase.volumenMax,
+      volumenVehiculo: opciones.volumenVehiculo
     };
     
+    return input;
+  }
+
+  /**
+   * Calcula usando datos de la base de datos
+   * @param medicamentoId - ID del medicamento
+   * @param laboratorioId - ID del laboratorio
+   * @param vehiculoId - ID del vehículo
+   * @param envaseId - ID del envase
+   * @param dosisPrescrita - Dosis prescrita
+   * @param unidadDosis - Unidad de la dosis
+   * @param opciones - Criterio de presentaciones, fecha de preparación, volumen de vehículo manual y estabilidad elegida
+   * @returns Resultados del cálculo
+   */
+  async calculateFromDatabase(
+    medicamentoId: Types.ObjectId,
+    laboratorioId: Types.ObjectId,
+    vehiculoId: Types.ObjectId,
+    envaseId: Types.ObjectId,
+    dosisPrescrita: number,
+    unidadDosis: string,
+    opciones: CalculationOptions = {}
+  ): Promise<CalculationResult> {
+    const input = await this.buildInputFromDatabase(
+      medicamentoId,
+      laboratorioId,
+      vehiculoId,
+      envaseId,
+      dosisPrescrita,
+      unidadDosis,
+      opciones
+    );
+
     return await this.calculateComplete(input);
   }
 }
@@ -0,0 +1,136 @@
+import { ResponseError } from '@/utils/erros';
+
+export type DimensionUnidad = 'MASA' | 'ACTIVIDAD' | 'EQUIVALENTES' | 'VOLUMEN';
+
+export interface UnidadNormalizada {
+  simbolo: string; // Símbolo canónico (mg, UI, mEq, ml...)
+  dimension: DimensionUnidad;
+  factor: number; // Factor respecto a la unidad base de la dimensión
+}
+
+export interface ConcentracionParseada {
+  cantidad: number; // Cantidad de principio activo (ej: 50 en "50 mg/5 mL")
+  unidad: UnidadNormalizada; // Unidad del principio activo
+  volumen: number; // Volumen en ml (ej: 5 en "50 mg/5 mL")
+  porMl: number; // Cantidad de principio activo por ml
+}
+
+/**
+ * Unidades soportadas
+ * Bases: mg (masa), UI (actividad), mEq (equivalentes), ml (volumen)
+ */
+const UNIDADES: Record<string, UnidadNormalizada> = {
+  kg: { simbolo: 'kg', dimension: 'MASA', factor: 1_000_000 },
+  g: { simbolo: 'g', dimension: 'MASA', factor: 1000 },
+  gr: { simbolo: 'g', dimension: 'MASA', factor: 1000 },
+  mg: { simbolo: 'mg', dimension: 'MASA', factor: 1 },
+  mcg: { simbolo: 'mcg', dimension: 'MASA', factor: 0.001 },
+  ug: { simbolo: 'mcg', dimension: 'MASA', factor: 0.001 },
+  'µg': { simbolo: 'mcg', dimension: 'MASA', factor: 0.001 },
+  'μg': { simbolo: 'mcg', dimension: 'MASA', factor: 0.001 },
+  ng: { simbolo: 'ng', dimension: 'MASA', factor: 0.000001 },
+  ui: { simbolo: 'UI', dimension: 'ACTIVIDAD', factor: 1 },
+  iu: { simbolo: 'UI', dimension: 'ACTIVIDAD', factor: 1 },
+  u: { simbolo: 'UI', dimension: 'ACTIVIDAD', factor: 1 },
+  meq: { simbolo: 'mEq', dimension: 'EQUIVALENTES', factor: 1 },
+  eq: { simbolo: 'Eq', dimension: 'EQUIVALENTES', factor: 1000 },
+  l: { simbolo: 'l', dimension: 'VOLUMEN', factor: 1000 },
+  dl: { simbolo: 'dl', dimension: 'VOLUMEN', factor: 100 },
+  ml: { simbolo: 'ml', dimension: 'VOLUMEN', factor: 1 },
+  cc: { simbolo: 'ml', dimension: 'VOLUMEN', factor: 1 },
+  mcl: { simbolo: 'mcl', dimension: 'VOLUMEN', factor: 0.001 },
+  ul: { simbolo: 'mcl', dimension: 'VOLUMEN', factor: 0.001 }
+};
+
+/**
+ * Servicio de Conversión de Unidades
+ * Convierte dosis y concentraciones entre unidades de la misma dimensión
+ * Rechaza conversiones sin sentido físico (ej: mg → UI, mEq → mg)
+ */
+export class UnitConversionService {
+  /**
+   * Normaliza una unidad escrita libremente (ej: "MG", "mL", "UI", "µg")
+   * @param unidad - Unidad tal como viene en la prescripción o el catálogo
+   */
+  normalizeUnit(unidad: string): UnidadNormalizada {
+    const clave = (unidad || '').trim().replace(/\.$/, '');
+    const normalizada = UNIDADES[clave.toLowerCase()] || UNIDADES[clave];
+
+    if (!normalizada) {
+      throw new ResponseError(400, `Unidad no soportada: ${unidad}`);
+    }
+
+    return normalizada;
+  }
+
+  /**
+   * Indica si dos unidades se pueden convertir entre sí
+   */
+  areCompatible(desde: string, hacia: string): boolean {
+    return this.normalizeUnit(desde).dimension === this.normalizeUnit(hacia).dimension;
+  }
+
+  /**
+   * Convierte un valor entre dos unidades de la misma dimensión
+   * @param valor - Valor a convertir
+   * @param desde - Unidad de origen
+   * @param hacia - Unidad de destino
+   * @returns Valor en la unidad de destino (sin redondear)
+   */
+  convert(valor: number, desde: string, hacia: string): number {
+    const origen = this.normalizeUnit(desde);
+    const destino = this.normalizeUnit(hacia);
+
+    if (origen.dimension !== destino.dimension) {
+      throw new ResponseError(
+        400,
+        `Conversión no permitida: ${origen.simbolo} (${origen.dimension}) no se puede convertir a ${destino.simbolo} (${destino.dimension})`
+      );
+    }
+
+    return (valor * origen.factor) / destino.factor;
+  }
+
+  /**
+   * Parsea una concentración del catálogo
+   * Formatos aceptados: "50mg/ml", "100UI/ml", "1g/10ml", "50 mg/5 mL", "0,5 mEq/mL"
+   * @param concentracion - Concentración del medicamento
+   */
+  parseConcentracion(concentracion: string): ConcentracionParseada {
+    const match = (concentracion || '').match(
+      /(\d+(?:[.,]\d+)?)\s*([a-zA-Zµμ]+)\s*\/\s*(\d+(?:[.,]\d+)?)?\s*([a-zA-Zµμ]+)/
+    );
+
+    if (!match) {
+      throw new ResponseError(400, `Formato de concentración inválido: ${concentracion}`);
+    }
+
+    const cantidad = parseFloat(match[1].replace(',', '.'));
+    const unidad = this.normalizeUnit(match[2]);
+    const volumenValor = match[3] ? parseFloat(match[3].replace(',', '.')) : 1;
+    const unidadVolumen = this.normalizeUnit(match[4]);
+
+    if (unidad.dimension === 'VOLUMEN') {
+      throw new ResponseError(400, `Concentración inválida, el numerador debe ser principio activo: ${concentracion}`);
+    }
+
+    if (unidadVolumen.dimension !== 'VOLUMEN') {
+      throw new ResponseError(400, `Concentración inválida, el denominador debe ser un volumen: ${concentracion}`);
+    }
+
+    const volumen = this.convert(volumenValor, unidadVolumen.simbolo, 'ml');
+
+    if (cantidad <= 0 || volumen <= 0) {
+      throw new ResponseError(400, `Concentración inválida: ${concentracion}`);
+    }
+
+    return {
+      cantidad,
+      unidad,
+      volumen,
+      porMl: cantidad / volumen
+    };
+  }
+}
+
+export const unitConversionService = new UnitConversionService();
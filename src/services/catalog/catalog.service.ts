@@ -0,0 +1,393 @@
+import { Model, Types } from 'mongoose';
+import { Medicine } from '@/models/Medicine.model';
+import { Lab } from '@/models/Lab.model';
+import { Vehicle } from '@/models/Vehicle.model';
+import { Container } from '@/models/Container.model';
+import { Stability } from '@/models/Stability.model';
+import { Production } from '@/models/Production.model';
+import { auditService } from '@/services/workflow/audit.service';
+import { ResponseError } from '@/utils/erros';
+
+export type CatalogEntity = 'Medicine' | 'Laboratory' | 'Vehicle' | 'Container' | 'Stability';
+
+interface CatalogEntityConfig {
+  model: Model<any>;
+  nombre: string; // Nombre legible para mensajes de error
+  stabilityField?: string; // Campo de Stability que referencia la entidad
+  productionField?: string; // Campo de Production.mezclas que referencia la entidad
+  filtros: string[]; // Parámetros de consulta aceptados en listados y exportaciones
+  orden?: Record<string, 1 | -1>;
+}
+
+const CATALOG_ENTITIES: Record<CatalogEntity, CatalogEntityConfig> = {
+  Medicine: {
+    model: Medicine,
+    nombre: 'Medicamento',
+    stabilityField: 'medicamentoId',
+    productionField: 'mezclas.medicamento.id',
+    filtros: ['habilitado', 'lineaProductiva'],
+    orden: { nombre: 1 }
+  },
+  Laboratory: {
+    model: Lab,
+    nombre: 'Laboratorio',
+    stabilityField: 'laboratorioId',
+    filtros: ['habilitado'],
+    orden: { nombre: 1 }
+  },
+  Vehicle: {
+    model: Vehicle,
+    nombre: 'Vehículo',
+    stabilityField: 'vehiculoId',
+    productionField: 'mezclas.vehiculo.id',
+    filtros: ['habilitado'],
+    orden: { nombre: 1 }
+  },
+  Container: {
+    model: Container,
+    nombre: 'Envase',
+    stabilityField: 'envaseId',
+    productionField: 'mezclas.envase.id',
+    filtros: ['habilitado'],
+    orden: { tipo: 1 }
+  },
+  Stability: {
+    model: Stability,
+    nombre: 'Estabilidad',
+    productionField: 'mezclas.estabilidad.id',
+    filtros: ['habilitado', 'medicamentoId', 'laboratorioId', 'vehiculoId', 'envaseId']
+  }
+};
+
+// Estados en los que una producción ya no bloquea el borrado de catálogos
+const ESTADOS_PRODUCCION_CERRADOS = ['FINALIZADO', 'ANULADO'];
+
+// Campos que nunca se modifican por actualización
+const CAMPOS_INMUTABLES = ['_id', '__v', 'createdAt', 'updatedAt'];
+
+/**
+ * Servicio de Catálogos
+ * CRUD de medicamentos, laboratorios, vehículos, envases y estabilidades
+ * con borrado lógico, protección de referencias y auditoría
+ */
+export class CatalogService {
+  getConfig(entidad: CatalogEntity): CatalogEntityConfig {
+    const config = CATALOG_ENTITIES[entidad];
+    if (!config) {
+      throw new ResponseError(400, `Entidad de catálogo no soportada: ${entidad}`);
+    }
+    return config;
+  }
+
+  private validateId(id: string): Types.ObjectId {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new ResponseError(400, 'ID inválido');
+    }
+    return new Types.ObjectId(id);
+  }
+
+  /**
+   * Construye el filtro de listado a partir de los parámetros de consulta
+   * Solo se consideran los filtros declarados para la entidad
+   */
+  buildFilter(entidad: CatalogEntity, params: Record<string, any>): Record<string, any> {
+    const config = this.getConfig(entidad);
+    const query: Record<string, any> = {};
+
+    config.filtros.forEach(filtro => {
+      const valor = params[filtro];
+      if (valor === undefined || valor === '') return;
+
+      if (filtro === 'habilitado') {
+        query.habilitado = valor === 'true';
+      } else if (filtro.endsWith('Id')) {
+        query[filtro] = this.validateId(valor as string);
+      } else {
+        query[filtro] = valor;
+      }
+    });
+
+    return query;
+  }
+
+  /**
+   * Lista registros de catálogo aplicando los filtros de la entidad
+   */
+  async list(entidad: CatalogEntity, params: Record<string, any>) {
+    const config = this.getConfig(entidad);
+    const query = config.model.find(this.buildFilter(entidad, params)).sort(config.orden || {});
+
+    return entidad === 'Stability'
+      ? await query.populate('medicamentoId laboratorioId vehiculoId envaseId')
+      : await query;
+  }
+
+  /**
+   * Obtiene un registro de catálogo por ID
+   */
+  async getById(entidad: CatalogEntity, id: string) {
+    const config = this.getConfig(entidad);
+    const query = config.model.findById(this.validateId(id));
+
+    const registro = entidad === 'Stability'
+      ? await query.populate('medicamentoId laboratorioId vehiculoId envaseId')
+      : await query;
+
+    if (!registro) {
+      throw new ResponseError(404, `${config.nombre} no encontrado`);
+    }
+
+    return registro;
+  }
+
+  /**
+   * Crea un registro de catálogo y lo registra en auditoría
+   */
+  async create(entidad: CatalogEntity, data: Record<string, any>, userId: Types.ObjectId) {
+    const config = this.getConfig(entidad);
+
+    let registro;
+    try {
+      registro = await config.model.create(data);
+    } catch (error: any) {
+      throw this.toWriteError(error, config);
+    }
+
+    await auditService.logAction(
+      entidad,
+      registro._id as Types.ObjectId,
+      'CREATE',
+      registro.toObject(),
+      userId
+    );
+
+    return registro;
+  }
+
+  /**
+   * Convierte los errores de escritura de Mongo en errores de la API
+   */
+  private toWriteError(error: any, config: CatalogEntityConfig) {
+    if (error?.code === 11000) {
+      return new ResponseError(409, `Ya existe un registro de ${config.nombre.toLowerCase()} con esos datos`);
+    }
+    if (error?.name === 'ValidationError' || error?.name === 'CastError') {
+      return new ResponseError(400, error.message);
+    }
+    return error;
+  }
+
+  /**
+   * Registra en auditoría solo los campos que cambiaron
+   */
+  private async logCambios(
+    entidad: CatalogEntity,
+    objectId: Types.ObjectId,
+    previo: Record<string, any>,
+    nuevo: Record<string, any>,
+    campos: string[],
+    accion: string,
+    userId: Types.ObjectId
+  ): Promise<void> {
+    const cambios: Record<string, { anterior: any; nuevo: any }> = {};
+
+    campos.forEach(campo => {
+      if (JSON.stringify(previo[campo]) !== JSON.stringify(nuevo[campo])) {
+        cambios[campo] = { anterior: previo[campo], nuevo: nuevo[campo] };
+      }
+    });
+
+    if (Object.keys(cambios).length > 0) {
+      await auditService.logAction(entidad, objectId, accion, cambios, userId);
+    }
+  }
+
+  /**
+   * Actualiza parcialmente un registro de catálogo (PATCH)
+   * Registra en auditoría solo los campos que cambiaron
+   */
+  async update(
+    entidad: CatalogEntity,
+    id: string,
+    data: Record<string, any>,
+    userId: Types.ObjectId
+  ) {
+    const config = this.getConfig(entidad);
+    const objectId = this.validateId(id);
+
+    const anterior = await config.model.findById(objectId);
+    if (!anterior) {
+      throw new ResponseError(404, `${config.nombre} no encontrado`);
+    }
+
+    const updateData = { ...data };
+    CAMPOS_INMUTABLES.forEach(campo => delete updateData[campo]);
+
+    if (Object.keys(updateData).length === 0) {
+      throw new ResponseError(400, 'No se enviaron campos para actualizar');
+    }
+
+    let actualizado;
+    try {
+      actualizado = await config.model.findByIdAndUpdate(
+        objectId,
+        { $set: updateData },
+        { new: true, runValidators: true }
+      );
+    } catch (error: any) {
+      throw this.toWriteError(error, config);
+    }
+
+    await this.logCambios(
+      entidad,
+      objectId,
+      anterior.toObject(),
+      actualizado.toObject(),
+      Object.keys(updateData),
+      'UPDATE',
+      userId
+    );
+
+    return actualizado;
+  }
+
+  /**
+   * Reemplaza un registro de catálogo con el cuerpo completo (PUT)
+   * Valida el registro como en la creación: los campos requeridos deben venir y los opcionales
+   * omitidos se eliminan o toman su valor por defecto. habilitado se conserva si no se envía,
+   * porque se gestiona con el borrado lógico y la reactivación
+   */
+  async replace(
+    entidad: CatalogEntity,
+    id: string,
+    data: Record<string, any>,
+    userId: Types.ObjectId
+  ) {
+    const config = this.getConfig(entidad);
+    const objectId = this.validateId(id);
+
+    const anterior = await config.model.findById(objectId);
+    if (!anterior) {
+      throw new ResponseError(404, `${config.nombre} no encontrado`);
+    }
+
+    const reemplazoData = { ...data };
+    CAMPOS_INMUTABLES.forEach(campo => delete reemplazoData[campo]);
+
+    let actualizado;
+    try {
+      const reemplazo = new config.model({
+        habilitado: anterior.get('habilitado'),
+        ...reemplazoData,
+        _id: objectId,
+        createdAt: anterior.get('createdAt')
+      });
+      await reemplazo.validate();
+
+      actualizado = await config.model.findOneAndReplace(
+        { _id: objectId },
+        reemplazo.toObject(),
+        { new: true }
+      );
+    } catch (error: any) {
+      throw this.toWriteError(error, config);
+    }
+
+    const previo = anterior.toObject();
+    const nuevo = actualizado.toObject();
+    const campos = [...new Set([...Object.keys(previo), ...Object.keys(nuevo)])]
+      .filter(campo => !CAMPOS_INMUTABLES.includes(campo));
+
+    await this.logCambios(entidad, objectId, previo, nuevo, campos, 'REPLACE', userId);
+
+    return actualizado;
+  }
+
+  /**
+   * Cambia el estado habilitado de un registro (borrado lógico / reactivación)
+   */
+  async setHabilitado(
+    entidad: CatalogEntity,
+    id: string,
+    habilitado: boolean,
+    userId: Types.ObjectId
+  ) {
+    const config = this.getConfig(entidad);
+    const objectId = this.validateId(id);
+
+    const registro = await config.model.findByIdAndUpdate(
+      objectId,
+      { $set: { habilitado } },
+      { new: true }
+    );
+
+    if (!registro) {
+      throw new ResponseError(404, `${config.nombre} no encontrado`);
+    }
+
+    await auditService.logAction(
+      entidad,
+      objectId,
+      habilitado ? 'ENABLE' : 'DISABLE',
+      { habilitado },
+      userId
+    );
+
+    return registro;
+  }
+
+  /**
+   * Busca referencias que impiden el borrado físico de un registro
+   * @returns Descripción de cada referencia encontrada
+   */
+  async findReferences(entidad: CatalogEntity, id: Types.ObjectId): Promise<string[]> {
+    const config = this.getConfig(entidad);
+    const referencias: string[] = [];
+
+    if (config.stabilityField) {
+      const estabilidades = await Stability.countDocuments({ [config.stabilityField]: id });
+      if (estabilidades > 0) {
+        referencias.push(`${estabilidades} estabilidad(es)`);
+      }
+    }
+
+    if (config.productionField) {
+      const producciones = await Production.countDocuments({
+        [config.productionField]: id,
+        estado: { $nin: ESTADOS_PRODUCCION_CERRADOS }
+      });
+      if (producciones > 0) {
+        referencias.push(`${producciones} producción(es) activa(s)`);
+      }
+    }
+
+    return referencias;
+  }
+
+  /**
+   * Elimina físicamente un registro si no tiene referencias
+   */
+  async remove(entidad: CatalogEntity, id: string, userId: Types.ObjectId): Promise<void> {
+    const config = this.getConfig(entidad);
+    const objectId = this.validateId(id);
+
+    const registro = await config.model.findById(objectId);
+    if (!registro) {
+      throw new ResponseError(404, `${config.nombre} no encontrado`);
+    }
+
+    const referencias = await this.findReferences(entidad, objectId);
+    if (referencias.length > 0) {
+      throw new ResponseError(
+        409,
+        `${config.nombre} no se puede eliminar porque está referenciado por ${referencias.join(' y ')}. Deshabilítelo en su lugar`
+      );
+    }
+
+    await config.model.deleteOne({ _id: objectId });
+
+    await auditService.logAction(entidad, objectId, 'DELETE', registro.toObject(), userId);
+  }
+}
+
+export const catalogService = new CatalogService();
@@ -0,0 +1,200 @@
+import { Writable } from 'stream';
+import { Types } from 'mongoose';
+import dayjs from 'dayjs';
+import ExcelJS from 'exceljs';
+import { catalogService, CatalogEntity } from '@/services/catalog/catalog.service';
+import { spreadsheetService } from '@/services/catalog/spreadsheet.service';
+import { auditService } from '@/services/workflow/audit.service';
+import { ResponseError } from '@/utils/erros';
+
+export type FormatoExportacion = 'csv' | 'xlsx' | 'json';
+
+type ValorCelda = string | number | boolean | null;
+
+interface ColumnaExportacion {
+  clave: string; // Clave en JSON
+  titulo: string; // Encabezado en CSV/XLSX
+  valor: (registro: any) => ValorCelda;
+}
+
+export interface ExportacionPreparada {
+  entidad: CatalogEntity;
+  formato: FormatoExportacion;
+  filtro: Record<string, any>;
+  contentType: string;
+  nombreArchivo: string;
+}
+
+const CONTENT_TYPES: Record<FormatoExportacion, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  json: 'application/json; charset=utf-8'
+};
+
+const NOMBRES_ARCHIVO: Record<CatalogEntity, string> = {
+  Medicine: 'medicamentos',
+  Laboratory: 'laboratorios',
+  Vehicle: 'vehiculos',
+  Container: 'envases',
+  Stability: 'estabilidades'
+};
+
+// ID fijo del catálogo en auditoría: todas las exportaciones quedan en un mismo historial ('Catalog')
+const CATALOGO_AUDITORIA_ID = new Types.ObjectId('000000000000000000000000');
+
+const lista = (valores?: (string | number)[]): string => (valores || []).join(', ');
+const numero = (valor?: number): number | null => (valor === undefined || valor === null ? null : valor);
+const habilitado = (registro: any): boolean => registro.habilitado !== false;
+
+const COLUMNAS: Record<CatalogEntity, ColumnaExportacion[]> = {
+  Medicine: [
+    { clave: 'nombre', titulo: 'Nombre', valor: r => r.nombre },
+    { clave: 'principioActivo', titulo: 'Principio activo', valor: r => r.principioActivo },
+    { clave: 'concentracion', titulo: 'Concentración', valor: r => r.concentracion },
+    {
+      clave: 'presentaciones',
+      titulo: 'Presentaciones',
+      valor: r => (r.presentaciones || [])
+        .map((p: any) => `${p.tipoEnvase} ${p.cantidad}${p.unidad}/${p.volumen}ml`)
+        .join(' | ')
+    },
+    { clave: 'viaAdministracion', titulo: 'Vía de administración', valor: r => r.viaAdministracion },
+    { clave: 'lineaProductiva', titulo: 'Línea productiva', valor: r => r.lineaProductiva },
+    { clave: 'concentracionFinalMin', titulo: 'Concentración final mínima', valor: r => numero(r.concentracionFinalMin) },
+    { clave: 'concentracionFinalMax', titulo: 'Concentración final máxima', valor: r => numero(r.concentracionFinalMax) },
+    { clave: 'dosisMaximaUnica', titulo: 'Dosis máxima única', valor: r => numero(r.dosisMaximaUnica) },
+    { clave: 'dosisMaximaAcumulada', titulo: 'Dosis máxima acumulada', valor: r => numero(r.dosisMaximaAcumulada) },
+    { clave: 'diasDosisAcumulada', titulo: 'Ventana dosis acumulada (días)', valor: r => numero(r.diasDosisAcumulada) },
+    { clave: 'unidadDosisMaxima', titulo: 'Unidad dosis máxima', valor: r => r.unidadDosisMaxima ?? null },
+    { clave: 'horasEstabilidadViaAbierto', titulo: 'Estabilidad vial abierto (h)', valor: r => numero(r.horasEstabilidadViaAbierto) },
+    { clave: 'habilitado', titulo: 'Habilitado', valor: habilitado }
+  ],
+  Laboratory: [
+    { clave: 'nombre', titulo: 'Nombre', valor: r => r.nombre },
+    { clave: 'pais', titulo: 'País', valor: r => r.pais },
+    { clave: 'habilitado', titulo: 'Habilitado', valor: habilitado }
+  ],
+  Vehicle: [
+    { clave: 'nombre', titulo: 'Nombre', valor: r => r.nombre },
+    { clave: 'compatibleConLinea', titulo: 'Líneas compatibles', valor: r => lista(r.compatibleConLinea) },
+    { clave: 'habilitado', titulo: 'Habilitado', valor: habilitado }
+  ],
+  Container: [
+    { clave: 'tipo', titulo: 'Tipo', valor: r => r.tipo },
+    { clave: 'volumenMax', titulo: 'Volumen máximo (ml)', valor: r => r.volumenMax },
+    { clave: 'volumenesEstandar', titulo: 'Volúmenes estándar (ml)', valor: r => lista(r.volumenesEstandar) },
+    { clave: 'material', titulo: 'Material', valor: r => r.material },
+    { clave: 'habilitado', titulo: 'Habilitado', valor: habilitado }
+  ],
+  // Matriz desnormalizada: nombres en lugar de ObjectIds
+  Stability: [
+    { clave: 'medicamento', titulo: 'Medicamento', valor: r => r.medicamentoId?.nombre ?? null },
+    { clave: 'concentracion', titulo: 'Concentración', valor: r => r.medicamentoId?.concentracion ?? null },
+    { clave: 'laboratorio', titulo: 'Laboratorio', valor: r => r.laboratorioId?.nombre ?? null },
+    { clave: 'vehiculo', titulo: 'Vehículo', valor: r => r.vehiculoId?.nombre ?? null },
+    { clave: 'envase', titulo: 'Envase', valor: r => r.envaseId?.tipo ?? null },
+    { clave: 'horasEstabilidad', titulo: 'Horas de estabilidad', valor: r => r.horasEstabilidad },
+    { clave: 'condiciones', titulo: 'Condiciones', valor: r => r.condiciones },
+    { clave: 'habilitado', titulo: 'Habilitado', valor: habilitado }
+  ]
+};
+
+/**
+ * Servicio de Exportación de Catálogos
+ * Escribe el catálogo vigente como CSV, XLSX o JSON recorriendo un cursor de MongoDB,
+ * sin cargar la colección completa en memoria
+ */
+export class CatalogExportService {
+  /**
+   * Valida formato y filtros antes de escribir la respuesta
+   * @param params - Mismos parámetros de consulta que el listado GET de la entidad
+   */
+  prepare(entidad: CatalogEntity, formato: string | undefined, params: Record<string, any>): ExportacionPreparada {
+    const formatoNormalizado = (formato || 'csv').toLowerCase() as FormatoExportacion;
+
+    if (!CONTENT_TYPES[formatoNormalizado]) {
+      throw new ResponseError(400, `Formato de exportación no soportado: ${formato}. Use csv, xlsx o json`);
+    }
+
+    return {
+      entidad,
+      formato: formatoNormalizado,
+      filtro: catalogService.buildFilter(entidad, params),
+      contentType: CONTENT_TYPES[formatoNormalizado],
+      nombreArchivo: `${NOMBRES_ARCHIVO[entidad]}_${dayjs().format('YYYYMMDD_HHmmss')}.${formatoNormalizado}`
+    };
+  }
+
+  /**
+   * Escribe la exportación en el destino y la registra en auditoría
+   * @returns Cantidad de registros exportados
+   */
+  async write(exportacion: ExportacionPreparada, destino: Writable, userId: Types.ObjectId): Promise<number> {
+    const { entidad, formato, filtro } = exportacion;
+    const config = catalogService.getConfig(entidad);
+    const columnas = COLUMNAS[entidad];
+
+    let query = config.model.find(filtro).sort(config.orden || {}).lean();
+    if (entidad === 'Stability') {
+      query = query.populate('medicamentoId laboratorioId vehiculoId envaseId');
+    }
+    const cursor = query.cursor();
+
+    let registros = 0;
+
+    if (formato === 'xlsx') {
+      const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: destino, useStyles: true });
+      const hoja = workbook.addWorksheet(NOMBRES_ARCHIVO[entidad]);
+      hoja.columns = columnas.map(c => ({ header: c.titulo, key: c.clave, width: Math.max(c.titulo.length + 2, 14) }));
+
+      for await (const registro of cursor) {
+        hoja.addRow(columnas.map(c => c.valor(registro))).commit();
+        registros++;
+      }
+
+      hoja.commit();
+      await workbook.commit();
+    } else {
+      const escribir = (texto: string) => new Promise<void>((resolve, reject) => {
+        destino.write(texto, error => (error ? reject(error) : resolve()));
+      });
+
+      if (formato === 'csv') {
+        // BOM para que Excel reconozca UTF-8 (tildes)
+        await escribir('\uFEFF' + spreadsheetService.toCsvLine(columnas.map(c => c.titulo)));
+      } else {
+        await escribir('[');
+      }
+
+      for await (const registro of cursor) {
+        const valores = columnas.map(c => c.valor(registro));
+
+        if (formato === 'csv') {
+          await escribir(spreadsheetService.toCsvLine(valores));
+        } else {
+          const fila = Object.fromEntries(columnas.map((c, i) => [c.clave, valores[i]]));
+          await escribir((registros > 0 ? ',' : '') + JSON.stringify(fila));
+        }
+        registros++;
+      }
+
+      if (formato === 'json') {
+        await escribir(']');
+      }
+      destino.end();
+    }
+
+    // La exportación no corresponde a un registro puntual: se registra sobre el catálogo
+    await auditService.logAction(
+      'Catalog',
+      CATALOGO_AUDITORIA_ID,
+      'EXPORT',
+      { entidad, formato, filtros: filtro, registros, archivo: exportacion.nombreArchivo },
+      userId
+    );
+
+    return registros;
+  }
+}
+
+export const catalogExportService = new CatalogExportService();
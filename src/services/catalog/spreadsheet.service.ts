@@ -0,0 +1,167 @@
+import ExcelJS from 'exceljs';
+import { ResponseError } from '@/utils/erros';
+
+export type FormatoHojaCalculo = 'csv' | 'xlsx';
+
+export interface FilaHojaCalculo {
+  fila: number; // Número de fila en el archivo (1 = encabezado)
+  valores: Record<string, string>; // Valores indexados por encabezado normalizado
+}
+
+/**
+ * Servicio de Hojas de Cálculo
+ * Lectura de archivos CSV/XLSX cargados por multer (memoryStorage) y serialización CSV
+ */
+export class SpreadsheetService {
+  /**
+   * Normaliza un encabezado o nombre para compararlo: minúsculas, sin tildes ni espacios ni símbolos
+   * (ej: "Horas Estabilidad" → "horasestabilidad", "Vehículo" → "vehiculo")
+   */
+  normalizeKey(encabezado: string): string {
+    return (encabezado || '')
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/[^a-z0-9]/g, '');
+  }
+
+  /**
+   * Detecta el formato del archivo por extensión o tipo MIME
+   */
+  detectFormat(file: Express.Multer.File): FormatoHojaCalculo {
+    const nombre = (file.originalname || '').toLowerCase();
+
+    if (nombre.endsWith('.xlsx') || file.mimetype === 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet') {
+      return 'xlsx';
+    }
+
+    if (nombre.endsWith('.csv') || file.mimetype === 'text/csv' || file.mimetype === 'application/vnd.ms-excel') {
+      return 'csv';
+    }
+
+    throw new ResponseError(400, 'Formato de archivo no soportado, use CSV o XLSX');
+  }
+
+  /**
+   * Lee la primera hoja del archivo y devuelve sus filas con encabezados normalizados
+   * Las filas completamente vacías se omiten
+   */
+  async parse(file: Express.Multer.File): Promise<FilaHojaCalculo[]> {
+    if (!file?.buffer || file.buffer.length === 0) {
+      throw new ResponseError(400, 'El archivo está vacío');
+    }
+
+    const tabla = this.detectFormat(file) === 'xlsx'
+      ? await this.readXlsx(file.buffer)
+      : this.readCsv(file.buffer.toString('utf8'));
+
+    if (tabla.length === 0) {
+      throw new ResponseError(400, 'El archivo no tiene encabezados');
+    }
+
+    const encabezados = tabla[0].map(encabezado => this.normalizeKey(encabezado));
+    const filas: FilaHojaCalculo[] = [];
+
+    for (let i = 1; i < tabla.length; i++) {
+      const celdas = tabla[i];
+      if (celdas.every(celda => celda.trim() === '')) continue;
+
+      const valores: Record<string, string> = {};
+      encabezados.forEach((encabezado, j) => {
+        if (encabezado) valores[encabezado] = (celdas[j] ?? '').trim();
+      });
+
+      filas.push({ fila: i + 1, valores });
+    }
+
+    return filas;
+  }
+
+  private async readXlsx(buffer: Buffer): Promise<string[][]> {
+    const workbook = new ExcelJS.Workbook();
+
+    try {
+      await workbook.xlsx.load(buffer as any);
+    } catch (error) {
+      throw new ResponseError(400, 'No fue posible leer el archivo XLSX');
+    }
+
+    const hoja = workbook.worksheets[0];
+    if (!hoja) return [];
+
+    const tabla: string[][] = [];
+    hoja.eachRow({ includeEmpty: true }, (row, numeroFila) => {
+      const celdas: string[] = [];
+      for (let col = 1; col <= hoja.columnCount; col++) {
+        celdas.push(row.getCell(col).text ?? '');
+      }
+      tabla[numeroFila - 1] = celdas;
+    });
+
+    // eachRow no visita filas inexistentes al final, pero sí puede dejar huecos intermedios
+    return Array.from(tabla, celdas => celdas ?? []);
+  }
+
+  /**
+   * Serializa una fila CSV (RFC 4180), entre comillas solo cuando es necesario
+   */
+  toCsvLine(valores: (string | number | boolean | null | undefined)[]): string {
+    return valores
+      .map(valor => {
+        const texto = valor === null || valor === undefined ? '' : String(valor);
+        return /[",;\r\n]/.test(texto) ? `"${texto.replace(/"/g, '""')}"` : texto;
+      })
+      .join(',') + '\r\n';
+  }
+
+  /**
+   * Parser CSV (RFC 4180) con detección de separador "," o ";"
+   */
+  private readCsv(contenido: string): string[][] {
+    const texto = contenido.replace(/^\uFEFF/, '');
+    const primeraLinea = texto.split(/\r?\n/, 1)[0] || '';
+    const separador = (primeraLinea.match(/;/g) || []).length > (primeraLinea.match(/,/g) || []).length ? ';' : ',';
+
+    const tabla: string[][] = [];
+    let fila: string[] = [];
+    let celda = '';
+    let entreComillas = false;
+
+    for (let i = 0; i < texto.length; i++) {
+      const c = texto[i];
+
+      if (entreComillas) {
+        if (c === '"' && texto[i + 1] === '"') {
+          celda += '"';
+          i++;
+        } else if (c === '"') {
+          entreComillas = false;
+        } else {
+          celda += c;
+        }
+      } else if (c === '"') {
+        entreComillas = true;
+      } else if (c === separador) {
+        fila.push(celda);
+        celda = '';
+      } else if (c === '\n' || c === '\r') {
+        if (c === '\r' && texto[i + 1] === '\n') i++;
+        fila.push(celda);
+        tabla.push(fila);
+        fila = [];
+        celda = '';
+      } else {
+        celda += c;
+      }
+    }
+
+    if (celda !== '' || fila.length > 0) {
+      fila.push(celda);
+      tabla.push(fila);
+    }
+
+    return tabla;
+  }
+}
+
+export const spreadsheetService = new SpreadsheetService();
@@ -0,0 +1,289 @@
+import mongoose, { Model, Types } from 'mongoose';
+import { Medicine } from '@/models/Medicine.model';
+import { Lab } from '@/models/Lab.model';
+import { Vehicle } from '@/models/Vehicle.model';
+import { Container } from '@/models/Container.model';
+import { Stability } from '@/models/Stability.model';
+import { auditService } from '@/services/workflow/audit.service';
+import { spreadsheetService, FilaHojaCalculo } from '@/services/catalog/spreadsheet.service';
+import { ResponseError } from '@/utils/erros';
+
+export interface ErrorFilaImportacion {
+  fila: number;
+  errores: string[];
+}
+
+export interface ResultadoImportacion {
+  dryRun: boolean;
+  aplicado: boolean; // false si hubo errores o es simulación: no se escribió nada
+  totalFilas: number;
+  filasValidas: number;
+  creadas: number;
+  actualizadas: number;
+  sinCambios: number;
+  errores: ErrorFilaImportacion[];
+}
+
+interface FilaEstabilidad {
+  fila: number;
+  medicamentoId: Types.ObjectId;
+  laboratorioId: Types.ObjectId;
+  vehiculoId: Types.ObjectId;
+  envaseId: Types.ObjectId;
+  horasEstabilidad: number;
+  condiciones: string;
+}
+
+interface RegistroCatalogo {
+  _id: Types.ObjectId;
+  habilitado: boolean;
+}
+
+// Encabezados aceptados (ya normalizados) para cada columna
+const COLUMNAS: Record<string, string[]> = {
+  medicamento: ['medicamento', 'medicine'],
+  laboratorio: ['laboratorio', 'lab'],
+  vehiculo: ['vehiculo', 'vehicle'],
+  envase: ['envase', 'container'],
+  horasEstabilidad: ['horasestabilidad', 'horas'],
+  condiciones: ['condiciones', 'condicion']
+};
+
+/**
+ * Servicio de Importación de Estabilidades
+ * Carga masiva de la matriz de estabilidad desde CSV/XLSX
+ * Resuelve nombres de catálogo a IDs y hace upsert por el índice único
+ * (medicamento + laboratorio + vehículo + envase + condiciones). Todo o nada: si una fila falla no se escribe
+ * ninguna, y las escrituras van en una transacción para que un error a mitad no deje la matriz a medias
+ */
+export class StabilityImportService {
+  /**
+   * Construye un índice nombre normalizado → registros para resolver referencias
+   */
+  private async buildIndex(model: Model<any>, campo: string): Promise<Map<string, RegistroCatalogo[]>> {
+    const registros = await model.find({}, { [campo]: 1, habilitado: 1 }).lean<any[]>();
+    const indice = new Map<string, RegistroCatalogo[]>();
+
+    registros.forEach(registro => {
+      const clave = spreadsheetService.normalizeKey(registro[campo]);
+      indice.set(clave, [
+        ...(indice.get(clave) || []),
+        { _id: registro._id, habilitado: registro.habilitado !== false }
+      ]);
+    });
+
+    return indice;
+  }
+
+  private getValor(valores: Record<string, string>, columna: string): string {
+    const encabezado = COLUMNAS[columna].find(alias => valores[alias] !== undefined);
+    return encabezado ? valores[encabezado] : '';
+  }
+
+  /**
+   * Resuelve un nombre a su registro habilitado; los deshabilitados no se pueden referenciar
+   */
+  private resolve(
+    indice: Map<string, RegistroCatalogo[]>,
+    nombre: string,
+    etiqueta: string,
+    errores: string[]
+  ): Types.ObjectId | undefined {
+    if (!nombre) {
+      errores.push(`${etiqueta} es requerido`);
+      return undefined;
+    }
+
+    const registros = indice.get(spreadsheetService.normalizeKey(nombre)) || [];
+
+    if (registros.length === 0) {
+      errores.push(`${etiqueta} no encontrado: ${nombre}`);
+      return undefined;
+    }
+
+    const habilitados = registros.filter(r => r.habilitado);
+
+    if (habilitados.length === 0) {
+      errores.push(`${etiqueta} deshabilitado: ${nombre}`);
+      return undefined;
+    }
+
+    if (habilitados.length > 1) {
+      errores.push(`${etiqueta} ambiguo, hay ${habilitados.length} registros habilitados con el nombre: ${nombre}`);
+      return undefined;
+    }
+
+    return habilitados[0]._id;
+  }
+
+  /**
+   * Valida las filas del archivo y las convierte en estabilidades
+   */
+  private async validateRows(filas: FilaHojaCalculo[]) {
+    const [medicamentos, laboratorios, vehiculos, envases] = await Promise.all([
+      this.buildIndex(Medicine, 'nombre'),
+      this.buildIndex(Lab, 'nombre'),
+      this.buildIndex(Vehicle, 'nombre'),
+      this.buildIndex(Container, 'tipo')
+    ]);
+
+    const validas: FilaEstabilidad[] = [];
+    const errores: ErrorFilaImportacion[] = [];
+    const combinaciones = new Map<string, number>();
+
+    filas.forEach(({ fila, valores }) => {
+      const erroresFila: string[] = [];
+
+      const medicamentoId = this.resolve(medicamentos, this.getValor(valores, 'medicamento'), 'Medicamento', erroresFila);
+      const laboratorioId = this.resolve(laboratorios, this.getValor(valores, 'laboratorio'), 'Laboratorio', erroresFila);
+      const vehiculoId = this.resolve(vehiculos, this.getValor(valores, 'vehiculo'), 'Vehículo', erroresFila);
+      const envaseId = this.resolve(envases, this.getValor(valores, 'envase'), 'Envase', erroresFila);
+
+      const horasTexto = this.getValor(valores, 'horasEstabilidad').replace(',', '.');
+      const horasEstabilidad = Number(horasTexto);
+      if (!horasTexto || !Number.isFinite(horasEstabilidad) || horasEstabilidad < 0) {
+        erroresFila.push(`Horas de estabilidad inválidas: ${horasTexto || '(vacío)'}`);
+      }
+
+      const condiciones = this.getValor(valores, 'condiciones');
+      if (!condiciones) {
+        erroresFila.push('Condiciones es requerido');
+      }
+
+      if (medicamentoId && laboratorioId && vehiculoId && envaseId && condiciones) {
+        const clave = [medicamentoId, laboratorioId, vehiculoId, envaseId, condiciones].join('|');
+        const filaPrevia = combinaciones.get(clave);
+
+        if (filaPrevia !== undefined) {
+          erroresFila.push(`Combinación duplicada en el archivo (fila ${filaPrevia})`);
+        } else {
+          combinaciones.set(clave, fila);
+        }
+      }
+
+      if (erroresFila.length > 0) {
+        errores.push({ fila, errores: erroresFila });
+        return;
+      }
+
+      validas.push({
+        fila,
+        medicamentoId: medicamentoId!,
+        laboratorioId: laboratorioId!,
+        vehiculoId: vehiculoId!,
+        envaseId: envaseId!,
+        horasEstabilidad,
+        condiciones
+      });
+    });
+
+    return { validas, errores };
+  }
+
+  /**
+   * Importa estabilidades desde un archivo CSV/XLSX
+   * @param file - Archivo cargado por multer
+   * @param dryRun - Solo valida y reporta, sin escribir
+   * @param userId - Usuario que realiza la importación
+   */
+  async importStabilities(
+    file: Express.Multer.File,
+    dryRun: boolean,
+    userId: Types.ObjectId
+  ): Promise<ResultadoImportacion> {
+    const filas = await spreadsheetService.parse(file);
+
+    if (filas.length === 0) {
+      throw new ResponseError(400, 'El archivo no contiene filas para importar');
+    }
+
+    const { validas, errores } = await this.validateRows(filas);
+
+    // Clasificar contra lo existente para reportar creadas/actualizadas también en simulación
+    const existentes = validas.length > 0
+      ? await Stability.find({
+        $or: validas.map(({ medicamentoId, laboratorioId, vehiculoId, envaseId, condiciones }) => ({
+          medicamentoId, laboratorioId, vehiculoId, envaseId, condiciones
+        }))
+      }).lean()
+      : [];
+
+    const existentesPorClave = new Map(
+      existentes.map(e => [[e.medicamentoId, e.laboratorioId, e.vehiculoId, e.envaseId, e.condiciones].join('|'), e])
+    );
+
+    let creadas = 0;
+    let actualizadas = 0;
+    let sinCambios = 0;
+    const pendientes: { fila: FilaEstabilidad; existente?: (typeof existentes)[number] }[] = [];
+
+    validas.forEach(fila => {
+      const existente = existentesPorClave.get(
+        [fila.medicamentoId, fila.laboratorioId, fila.vehiculoId, fila.envaseId, fila.condiciones].join('|')
+      );
+
+      if (!existente) {
+        creadas++;
+      } else if (existente.horasEstabilidad === fila.horasEstabilidad) {
+        sinCambios++;
+        return;
+      } else {
+        actualizadas++;
+      }
+
+      pendientes.push({ fila, existente });
+    });
+
+    const aplicado = !dryRun && errores.length === 0;
+
+    if (aplicado) {
+      const auditorias: { estabilidadId: Types.ObjectId; accion: string; cambios: Record<string, any> }[] = [];
+
+      await mongoose.connection.transaction(async (session) => {
+        // Si la transacción se reintenta, la auditoría se arma de nuevo
+        auditorias.length = 0;
+
+        for (const { fila, existente } of pendientes) {
+          const { medicamentoId, laboratorioId, vehiculoId, envaseId, horasEstabilidad, condiciones } = fila;
+
+          const estabilidad = await Stability.findOneAndUpdate(
+            { medicamentoId, laboratorioId, vehiculoId, envaseId, condiciones },
+            { $set: { horasEstabilidad } },
+            { new: true, upsert: true, runValidators: true, session }
+          );
+
+          auditorias.push({
+            estabilidadId: estabilidad._id as Types.ObjectId,
+            accion: existente ? 'IMPORT_UPDATE' : 'IMPORT_CREATE',
+            cambios: existente
+              ? {
+                archivo: file.originalname,
+                fila: fila.fila,
+                condiciones,
+                horasEstabilidad: { anterior: existente.horasEstabilidad, nuevo: horasEstabilidad }
+              }
+              : { archivo: file.originalname, fila: fila.fila, ...estabilidad.toObject() }
+          });
+        }
+      });
+
+      // La auditoría se registra solo cuando la importación quedó confirmada
+      for (const { estabilidadId, accion, cambios } of auditorias) {
+        await auditService.logAction('Stability', estabilidadId, accion, cambios, userId);
+      }
+    }
+
+    return {
+      dryRun,
+      aplicado,
+      totalFilas: filas.length,
+      filasValidas: validas.length,
+      creadas,
+      actualizadas,
+      sinCambios,
+      errores
+    };
+  }
+}
+
+export const stabilityImportService = new StabilityImportService();
@@ -0,0 +1,170 @@
+import { ResponseError } from '@/utils/erros';
+
+/**
+ * Anchos de barra/espacio de cada símbolo Code 128 (valores 0 a 105) y el símbolo de parada
+ */
+const PATRONES_CODE128 = [
+  '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212', '221213',
+  '221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221', '223211', '221132',
+  '221231', '213212', '223112', '312131', '311222', '321122', '321221', '312212', '322112', '322211',
+  '212123', '212321', '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+  '231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121', '313121', '211331',
+  '231131', '213113', '213311', '213131', '311123', '311321', '331121', '312113', '312311', '332111',
+  '314111', '221411', '431111', '111224', '111422', '121124', '121421', '141122', '141221', '112214',
+  '112412', '122114', '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+  '111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+  '214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311', '113141',
+  '114131', '311141', '411131', '211412', '211214', '211232'
+];
+const PATRON_PARADA = '2331112';
+
+const CAMBIO_A_C = 99;
+const CAMBIO_A_B = 100;
+const FNC1 = 102;
+const INICIO_B = 104;
+const INICIO_C = 105;
+
+// Zona de silencio a cada lado del código, en módulos
+const ZONA_SILENCIO = 10;
+
+// Ancho mínimo de módulo (X) de GS1-128 en salud, en mm; más angosto no lo leen los lectores de la farmacia
+export const MODULO_MINIMO_MM = 0.25;
+const PUNTOS_POR_MM = 72 / 25.4;
+
+// Identificador de aplicación GS1 usado en las etiquetas
+export const AI_LOTE = '10';
+
+export interface ElementoGS1 {
+  ai: string;
+  valor: string;
+}
+
+export interface CodigoBarras {
+  texto: string; // Texto legible bajo el código, ej: (10)HG261020-ON-00012
+  modulos: number[]; // Anchos alternados barra/espacio, empezando por barra
+  totalModulos: number; // Incluye las zonas de silencio
+}
+
+/**
+ * Servicio de Códigos de Barras
+ * Codifica GS1-128 (Code 128 con FNC1) sin dependencias externas para dibujarlo con pdfkit
+ */
+export class BarcodeService {
+  /**
+   * Cantidad de dígitos consecutivos desde una posición
+   */
+  private contarDigitos(simbolos: (string | number)[], desde: number): number {
+    let cantidad = 0;
+    while (desde + cantidad < simbolos.length && /^\d$/.test(String(simbolos[desde + cantidad]))) {
+      cantidad++;
+    }
+    return cantidad;
+  }
+
+  /**
+   * Convierte caracteres (y FNC1 como número) en valores Code 128,
+   * usando el subconjunto C para pares de dígitos cuando acorta el código y B para el resto
+   */
+  private toValores(simbolos: (string | number)[]): number[] {
+    const valores: number[] = [];
+    let subconjunto: 'B' | 'C' | undefined;
+    let i = 0;
+
+    while (i < simbolos.length) {
+      const simbolo = simbolos[i];
+
+      if (simbolo === FNC1) {
+        if (!subconjunto) {
+          // Inicio en C salvo que no haya dígitos pares después del FNC1
+          subconjunto = this.contarDigitos(simbolos, i + 1) >= 2 ? 'C' : 'B';
+          valores.push(subconjunto === 'C' ? INICIO_C : INICIO_B);
+        }
+        valores.push(FNC1);
+        i++;
+        continue;
+      }
+
+      const digitos = this.contarDigitos(simbolos, i);
+      const usarC = digitos >= 4 || (subconjunto === 'C' && digitos >= 2);
+
+      if (usarC) {
+        if (subconjunto !== 'C') {
+          valores.push(subconjunto ? CAMBIO_A_C : INICIO_C);
+          subconjunto = 'C';
+        }
+        valores.push(Number(`${simbolos[i]}${simbolos[i + 1]}`));
+        i += 2;
+        continue;
+      }
+
+      const codigo = String(simbolo).charCodeAt(0);
+      if (codigo < 32 || codigo > 126) {
+        throw new ResponseError(400, `Carácter no admitido en el código de barras: ${simbolo}`);
+      }
+      if (subconjunto !== 'B') {
+        valores.push(subconjunto ? CAMBIO_A_B : INICIO_B);
+        subconjunto = 'B';
+      }
+      valores.push(codigo - 32);
+      i++;
+    }
+
+    const checksum = valores.reduce((suma, valor, posicion) => suma + valor * Math.max(posicion, 1), 0) % 103;
+    return [...valores, checksum];
+  }
+
+  /**
+   * Codifica elementos GS1 en GS1-128
+   * Los elementos de longitud variable se separan con FNC1, salvo el último
+   */
+  encodeGS1(elementos: ElementoGS1[]): CodigoBarras {
+    if (elementos.length === 0) {
+      throw new ResponseError(400, 'El código de barras no tiene datos');
+    }
+
+    const simbolos: (string | number)[] = [FNC1];
+    elementos.forEach((elemento, index) => {
+      simbolos.push(...elemento.ai.split(''), ...elemento.valor.split(''));
+      if (index < elementos.length - 1) {
+        simbolos.push(FNC1);
+      }
+    });
+
+    const patrones = this.toValores(simbolos).map(valor => PATRONES_CODE128[valor]);
+    const modulos = [...patrones, PATRON_PARADA].join('').split('').map(Number);
+
+    return {
+      texto: elementos.map(elemento => `(${elemento.ai})${elemento.valor}`).join(''),
+      modulos,
+      totalModulos: modulos.reduce((total, ancho) => total + ancho, 0) + ZONA_SILENCIO * 2
+    };
+  }
+
+  /**
+   * Dibuja el código dentro del ancho indicado (en puntos), centrado con sus zonas de silencio
+   * Falla si el ancho no alcanza para módulos de MODULO_MINIMO_MM
+   */
+  draw(doc: PDFKit.PDFDocument, codigo: CodigoBarras, x: number, y: number, ancho: number, alto: number): void {
+    const modulo = ancho / codigo.totalModulos;
+    if (modulo < MODULO_MINIMO_MM * PUNTOS_POR_MM) {
+      const anchoMinimo = Math.ceil(codigo.totalModulos * MODULO_MINIMO_MM);
+      throw new ResponseError(
+        400,
+        `El código de barras ${codigo.texto} necesita ${anchoMinimo} mm de ancho útil y la etiqueta tiene ${(ancho / PUNTOS_POR_MM).toFixed(1)} mm`
+      );
+    }
+    let posicion = x + ZONA_SILENCIO * modulo;
+
+    doc.save().fillColor('black');
+    codigo.modulos.forEach((anchoModulos, index) => {
+      // Índices pares son barras, impares espacios
+      if (index % 2 === 0) {
+        doc.rect(posicion, y, anchoModulos * modulo, alto).fill();
+      }
+      posicion += anchoModulos * modulo;
+    });
+    doc.restore();
+  }
+}
+
+export const barcodeService = new BarcodeService();
@@ -0,0 +1,153 @@
+import crypto from 'crypto';
+import { Transform, TransformCallback, Writable } from 'stream';
+import { finished, pipeline } from 'stream/promises';
+import { Types } from 'mongoose';
+import { Document, DocumentType, IDocument } from '@/models/Document.model';
+import { UserRole } from '@/models/User.model';
+import { storageService } from '@/services/storage/storage.service';
+import { auditService } from '@/services/workflow/audit.service';
+import { ResponseError } from '@/utils/erros';
+
+/**
+ * Roles que pueden descargar cada tipo de documento
+ * Los auxiliares acceden a los documentos de operación, no a la liberación de calidad ni al acta
+ */
+const ROLES_DESCARGA: Record<DocumentType, UserRole[]> = {
+  SOLICITUD: ['AUXILIAR', 'QUIMICO', 'COORDINADOR', 'AUDITOR'],
+  ORDEN: ['AUXILIAR', 'QUIMICO', 'COORDINADOR', 'AUDITOR'],
+  INSUMOS: ['AUXILIAR', 'QUIMICO', 'COORDINADOR', 'AUDITOR'],
+  QC: ['QUIMICO', 'COORDINADOR', 'AUDITOR'],
+  ETIQUETAS: ['AUXILIAR', 'QUIMICO', 'COORDINADOR', 'AUDITOR'],
+  ACTA: ['QUIMICO', 'COORDINADOR', 'AUDITOR']
+};
+
+export interface DescargaPreparada {
+  document: IDocument;
+  contentType: string;
+  nombreArchivo: string;
+}
+
+/**
+ * Calcula el SHA-256 mientras el archivo pasa y retiene el último fragmento:
+ * si el hash no coincide el archivo nunca llega completo al cliente
+ */
+class VerificacionIntegridad extends Transform {
+  private hash = crypto.createHash('sha256');
+  private pendiente?: Buffer;
+  hashCalculado?: string;
+
+  constructor(private readonly hashEsperado?: string) {
+    super();
+  }
+
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    this.hash.update(chunk);
+    if (this.pendiente) {
+      this.push(this.pendiente);
+    }
+    this.pendiente = chunk;
+    callback();
+  }
+
+  _flush(callback: TransformCallback): void {
+    this.hashCalculado = this.hash.digest('hex');
+    if (this.hashEsperado && this.hashCalculado !== this.hashEsperado) {
+      callback(new ResponseError(409, 'El archivo no coincide con el hash registrado al generarlo'));
+      return;
+    }
+    if (this.pendiente) {
+      this.push(this.pendiente);
+    }
+    callback();
+  }
+}
+
+/**
+ * Servicio de Descarga de Documentos
+ * Entrega los PDF a través de la API según el rol, verificando el SHA-256 y auditando cada descarga
+ */
+export class DocumentDownloadService {
+  /**
+   * Valida el documento y el rol antes de enviar cabeceras
+   */
+  async prepare(documentId: string, rol: UserRole): Promise<DescargaPreparada> {
+    if (!Types.ObjectId.isValid(documentId)) {
+      throw new ResponseError(400, 'ID de documento inválido');
+    }
+
+    const document = await Document.findById(documentId).select('+storageKey');
+    if (!document) {
+      throw new ResponseError(404, 'Documento no encontrado');
+    }
+
+    if (!ROLES_DESCARGA[document.tipo].includes(rol)) {
+      throw new ResponseError(
+        403,
+        `Acceso denegado. El documento ${document.tipo} solo lo pueden descargar: ${ROLES_DESCARGA[document.tipo].join(', ')}`
+      );
+    }
+
+    return {
+      document,
+      contentType: 'application/pdf',
+      nombreArchivo: `${document.tipo.toLowerCase()}-${document.productionId.toString()}${document.version ? `-v${document.version}` : ''}.pdf`
+    };
+  }
+
+  /**
+   * Envía el archivo al destino y registra la descarga (exitosa o no) en auditoría
+   * Los documentos anteriores al registro del hash se entregan sin verificar y así queda auditado
+   */
+  async write(descarga: DescargaPreparada, destino: Writable, userId: Types.ObjectId): Promise<void> {
+    const { document } = descarga;
+    const verificacion = new VerificacionIntegridad(document.hashArchivo);
+    let error: unknown;
+
+    try {
+      const origen = await storageService.stream(document.storageKey, document.storageDriver);
+      // El destino no se cierra si falla la verificación: quien llama decide si responder el error o cortar
+      verificacion.pipe(destino);
+      try {
+        await Promise.all([pipeline(origen, verificacion), finished(destino)]);
+      } catch (errorEnvio) {
+        verificacion.unpipe(destino);
+        origen.destroy();
+        verificacion.destroy();
+        throw errorEnvio;
+      }
+    } catch (errorDescarga) {
+      error = errorDescarga;
+    }
+
+    const integridadFallida = error instanceof ResponseError && error.statusCode === 409;
+
+    await auditService.logAction(
+      'Document',
+      document._id as Types.ObjectId,
+      error ? 'DOWNLOAD_FAILED' : 'DOWNLOAD',
+      {
+        productionId: document.productionId,
+        tipo: document.tipo,
+        version: document.version,
+        activo: document.activo,
+        versionPlantilla: document.versionPlantilla,
+        hashRegistrado: document.hashArchivo || null,
+        hashCalculado: verificacion.hashCalculado || null,
+        integridadVerificada: Boolean(document.hashArchivo) && !error,
+        ...(error !== undefined && {
+          motivo: integridadFallida ? 'HASH_NO_COINCIDE' : (error instanceof Error ? error.message : 'Error desconocido')
+        })
+      },
+      userId
+    );
+
+    if (integridadFallida) {
+      console.error(`Integridad comprometida en documento ${document._id}: hash registrado ${document.hashArchivo}, calculado ${verificacion.hashCalculado}`);
+    }
+    if (error) {
+      throw error;
+    }
+  }
+}
+
+export const documentDownloadService = new DocumentDownloadService();
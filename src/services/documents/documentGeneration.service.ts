@@ -1,95 +1,218 @@
-import { Types } from 'mongoose';
+import crypto from 'crypto';
+import mongoose, { Types } from 'mongoose';
 import dayjs from 'dayjs';
-import PDFDocument from 'pdfkit';
 import { Production } from '@/models/Production.model';
 import { Document, DocumentType } from '@/models/Document.model';
 import { ResponseError } from '@/utils/erros';
+import { GLOBAL_ENV } from '@/shared/constants';
 import { calculationEngineService } from '../calculation/calculationEngine.service';
-import { cloudinaryService } from '@/services/cloudinary/cloudinary.service';
+import { storageService } from '@/services/storage/storage.service';
+import { signatureService } from '@/services/signature/signature.service';
+import { productionService } from '@/services/production/production.service';
+import { auditService } from '@/services/workflow/audit.service';
+import { templateRegistry, ContextoPlantilla } from './templates';
 
 /**
  * Servicio de Generaci?n de Documentos
  * Genera autom?ticamente todos los documentos requeridos para la producci?n
  */
 export class DocumentGenerationService {
-  private readonly PLANTILLA_VERSION = '1.0.0';
+  /**
+   * Dibuja el documento con la plantilla vigente de su tipo
+   * @returns Buffer del PDF y versión de la plantilla usada
+   */
+  private async renderTemplate(
+    tipo: DocumentType,
+    production: any
+  ): Promise<{ pdfBuffer: Buffer; versionPlantilla: string }> {
+    const plantilla = templateRegistry.getTemplate(tipo);
+    const contexto: ContextoPlantilla = {
+      production,
+      firmas: await signatureService.getSignatures(production._id),
+      ...(tipo === 'INSUMOS' && { insumos: await productionService.consolidateInsumos(production._id) })
+    };
+
+    return {
+      pdfBuffer: await plantilla.render(contexto),
+      versionPlantilla: plantilla.version
+    };
+  }
 
   /**
-   * Genera un PDF básico con información de la producción
-   * @param title - Título del documento
-   * @param production - Datos de la producción
-   * @returns Buffer del PDF generado
+   * Las producciones anuladas no generan documentos
    */
-  private async generatePDF(title: string, production: any): Promise<Buffer> {
-    return new Promise((resolve, reject) => {
-      try {
-        const doc = new PDFDocument({
-          size: 'A4',
-          margin: 50
-        });
-
-        const chunks: Buffer[] = [];
-
-        // Recolectar chunks del PDF
-        doc.on('data', (chunk) => chunks.push(chunk));
-        doc.on('end', () => resolve(Buffer.concat(chunks)));
-        doc.on('error', reject);
-
-        // Header
-        doc.fontSize(20).text(title, { align: 'center' });
-        doc.moveDown();
-
-        // Información de la producción
-        doc.fontSize(12);
-        doc.text(`Código de Producción: ${production.codigo}`, { continued: false });
-        doc.text(`Línea de Producción: ${production.lineaProduccion}`);
-        doc.text(`Estado: ${production.estado}`);
-        doc.text(`Fecha de Producción: ${production.fechaProduccion ? dayjs(production.fechaProduccion).format('DD/MM/YYYY HH:mm') : 'N/A'}`);
-        doc.text(`Cantidad de Mezclas: ${production.cantidadMezclas}`);
-        doc.moveDown();
-
-        // QF
-        if (production.qfInterpretacion || production.qfProduccion || production.qfCalidad) {
-          doc.fontSize(14).text('Químicos Farmacéuticos:', { underline: true });
-          doc.fontSize(12);
-          if (production.qfInterpretacion) doc.text(`Interpretación: ${production.qfInterpretacion}`);
-          if (production.qfProduccion) doc.text(`Producción: ${production.qfProduccion}`);
-          if (production.qfCalidad) doc.text(`Calidad: ${production.qfCalidad}`);
-          doc.moveDown();
-        }
+  private assertNotCancelled(production: { estado: string }): void {
+    if (production.estado === 'ANULADO') {
+      throw new ResponseError(400, 'La producción está anulada, no se pueden generar documentos');
+    }
+  }
+
+  /**
+   * Ruta de descarga por la API: el archivo no se entrega con la URL del almacenamiento
+   */
+  getDownloadUrl(documentId: Types.ObjectId | string): string {
+    return `${GLOBAL_ENV.ROUTER_SUBFIJE || ''}/documents/${documentId.toString()}/download`;
+  }
+
+  /**
+   * Numera los documentos de una producción y tipo anteriores al versionado (sin version ni activo)
+   * Sin versiones previas quedan como 1..n por fecha de generación y solo el último activo;
+   * si el tipo ya tiene versiones, los anteriores quedan reemplazados por la primera de ellas
+   */
+  private async numerarVersionesAnteriores(productionId: Types.ObjectId, tipo: DocumentType): Promise<void> {
+    await mongoose.connection.transaction(async (session) => {
+      const documentos = await Document.find({ productionId, tipo })
+        .select('version generadoEn')
+        .sort({ generadoEn: 1, _id: 1 })
+        .session(session);
+
+      const anteriores = documentos.filter(document => !document.version);
+      if (anteriores.length === 0) {
+        return;
+      }
+
+      const primera = documentos
+        .filter(document => document.version)
+        .sort((a, b) => a.version - b.version)[0];
+
+      await Document.bulkWrite(anteriores.map((document, indice) => {
+        const siguiente = primera || anteriores[indice + 1];
+        return {
+          updateOne: {
+            filter: { _id: document._id },
+            update: {
+              $set: {
+                activo: !siguiente,
+                ...(primera ? {} : { version: indice + 1 }),
+                ...(!primera && indice > 0 ? { versionAnterior: anteriores[indice - 1]._id } : {}),
+                ...(siguiente && { reemplazadoPor: siguiente._id, reemplazadoEn: siguiente.generadoEn })
+              }
+            }
+          }
+        };
+      }), { session });
+    });
+  }
+
+  /**
+   * Migra los documentos anteriores al versionado para que cumplan la regla de una sola versión activa
+   * @returns Cantidad de pares producción/tipo migrados
+   */
+  async backfillVersions(): Promise<number> {
+    const grupos = await Document.aggregate<{ _id: { productionId: Types.ObjectId; tipo: DocumentType } }>([
+      { $match: { version: { $exists: false } } },
+      { $group: { _id: { productionId: '$productionId', tipo: '$tipo' } } }
+    ]);
+
+    for (const { _id } of grupos) {
+      await this.numerarVersionesAnteriores(_id.productionId, _id.tipo);
+    }
+    return grupos.length;
+  }
+
+  /**
+   * Guarda el PDF como nueva versión de la producción y el tipo, y la deja como la única activa
+   * Regenerar exige motivo; la versión reemplazada conserva su archivo y sigue disponible para descarga
+   * @returns Ruta de descarga de la nueva versión
+   */
+  private async saveDocument(
+    productionId: Types.ObjectId,
+    tipo: DocumentType,
+    userId: Types.ObjectId,
+    pdfBuffer: Buffer,
+    versionPlantilla: string,
+    motivo?: string
+  ): Promise<string> {
+    // Los documentos anteriores al versionado se numeran antes: el último cuenta como versión activa
+    if (await Document.exists({ productionId, tipo, version: { $exists: false } })) {
+      await this.numerarVersionesAnteriores(productionId, tipo);
+    }
 
-        // Mezclas
-        if (production.mezclas && production.mezclas.length > 0) {
-          doc.fontSize(14).text('Mezclas:', { underline: true });
-          doc.moveDown(0.5);
-
-          production.mezclas.forEach((mezcla: any, index: number) => {
-            doc.fontSize(12);
-            doc.text(`${index + 1}. ${mezcla.medicamento.nombre}`, { continued: false });
-            doc.fontSize(10);
-            doc.text(`   Paciente: ${mezcla.paciente.nombre}`);
-            doc.text(`   Documento: ${mezcla.paciente.documento}`);
-            doc.text(`   Dosis: ${mezcla.medicamento.dosisPrescrita} ${mezcla.medicamento.unidadDosis}`);
-            doc.text(`   Lote: ${mezcla.loteMezcla}`);
-            doc.text(`   Vencimiento: ${dayjs(mezcla.fechaVencimiento).format('DD/MM/YYYY HH:mm')}`);
-            doc.moveDown(0.5);
-          });
+    const actual = await Document.findOne({ productionId, tipo, activo: true });
+    if (actual && !motivo?.trim()) {
+      throw new ResponseError(400, `El documento ${tipo} ya tiene la versión ${actual.version}: indique el motivo de la regeneración`);
+    }
+
+    const ultima = await Document.findOne({ productionId, tipo, version: { $exists: true } })
+      .sort({ version: -1 })
+      .select('version');
+    const version = (ultima?.version || 0) + 1;
+    const documentId = new Types.ObjectId();
+
+    // Nombre único por versión: nunca se reemplaza el archivo de una versión anterior
+    const storedFile = await storageService.upload(pdfBuffer, {
+      folder: `documentos/${productionId.toString()}`,
+      fileName: `${tipo.toLowerCase()}-v${version}-${documentId.toString()}.pdf`,
+      contentType: 'application/pdf'
+    });
+
+    const ahora = dayjs().toDate();
+    let reemplazada = false;
+
+    try {
+      await Document.create({
+        _id: documentId,
+        productionId,
+        tipo,
+        storageDriver: storedFile.driver,
+        storageKey: storedFile.key,
+        hashArchivo: crypto.createHash('sha256').update(pdfBuffer).digest('hex'),
+        tamanoBytes: pdfBuffer.length,
+        versionPlantilla,
+        version,
+        activo: false,
+        ...(actual && { motivoRegeneracion: motivo!.trim(), versionAnterior: actual._id }),
+        generadoPor: userId,
+        generadoEn: ahora
+      });
+
+      // Solo se reemplaza si sigue activa: otra regeneración simultánea la pudo reemplazar antes
+      if (actual) {
+        const resultado = await Document.updateOne(
+          { _id: actual._id, activo: true },
+          { $set: { activo: false, reemplazadoPor: documentId, reemplazadoEn: ahora } }
+        );
+        if (resultado.modifiedCount === 0) {
+          throw new ResponseError(409, `El documento ${tipo} fue regenerado por otra solicitud, intente de nuevo`);
         }
+        reemplazada = true;
+      }
 
-        // Footer
-        doc.fontSize(8).text(
-          `Generado el ${dayjs().format('DD/MM/YYYY HH:mm')} - Versión ${this.PLANTILLA_VERSION}`,
-          50,
-          doc.page.height - 50,
-          { align: 'center' }
+      // El índice de versión activa única rechaza una primera versión simultánea
+      await Document.updateOne({ _id: documentId }, { $set: { activo: true } });
+    } catch (error: any) {
+      if (reemplazada) {
+        await Document.updateOne(
+          { _id: actual!._id },
+          { $set: { activo: true }, $unset: { reemplazadoPor: 1, reemplazadoEn: 1 } }
         );
+      }
+      await Document.deleteOne({ _id: documentId });
+      await storageService.delete(storedFile.key, storedFile.driver).catch(errorBorrado => {
+        console.error('Error al eliminar archivo de versión descartada:', errorBorrado);
+      });
 
-        // Finalizar el documento
-        doc.end();
-      } catch (error) {
-        reject(error);
+      if (error?.code === 11000) {
+        throw new ResponseError(409, `El documento ${tipo} fue generado por otra solicitud, intente de nuevo`);
       }
-    });
+      throw error;
+    }
+
+    await auditService.logAction(
+      'Document',
+      documentId,
+      actual ? 'REGENERATE' : 'CREATE',
+      {
+        productionId,
+        tipo,
+        version,
+        versionPlantilla,
+        ...(actual && { motivo: motivo!.trim(), versionAnterior: actual._id, numeroVersionAnterior: actual.version })
+      },
+      userId
+    );
+
+    return this.getDownloadUrl(documentId);
   }
 
   /**
@@ -97,7 +220,8 @@ export class DocumentGenerationService {
    */
   async generateSolicitud(
     productionId: Types.ObjectId,
-    userId: Types.ObjectId
+    userId: Types.ObjectId,
+    motivo?: string
   ): Promise<string> {
     const production = await Production.findById(productionId)
       .populate('creadoPor validadoPor calculadoPor programadoPor producidoPor qcPor etiquetadoPor finalizadoPor', 'username nombre tipoUsuario cargo rolSistema');
@@ -106,28 +230,12 @@ export class DocumentGenerationService {
       throw new ResponseError(404, 'Producci?n no encontrada');
     }
 
-    // Generar PDF real
-    const fileName = `solicitud-${productionId.toString()}`;
-    const pdfBuffer = await this.generatePDF('SOLICITUD DE PRODUCCIÓN', production);
-    
-    // Subir a Cloudinary
-    const uploadResult = await cloudinaryService.uploadDocument(
-      pdfBuffer,
-      'documentos',
-      fileName
-    );
+    this.assertNotCancelled(production);
 
-    await Document.create({
-      productionId,
-      tipo: 'SOLICITUD',
-      fileUrl: uploadResult.secure_url,
-      filePublicId: uploadResult.public_id,
-      versionPlantilla: this.PLANTILLA_VERSION,
-      generadoPor: userId,
-      generadoEn: dayjs().toDate()
-    });
+    // Generar PDF con la plantilla del tipo
+    const { pdfBuffer, versionPlantilla } = await this.renderTemplate('SOLICITUD', production);
 
-    return uploadResult.secure_url;
+    return this.saveDocument(productionId, 'SOLICITUD', userId, pdfBuffer, versionPlantilla, motivo);
   }
 
   /**
@@ -135,7 +243,8 @@ export class DocumentGenerationService {
    */
   async generateOrden(
     productionId: Types.ObjectId,
-    userId: Types.ObjectId
+    userId: Types.ObjectId,
+    motivo?: string
   ): Promise<string> {
     const production = await Production.findById(productionId)
       .populate('creadoPor validadoPor calculadoPor programadoPor producidoPor qcPor etiquetadoPor finalizadoPor', 'username nombre tipoUsuario cargo rolSistema');
@@ -144,31 +253,16 @@ export class DocumentGenerationService {
       throw new ResponseError(404, 'Producci?n no encontrada');
     }
 
+    this.assertNotCancelled(production);
+
     if (production.estado === 'CREADO' || production.estado === 'VALIDADO') {
       throw new ResponseError(400, 'La producci?n debe estar calculada para generar la orden');
     }
 
-    // Generar PDF real
-    const fileName = `orden-${productionId.toString()}`;
-    const pdfBuffer = await this.generatePDF('ORDEN DE PRODUCCIÓN', production);
-    
-    const uploadResult = await cloudinaryService.uploadDocument(
-      pdfBuffer,
-      'documentos',
-      fileName
-    );
-
-    await Document.create({
-      productionId,
-      tipo: 'ORDEN',
-      fileUrl: uploadResult.secure_url,
-      filePublicId: uploadResult.public_id,
-      versionPlantilla: this.PLANTILLA_VERSION,
-      generadoPor: userId,
-      generadoEn: dayjs().toDate()
-    });
+    // Generar PDF con la plantilla del tipo
+    const { pdfBuffer, versionPlantilla } = await this.renderTemplate('ORDEN', production);
 
-    return uploadResult.secure_url;
+    return this.saveDocument(productionId, 'ORDEN', userId, pdfBuffer, versionPlantilla, motivo);
   }
 
   /**
@@ -176,7 +270,8 @@ export class DocumentGenerationService {
    */
   async generateSolicitudInsumos(
     productionId: Types.ObjectId,
-    userId: Types.ObjectId
+    userId: Types.ObjectId,
+    motivo?: string
   ): Promise<string> {
     const production = await Production.findById(productionId)
       .populate('creadoPor validadoPor calculadoPor programadoPor producidoPor qcPor etiquetadoPor finalizadoPor', 'username nombre tipoUsuario cargo rolSistema');
@@ -185,31 +280,16 @@ export class DocumentGenerationService {
       throw new ResponseError(404, 'Producci?n no encontrada');
     }
 
+    this.assertNotCancelled(production);
+
     if (production.estado === 'CREADO' || production.estado === 'VALIDADO') {
       throw new ResponseError(400, 'La producci?n debe estar calculada para generar la solicitud de insumos');
     }
 
-    // Generar PDF real
-    const fileName = `insumos-${productionId.toString()}`;
-    const pdfBuffer = await this.generatePDF('SOLICITUD DE INSUMOS', production);
-    
-    const uploadResult = await cloudinaryService.uploadDocument(
-      pdfBuffer,
-      'documentos',
-      fileName
-    );
-
-    await Document.create({
-      productionId,
-      tipo: 'INSUMOS',
-      fileUrl: uploadResult.secure_url,
-      filePublicId: uploadResult.public_id,
-      versionPlantilla: this.PLANTILLA_VERSION,
-      generadoPor: userId,
-      generadoEn: dayjs().toDate()
-    });
+    // Generar PDF con la plantilla del tipo
+    const { pdfBuffer, versionPlantilla } = await this.renderTemplate('INSUMOS', production);
 
-    return uploadResult.secure_url;
+    return this.saveDocument(productionId, 'INSUMOS', userId, pdfBuffer, versionPlantilla, motivo);
   }
 
   /**
@@ -217,7 +297,8 @@ export class DocumentGenerationService {
    */
   async generateQC(
     productionId: Types.ObjectId,
-    userId: Types.ObjectId
+    userId: Types.ObjectId,
+    motivo?: string
   ): Promise<string> {
     const production = await Production.findById(productionId)
       .populate('creadoPor validadoPor calculadoPor programadoPor producidoPor qcPor etiquetadoPor finalizadoPor', 'username nombre tipoUsuario cargo rolSistema');
@@ -226,31 +307,16 @@ export class DocumentGenerationService {
       throw new ResponseError(404, 'Producci?n no encontrada');
     }
 
+    this.assertNotCancelled(production);
+
     if (production.estado !== 'QC' && production.estado !== 'ETIQUETADO' && production.estado !== 'FINALIZADO') {
       throw new ResponseError(400, 'La producci?n debe estar en estado QC o superior para generar el documento de control de calidad');
     }
 
-    // Generar PDF real
-    const fileName = `qc-${productionId.toString()}`;
-    const pdfBuffer = await this.generatePDF('CONTROL DE CALIDAD', production);
-    
-    const uploadResult = await cloudinaryService.uploadDocument(
-      pdfBuffer,
-      'documentos',
-      fileName
-    );
-
-    await Document.create({
-      productionId,
-      tipo: 'QC',
-      fileUrl: uploadResult.secure_url,
-      filePublicId: uploadResult.public_id,
-      versionPlantilla: this.PLANTILLA_VERSION,
-      generadoPor: userId,
-      generadoEn: dayjs().toDate()
-    });
+    // Generar PDF con la plantilla del tipo
+    const { pdfBuffer, versionPlantilla } = await this.renderTemplate('QC', production);
 
-    return uploadResult.secure_url;
+    return this.saveDocument(productionId, 'QC', userId, pdfBuffer, versionPlantilla, motivo);
   }
 
   /**
@@ -258,7 +324,8 @@ export class DocumentGenerationService {
    */
   async generateEtiquetas(
     productionId: Types.ObjectId,
-    userId: Types.ObjectId
+    userId: Types.ObjectId,
+    motivo?: string
   ): Promise<string> {
     const production = await Production.findById(productionId)
       .populate('creadoPor validadoPor calculadoPor programadoPor producidoPor qcPor etiquetadoPor finalizadoPor', 'username nombre tipoUsuario cargo rolSistema');
@@ -267,31 +334,16 @@ export class DocumentGenerationService {
       throw new ResponseError(404, 'Producci?n no encontrada');
     }
 
+    this.assertNotCancelled(production);
+
     if (production.estado !== 'ETIQUETADO' && production.estado !== 'FINALIZADO') {
       throw new ResponseError(400, 'La producci?n debe estar etiquetada para generar las etiquetas');
     }
 
-    // Generar PDF real
-    const fileName = `etiquetas-${productionId.toString()}`;
-    const pdfBuffer = await this.generatePDF('ETIQUETAS DE PRODUCCIÓN', production);
-    
-    const uploadResult = await cloudinaryService.uploadDocument(
-      pdfBuffer,
-      'documentos',
-      fileName
-    );
+    // Generar PDF con la plantilla del tipo
+    const { pdfBuffer, versionPlantilla } = await this.renderTemplate('ETIQUETAS', production);
 
-    await Document.create({
-      productionId,
-      tipo: 'ETIQUETAS',
-      fileUrl: uploadResult.secure_url,
-      filePublicId: uploadResult.public_id,
-      versionPlantilla: this.PLANTILLA_VERSION,
-      generadoPor: userId,
-      generadoEn: dayjs().toDate()
-    });
-
-    return uploadResult.secure_url;
+    return this.saveDocument(productionId, 'ETIQUETAS', userId, pdfBuffer, versionPlantilla, motivo);
   }
 
   /**
@@ -299,7 +351,8 @@ export class DocumentGenerationService {
    */
   async generateActaEntrega(
     productionId: Types.ObjectId,
-    userId: Types.ObjectId
+    userId: Types.ObjectId,
+    motivo?: string
   ): Promise<string> {
     const production = await Production.findById(productionId)
       .populate('creadoPor validadoPor calculadoPor programadoPor producidoPor qcPor etiquetadoPor finalizadoPor', 'username nombre tipoUsuario cargo rolSistema');
@@ -308,39 +361,26 @@ export class DocumentGenerationService {
       throw new ResponseError(404, 'Producci?n no encontrada');
     }
 
+    this.assertNotCancelled(production);
+
     if (production.estado !== 'FINALIZADO') {
       throw new ResponseError(400, 'La producci?n debe estar finalizada para generar el acta de entrega');
     }
 
-    // Generar PDF real
-    const fileName = `acta-${productionId.toString()}`;
-    const pdfBuffer = await this.generatePDF('ACTA DE ENTREGA', production);
-    
-    const uploadResult = await cloudinaryService.uploadDocument(
-      pdfBuffer,
-      'documentos',
-      fileName
-    );
-
-    await Document.create({
-      productionId,
-      tipo: 'ACTA',
-      fileUrl: uploadResult.secure_url,
-      filePublicId: uploadResult.public_id,
-      versionPlantilla: this.PLANTILLA_VERSION,
-      generadoPor: userId,
-      generadoEn: dayjs().toDate()
-    });
+    // Generar PDF con la plantilla del tipo
+    const { pdfBuffer, versionPlantilla } = await this.renderTemplate('ACTA', production);
 
-    return uploadResult.secure_url;
+    return this.saveDocument(productionId, 'ACTA', userId, pdfBuffer, versionPlantilla, motivo);
   }
 
   /**
    * Genera todos los documentos disponibles seg?n el estado de la producci?n
+   * Sin motivo solo genera los que faltan; de los demás devuelve la versión activa
    */
   async generateAllAvailableDocuments(
     productionId: Types.ObjectId,
-    userId: Types.ObjectId
+    userId: Types.ObjectId,
+    motivo?: string
   ): Promise<Record<DocumentType, string | null>> {
     const production = await Production.findById(productionId);
 
@@ -348,6 +388,8 @@ export class DocumentGenerationService {
       throw new ResponseError(404, 'Producci?n no encontrada');
     }
 
+    this.assertNotCancelled(production);
+
     const documents: Record<DocumentType, string | null> = {
       SOLICITUD: null,
       ORDEN: null,
@@ -357,55 +399,80 @@ export class DocumentGenerationService {
       ACTA: null
     };
 
-    try {
-      documents.SOLICITUD = await this.generateSolicitud(productionId, userId);
-    } catch (error) {
-      // Ignorar errores individuales
-    }
+    // Los documentos anteriores al versionado sin migrar aún también son vigentes
+    const activos = await Document.find({ productionId, activo: { $ne: false } }).select('tipo');
+
+    const generar = async (tipo: DocumentType, generador: () => Promise<string>): Promise<void> => {
+      const activo = activos.find(document => document.tipo === tipo);
+      if (activo && !motivo?.trim()) {
+        documents[tipo] = this.getDownloadUrl(activo._id as Types.ObjectId);
+        return;
+      }
 
-    if (production.estado !== 'CREADO' && production.estado !== 'VALIDADO') {
       try {
-        documents.ORDEN = await this.generateOrden(productionId, userId);
-        documents.INSUMOS = await this.generateSolicitudInsumos(productionId, userId);
+        documents[tipo] = await generador();
       } catch (error) {
         // Ignorar errores individuales
       }
+    };
+
+    await generar('SOLICITUD', () => this.generateSolicitud(productionId, userId, motivo));
+
+    if (production.estado !== 'CREADO' && production.estado !== 'VALIDADO') {
+      await generar('ORDEN', () => this.generateOrden(productionId, userId, motivo));
+      await generar('INSUMOS', () => this.generateSolicitudInsumos(productionId, userId, motivo));
     }
 
     if (['QC', 'ETIQUETADO', 'FINALIZADO'].includes(production.estado)) {
-      try {
-        documents.QC = await this.generateQC(productionId, userId);
-      } catch (error) {
-        // Ignorar errores individuales
-      }
+      await generar('QC', () => this.generateQC(productionId, userId, motivo));
     }
 
     if (['ETIQUETADO', 'FINALIZADO'].includes(production.estado)) {
-      try {
-        documents.ETIQUETAS = await this.generateEtiquetas(productionId, userId);
-      } catch (error) {
-        // Ignorar errores individuales
-      }
+      await generar('ETIQUETAS', () => this.generateEtiquetas(productionId, userId, motivo));
     }
 
     if (production.estado === 'FINALIZADO') {
-      try {
-        documents.ACTA = await this.generateActaEntrega(productionId, userId);
-      } catch (error) {
-        // Ignorar errores individuales
-      }
+      await generar('ACTA', () => this.generateActaEntrega(productionId, userId, motivo));
     }
 
     return documents;
   }
 
   /**
-   * Obtiene todos los documentos generados para una producci?n
+   * Obtiene los documentos vigentes de una producci?n (la versión activa de cada tipo)
+   * Con historial incluye las versiones reemplazadas
+   * En lugar de la URL del almacenamiento cada documento trae su ruta de descarga autenticada
+   */
+  async getProductionDocuments(productionId: Types.ObjectId, historial: boolean = false) {
+    // Los documentos anteriores al versionado sin migrar aún no tienen activo y se consideran vigentes
+    const filtro = historial ? { productionId } : { productionId, activo: { $ne: false } };
+
+    const documents = await Document.find(filtro)
+      .select('-filePublicId')
+      .populate('generadoPor', 'username nombre tipoUsuario cargo rolSistema')
+      .sort({ generadoEn: -1 })
+      .lean();
+
+    return documents.map(document => ({
+      ...document,
+      downloadUrl: this.getDownloadUrl(document._id as Types.ObjectId)
+    }));
+  }
+
+  /**
+   * Cadena de versiones de un tipo de documento, de la más reciente a la primera
    */
-  async getProductionDocuments(productionId: Types.ObjectId) {
-    return await Document.find({ productionId })
+  async getDocumentVersions(productionId: Types.ObjectId, tipo: DocumentType) {
+    const versions = await Document.find({ productionId, tipo })
+      .select('-filePublicId')
       .populate('generadoPor', 'username nombre tipoUsuario cargo rolSistema')
-      .sort({ generadoEn: -1 });
+      .sort({ version: -1, generadoEn: -1 })
+      .lean();
+
+    return versions.map(document => ({
+      ...document,
+      downloadUrl: this.getDownloadUrl(document._id as Types.ObjectId)
+    }));
   }
 }
 
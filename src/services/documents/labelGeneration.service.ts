@@ -0,0 +1,193 @@
+import dayjs from 'dayjs';
+import PDFDocument from 'pdfkit';
+import { IMezcla, IProduction, LineaProduccion } from '@/models/Production.model';
+import { GLOBAL_ENV } from '@/shared/constants';
+import { ResponseError } from '@/utils/erros';
+import { barcodeService, AI_LOTE } from './barcode.service';
+
+export type CampoEtiqueta =
+  | 'paciente'
+  | 'documento'
+  | 'medicamento'
+  | 'dosis'
+  | 'volumenFinal'
+  | 'vehiculo'
+  | 'lote'
+  | 'vencimiento'
+  | 'conservacion'
+  | 'unidad';
+
+/**
+ * Diseño de etiqueta por línea de producción (medidas en mm)
+ */
+export interface DisenoEtiqueta {
+  ancho: number;
+  alto: number;
+  margen: number;
+  tamanoFuente: number;
+  campos: CampoEtiqueta[]; // Campos en el orden en que se imprimen
+  altoCodigo: number; // Alto de las barras
+  advertencias: string[]; // Leyendas obligatorias al pie (ej: citotóxico)
+  colorAdvertencia: string;
+}
+
+const CAMPOS_BASE: CampoEtiqueta[] = [
+  'paciente', 'documento', 'medicamento', 'dosis', 'volumenFinal', 'vehiculo', 'lote', 'vencimiento', 'conservacion', 'unidad'
+];
+
+const DISENOS_POR_DEFECTO: Record<LineaProduccion, DisenoEtiqueta> = {
+  ONCO: {
+    ancho: 100,
+    alto: 75,
+    margen: 3,
+    tamanoFuente: 7,
+    campos: CAMPOS_BASE,
+    altoCodigo: 10,
+    advertencias: [
+      'CITOTÓXICO - MANIPULAR CON GUANTES',
+      'Desechar como residuo peligroso. No abrir el sistema cerrado'
+    ],
+    colorAdvertencia: '#C00000'
+  },
+  ESTERIL: {
+    ancho: 90,
+    alto: 55,
+    margen: 3,
+    tamanoFuente: 7,
+    campos: CAMPOS_BASE,
+    altoCodigo: 9,
+    advertencias: [],
+    colorAdvertencia: '#000000'
+  }
+};
+
+const PUNTOS_POR_MM = 72 / 25.4;
+
+/**
+ * Servicio de Etiquetas
+ * Genera una etiqueta por unidad de cada mezcla (cantidadMezclas), del tamaño del rollo de la línea,
+ * con código GS1-128 que lleva el lote de la mezcla
+ * El lote es único y lleva a la orden (GET /productions?loteMezcla=); con el código de la orden
+ * el símbolo no cabe en el rollo con el ancho de módulo mínimo
+ */
+export class LabelGenerationService {
+  /**
+   * Diseño de la línea: el por defecto con los cambios de LABEL_LAYOUTS (JSON por línea)
+   */
+  getDiseno(linea: LineaProduccion): DisenoEtiqueta {
+    const base = DISENOS_POR_DEFECTO[linea] || DISENOS_POR_DEFECTO.ESTERIL;
+    if (!GLOBAL_ENV.LABEL_LAYOUTS) {
+      return base;
+    }
+
+    try {
+      const configurados = JSON.parse(GLOBAL_ENV.LABEL_LAYOUTS);
+      return { ...base, ...(configurados?.[linea] || {}) };
+    } catch (error) {
+      console.error('LABEL_LAYOUTS inválido, se usa el diseño por defecto:', error);
+      return base;
+    }
+  }
+
+  private getValorCampo(campo: CampoEtiqueta, mezcla: IMezcla, unidad: number): string | undefined {
+    switch (campo) {
+      case 'paciente':
+        return `Paciente: ${mezcla.paciente.nombre}`;
+      case 'documento':
+        return `Doc: ${mezcla.paciente.documento}`;
+      case 'medicamento':
+        return `${mezcla.medicamento.nombre} ${mezcla.medicamento.concentracion}`;
+      case 'dosis':
+        return `Dosis: ${mezcla.medicamento.dosisPrescrita} ${mezcla.medicamento.unidadDosis} - ${mezcla.medicamento.viaAdministracion}`;
+      case 'volumenFinal':
+        return `Volumen final: ${mezcla.calculos.volumenTotal} ml`;
+      case 'vehiculo':
+        return `Vehículo: ${mezcla.vehiculo.nombre} ${mezcla.vehiculo.volumenVehiculo} ml`;
+      case 'lote':
+        return `Lote: ${mezcla.loteMezcla}`;
+      case 'vencimiento':
+        return `Vence: ${dayjs(mezcla.fechaVencimiento).format('DD/MM/YYYY HH:mm')}`;
+      case 'conservacion':
+        return mezcla.estabilidad?.condiciones ? `Conservar: ${mezcla.estabilidad.condiciones}` : undefined;
+      case 'unidad':
+        return (mezcla.cantidadMezclas || 1) > 1 ? `Unidad ${unidad} de ${mezcla.cantidadMezclas}` : undefined;
+      default:
+        return undefined;
+    }
+  }
+
+  private drawEtiqueta(
+    doc: PDFKit.PDFDocument,
+    diseno: DisenoEtiqueta,
+    mezcla: IMezcla,
+    unidad: number
+  ): void {
+    const margen = diseno.margen * PUNTOS_POR_MM;
+    const ancho = diseno.ancho * PUNTOS_POR_MM - margen * 2;
+    const alto = diseno.alto * PUNTOS_POR_MM;
+    const altoCodigo = diseno.altoCodigo * PUNTOS_POR_MM;
+    const interlineado = diseno.tamanoFuente + 1.5;
+
+    doc.fillColor('black').fontSize(diseno.tamanoFuente);
+    let y = margen;
+
+    diseno.campos.forEach(campo => {
+      const valor = this.getValorCampo(campo, mezcla, unidad);
+      if (!valor) return;
+      doc.text(valor, margen, y, { width: ancho, lineBreak: false, ellipsis: true });
+      y += interlineado;
+    });
+
+    // Leyendas y código de barras desde el pie hacia arriba
+    let pie = alto - margen - diseno.advertencias.length * interlineado;
+    diseno.advertencias.forEach((advertencia, index) => {
+      doc.fillColor(diseno.colorAdvertencia).font('Helvetica-Bold')
+        .text(advertencia, margen, pie + index * interlineado, { width: ancho, align: 'center', lineBreak: false, ellipsis: true });
+    });
+    doc.font('Helvetica').fillColor('black');
+
+    const codigo = barcodeService.encodeGS1([{ ai: AI_LOTE, valor: mezcla.loteMezcla }]);
+
+    pie -= interlineado;
+    doc.fontSize(diseno.tamanoFuente - 1)
+      .text(codigo.texto, margen, pie, { width: ancho, align: 'center', lineBreak: false });
+    barcodeService.draw(doc, codigo, margen, pie - altoCodigo - 1, ancho, altoCodigo);
+  }
+
+  /**
+   * Genera el PDF de etiquetas: una página del tamaño de la etiqueta por unidad
+   * Las mezclas rechazadas no se etiquetan
+   */
+  async generateLabelsPDF(production: IProduction): Promise<Buffer> {
+    const diseno = this.getDiseno(production.lineaProduccion);
+    const tamano: [number, number] = [diseno.ancho * PUNTOS_POR_MM, diseno.alto * PUNTOS_POR_MM];
+    const mezclas = production.mezclas.filter(mezcla => mezcla.estado !== 'RECHAZADA');
+    if (mezclas.length === 0) {
+      throw new ResponseError(400, 'La producción no tiene mezclas para etiquetar');
+    }
+
+    return new Promise((resolve, reject) => {
+      try {
+        const doc = new PDFDocument({ size: tamano, margin: 0, autoFirstPage: false });
+        const chunks: Buffer[] = [];
+
+        doc.on('data', (chunk) => chunks.push(chunk));
+        doc.on('end', () => resolve(Buffer.concat(chunks)));
+        doc.on('error', reject);
+
+        mezclas.forEach(mezcla => {
+          for (let unidad = 1; unidad <= (mezcla.cantidadMezclas || 1); unidad++) {
+            doc.addPage({ size: tamano, margin: 0 });
+            this.drawEtiqueta(doc, diseno, mezcla, unidad);
+          }
+        });
+
+        doc.end();
+      } catch (error) {
+        reject(error);
+      }
+    });
+  }
+}
+
+export const labelGenerationService = new LabelGenerationService();
@@ -0,0 +1,66 @@
+import dayjs from 'dayjs';
+import { PlantillaDocumento } from './template.types';
+import {
+  crearPDF,
+  dibujarBloquesFirma,
+  dibujarEncabezado,
+  dibujarFirmasElectronicas,
+  dibujarSeccion,
+  dibujarTabla,
+  textoPie
+} from './pdfLayout';
+
+const TITULO = 'ACTA DE ENTREGA';
+const VERSION = '2.0.0';
+
+/**
+ * Acta: constancia de recepción de las mezclas liberadas por el servicio que las recibe
+ */
+export const actaTemplate: PlantillaDocumento = {
+  tipo: 'ACTA',
+  version: VERSION,
+  titulo: TITULO,
+  render: ({ production, firmas }) => crearPDF(textoPie(TITULO, VERSION), (doc) => {
+    dibujarEncabezado(doc, TITULO, production);
+
+    const entregadas = production.mezclas.filter((mezcla: any) => mezcla.estado !== 'RECHAZADA');
+    const unidades = entregadas.reduce((total: number, mezcla: any) => total + (mezcla.cantidadMezclas || 1), 0);
+
+    dibujarSeccion(doc, 'Mezclas entregadas');
+    dibujarTabla(
+      doc,
+      [
+        { titulo: '#', ancho: 0.4 },
+        { titulo: 'Paciente', ancho: 2 },
+        { titulo: 'Medicamento / dosis', ancho: 2 },
+        { titulo: 'Lote', ancho: 1.5 },
+        { titulo: 'Vence', ancho: 1.1 },
+        { titulo: 'Conservación', ancho: 1.3 },
+        { titulo: 'Cant.', ancho: 0.5 },
+        { titulo: 'Recibido', ancho: 0.8 }
+      ],
+      entregadas.map((mezcla: any, index: number) => [
+        String(index + 1),
+        `${mezcla.paciente.nombre}\n${mezcla.paciente.documento}`,
+        `${mezcla.medicamento.nombre}\n${mezcla.medicamento.dosisPrescrita} ${mezcla.medicamento.unidadDosis} - ${mezcla.calculos.volumenTotal} ml`,
+        mezcla.loteMezcla,
+        dayjs(mezcla.fechaVencimiento).format('DD/MM/YYYY HH:mm'),
+        mezcla.estabilidad?.condiciones || '',
+        String(mezcla.cantidadMezclas || 1),
+        ''
+      ])
+    );
+
+    doc.fontSize(9);
+    doc.text(`Total entregado: ${entregadas.length} mezcla(s), ${unidades} unidad(es).`);
+    doc.moveDown(0.5);
+    doc.text('Servicio que recibe: ________________________________________');
+    doc.moveDown(0.5);
+    doc.text('Temperatura de transporte: ________ °C        Fecha y hora de entrega: ____________________');
+    doc.moveDown(0.5);
+    doc.text('Observaciones: ____________________________________________________________________');
+
+    dibujarFirmasElectronicas(doc, firmas);
+    dibujarBloquesFirma(doc, ['Entrega (QF)', 'Recibe']);
+  })
+};
@@ -0,0 +1,12 @@
+import { PlantillaDocumento } from './template.types';
+import { labelGenerationService } from '../labelGeneration.service';
+
+/**
+ * Etiquetas: una por unidad de mezcla con el diseño de la línea (ver LabelGenerationService)
+ */
+export const etiquetasTemplate: PlantillaDocumento = {
+  tipo: 'ETIQUETAS',
+  version: '2.0.0',
+  titulo: 'ETIQUETAS DE PRODUCCIÓN',
+  render: ({ production }) => labelGenerationService.generateLabelsPDF(production)
+};
@@ -0,0 +1,68 @@
+import { DocumentType } from '@/models/Document.model';
+import { ResponseError } from '@/utils/erros';
+import { PlantillaDocumento } from './template.types';
+import { crearPlantillaResumen } from './resumen.template';
+import { solicitudTemplate } from './solicitud.template';
+import { ordenTemplate } from './orden.template';
+import { insumosTemplate } from './insumos.template';
+import { qcTemplate } from './qc.template';
+import { etiquetasTemplate } from './etiquetas.template';
+import { actaTemplate } from './acta.template';
+
+export { ContextoPlantilla, PlantillaDocumento } from './template.types';
+
+/**
+ * Registro de plantillas por tipo de documento
+ * Cada tipo conserva todas sus versiones; la última registrada es la vigente
+ */
+export class TemplateRegistry {
+  private readonly plantillas = new Map<DocumentType, PlantillaDocumento[]>();
+
+  register(plantilla: PlantillaDocumento): void {
+    const versiones = this.plantillas.get(plantilla.tipo) || [];
+    if (versiones.some(p => p.version === plantilla.version)) {
+      throw new Error(`La plantilla ${plantilla.tipo} v${plantilla.version} ya está registrada`);
+    }
+    this.plantillas.set(plantilla.tipo, [...versiones, plantilla]);
+  }
+
+  /**
+   * Plantilla vigente del tipo, o una versión específica
+   */
+  getTemplate(tipo: DocumentType, version?: string): PlantillaDocumento {
+    const versiones = this.plantillas.get(tipo) || [];
+    const plantilla = version
+      ? versiones.find(p => p.version === version)
+      : versiones[versiones.length - 1];
+
+    if (!plantilla) {
+      throw new ResponseError(404, `No existe plantilla ${tipo}${version ? ` v${version}` : ''}`);
+    }
+    return plantilla;
+  }
+
+  listTemplates(): { tipo: DocumentType; vigente: string; versiones: string[] }[] {
+    return Array.from(this.plantillas.entries()).map(([tipo, versiones]) => ({
+      tipo,
+      vigente: versiones[versiones.length - 1].version,
+      versiones: versiones.map(p => p.version)
+    }));
+  }
+}
+
+export const templateRegistry = new TemplateRegistry();
+
+[
+  crearPlantillaResumen('SOLICITUD', 'SOLICITUD DE PRODUCCIÓN'),
+  crearPlantillaResumen('ORDEN', 'ORDEN DE PRODUCCIÓN'),
+  crearPlantillaResumen('INSUMOS', 'SOLICITUD DE INSUMOS'),
+  crearPlantillaResumen('QC', 'CONTROL DE CALIDAD'),
+  crearPlantillaResumen('ETIQUETAS', 'ETIQUETAS DE PRODUCCIÓN'),
+  crearPlantillaResumen('ACTA', 'ACTA DE ENTREGA'),
+  solicitudTemplate,
+  ordenTemplate,
+  insumosTemplate,
+  qcTemplate,
+  etiquetasTemplate,
+  actaTemplate
+].forEach(plantilla => templateRegistry.register(plantilla));
@@ -0,0 +1,108 @@
+import dayjs from 'dayjs';
+import { PlantillaDocumento } from './template.types';
+import {
+  crearPDF,
+  dibujarBloquesFirma,
+  dibujarEncabezado,
+  dibujarSeccion,
+  dibujarTabla,
+  textoPie
+} from './pdfLayout';
+
+const TITULO = 'SOLICITUD DE INSUMOS';
+const VERSION = '2.0.0';
+
+/**
+ * Insumos: tabla de despacho con las cifras consolidadas compartiendo viales abiertos
+ */
+export const insumosTemplate: PlantillaDocumento = {
+  tipo: 'INSUMOS',
+  version: VERSION,
+  titulo: TITULO,
+  render: ({ production, insumos }) => crearPDF(textoPie(TITULO, VERSION), (doc) => {
+    dibujarEncabezado(doc, TITULO, production);
+
+    const grupos = insumos?.grupos || [];
+
+    dibujarSeccion(doc, 'Medicamentos');
+    dibujarTabla(
+      doc,
+      [
+        { titulo: 'Medicamento', ancho: 2 },
+        { titulo: 'Presentación', ancho: 1.6 },
+        { titulo: 'Unidades', ancho: 0.8 },
+        { titulo: 'Volumen requerido', ancho: 1 },
+        { titulo: 'Mezclas', ancho: 2.2 },
+        { titulo: 'Despachado', ancho: 0.9 }
+      ],
+      grupos.flatMap(grupo => grupo.presentaciones.map((p, index) => [
+        index === 0 ? `${grupo.medicamento} ${grupo.concentracion}` : '',
+        `${p.tipoEnvase} ${p.volumenUnidad} ml`,
+        String(p.unidades),
+        index === 0 ? `${grupo.volumenTotal} ml` : '',
+        index === 0
+          ? grupo.mezclas.map(m => m.loteMezcla).join(', ') +
+            (grupo.unidadesCompartido < grupo.unidadesIndividual
+              ? `\nVial compartido hasta ${dayjs(grupo.finVentana).format('DD/MM HH:mm')}`
+              : '')
+          : '',
+        ''
+      ]))
+    );
+
+    if (insumos) {
+      doc.fontSize(9).text(
+        `Total: ${insumos.unidadesCompartido} unidad(es). Calculando cada mezcla por separado serían ${insumos.unidadesIndividual} (ahorro ${insumos.unidadesAhorradas}).`
+      );
+      doc.moveDown();
+    }
+
+    dibujarSeccion(doc, 'Vehículos y envases');
+    dibujarTabla(
+      doc,
+      [
+        { titulo: 'Lote mezcla', ancho: 1.6 },
+        { titulo: 'Vehículo', ancho: 2 },
+        { titulo: 'Envase', ancho: 1.6 },
+        { titulo: 'Cantidad', ancho: 0.8 },
+        { titulo: 'Despachado', ancho: 0.9 }
+      ],
+      production.mezclas.map((mezcla: any) => [
+        mezcla.loteMezcla,
+        `${mezcla.vehiculo.nombre} ${mezcla.vehiculo.volumenVehiculo} ml`,
+        mezcla.envase.nombre || mezcla.envase.tipo,
+        String(mezcla.cantidadMezclas || 1),
+        ''
+      ])
+    );
+
+    const lotes = production.mezclas.flatMap((mezcla: any) => (mezcla.lotesInsumo || [])
+      .filter((lote: any) => lote.estado !== 'LIBERADO')
+      .map((lote: any) => [
+        mezcla.loteMezcla,
+        mezcla.medicamento.nombre,
+        lote.loteFabricante,
+        dayjs(lote.fechaVencimiento).format('DD/MM/YYYY'),
+        lote.vialCompartidoDe ? `Vial de ${lote.vialCompartidoDe}` : String(lote.unidades),
+        lote.estado
+      ]));
+
+    if (lotes.length > 0) {
+      dibujarSeccion(doc, 'Lotes del fabricante asignados');
+      dibujarTabla(
+        doc,
+        [
+          { titulo: 'Lote mezcla', ancho: 1.6 },
+          { titulo: 'Medicamento', ancho: 1.8 },
+          { titulo: 'Lote fabricante', ancho: 1.3 },
+          { titulo: 'Vence', ancho: 1 },
+          { titulo: 'Unidades', ancho: 0.8 },
+          { titulo: 'Estado', ancho: 1 }
+        ],
+        lotes
+      );
+    }
+
+    dibujarBloquesFirma(doc, ['Despacha (almacén)', 'Recibe (producción)']);
+  })
+};
@@ -0,0 +1,56 @@
+import dayjs from 'dayjs';
+import { PlantillaDocumento } from './template.types';
+import {
+  asegurarEspacio,
+  crearPDF,
+  dibujarBloquesFirma,
+  dibujarCasilla,
+  dibujarEncabezado,
+  dibujarFirmasElectronicas,
+  dibujarSeccion,
+  textoPie
+} from './pdfLayout';
+
+const TITULO = 'ORDEN DE PRODUCCIÓN';
+const VERSION = '2.0.0';
+
+/**
+ * Orden: hoja de preparación con los pasos de cada mezcla para marcar durante el alistamiento y la preparación
+ */
+export const ordenTemplate: PlantillaDocumento = {
+  tipo: 'ORDEN',
+  version: VERSION,
+  titulo: TITULO,
+  render: ({ production, firmas }) => crearPDF(textoPie(TITULO, VERSION), (doc) => {
+    dibujarEncabezado(doc, TITULO, production);
+
+    production.mezclas.forEach((mezcla: any, index: number) => {
+      const { calculos, medicamento, vehiculo, envase } = mezcla;
+      const cantidad = mezcla.cantidadMezclas || 1;
+
+      asegurarEspacio(doc, 160);
+      dibujarSeccion(doc, `Mezcla ${index + 1} - Lote ${mezcla.loteMezcla}${cantidad > 1 ? ` (x${cantidad})` : ''}`);
+
+      const insumos = (calculos.presentaciones || []).length > 0
+        ? calculos.presentaciones.map((p: any) => `${p.unidades * cantidad} x ${p.tipoEnvase} ${p.volumenUnidad} ml`).join(', ')
+        : `${calculos.unidadesInsumo * cantidad} unidad(es)`;
+      const lotes = (mezcla.lotesInsumo || [])
+        .filter((lote: any) => lote.estado !== 'LIBERADO')
+        .map((lote: any) => `${lote.loteFabricante} (vence ${dayjs(lote.fechaVencimiento).format('DD/MM/YYYY')}, ${lote.vialCompartidoDe ? `vial abierto de ${lote.vialCompartidoDe}` : `${lote.unidades} u`})`)
+        .join(', ');
+
+      dibujarCasilla(doc, `1. Verificar paciente y prescripción: ${mezcla.paciente.nombre} (${mezcla.paciente.documento}), ${medicamento.nombre} ${medicamento.dosisPrescrita} ${medicamento.unidadDosis} ${medicamento.viaAdministracion}`);
+      dibujarCasilla(doc, `2. Alistar ${medicamento.nombre} ${medicamento.concentracion}: ${insumos}${lotes ? `. Lotes: ${lotes}` : ''}`);
+      dibujarCasilla(doc, `3. Alistar vehículo ${vehiculo.nombre} ${vehiculo.volumenVehiculo} ml en ${envase.nombre || envase.tipo}`);
+      dibujarCasilla(doc, `4. Extraer ${calculos.volumenExtraer} ml de medicamento por mezcla${calculos.volumenDesperdicio ? ` (sobrante ${calculos.volumenDesperdicio} ml)` : ''}`);
+      dibujarCasilla(doc, `5. Adicionar al vehículo y homogenizar. Volumen final ${calculos.volumenTotal} ml${calculos.concentracionFinal ? `, concentración final ${calculos.concentracionFinal}/ml` : ''}`);
+      dibujarCasilla(doc, `6. Rotular con lote ${mezcla.loteMezcla}, vence ${dayjs(mezcla.fechaVencimiento).format('DD/MM/YYYY HH:mm')}${mezcla.estabilidad?.condiciones ? `. Conservar ${mezcla.estabilidad.condiciones}` : ''}`);
+
+      doc.fontSize(8).text('Preparó: ____________________    Verificó: ____________________    Hora: ________');
+      doc.moveDown();
+    });
+
+    dibujarFirmasElectronicas(doc, firmas);
+    dibujarBloquesFirma(doc, ['Auxiliar de producción', 'QF de producción']);
+  })
+};
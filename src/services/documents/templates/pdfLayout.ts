@@ -0,0 +1,181 @@
+import dayjs from 'dayjs';
+import PDFDocument from 'pdfkit';
+import { ISignature } from '@/models/Signature.model';
+
+/**
+ * Bloques comunes de los documentos PDF (A4, margen 50)
+ */
+
+export interface ColumnaTabla {
+  titulo: string;
+  ancho: number; // Proporción del ancho útil
+}
+
+const MARGEN = 50;
+const TAMANO_CASILLA = 8;
+
+/**
+ * Crea el PDF, ejecuta el dibujo y agrega el pie con página y versión de plantilla en cada hoja
+ */
+export const crearPDF = (
+  pie: string,
+  dibujar: (doc: PDFKit.PDFDocument) => void
+): Promise<Buffer> => new Promise((resolve, reject) => {
+  try {
+    const doc = new PDFDocument({ size: 'A4', margin: MARGEN, bufferPages: true });
+    const chunks: Buffer[] = [];
+
+    doc.on('data', (chunk) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    dibujar(doc);
+
+    const paginas = doc.bufferedPageRange();
+    for (let i = 0; i < paginas.count; i++) {
+      doc.switchToPage(paginas.start + i);
+      // Sin margen inferior para que el pie no abra otra página
+      doc.page.margins.bottom = 0;
+      doc.fontSize(8).fillColor('black').text(
+        `${pie} - Página ${i + 1} de ${paginas.count}`,
+        MARGEN,
+        doc.page.height - MARGEN,
+        { width: anchoUtil(doc), align: 'center', lineBreak: false }
+      );
+    }
+
+    doc.end();
+  } catch (error) {
+    reject(error);
+  }
+});
+
+export const anchoUtil = (doc: PDFKit.PDFDocument): number => doc.page.width - MARGEN * 2;
+
+export const textoPie = (titulo: string, version: string): string =>
+  `${titulo} - Generado el ${dayjs().format('DD/MM/YYYY HH:mm')} - Plantilla v${version}`;
+
+/**
+ * Agrega una página si no queda el alto pedido
+ */
+export const asegurarEspacio = (doc: PDFKit.PDFDocument, alto: number): void => {
+  if (doc.y + alto > doc.page.height - MARGEN - 20) {
+    doc.addPage();
+  }
+};
+
+/**
+ * Título y datos de la orden
+ */
+export const dibujarEncabezado = (doc: PDFKit.PDFDocument, titulo: string, production: any): void => {
+  doc.fontSize(18).text(titulo, { align: 'center' });
+  doc.moveDown(0.5);
+
+  doc.fontSize(10);
+  doc.text(`Orden: ${production.codigo}    Línea: ${production.lineaProduccion}    Estado: ${production.estado}`);
+  doc.text(`Fecha de producción: ${production.fechaProduccion ? dayjs(production.fechaProduccion).format('DD/MM/YYYY HH:mm') : 'N/A'}    Mezclas: ${production.cantidadMezclas}`);
+  if (production.qfInterpretacion || production.qfProduccion || production.qfCalidad) {
+    doc.text([
+      production.qfInterpretacion && `QF interpretación: ${production.qfInterpretacion}`,
+      production.qfProduccion && `QF producción: ${production.qfProduccion}`,
+      production.qfCalidad && `QF calidad: ${production.qfCalidad}`
+    ].filter(Boolean).join('    '));
+  }
+  doc.moveDown();
+};
+
+export const dibujarSeccion = (doc: PDFKit.PDFDocument, titulo: string): void => {
+  asegurarEspacio(doc, 40);
+  doc.fontSize(12).font('Helvetica-Bold').text(titulo, MARGEN, doc.y);
+  doc.font('Helvetica').moveDown(0.3);
+};
+
+/**
+ * Tabla con bordes; las filas crecen con el texto y la tabla continúa en otra página con su encabezado
+ */
+export const dibujarTabla = (doc: PDFKit.PDFDocument, columnas: ColumnaTabla[], filas: string[][]): void => {
+  const total = columnas.reduce((suma, columna) => suma + columna.ancho, 0);
+  const anchos = columnas.map(columna => (columna.ancho / total) * anchoUtil(doc));
+  const relleno = 3;
+
+  const dibujarFila = (celdas: string[], negrita: boolean): void => {
+    doc.fontSize(8).font(negrita ? 'Helvetica-Bold' : 'Helvetica');
+    const alto = Math.max(...celdas.map((celda, i) =>
+      doc.heightOfString(celda || '', { width: anchos[i] - relleno * 2 })
+    )) + relleno * 2;
+
+    if (doc.y + alto > doc.page.height - MARGEN - 20) {
+      doc.addPage();
+      if (!negrita) dibujarFila(columnas.map(c => c.titulo), true);
+    }
+
+    const y = doc.y;
+    let x = MARGEN;
+    celdas.forEach((celda, i) => {
+      doc.rect(x, y, anchos[i], alto).stroke();
+      doc.text(celda || '', x + relleno, y + relleno, { width: anchos[i] - relleno * 2 });
+      x += anchos[i];
+    });
+    doc.x = MARGEN;
+    doc.y = y + alto;
+  };
+
+  dibujarFila(columnas.map(columna => columna.titulo), true);
+  filas.forEach(fila => dibujarFila(fila, false));
+  doc.font('Helvetica').moveDown();
+};
+
+/**
+ * Texto precedido de una casilla para marcar a mano
+ */
+export const dibujarCasilla = (doc: PDFKit.PDFDocument, texto: string, marcada = false): void => {
+  doc.fontSize(9);
+  const alto = doc.heightOfString(texto, { width: anchoUtil(doc) - 20 });
+  asegurarEspacio(doc, alto + 4);
+
+  const y = doc.y;
+  doc.rect(MARGEN, y + 1, TAMANO_CASILLA, TAMANO_CASILLA).stroke();
+  if (marcada) {
+    doc.moveTo(MARGEN + 1.5, y + 5).lineTo(MARGEN + 3.5, y + 8).lineTo(MARGEN + 7, y + 2).stroke();
+  }
+  doc.text(texto, MARGEN + 14, y, { width: anchoUtil(doc) - 20 });
+  doc.x = MARGEN;
+  doc.moveDown(0.2);
+};
+
+/**
+ * Espacios de firma manuscrita lado a lado: línea, rol y campos de nombre y fecha
+ */
+export const dibujarBloquesFirma = (doc: PDFKit.PDFDocument, roles: string[]): void => {
+  asegurarEspacio(doc, 70);
+  doc.moveDown(2);
+
+  const separacion = 20;
+  const ancho = (anchoUtil(doc) - separacion * (roles.length - 1)) / roles.length;
+  const y = doc.y;
+
+  doc.fontSize(8);
+  roles.forEach((rol, i) => {
+    const x = MARGEN + i * (ancho + separacion);
+    doc.moveTo(x, y).lineTo(x + ancho, y).stroke();
+    doc.text(rol, x, y + 3, { width: ancho, align: 'center' });
+    doc.text('Nombre: ______________________', x, y + 15, { width: ancho });
+    doc.text('Fecha/hora: ___________________', x, y + 27, { width: ancho });
+  });
+
+  doc.x = MARGEN;
+  doc.y = y + 45;
+};
+
+export const dibujarFirmasElectronicas = (doc: PDFKit.PDFDocument, firmas: ISignature[]): void => {
+  if (firmas.length === 0) return;
+
+  dibujarSeccion(doc, 'Firmas Electrónicas');
+  firmas.forEach((firma) => {
+    asegurarEspacio(doc, 36);
+    doc.fontSize(9).text(`${firma.estado} - ${firma.significado} por ${firma.nombre} (${firma.cargo})${firma.tarjetaProfesional ? ` TP ${firma.tarjetaProfesional}` : ''}`);
+    doc.text(`   Fecha: ${dayjs(firma.fechaFirma).format('DD/MM/YYYY HH:mm:ss')}`);
+    doc.fontSize(7).text(`   ${firma.algoritmoHash}: ${firma.hashContenido}`);
+    doc.moveDown(0.3);
+  });
+};
@@ -0,0 +1,64 @@
+import { PlantillaDocumento } from './template.types';
+import {
+  asegurarEspacio,
+  crearPDF,
+  dibujarBloquesFirma,
+  dibujarCasilla,
+  dibujarEncabezado,
+  dibujarFirmasElectronicas,
+  dibujarSeccion,
+  textoPie
+} from './pdfLayout';
+
+const TITULO = 'CONTROL DE CALIDAD';
+const VERSION = '2.0.0';
+
+// Verificaciones de liberación de cada mezcla
+const VERIFICACIONES = [
+  'Identificación del paciente y medicamento coinciden con la prescripción',
+  'Volumen final conforme',
+  'Ausencia de partículas visibles, precipitados o cambio de color',
+  'Integridad del envase y del sistema cerrado, sin fugas',
+  'Etiqueta con lote, vencimiento y condiciones de conservación'
+];
+
+const RESULTADO_MEZCLA: Record<string, string> = {
+  QC_APROBADA: 'APROBADA',
+  ETIQUETADA: 'APROBADA',
+  RECHAZADA: 'RECHAZADA'
+};
+
+/**
+ * QC: lista de verificación por mezcla con su resultado y bloques de firma de producción y calidad
+ */
+export const qcTemplate: PlantillaDocumento = {
+  tipo: 'QC',
+  version: VERSION,
+  titulo: TITULO,
+  render: ({ production, firmas }) => crearPDF(textoPie(TITULO, VERSION), (doc) => {
+    dibujarEncabezado(doc, TITULO, production);
+
+    production.mezclas.forEach((mezcla: any, index: number) => {
+      asegurarEspacio(doc, 130);
+      dibujarSeccion(doc, `Mezcla ${index + 1} - Lote ${mezcla.loteMezcla}`);
+      doc.fontSize(9).text(
+        `${mezcla.paciente.nombre} (${mezcla.paciente.documento}) - ${mezcla.medicamento.nombre} ${mezcla.medicamento.dosisPrescrita} ${mezcla.medicamento.unidadDosis} - ${mezcla.calculos.volumenTotal} ml`
+      );
+      doc.moveDown(0.3);
+
+      const resultado = RESULTADO_MEZCLA[mezcla.estado];
+      VERIFICACIONES.forEach(verificacion => dibujarCasilla(doc, verificacion, resultado === 'APROBADA'));
+
+      const rechazo = mezcla.estado === 'RECHAZADA'
+        ? [...(mezcla.historialEstado || [])].reverse().find((cambio: any) => cambio.estadoNuevo === 'RECHAZADA')
+        : undefined;
+
+      doc.fontSize(9).font('Helvetica-Bold')
+        .text(`Resultado: ${resultado || 'PENDIENTE'}${rechazo?.motivo ? ` - ${rechazo.motivo}` : ''}`);
+      doc.font('Helvetica').moveDown();
+    });
+
+    dibujarFirmasElectronicas(doc, firmas);
+    dibujarBloquesFirma(doc, ['QF de producción', 'QF de calidad']);
+  })
+};
@@ -0,0 +1,75 @@
+import dayjs from 'dayjs';
+import { DocumentType } from '@/models/Document.model';
+import { PlantillaDocumento } from './template.types';
+import { crearPDF, dibujarFirmasElectronicas, textoPie } from './pdfLayout';
+
+/**
+ * Plantilla 1.0.0: resumen de la orden común a todos los tipos (solo cambia el título)
+ * Se conserva registrada para identificar los documentos generados antes de las plantillas por tipo
+ */
+export const crearPlantillaResumen = (tipo: DocumentType, titulo: string): PlantillaDocumento => ({
+  tipo,
+  version: '1.0.0',
+  titulo,
+  render: ({ production, firmas, insumos }) => crearPDF(textoPie(titulo, '1.0.0'), (doc) => {
+    doc.fontSize(20).text(titulo, { align: 'center' });
+    doc.moveDown();
+
+    doc.fontSize(12);
+    doc.text(`Código de Producción: ${production.codigo}`);
+    doc.text(`Línea de Producción: ${production.lineaProduccion}`);
+    doc.text(`Estado: ${production.estado}`);
+    doc.text(`Fecha de Producción: ${production.fechaProduccion ? dayjs(production.fechaProduccion).format('DD/MM/YYYY HH:mm') : 'N/A'}`);
+    doc.text(`Cantidad de Mezclas: ${production.cantidadMezclas}`);
+    doc.moveDown();
+
+    if (production.qfInterpretacion || production.qfProduccion || production.qfCalidad) {
+      doc.fontSize(14).text('Químicos Farmacéuticos:', { underline: true });
+      doc.fontSize(12);
+      if (production.qfInterpretacion) doc.text(`Interpretación: ${production.qfInterpretacion}`);
+      if (production.qfProduccion) doc.text(`Producción: ${production.qfProduccion}`);
+      if (production.qfCalidad) doc.text(`Calidad: ${production.qfCalidad}`);
+      doc.moveDown();
+    }
+
+    if (production.mezclas && production.mezclas.length > 0) {
+      doc.fontSize(14).text('Mezclas:', { underline: true });
+      doc.moveDown(0.5);
+
+      production.mezclas.forEach((mezcla: any, index: number) => {
+        doc.fontSize(12).text(`${index + 1}. ${mezcla.medicamento.nombre}`);
+        doc.fontSize(10);
+        doc.text(`   Paciente: ${mezcla.paciente.nombre}`);
+        doc.text(`   Documento: ${mezcla.paciente.documento}`);
+        doc.text(`   Dosis: ${mezcla.medicamento.dosisPrescrita} ${mezcla.medicamento.unidadDosis}`);
+        doc.text(`   Lote: ${mezcla.loteMezcla}`);
+        doc.text(`   Vencimiento: ${dayjs(mezcla.fechaVencimiento).format('DD/MM/YYYY HH:mm')}`);
+        if (mezcla.estabilidad?.condiciones) doc.text(`   Conservación: ${mezcla.estabilidad.condiciones}`);
+        if (mezcla.estado && mezcla.estado !== 'PENDIENTE') doc.text(`   Estado mezcla: ${mezcla.estado}`);
+        doc.moveDown(0.5);
+      });
+    }
+
+    if (insumos) {
+      doc.fontSize(14).text('Insumos Requeridos:', { underline: true });
+      doc.moveDown(0.5);
+
+      insumos.grupos.forEach((grupo) => {
+        doc.fontSize(12).text(`${grupo.medicamento} ${grupo.concentracion} - ${grupo.volumenTotal} ml`);
+        doc.fontSize(10);
+        grupo.presentaciones.forEach((p) => {
+          doc.text(`   ${p.unidades} x ${p.tipoEnvase} ${p.volumenUnidad} ml`);
+        });
+        doc.text(`   Mezclas: ${grupo.mezclas.map(m => m.loteMezcla).join(', ')}`);
+        doc.moveDown(0.5);
+      });
+
+      doc.fontSize(10).text(
+        `Total: ${insumos.unidadesCompartido} unidad(es); por mezcla separada serían ${insumos.unidadesIndividual} (ahorro ${insumos.unidadesAhorradas})`
+      );
+      doc.moveDown();
+    }
+
+    dibujarFirmasElectronicas(doc, firmas);
+  })
+});
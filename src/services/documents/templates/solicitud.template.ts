@@ -0,0 +1,53 @@
+import { PlantillaDocumento } from './template.types';
+import {
+  crearPDF,
+  dibujarBloquesFirma,
+  dibujarEncabezado,
+  dibujarFirmasElectronicas,
+  dibujarSeccion,
+  dibujarTabla,
+  textoPie
+} from './pdfLayout';
+
+const TITULO = 'SOLICITUD DE PRODUCCIÓN';
+const VERSION = '2.0.0';
+
+/**
+ * Solicitud: prescripciones recibidas por paciente para interpretación y validación
+ */
+export const solicitudTemplate: PlantillaDocumento = {
+  tipo: 'SOLICITUD',
+  version: VERSION,
+  titulo: TITULO,
+  render: ({ production, firmas }) => crearPDF(textoPie(TITULO, VERSION), (doc) => {
+    dibujarEncabezado(doc, TITULO, production);
+
+    dibujarSeccion(doc, 'Prescripciones');
+    dibujarTabla(
+      doc,
+      [
+        { titulo: '#', ancho: 0.4 },
+        { titulo: 'Paciente', ancho: 2 },
+        { titulo: 'Aseguradora', ancho: 1.2 },
+        { titulo: 'Diagnóstico', ancho: 1.5 },
+        { titulo: 'Medicamento', ancho: 1.8 },
+        { titulo: 'Dosis', ancho: 1.2 },
+        { titulo: 'Vía', ancho: 0.7 },
+        { titulo: 'Cant.', ancho: 0.5 }
+      ],
+      production.mezclas.map((mezcla: any, index: number) => [
+        String(index + 1),
+        `${mezcla.paciente.nombre}\n${mezcla.paciente.documento}`,
+        mezcla.paciente.aseguradora,
+        mezcla.paciente.diagnostico,
+        `${mezcla.medicamento.nombre} ${mezcla.medicamento.concentracion}`,
+        `${mezcla.medicamento.dosisPrescrita} ${mezcla.medicamento.unidadDosis}`,
+        mezcla.medicamento.viaAdministracion,
+        String(mezcla.cantidadMezclas || 1)
+      ])
+    );
+
+    dibujarFirmasElectronicas(doc, firmas);
+    dibujarBloquesFirma(doc, ['Solicita', 'QF de interpretación']);
+  })
+};
@@ -0,0 +1,22 @@
+import { DocumentType } from '@/models/Document.model';
+import { ISignature } from '@/models/Signature.model';
+import { ConsolidadoInsumos } from '@/services/inventory/inventory.service';
+
+/**
+ * Datos con los que se dibuja un documento
+ */
+export interface ContextoPlantilla {
+  production: any; // Producción con los responsables poblados
+  firmas: ISignature[];
+  insumos?: ConsolidadoInsumos; // Solo para INSUMOS: cifras compartiendo viales abiertos
+}
+
+/**
+ * Plantilla de un tipo de documento; la versión queda en versionPlantilla del documento generado
+ */
+export interface PlantillaDocumento {
+  tipo: DocumentType;
+  version: string;
+  titulo: string;
+  render(contexto: ContextoPlantilla): Promise<Buffer>;
+}
@@ -0,0 +1,895 @@
+import { ClientSession, Types } from 'mongoose';
+import dayjs from 'dayjs';
+import { InventoryLot, IInventoryLot } from '@/models/InventoryLot.model';
+import { InventoryMovement } from '@/models/InventoryMovement.model';
+import { Medicine, IMedicine } from '@/models/Medicine.model';
+import { IProduction, IMezcla, ILoteInsumo } from '@/models/Production.model';
+import { ScheduleAssignment } from '@/models/ScheduleAssignment.model';
+import { PresentacionSeleccionada } from '@/contracts/types/production.types';
+import { calculationEngineService } from '@/services/calculation/calculationEngine.service';
+import { auditService } from '@/services/workflow/audit.service';
+import { GLOBAL_ENV } from '@/shared/constants';
+import { ResponseError } from '@/utils/erros';
+
+export type PoliticaStock = 'BLOQUEAR' | 'ADVERTIR';
+
+export interface RegistrarLoteDTO {
+  medicamentoId: string;
+  presentacion: { volumen: number; tipoEnvase?: string };
+  loteFabricante: string;
+  fechaVencimiento: string;
+  cantidad: number; // Unidades (viales/ampollas) recibidas
+}
+
+export interface AjusteLoteDTO {
+  cantidad?: number; // Unidades a sumar o restar del disponible
+  habilitado?: boolean; // Cuarentena o liberación del lote
+  motivo: string;
+}
+
+// Cambio de stock de un lote por una transición de la orden
+export interface OperacionInventario {
+  tipo: 'RESERVA' | 'LIBERACION' | 'CONSUMO';
+  loteId: Types.ObjectId;
+  medicamentoId: Types.ObjectId;
+  unidades: number;
+  mezclaIndex: number;
+  loteMezcla: string;
+}
+
+export interface MovimientoOrden {
+  lotesPorMezcla: Record<number, ILoteInsumo[]>; // lotesInsumo resultante de cada mezcla afectada
+  operaciones: OperacionInventario[];
+  advertencias: string[];
+}
+
+export interface StockPresentacion {
+  medicamentoId: Types.ObjectId;
+  medicamento?: string;
+  volumen: number;
+  unidad: string;
+  tipoEnvase: string;
+  disponible: number; // Unidades vigentes sin reservar
+  reservado: number;
+  vencido: number; // Unidades sin reservar de lotes vencidos
+  lotesVigentes: number;
+  proximoVencimiento?: Date;
+}
+
+export interface MezclaInsumoCompartido {
+  mezclaIndex: number;
+  loteMezcla: string;
+  fechaPreparacion: Date;
+  volumenExtraer: number; // Volumen de medicamento de la mezcla por su cantidad de mezclas
+  unidadesIndividual: number; // Unidades calculadas para la mezcla por separado
+  presentaciones: PresentacionSeleccionada[]; // Unidades que se reservan para la mezcla dentro del grupo
+  vialAbiertoPor?: number; // Mezcla que abrió el vial del que esta toma lo que le falta
+}
+
+export interface GrupoInsumoCompartido {
+  medicamentoId: Types.ObjectId;
+  medicamento: string;
+  concentracion: string;
+  horasEstabilidadViaAbierto: number; // 0: las unidades abiertas no se comparten
+  inicioVentana: Date;
+  finVentana: Date;
+  mezclas: MezclaInsumoCompartido[];
+  volumenTotal: number;
+  presentaciones: PresentacionSeleccionada[]; // Desglose de unidades para todo el grupo
+  unidadesIndividual: number;
+  unidadesCompartido: number;
+  volumenDesperdicioIndividual: number;
+  volumenDesperdicioCompartido: number;
+}
+
+export interface ConsolidadoInsumos {
+  productionId: Types.ObjectId;
+  codigo: string;
+  unidadesIndividual: number; // Total de la orden calculando cada mezcla por separado
+  unidadesCompartido: number; // Total de la orden compartiendo viales abiertos
+  unidadesAhorradas: number;
+  grupos: GrupoInsumoCompartido[];
+}
+
+interface Requerimiento {
+  volumen?: number; // Sin volumen se acepta cualquier presentación del medicamento
+  tipoEnvase?: string;
+  unidades: number;
+}
+
+// Incremento de stock de cada operación y condición para aplicarla sin dejar saldos negativos
+const EFECTO_OPERACION: Record<OperacionInventario['tipo'], (unidades: number) => { inc: Record<string, number>; guarda: Record<string, any> }> = {
+  RESERVA: (unidades) => ({
+    inc: { cantidadDisponible: -unidades, cantidadReservada: unidades },
+    guarda: { cantidadDisponible: { $gte: unidades } }
+  }),
+  LIBERACION: (unidades) => ({
+    inc: { cantidadDisponible: unidades, cantidadReservada: -unidades },
+    guarda: { cantidadReservada: { $gte: unidades } }
+  }),
+  CONSUMO: (unidades) => ({
+    inc: { cantidadReservada: -unidades },
+    guarda: { cantidadReservada: { $gte: unidades } }
+  })
+};
+
+/**
+ * Servicio de Inventario de Medicamentos
+ * Lleva el stock por lote del fabricante y presentación. Al programar una orden se reservan
+ * unidades por FEFO según el consolidado de la orden (las mezclas que comparten viales abiertos
+ * no reservan de más), al producirla se consumen y si se anula o vuelve antes de programar se liberan
+ */
+export class InventoryService {
+  getPolitica(): PoliticaStock {
+    return GLOBAL_ENV.INVENTORY_STOCK_POLICY?.toUpperCase() === 'ADVERTIR' ? 'ADVERTIR' : 'BLOQUEAR';
+  }
+
+  private formatFecha(fecha: Date): string {
+    return dayjs(fecha).format('YYYY-MM-DD');
+  }
+
+  /**
+   * Lotes de la mezcla como objetos planos para reescribir el arreglo completo
+   */
+  private getLotesInsumo(mezcla: IMezcla): ILoteInsumo[] {
+    return (mezcla.lotesInsumo || []).map(lote => ({ ...lote }));
+  }
+
+  /**
+   * Unidades a reservar por presentación: desglose del cálculo por la cantidad de mezclas
+   */
+  private getRequerimientos(mezcla: IMezcla): Requerimiento[] {
+    const cantidad = mezcla.cantidadMezclas || 1;
+    const desglose = mezcla.calculos?.presentaciones || [];
+
+    if (desglose.length > 0) {
+      return desglose
+        .filter(p => p.unidades > 0)
+        .map(p => ({ volumen: p.volumen, tipoEnvase: p.tipoEnvase || undefined, unidades: p.unidades * cantidad }));
+    }
+
+    // Mezclas calculadas antes del desglose por presentación
+    const unidades = (mezcla.calculos?.unidadesInsumo || 0) * cantidad;
+    return unidades > 0 ? [{ unidades }] : [];
+  }
+
+  /**
+   * Fecha contra la que se evalúa el vencimiento de los lotes: inicio del turno asignado o ahora
+   */
+  private async getFechaPreparacion(productionId: Types.ObjectId, session?: ClientSession): Promise<Date> {
+    const asignacion = await ScheduleAssignment.findOne({ productionId, activa: true }).session(session || null).lean();
+    const ahora = dayjs();
+    return asignacion && dayjs(asignacion.inicio).isAfter(ahora) ? asignacion.inicio : ahora.toDate();
+  }
+
+  private async applyOperacion(operacion: OperacionInventario, session?: ClientSession): Promise<boolean> {
+    const { inc, guarda } = EFECTO_OPERACION[operacion.tipo](operacion.unidades);
+    const lote = await InventoryLot.findOneAndUpdate(
+      { _id: operacion.loteId, ...guarda },
+      { $inc: inc },
+      { session }
+    );
+    return !!lote;
+  }
+
+  /**
+   * Deshace operaciones ya aplicadas (la transición de la orden no se concretó)
+   * Dentro de una transacción no hace falta: al abortarla no queda ninguna aplicada
+   */
+  private async revert(operaciones: OperacionInventario[], session?: ClientSession): Promise<void> {
+    for (const operacion of [...operaciones].reverse()) {
+      const { inc } = EFECTO_OPERACION[operacion.tipo](operacion.unidades);
+      const inverso = Object.fromEntries(Object.entries(inc).map(([campo, valor]) => [campo, -valor]));
+      await InventoryLot.updateOne({ _id: operacion.loteId }, { $inc: inverso }, { session });
+    }
+  }
+
+  /**
+   * Registra en el kardex las operaciones de una transición ya confirmada
+   */
+  async recordMovements(
+    operaciones: OperacionInventario[],
+    productionId: Types.ObjectId,
+    userId: Types.ObjectId,
+    motivo?: string,
+    session?: ClientSession
+  ): Promise<void> {
+    if (operaciones.length === 0) return;
+
+    const fecha = dayjs().toDate();
+    await InventoryMovement.insertMany(operaciones.map(operacion => ({
+      loteId: operacion.loteId,
+      medicamentoId: operacion.medicamentoId,
+      tipo: operacion.tipo,
+      cantidad: operacion.unidades,
+      productionId,
+      mezclaIndex: operacion.mezclaIndex,
+      loteMezcla: operacion.loteMezcla,
+      motivo,
+      usuarioId: userId,
+      fecha
+    })), { session });
+  }
+
+  /**
+   * Suma los desgloses de presentaciones de varias mezclas por volumen y tipo de envase
+   */
+  private sumarDesgloses(desgloses: PresentacionSeleccionada[][]): PresentacionSeleccionada[] {
+    const total = new Map<string, PresentacionSeleccionada>();
+
+    desgloses.flat().forEach(p => {
+      const clave = `${p.volumen}|${p.tipoEnvase}`;
+      const acumulado = total.get(clave);
+      if (acumulado) {
+        acumulado.unidades += p.unidades;
+      } else {
+        total.set(clave, { ...p });
+      }
+    });
+
+    return Array.from(total.values());
+  }
+
+  /**
+   * Momento de preparación de cada mezcla: el registrado al marcarla PREPARADA,
+   * si no el inicio del turno asignado y si no la fecha de la orden
+   */
+  private async getFechasPreparacion(production: IProduction): Promise<Date[]> {
+    const asignacion = await ScheduleAssignment.findOne({ productionId: production._id, activa: true }).lean();
+    const fechaOrden = asignacion?.inicio || production.fechaProduccion ||
+      production.timestamps?.calculado || production.timestamps?.creado || dayjs().toDate();
+
+    return production.mezclas.map(mezcla => {
+      const preparada = [...(mezcla.historialEstado || [])].reverse().find(h => h.estadoNuevo === 'PREPARADA');
+      return preparada?.fecha || fechaOrden;
+    });
+  }
+
+  /**
+   * Reparte las unidades del grupo entre sus mezclas en orden de preparación:
+   * cada mezcla abre unidades solo si no le alcanza lo que quedó abierto de las anteriores
+   * @returns Unidades que abre cada mezcla y la posición de la mezcla cuyo vial abierto usa (si usa uno)
+   */
+  private repartirPresentaciones(
+    volumenes: number[],
+    presentaciones: PresentacionSeleccionada[]
+  ): { presentaciones: PresentacionSeleccionada[][]; vialAbiertoPor: (number | undefined)[] } {
+    const unidades = presentaciones.flatMap(p => Array.from({ length: p.unidades }, () => p));
+    const asignadas: PresentacionSeleccionada[][] = volumenes.map(() => []);
+    const vialAbiertoPor: (number | undefined)[] = volumenes.map(() => undefined);
+    let abierto = 0;
+    let abiertoPor: number | undefined;
+
+    volumenes.forEach((volumen, index) => {
+      if (abierto > 1e-9 && volumen > 0) {
+        vialAbiertoPor[index] = abiertoPor;
+      }
+      while (abierto + 1e-9 < volumen && unidades.length > 0) {
+        const unidad = unidades.shift()!;
+        abierto += unidad.volumenUnidad;
+        abiertoPor = index;
+        asignadas[index].push({ ...unidad, unidades: 1 });
+      }
+      abierto = Math.max(abierto - volumen, 0);
+    });
+
+    // Lo que no se alcanzó a asignar (redondeos) queda con la última mezcla
+    asignadas[asignadas.length - 1].push(...unidades.map(unidad => ({ ...unidad, unidades: 1 })));
+
+    return {
+      presentaciones: asignadas.map(desglose => this.sumarDesgloses([desglose])),
+      vialAbiertoPor
+    };
+  }
+
+  /**
+   * Consolida los insumos de la orden compartiendo viales abiertos
+   * Las mezclas del mismo medicamento cuya preparación cae dentro de la estabilidad del vial abierto
+   * (horasEstabilidadViaAbierto del medicamento) suman su volumen y se abren las unidades para el total,
+   * en lugar de redondear hacia arriba cada mezcla por separado
+   * @param indices - Mezclas a consolidar (por defecto todas)
+   */
+  async consolidate(production: IProduction, indices?: number[]): Promise<ConsolidadoInsumos> {
+    const fechas = await this.getFechasPreparacion(production);
+    const porMedicamento = new Map<string, { mezcla: IMezcla; index: number; fecha: Date }[]>();
+
+    production.mezclas.forEach((mezcla, index) => {
+      if (indices && !indices.includes(index)) return;
+      const clave = `${mezcla.medicamento.id}|${mezcla.medicamento.concentracion}`;
+      porMedicamento.set(clave, [...(porMedicamento.get(clave) || []), { mezcla, index, fecha: fechas[index] }]);
+    });
+
+    const grupos: GrupoInsumoCompartido[] = [];
+
+    for (const mezclas of porMedicamento.values()) {
+      const { medicamento } = mezclas[0].mezcla;
+      const catalogo = await Medicine.findById(medicamento.id).lean<IMedicine>();
+      const horas = catalogo?.horasEstabilidadViaAbierto || 0;
+      const presentacionesCatalogo = catalogo?.presentaciones || [];
+
+      // Ventanas: un grupo nuevo cuando la preparación supera la estabilidad del vial abierto del primero
+      const ventanas: typeof mezclas[] = [];
+      [...mezclas]
+        .sort((a, b) => dayjs(a.fecha).valueOf() - dayjs(b.fecha).valueOf())
+        .forEach(item => {
+          const actual = ventanas[ventanas.length - 1];
+          const dentroDeVentana = horas > 0 && actual &&
+            !dayjs(item.fecha).isAfter(dayjs(actual[0].fecha).add(horas, 'hour'));
+          if (dentroDeVentana) {
+            actual.push(item);
+          } else {
+            ventanas.push([item]);
+          }
+        });
+
+      for (const ventana of ventanas) {
+        // Sin compartir se conserva el desglose calculado de cada mezcla
+        const desglosesIndividuales = ventana.map(({ mezcla }) =>
+          (mezcla.calculos.presentaciones || []).map(p => ({ ...p, unidades: p.unidades * (mezcla.cantidadMezclas || 1) }))
+        );
+
+        const detalle: MezclaInsumoCompartido[] = ventana.map(({ mezcla, index, fecha }, posicion) => ({
+          mezclaIndex: index,
+          loteMezcla: mezcla.loteMezcla,
+          fechaPreparacion: fecha,
+          volumenExtraer: Math.round(mezcla.calculos.volumenExtraer * (mezcla.cantidadMezclas || 1) * 100) / 100,
+          unidadesIndividual: mezcla.calculos.unidadesInsumo * (mezcla.cantidadMezclas || 1),
+          presentaciones: desglosesIndividuales[posicion]
+        }));
+
+        const volumenTotal = Math.round(detalle.reduce((total, m) => total + m.volumenExtraer, 0) * 100) / 100;
+        const unidadesIndividual = detalle.reduce((total, m) => total + m.unidadesIndividual, 0);
+        const volumenDesperdicioIndividual = Math.round(ventana.reduce(
+          (total, { mezcla }) => total + (mezcla.calculos.volumenDesperdicio || 0) * (mezcla.cantidadMezclas || 1),
+          0
+        ) * 100) / 100;
+
+        let presentaciones = this.sumarDesgloses(desglosesIndividuales);
+        let unidadesCompartido = unidadesIndividual;
+        let volumenDesperdicioCompartido = volumenDesperdicioIndividual;
+
+        const compartible = horas > 0 && presentacionesCatalogo.length > 0 &&
+          (ventana.length > 1 || (ventana[0].mezcla.cantidadMezclas || 1) > 1);
+        if (compartible) {
+          const criterio = ventana[0].mezcla.snapshotCalculo?.entrada.criterioPresentacion;
+          const seleccion = calculationEngineService.selectPresentaciones(volumenTotal, presentacionesCatalogo, criterio);
+          const unidades = seleccion.reduce((total, p) => total + p.unidades, 0);
+
+          // Con presentaciones del catálogo distintas a las del cálculo podría no mejorar
+          if (unidades <= unidadesIndividual) {
+            presentaciones = seleccion;
+            unidadesCompartido = unidades;
+            volumenDesperdicioCompartido = calculationEngineService.calculateVolumenDesperdicio(volumenTotal, seleccion);
+
+            const repartidas = this.repartirPresentaciones(detalle.map(m => m.volumenExtraer), seleccion);
+            detalle.forEach((m, posicion) => {
+              m.presentaciones = repartidas.presentaciones[posicion];
+              const origen = repartidas.vialAbiertoPor[posicion];
+              if (origen !== undefined) {
+                m.vialAbiertoPor = detalle[origen].mezclaIndex;
+              }
+            });
+          }
+        }
+
+        grupos.push({
+          medicamentoId: medicamento.id,
+          medicamento: medicamento.nombre,
+          concentracion: medicamento.concentracion,
+          horasEstabilidadViaAbierto: horas,
+          inicioVentana: ventana[0].fecha,
+          finVentana: dayjs(ventana[0].fecha).add(horas, 'hour').toDate(),
+          mezclas: detalle,
+          volumenTotal,
+          presentaciones,
+          unidadesIndividual,
+          unidadesCompartido,
+          volumenDesperdicioIndividual,
+          volumenDesperdicioCompartido
+        });
+      }
+    }
+
+    const unidadesIndividual = grupos.reduce((total, g) => total + g.unidadesIndividual, 0);
+    const unidadesCompartido = grupos.reduce((total, g) => total + g.unidadesCompartido, 0);
+
+    return {
+      productionId: production._id as Types.ObjectId,
+      codigo: production.codigo,
+      unidadesIndividual,
+      unidadesCompartido,
+      unidadesAhorradas: unidadesIndividual - unidadesCompartido,
+      grupos
+    };
+  }
+
+  /**
+   * Reserva por FEFO las unidades de las mezclas que aún no tienen lotes reservados
+   * (todas al programar; al volver a PROGRAMADO solo las pendientes o rechazadas que se repiten).
+   * Los lotes vencidos a la fecha de preparación o deshabilitados no se usan
+   * @param session - Con sesión las reservas se confirman o se descartan con la transacción de quien llama
+   */
+  async reserveForProduction(production: IProduction, session?: ClientSession): Promise<MovimientoOrden> {
+    const resultado: MovimientoOrden = { lotesPorMezcla: {}, operaciones: [], advertencias: [] };
+    const faltantes: string[] = [];
+    const fechaPreparacion = await this.getFechaPreparacion(production._id as Types.ObjectId, session);
+    const orden = production.toObject() as IProduction;
+    const mezclas = orden.mezclas;
+
+    const pendientes = mezclas
+      .map((mezcla, index) => ({ mezcla, index }))
+      .filter(({ mezcla }) =>
+        ['PENDIENTE', 'RECHAZADA'].includes(mezcla.estado || 'PENDIENTE') &&
+        !this.getLotesInsumo(mezcla).some(l => l.estado === 'RESERVADO')
+      )
+      .map(({ index }) => index);
+
+    // Se reserva lo consolidado: las mezclas que comparten viales abiertos no reservan unidades de más
+    // (una mezcla que cabe en el vial abierto por otra no reserva ninguna)
+    const requerimientosCompartidos = new Map<number, Requerimiento[]>();
+    const vialAbiertoPor = new Map<number, number>();
+    if (pendientes.length > 0) {
+      const consolidado = await this.consolidate(orden, pendientes);
+      consolidado.grupos
+        .flatMap(grupo => grupo.mezclas)
+        // Mezclas calculadas antes del desglose por presentación: se reservan por separado
+        .filter(m => (mezclas[m.mezclaIndex].calculos?.presentaciones || []).length > 0)
+        .forEach(m => {
+          requerimientosCompartidos.set(
+            m.mezclaIndex,
+            m.presentaciones
+              .filter(p => p.unidades > 0)
+              .map(p => ({ volumen: p.volumen, tipoEnvase: p.tipoEnvase || undefined, unidades: p.unidades }))
+          );
+          if (m.vialAbiertoPor !== undefined) {
+            vialAbiertoPor.set(m.mezclaIndex, m.vialAbiertoPor);
+          }
+        });
+    }
+
+    try {
+      for (const index of pendientes) {
+        const mezcla = mezclas[index];
+        const lotesInsumo = this.getLotesInsumo(mezcla);
+
+        for (const requerimiento of requerimientosCompartidos.get(index) || this.getRequerimientos(mezcla)) {
+          const lotes = await InventoryLot.find({
+            medicamentoId: mezcla.medicamento.id,
+            habilitado: true,
+            cantidadDisponible: { $gt: 0 },
+            ...(requerimiento.volumen !== undefined && { 'presentacion.volumen': requerimiento.volumen }),
+            ...(requerimiento.tipoEnvase && { 'presentacion.tipoEnvase': requerimiento.tipoEnvase })
+          }).sort({ fechaVencimiento: 1 }).session(session || null);
+
+          let restante = requerimiento.unidades;
+          let unidadesVencidas = 0;
+
+          for (const lote of lotes) {
+            if (!dayjs(lote.fechaVencimiento).isAfter(fechaPreparacion)) {
+              unidadesVencidas += lote.cantidadDisponible;
+              continue;
+            }
+            if (restante === 0) break;
+
+            const operacion: OperacionInventario = {
+              tipo: 'RESERVA',
+              loteId: lote._id as Types.ObjectId,
+              medicamentoId: mezcla.medicamento.id,
+              unidades: Math.min(restante, lote.cantidadDisponible),
+              mezclaIndex: index,
+              loteMezcla: mezcla.loteMezcla
+            };
+
+            // Otra orden pudo tomar el saldo entre la consulta y la reserva
+            if (!(await this.applyOperacion(operacion, session))) continue;
+
+            resultado.operaciones.push(operacion);
+            restante -= operacion.unidades;
+
+            const venceAntes = dayjs(lote.fechaVencimiento).isBefore(mezcla.fechaVencimiento);
+            lotesInsumo.push({
+              loteId: operacion.loteId,
+              loteFabricante: lote.loteFabricante,
+              fechaVencimiento: lote.fechaVencimiento,
+              volumenPresentacion: lote.presentacion.volumen,
+              tipoEnvase: lote.presentacion.tipoEnvase,
+              unidades: operacion.unidades,
+              estado: 'RESERVADO',
+              fechaReserva: dayjs().toDate(),
+              ...(venceAntes && {
+                advertencia: `El lote ${lote.loteFabricante} vence el ${this.formatFecha(lote.fechaVencimiento)}, antes que la mezcla (${this.formatFecha(mezcla.fechaVencimiento)})`
+              })
+            });
+          }
+
+          if (restante > 0) {
+            const presentacion = requerimiento.volumen !== undefined ? ` ${requerimiento.volumen} mL` : '';
+            faltantes.push(
+              `${mezcla.medicamento.nombre}${presentacion} (mezcla ${mezcla.loteMezcla}): faltan ${restante} de ${requerimiento.unidades} unidad(es)` +
+              (unidadesVencidas > 0 ? `, ${unidadesVencidas} unidad(es) en lotes vencidos` : '')
+            );
+          }
+        }
+
+        resultado.lotesPorMezcla[index] = lotesInsumo;
+      }
+
+      // Trazabilidad: la mezcla que usa el vial abierto por otra registra el lote del fabricante de ese vial
+      // (el último reservado por la mezcla que lo abrió), sin reservar unidades
+      vialAbiertoPor.forEach((origen, index) => {
+        const mezcla = mezclas[index];
+        const loteOrigen = [...(resultado.lotesPorMezcla[origen] || [])].reverse().find(l => l.estado === 'RESERVADO');
+        if (!loteOrigen) return;
+
+        const venceAntes = dayjs(loteOrigen.fechaVencimiento).isBefore(mezcla.fechaVencimiento);
+        const { advertencia: _advertencia, ...lote } = loteOrigen;
+        resultado.lotesPorMezcla[index] = [
+          ...(resultado.lotesPorMezcla[index] || this.getLotesInsumo(mezcla)),
+          {
+            ...lote,
+            unidades: 0,
+            vialCompartidoDe: mezclas[origen].loteMezcla,
+            ...(venceAntes && {
+              advertencia: `El lote ${lote.loteFabricante} vence el ${this.formatFecha(lote.fechaVencimiento)}, antes que la mezcla (${this.formatFecha(mezcla.fechaVencimiento)})`
+            })
+          }
+        ];
+      });
+
+      pendientes.forEach(index => {
+        resultado.advertencias.push(...(resultado.lotesPorMezcla[index] || [])
+          .filter(l => l.advertencia && l.estado === 'RESERVADO')
+          .map(l => l.advertencia!));
+      });
+    } catch (error) {
+      if (!session) await this.revert(resultado.operaciones);
+      throw error;
+    }
+
+    if (faltantes.length > 0) {
+      if (this.getPolitica() === 'BLOQUEAR') {
+        if (!session) await this.revert(resultado.operaciones);
+        throw new ResponseError(400, `Stock insuficiente para programar la orden: ${faltantes.join('; ')}`);
+      }
+      resultado.advertencias.push(...faltantes.map(faltante => `Stock insuficiente: ${faltante}`));
+    }
+
+    return resultado;
+  }
+
+  private marcarLote(lote: ILoteInsumo, tipo: 'CONSUMO' | 'LIBERACION', fecha: Date): void {
+    if (tipo === 'CONSUMO') {
+      lote.estado = 'CONSUMIDO';
+      lote.fechaConsumo = fecha;
+    } else {
+      lote.estado = 'LIBERADO';
+      lote.fechaLiberacion = fecha;
+    }
+  }
+
+  /**
+   * Cambia las reservas vigentes de la orden a consumidas o liberadas
+   */
+  private async settleReservations(
+    production: IProduction,
+    tipo: 'CONSUMO' | 'LIBERACION',
+    session?: ClientSession
+  ): Promise<MovimientoOrden> {
+    const resultado: MovimientoOrden = { lotesPorMezcla: {}, operaciones: [], advertencias: [] };
+    const mezclas = production.toObject().mezclas as IMezcla[];
+    const fecha = dayjs().toDate();
+
+    try {
+      for (const [index, mezcla] of mezclas.entries()) {
+        const lotesInsumo = this.getLotesInsumo(mezcla);
+        if (!lotesInsumo.some(l => l.estado === 'RESERVADO')) continue;
+
+        for (const lote of lotesInsumo.filter(l => l.estado === 'RESERVADO')) {
+          // Vial abierto por otra mezcla: sus unidades se mueven con la reserva de esa mezcla
+          if (lote.unidades === 0) {
+            this.marcarLote(lote, tipo, fecha);
+            continue;
+          }
+
+          const operacion: OperacionInventario = {
+            tipo,
+            loteId: lote.loteId,
+            medicamentoId: mezcla.medicamento.id,
+            unidades: lote.unidades,
+            mezclaIndex: index,
+            loteMezcla: mezcla.loteMezcla
+          };
+
+          if (!(await this.applyOperacion(operacion, session))) {
+            throw new ResponseError(
+              409,
+              `La reserva del lote ${lote.loteFabricante} para la mezcla ${mezcla.loteMezcla} no coincide con el inventario`
+            );
+          }
+          resultado.operaciones.push(operacion);
+          this.marcarLote(lote, tipo, fecha);
+        }
+
+        resultado.lotesPorMezcla[index] = lotesInsumo;
+      }
+    } catch (error) {
+      if (!session) await this.revert(resultado.operaciones);
+      throw error;
+    }
+
+    return resultado;
+  }
+
+  /**
+   * Consume las unidades reservadas (la orden pasa a PRODUCIDO)
+   */
+  async consumeForProduction(production: IProduction, session?: ClientSession): Promise<MovimientoOrden> {
+    return await this.settleReservations(production, 'CONSUMO', session);
+  }
+
+  /**
+   * Devuelve al disponible las unidades reservadas (orden anulada o devuelta antes de programar)
+   */
+  async releaseForProduction(production: IProduction, session?: ClientSession): Promise<MovimientoOrden> {
+    return await this.settleReservations(production, 'LIBERACION', session);
+  }
+
+  /**
+   * Lista los lotes de inventario
+   */
+  async listLots(params: { medicamentoId?: string; vigentes?: string; habilitado?: string }) {
+    const filtro: Record<string, any> = {};
+
+    if (params.medicamentoId) {
+      if (!Types.ObjectId.isValid(params.medicamentoId)) {
+        throw new ResponseError(400, 'medicamentoId inválido');
+      }
+      filtro.medicamentoId = params.medicamentoId;
+    }
+    if (params.vigentes === 'true') {
+      filtro.fechaVencimiento = { $gt: dayjs().toDate() };
+    }
+    if (params.habilitado !== undefined) {
+      filtro.habilitado = params.habilitado === 'true';
+    }
+
+    return await InventoryLot.find(filtro)
+      .populate('medicamentoId', 'nombre concentracion')
+      .sort({ fechaVencimiento: 1 });
+  }
+
+  /**
+   * Registra la entrada de un lote del fabricante para una presentación del medicamento
+   */
+  async createLot(data: RegistrarLoteDTO, userId: Types.ObjectId, session?: ClientSession): Promise<IInventoryLot> {
+    if (!data?.medicamentoId || !Types.ObjectId.isValid(data.medicamentoId)) {
+      throw new ResponseError(400, 'medicamentoId inválido');
+    }
+    if (!data.loteFabricante?.trim()) {
+      throw new ResponseError(400, 'loteFabricante es requerido');
+    }
+    if (!Number.isInteger(data.cantidad) || data.cantidad < 1) {
+      throw new ResponseError(400, 'La cantidad debe ser un entero mayor a 0');
+    }
+
+    const fechaVencimiento = dayjs(data.fechaVencimiento);
+    if (!data.fechaVencimiento || !fechaVencimiento.isValid()) {
+      throw new ResponseError(400, 'fechaVencimiento inválida');
+    }
+    if (!fechaVencimiento.isAfter(dayjs())) {
+      throw new ResponseError(400, `El lote ${data.loteFabricante} está vencido, no se puede ingresar`);
+    }
+
+    const medicamento = await Medicine.findById(data.medicamentoId).session(session || null);
+    if (!medicamento) {
+      throw new ResponseError(404, 'Medicamento no encontrado');
+    }
+
+    const presentacion = medicamento.presentaciones.find(p =>
+      p.volumen === Number(data.presentacion?.volumen) &&
+      (!data.presentacion?.tipoEnvase || p.tipoEnvase.toUpperCase() === data.presentacion.tipoEnvase.toUpperCase())
+    );
+    if (!presentacion) {
+      throw new ResponseError(
+        400,
+        `${medicamento.nombre} no tiene una presentación de ${data.presentacion?.volumen} mL${data.presentacion?.tipoEnvase ? ` en ${data.presentacion.tipoEnvase}` : ''}`
+      );
+    }
+
+    try {
+      const [lote] = await InventoryLot.create([{
+        medicamentoId: medicamento._id,
+        presentacion: {
+          volumen: presentacion.volumen,
+          unidad: presentacion.unidad,
+          tipoEnvase: presentacion.tipoEnvase
+        },
+        loteFabricante: data.loteFabricante,
+        fechaVencimiento: fechaVencimiento.toDate(),
+        cantidadInicial: data.cantidad,
+        cantidadDisponible: data.cantidad,
+        cantidadReservada: 0,
+        registradoPor: userId
+      }], { session });
+
+      await InventoryMovement.create([{
+        loteId: lote._id,
+        medicamentoId: medicamento._id,
+        tipo: 'ENTRADA',
+        cantidad: data.cantidad,
+        usuarioId: userId,
+        fecha: dayjs().toDate()
+      }], { session });
+
+      await auditService.logAction(
+        'InventoryLot',
+        lote._id as Types.ObjectId,
+        'CREATE',
+        lote.toObject(),
+        userId
+      );
+
+      return lote;
+    } catch (error: any) {
+      if (error?.code === 11000) {
+        throw new ResponseError(409, `El lote ${data.loteFabricante} ya está registrado para esta presentación`);
+      }
+      if (error?.name === 'ValidationError') {
+        throw new ResponseError(400, error.message);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Ajusta el disponible de un lote (conteo, rotura, devolución) o lo pone en cuarentena
+   * Las unidades reservadas no se ajustan; se liberan con la orden
+   */
+  async adjustLot(id: string, data: AjusteLoteDTO, userId: Types.ObjectId, session?: ClientSession): Promise<IInventoryLot> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new ResponseError(400, 'ID inválido');
+    }
+
+    const motivo = (data?.motivo || '').trim();
+    if (!motivo) {
+      throw new ResponseError(400, 'Debe indicar el motivo del ajuste');
+    }
+
+    const cantidad = data.cantidad ?? 0;
+    if (!Number.isInteger(cantidad)) {
+      throw new ResponseError(400, 'La cantidad debe ser un entero');
+    }
+    if (cantidad === 0 && data.habilitado === undefined) {
+      throw new ResponseError(400, 'Debe indicar una cantidad distinta de 0 o el estado habilitado');
+    }
+
+    const anterior = await InventoryLot.findById(id).session(session || null);
+    if (!anterior) {
+      throw new ResponseError(404, 'Lote no encontrado');
+    }
+
+    const update: Record<string, any> = {};
+    if (cantidad !== 0) {
+      update.$inc = { cantidadDisponible: cantidad };
+    }
+    if (data.habilitado !== undefined) {
+      update.$set = { habilitado: data.habilitado };
+    }
+
+    const lote = await InventoryLot.findOneAndUpdate(
+      { _id: id, cantidadDisponible: { $gte: Math.max(0, -cantidad) } },
+      update,
+      { new: true, session }
+    );
+    if (!lote) {
+      throw new ResponseError(
+        400,
+        `El lote ${anterior.loteFabricante} tiene ${anterior.cantidadDisponible} unidad(es) disponibles, no se pueden descontar ${-cantidad}`
+      );
+    }
+
+    if (cantidad !== 0) {
+      await InventoryMovement.create([{
+        loteId: lote._id,
+        medicamentoId: lote.medicamentoId,
+        tipo: 'AJUSTE',
+        cantidad,
+        motivo,
+        usuarioId: userId,
+        fecha: dayjs().toDate()
+      }], { session });
+    }
+
+    await auditService.logAction(
+      'InventoryLot',
+      lote._id as Types.ObjectId,
+      'INVENTORY_ADJUST',
+      {
+        cantidadAnterior: anterior.cantidadDisponible,
+        cantidadNueva: lote.cantidadDisponible,
+        ...(data.habilitado !== undefined && { habilitadoAnterior: anterior.habilitado, habilitado: lote.habilitado }),
+        motivo
+      },
+      userId
+    );
+
+    return lote;
+  }
+
+  /**
+   * Kardex de un lote: entradas, ajustes, reservas, liberaciones y consumos
+   */
+  async getMovements(id: string) {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new ResponseError(400, 'ID inválido');
+    }
+
+    const lote = await InventoryLot.findById(id);
+    if (!lote) {
+      throw new ResponseError(404, 'Lote no encontrado');
+    }
+
+    return await InventoryMovement.find({ loteId: lote._id })
+      .populate('usuarioId', 'username nombre')
+      .populate('productionId', 'codigo estado')
+      .sort({ fecha: -1 });
+  }
+
+  /**
+   * Stock por medicamento y presentación; las unidades de lotes vencidos se informan aparte
+   */
+  async getStock(params: { medicamentoId?: string }): Promise<StockPresentacion[]> {
+    const filtro: Record<string, any> = { habilitado: true };
+    if (params.medicamentoId) {
+      if (!Types.ObjectId.isValid(params.medicamentoId)) {
+        throw new ResponseError(400, 'medicamentoId inválido');
+      }
+      filtro.medicamentoId = params.medicamentoId;
+    }
+
+    const lotes = await InventoryLot.find(filtro)
+      .populate('medicamentoId', 'nombre')
+      .sort({ fechaVencimiento: 1 })
+      .lean();
+
+    const ahora = dayjs();
+    const stock = new Map<string, StockPresentacion>();
+
+    lotes.forEach(lote => {
+      const medicamento = lote.medicamentoId as any;
+      const medicamentoId = medicamento?._id || lote.medicamentoId;
+      const clave = `${medicamentoId}|${lote.presentacion.volumen}|${lote.presentacion.tipoEnvase}`;
+
+      if (!stock.has(clave)) {
+        stock.set(clave, {
+          medicamentoId,
+          medicamento: medicamento?.nombre,
+          volumen: lote.presentacion.volumen,
+          unidad: lote.presentacion.unidad,
+          tipoEnvase: lote.presentacion.tipoEnvase,
+          disponible: 0,
+          reservado: 0,
+          vencido: 0,
+          lotesVigentes: 0
+        });
+      }
+
+      const item = stock.get(clave)!;
+      item.reservado += lote.cantidadReservada;
+
+      if (dayjs(lote.fechaVencimiento).isAfter(ahora)) {
+        item.disponible += lote.cantidadDisponible;
+        if (lote.cantidadDisponible > 0) {
+          item.lotesVigentes += 1;
+          item.proximoVencimiento = item.proximoVencimiento || lote.fechaVencimiento;
+        }
+      } else {
+        item.vencido += lote.cantidadDisponible;
+      }
+    });
+
+    return Array.from(stock.values());
+  }
+}
+
+export const inventoryService = new InventoryService();
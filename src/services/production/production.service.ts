@@ -1,16 +1,47 @@
-import { Types } from 'mongoose';
+import mongoose, { Types } from 'mongoose';
 import dayjs from 'dayjs';
-import { Production, IProduction, IMezcla, LineaProduccion } from '@/models/Production.model';
+import {
+  Production,
+  IProduction,
+  IMezcla,
+  IDosificacionMezcla,
+  IAdvertenciaMezcla,
+  ICalculosMezcla,
+  LineaProduccion
+} from '@/models/Production.model';
 import { domainValidationService } from '@/services/validation/domainValidation.service';
 import { calculationEngineService } from '@/services/calculation/calculationEngine.service';
 import { productionWorkflowService } from '@/services/workflow/productionWorkflow.service';
 import { auditService } from '@/services/workflow/audit.service';
+import { sequenceService } from '@/services/sequence/sequence.service';
+import { inventoryService, ConsolidadoInsumos } from '@/services/inventory/inventory.service';
+import { DatosFirma } from '@/services/signature/signature.service';
 import { ResponseError } from '@/utils/erros';
 import { Medicine, IMedicine } from '@/models/Medicine.model';
 import { Vehicle, IVehicle } from '@/models/Vehicle.model';
 import { Container, IContainer } from '@/models/Container.model';
-import { Stability } from '@/models/Stability.model';
+import { Stability, IStability } from '@/models/Stability.model';
 import { User, IUser } from '@/models/User.model';
+import {
+  AdvertenciaValidacion,
+  CalculationInput,
+  CalculationResult,
+  CriterioPresentacion,
+  DosisMezclaOrden,
+  FormulaSuperficieCorporal,
+  TipoDosificacion
+} from '@/contracts/types/production.types';
+
+export interface CreateDosificacionDTO {
+  tipo: TipoDosificacion;
+  dosisReferencia: number; // mg/m², mg/kg o AUC (mg/ml·min)
+  formulaSC?: FormulaSuperficieCorporal;
+  superficieCorporalMaxima?: number;
+  dosisMaxima?: number;
+  tfg?: number;
+  creatininaSerica?: number;
+  tfgMaxima?: number;
+}
 
 export interface CreateMezclaDTO {
   paciente: {
@@ -18,13 +49,21 @@ export interface CreateMezclaDTO {
     documento: string;
     aseguradora: string;
     diagnostico: string;
+    peso?: number;
+    talla?: number;
+    sexo?: 'M' | 'F';
+    edad?: number;
   };
   medicamentoId: string;
   vehiculoId: string;
   envaseId: string;
-  dosisPrescrita: number;
+  dosisPrescrita?: number; // Requerida si no se envía dosificacion
   unidadDosis: string;
+  dosificacion?: CreateDosificacionDTO; // Dosis por SC, peso o AUC; se deriva la dosis absoluta
   cantidadMezclas?: number; // Cantidad de mezclas para este paciente/medicamento
+  criterioPresentacion?: CriterioPresentacion; // Cómo combinar presentaciones (por defecto MENOS_UNIDADES)
+  volumenVehiculo?: number; // Volumen de vehículo fijado manualmente (si no, lo calcula el motor)
+  condicionAlmacenamiento?: string; // Condiciones de la estabilidad a aplicar; requerida si la combinación tiene varias
 }
 
 export interface CreateProductionDTO {
@@ -36,149 +75,315 @@ export interface CreateProductionDTO {
   mezclas: CreateMezclaDTO[]; // Array de mezclas a crear
 }
 
+// Campos a corregir en una mezcla; los omitidos se conservan de la mezcla actual
+export type UpdateMezclaDTO = Partial<Omit<CreateMezclaDTO, 'paciente'>> & {
+  paciente?: Partial<CreateMezclaDTO['paciente']>;
+};
+
+// Campos de la mezcla que no se comparan en el diff de auditoría
+const CAMPOS_SIN_DIFF = ['loteMezcla', 'estado', 'historialEstado', 'advertencias', 'snapshotCalculo'];
+
+// Campos de la entrada que no dependen del catálogo ni del motor
+const ENTRADA_SIN_DIFF = ['fechaPreparacion'];
+
+type CambiosCampo = Record<string, { anterior: any; nuevo: any }>;
+
+export interface RecalculoMezcla {
+  mezclaIndex: number;
+  loteMezcla: string;
+  versionMotorOriginal: string;
+  conSnapshot: boolean; // Mezclas anteriores al snapshot solo se comparan contra el catálogo vigente
+  cambiosEntrada: CambiosCampo; // Entrada guardada vs catálogo vigente
+  cambiosMotor: CambiosCampo; // Cálculo guardado vs motor actual con la entrada guardada
+  cambiosResultado: CambiosCampo; // Cálculo guardado vs motor actual con el catálogo vigente
+  error?: string; // El catálogo vigente ya no permite calcular la mezcla
+}
+
+export interface RecalculoProduccion {
+  productionId: Types.ObjectId;
+  codigo: string;
+  estado: string;
+  versionMotorOriginal: string;
+  versionMotorActual: string;
+  hayDiferencias: boolean;
+  mezclas: RecalculoMezcla[];
+}
+
 /**
  * Servicio principal de Producciones
  * Orquesta la creación, validación, cálculo y gestión de órdenes de producción
  */
 export class ProductionService {
   /**
-   * Genera un código único para la orden de producción
+   * Combina las advertencias vigentes con las ya registradas en la mezcla
+   * Una advertencia aceptada se conserva mientras la regla siga aplicando
    */
-  private generateProductionCode(): string {
-    const now = dayjs();
-    const year = now.format('YYYY');
-    const month = now.format('MM');
-    const day = now.format('DD');
-    const random = Math.floor(Math.random() * 10000).toString().padStart(4, '0');
-    
-    return `PROD-${year}${month}${day}-${random}`;
+  private mergeAdvertencias(
+    actuales: IAdvertenciaMezcla[],
+    nuevas: AdvertenciaValidacion[]
+  ): IAdvertenciaMezcla[] {
+    return nuevas.map(nueva => {
+      const existente = actuales.find(a => a.codigo === nueva.codigo && a.aceptada);
+      return existente
+        ? { ...existente, mensaje: nueva.mensaje }
+        : { codigo: nueva.codigo, mensaje: nueva.mensaje, aceptada: false };
+    });
   }
 
   /**
-   * Genera un lote de mezcla único
+   * Convierte el resultado del motor en los cálculos guardados en la mezcla
    */
-  private generateLoteMezcla(lineaProduccion: LineaProduccion, fechaProduccion: Date): string {
-    const now = fechaProduccion ? dayjs(fechaProduccion) : dayjs();
-    const year = now.format('YY');
-    const month = now.format('MM');
-    const day = now.format('DD');
-    const hour = now.format('HH');
-    const minute = now.format('mm');
-    const random = Math.floor(Math.random() * 100000).toString().padStart(5, '0');
-    
-    const lineaCode = lineaProduccion === 'ONCO' ? 'ON' : 'ET';
-    return `HG${year}${month}${day}-${lineaCode}-${random}`;
+  private toCalculos(resultados: CalculationResult): ICalculosMezcla {
+    return {
+      volumenExtraer: resultados.volumenExtraer,
+      volumenMezcla: resultados.volumenExtraer,
+      volumenVehiculo: resultados.volumenVehiculo,
+      volumenTotal: resultados.volumenFinal,
+      concentracionFinal: resultados.concentracionFinal,
+      unidadesInsumo: resultados.unidadesInsumo,
+      presentaciones: resultados.presentaciones,
+      volumenDesperdicio: resultados.volumenDesperdicio
+    };
   }
 
   /**
-   * Crea una nueva orden de producción con múltiples mezclas
+   * Busca la estabilidad habilitada de la combinación para la condición de almacenamiento pedida
+   * Sin condición solo se acepta si la combinación tiene una única estabilidad
    */
-  async createProduction(
-    data: CreateProductionDTO,
-    userId: Types.ObjectId
-  ): Promise<IProduction> {
-    if (!data.mezclas || data.mezclas.length === 0) {
-      throw new ResponseError(400, 'Debe incluir al menos una mezcla');
+  private async findEstabilidad(
+    medicamentoId: Types.ObjectId,
+    vehiculoId: Types.ObjectId,
+    envaseId: Types.ObjectId,
+    condicionAlmacenamiento?: string
+  ): Promise<IStability> {
+    const estabilidades = await Stability.find({ medicamentoId, vehiculoId, envaseId, habilitado: true });
+
+    if (estabilidades.length === 0) {
+      throw new ResponseError(404, 'No se encontró estabilidad para esta combinación de medicamento, vehículo y envase');
     }
 
-    const mezclas: IMezcla[] = [];
-    const fechaProduccion = data.fechaProduccion ? dayjs(data.fechaProduccion).toDate() : dayjs().toDate();
+    const condiciones = [...new Set(estabilidades.map(e => e.condiciones))];
+    const condicion = condicionAlmacenamiento?.trim();
 
-    // Procesar cada mezcla
-    for (const mezclaData of data.mezclas) {
-      // Obtener medicamento
-      const medicamento = await Medicine.findById(mezclaData.medicamentoId);
-      if (!medicamento) {
-        throw new ResponseError(404, `Medicamento ${mezclaData.medicamentoId} no encontrado`);
+    if (condicion) {
+      const coincidentes = estabilidades.filter(e => e.condiciones === condicion);
+      if (coincidentes.length === 0) {
+        throw new ResponseError(
+          404,
+          `No hay estabilidad para la condición "${condicion}" en esta combinación. Condiciones disponibles: ${condiciones.join('; ')}`
+        );
+      }
+      if (coincidentes.length > 1) {
+        throw new ResponseError(400, `La condición "${condicion}" está registrada para varios laboratorios en esta combinación`);
       }
+      return coincidentes[0];
+    }
+
+    if (estabilidades.length > 1) {
+      throw new ResponseError(
+        400,
+        `La combinación tiene varias estabilidades: indique condicionAlmacenamiento (${condiciones.join('; ')})`
+      );
+    }
+
+    return estabilidades[0];
+  }
 
-      // Obtener vehículo
-      const vehiculo = await Vehicle.findById(mezclaData.vehiculoId);
-      if (!vehiculo) {
-        throw new ResponseError(404, `Vehículo ${mezclaData.vehiculoId} no encontrado`);
+  /**
+   * Dosis de las mezclas de la orden que cuentan para el acumulado (las rechazadas no se administran)
+   */
+  private toDosisOrden(mezclas: IMezcla[]): DosisMezclaOrden[] {
+    return mezclas
+      .filter(m => m.estado !== 'RECHAZADA')
+      .map(m => ({
+        medicamentoId: m.medicamento.id,
+        pacienteDocumento: m.paciente.documento,
+        dosisPrescrita: m.medicamento.dosisPrescrita,
+        unidadDosis: m.medicamento.unidadDosis,
+        cantidadMezclas: m.cantidadMezclas
+      }));
+  }
+
+  /**
+   * Valida y calcula una mezcla a partir de los datos de entrada
+   * @param excluirProduccionId - Orden que se está editando, para no contar su propia dosis acumulada
+   * @param mezclasOrden - Las demás mezclas de la orden, que sí cuentan para la dosis acumulada
+   */
+  private async buildMezcla(
+    mezclaData: CreateMezclaDTO,
+    lineaProduccion: LineaProduccion,
+    fechaProduccion: Date,
+    excluirProduccionId?: Types.ObjectId,
+    mezclasOrden: IMezcla[] = []
+  ): Promise<IMezcla> {
+    // Obtener medicamento
+    const medicamento = await Medicine.findById(mezclaData.medicamentoId);
+    if (!medicamento) {
+      throw new ResponseError(404, `Medicamento ${mezclaData.medicamentoId} no encontrado`);
+    }
+
+    // Obtener vehículo
+    const vehiculo = await Vehicle.findById(mezclaData.vehiculoId);
+    if (!vehiculo) {
+      throw new ResponseError(404, `Vehículo ${mezclaData.vehiculoId} no encontrado`);
+    }
+
+    // Obtener envase
+    const envase = await Container.findById(mezclaData.envaseId);
+    if (!envase) {
+      throw new ResponseError(404, `Envase ${mezclaData.envaseId} no encontrado`);
+    }
+
+    // La estabilidad de la condición de almacenamiento define el vencimiento y el laboratorio
+    const estabilidad = await this.findEstabilidad(
+      new Types.ObjectId(mezclaData.medicamentoId),
+      new Types.ObjectId(mezclaData.vehiculoId),
+      new Types.ObjectId(mezclaData.envaseId),
+      mezclaData.condicionAlmacenamiento
+    );
+
+    // Derivar dosis absoluta si se prescribió por SC, peso o AUC
+    let dosisPrescrita = mezclaData.dosisPrescrita as number;
+    let unidadDosis = mezclaData.unidadDosis;
+    let dosificacion: IDosificacionMezcla | undefined;
+
+    if (mezclaData.dosificacion) {
+      const dosis = calculationEngineService.calculateDosisAbsoluta({
+        ...mezclaData.dosificacion,
+        unidadDosis: mezclaData.unidadDosis,
+        pesoKg: mezclaData.paciente.peso,
+        tallaCm: mezclaData.paciente.talla,
+        sexo: mezclaData.paciente.sexo,
+        edad: mezclaData.paciente.edad
+      });
+
+      dosisPrescrita = dosis.dosisFinal;
+      unidadDosis = dosis.unidadDosis;
+      dosificacion = {
+        tipo: mezclaData.dosificacion.tipo,
+        dosisReferencia: mezclaData.dosificacion.dosisReferencia,
+        formulaSC: mezclaData.dosificacion.formulaSC,
+        pesoKg: mezclaData.paciente.peso,
+        tallaCm: mezclaData.paciente.talla,
+        superficieCorporal: dosis.superficieCorporal,
+        superficieCorporalMaxima: mezclaData.dosificacion.superficieCorporalMaxima,
+        creatininaSerica: mezclaData.dosificacion.creatininaSerica,
+        tfg: dosis.tfg,
+        dosisCalculada: dosis.dosisCalculada,
+        dosisMaxima: mezclaData.dosificacion.dosisMaxima,
+        topeAplicado: dosis.topeAplicado
+      };
+    } else if (!dosisPrescrita) {
+      throw new ResponseError(400, 'Debe indicar dosisPrescrita o dosificacion para cada mezcla');
+    }
+
+    // Calcular resultados para esta mezcla; la entrada se guarda para poder reproducirlos
+    const entradaCalculo = await calculationEngineService.buildInputFromDatabase(
+      new Types.ObjectId(mezclaData.medicamentoId),
+      estabilidad.laboratorioId,
+      new Types.ObjectId(mezclaData.vehiculoId),
+      new Types.ObjectId(mezclaData.envaseId),
+      dosisPrescrita,
+      unidadDosis,
+      {
+        criterioPresentacion: mezclaData.criterioPresentacion,
+        fechaPreparacion: fechaProduccion,
+        volumenVehiculo: mezclaData.volumenVehiculo,
+        estabilidadId: estabilidad._id as Types.ObjectId
       }
+    );
+    const resultados = await calculationEngineService.calculateComplete(entradaCalculo);
 
-      // Obtener envase
-      const envase = await Container.findById(mezclaData.envaseId);
-      if (!envase) {
-        throw new ResponseError(404, `Envase ${mezclaData.envaseId} no encontrado`);
+    // Validar dominio farmacéutico y límites clínicos (errores bloqueantes y advertencias)
+    const validacion = await domainValidationService.validateCompleteDomain({
+      medicamentoId: new Types.ObjectId(mezclaData.medicamentoId),
+      laboratorioId: estabilidad.laboratorioId,
+      vehiculoId: new Types.ObjectId(mezclaData.vehiculoId),
+      envaseId: new Types.ObjectId(mezclaData.envaseId),
+      estabilidadId: estabilidad._id as Types.ObjectId,
+      lineaProductiva: lineaProduccion,
+      mezcla: {
+        dosisPrescrita,
+        unidadDosis,
+        cantidadMezclas: mezclaData.cantidadMezclas || 1,
+        concentracionFinal: resultados.concentracionFinal,
+        pacienteDocumento: mezclaData.paciente.documento,
+        topeAplicado: dosificacion?.topeAplicado,
+        excluirProduccionId,
+        fechaProduccion,
+        mezclasOrden: this.toDosisOrden(mezclasOrden)
       }
+    });
 
-      // Buscar estabilidad para obtener laboratorioId
-      const estabilidad = await Stability.findOne({
-        medicamentoId: new Types.ObjectId(mezclaData.medicamentoId),
-        vehiculoId: new Types.ObjectId(mezclaData.vehiculoId),
-        envaseId: new Types.ObjectId(mezclaData.envaseId)
-      });
+    // Vencimiento provisional desde la fecha programada con las horas de la condición elegida;
+    // se recalcula desde la hora real al marcar la mezcla PREPARADA
+    const fechaVencimiento = resultados.fechaVencimiento;
 
-      if (!estabilidad) {
-        throw new ResponseError(404, 'No se encontró estabilidad para esta combinación de medicamento, vehículo y envase');
+    // Crear objeto mezcla
+    const mezcla: IMezcla = {
+      paciente: mezclaData.paciente,
+      medicamento: {
+        id: medicamento._id as Types.ObjectId,
+        nombre: medicamento.nombre,
+        concentracion: medicamento.concentracion,
+        viaAdministracion: medicamento.viaAdministracion,
+        dosisPrescrita: dosisPrescrita,
+        unidadDosis: unidadDosis
+      },
+      envase: {
+        id: envase._id as Types.ObjectId,
+        tipo: envase.tipo,
+        nombre: envase.tipo // El nombre es el mismo que el tipo
+      },
+      vehiculo: {
+        id: vehiculo._id as Types.ObjectId,
+        nombre: vehiculo.nombre,
+        volumenVehiculo: resultados.volumenVehiculo
+      },
+      calculos: this.toCalculos(resultados),
+      loteMezcla: '', // Se asigna con consecutivos al agregarla a la orden
+      estabilidad: {
+        id: estabilidad._id as Types.ObjectId,
+        horasEstabilidad: estabilidad.horasEstabilidad,
+        condiciones: estabilidad.condiciones
+      },
+      fechaVencimiento: fechaVencimiento,
+      cantidadMezclas: mezclaData.cantidadMezclas || 1,
+      dosificacion,
+      advertencias: (validacion.warnings || []).map(w => ({
+        codigo: w.codigo,
+        mensaje: w.mensaje,
+        aceptada: false
+      })),
+      estado: 'PENDIENTE',
+      historialEstado: [],
+      snapshotCalculo: {
+        versionMotor: calculationEngineService.getVersion(),
+        entrada: entradaCalculo,
+        fechaCalculo: dayjs().toDate()
       }
+    };
 
-      // Validar dominio farmacéutico
-      await domainValidationService.validateCompleteDomain({
-        medicamentoId: new Types.ObjectId(mezclaData.medicamentoId),
-        laboratorioId: estabilidad.laboratorioId,
-        vehiculoId: new Types.ObjectId(mezclaData.vehiculoId),
-        envaseId: new Types.ObjectId(mezclaData.envaseId),
-        lineaProductiva: data.lineaProduccion
-      });
+    return mezcla;
+  }
 
-      // Calcular resultados para esta mezcla
-      const resultados = await calculationEngineService.calculateFromDatabase(
-        new Types.ObjectId(mezclaData.medicamentoId),
-        estabilidad.laboratorioId,
-        new Types.ObjectId(mezclaData.vehiculoId),
-        new Types.ObjectId(mezclaData.envaseId),
-        mezclaData.dosisPrescrita,
-        mezclaData.unidadDosis
-      );
+  /**
+   * Crea una nueva orden de producción con múltiples mezclas
+   */
+  async createProduction(
+    data: CreateProductionDTO,
+    userId: Types.ObjectId
+  ): Promise<IProduction> {
+    if (!data.mezclas || data.mezclas.length === 0) {
+      throw new ResponseError(400, 'Debe incluir al menos una mezcla');
+    }
 
-      // Calcular volúmenes detallados
-      const volumenVehiculo = resultados.volumenFinal - resultados.volumenExtraer;
-      const volumenMezcla = resultados.volumenExtraer;
-      const volumenTotal = resultados.volumenFinal;
-
-      // Generar lote de mezcla
-      const loteMezcla = this.generateLoteMezcla(data.lineaProduccion, fechaProduccion);
-
-      // Calcular fecha de vencimiento (por defecto 24 horas después de producción)
-      const fechaVencimiento = dayjs(fechaProduccion).add(24, 'hours').toDate();
-
-      // Crear objeto mezcla
-      const mezcla: IMezcla = {
-        paciente: mezclaData.paciente,
-        medicamento: {
-          id: medicamento._id as Types.ObjectId,
-          nombre: medicamento.nombre,
-          concentracion: medicamento.concentracion,
-          viaAdministracion: medicamento.viaAdministracion,
-          dosisPrescrita: mezclaData.dosisPrescrita,
-          unidadDosis: mezclaData.unidadDosis
-        },
-        envase: {
-          id: envase._id as Types.ObjectId,
-          tipo: envase.tipo,
-          nombre: envase.tipo // El nombre es el mismo que el tipo
-        },
-        vehiculo: {
-          id: vehiculo._id as Types.ObjectId,
-          nombre: vehiculo.nombre,
-          volumenVehiculo: volumenVehiculo
-        },
-        calculos: {
-          volumenExtraer: resultados.volumenExtraer,
-          volumenMezcla: volumenMezcla,
-          volumenVehiculo: volumenVehiculo,
-          volumenTotal: volumenTotal,
-          unidadesInsumo: resultados.unidadesInsumo
-        },
-        loteMezcla: loteMezcla,
-        fechaVencimiento: fechaVencimiento,
-        cantidadMezclas: mezclaData.cantidadMezclas || 1
-      };
+    const mezclas: IMezcla[] = [];
+    const fechaProduccion = data.fechaProduccion ? dayjs(data.fechaProduccion).toDate() : dayjs().toDate();
 
-      mezclas.push(mezcla);
+    // Procesar cada mezcla
+    for (const mezclaData of data.mezclas) {
+      mezclas.push(await this.buildMezcla(mezclaData, data.lineaProduccion, fechaProduccion, undefined, mezclas));
     }
 
     // Asignar QF automáticamente si no se proporcionaron
@@ -203,25 +408,38 @@ export class ProductionService {
       }
     }
 
-    // Generar código único
-    const codigo = this.generateProductionCode();
-
-    // Crear orden de producción
-    const production = await Production.create({
-      codigo,
-      fechaProduccion: fechaProduccion,
-      qfInterpretacion: qfInterpretacion,
-      qfProduccion: qfProduccion,
-      qfCalidad: qfCalidad,
-      lineaProduccion: data.lineaProduccion,
-      cantidadMezclas: mezclas.length,
-      mezclas: mezclas,
-      estado: 'CREADO',
-      versionMotorCalculo: calculationEngineService.getVersion(),
-      timestamps: {
-        creado: dayjs().toDate()
-      },
-      creadoPor: userId
+    // Los consecutivos se reservan en la misma transacción que crea la orden:
+    // si la creación falla se revierten y no quedan huecos
+    let production!: IProduction;
+    await mongoose.connection.transaction(async (session) => {
+      const codigo = await sequenceService.generateProductionCode(data.lineaProduccion, fechaProduccion, session);
+      const lotes = await sequenceService.generateLotesMezcla(
+        data.lineaProduccion,
+        fechaProduccion,
+        mezclas.length,
+        session
+      );
+      mezclas.forEach((mezcla, index) => {
+        mezcla.loteMezcla = lotes[index];
+      });
+
+      // Crear orden de producción
+      [production] = await Production.create([{
+        codigo,
+        fechaProduccion: fechaProduccion,
+        qfInterpretacion: qfInterpretacion,
+        qfProduccion: qfProduccion,
+        qfCalidad: qfCalidad,
+        lineaProduccion: data.lineaProduccion,
+        cantidadMezclas: mezclas.length,
+        mezclas: mezclas,
+        estado: 'CREADO',
+        versionMotorCalculo: calculationEngineService.getVersion(),
+        timestamps: {
+          creado: dayjs().toDate()
+        },
+        creadoPor: userId
+      }], { session });
     });
 
     // Registrar en auditoría
@@ -253,7 +471,8 @@ export class ProductionService {
   async validateAndCalculate(
     productionId: Types.ObjectId,
     userId: Types.ObjectId,
-    userRole: string
+    userRole: string,
+    firma?: DatosFirma
   ): Promise<IProduction> {
     const production = await Production.findById(productionId);
     if (!production) {
@@ -267,32 +486,48 @@ export class ProductionService {
         throw new ResponseError(404, `Medicamento ${mezcla.medicamento.id} no encontrado`);
       }
 
-      // Buscar estabilidad para obtener laboratorioId
-      const estabilidad = await Stability.findOne({
-        medicamentoId: mezcla.medicamento.id,
-        vehiculoId: mezcla.vehiculo.id,
-        envaseId: mezcla.envase.id
-      });
-
-      if (!estabilidad) {
-        throw new ResponseError(404, 'No se encontró estabilidad para esta combinación de medicamento, vehículo y envase');
-      }
+      // Misma condición de almacenamiento con la que se calculó la mezcla
+      const estabilidad = await this.findEstabilidad(
+        mezcla.medicamento.id,
+        mezcla.vehiculo.id,
+        mezcla.envase.id,
+        mezcla.estabilidad?.condiciones
+      );
 
-      await domainValidationService.validateCompleteDomain({
+      const validacion = await domainValidationService.validateCompleteDomain({
         medicamentoId: mezcla.medicamento.id,
         laboratorioId: estabilidad.laboratorioId,
         vehiculoId: mezcla.vehiculo.id,
         envaseId: mezcla.envase.id,
-        lineaProductiva: production.lineaProduccion
+        estabilidadId: estabilidad._id as Types.ObjectId,
+        lineaProductiva: production.lineaProduccion,
+        mezcla: {
+          dosisPrescrita: mezcla.medicamento.dosisPrescrita,
+          unidadDosis: mezcla.medicamento.unidadDosis,
+          cantidadMezclas: mezcla.cantidadMezclas,
+          concentracionFinal: mezcla.calculos.concentracionFinal,
+          pacienteDocumento: mezcla.paciente.documento,
+          topeAplicado: mezcla.dosificacion?.topeAplicado,
+          excluirProduccionId: productionId,
+          fechaProduccion: production.fechaProduccion,
+          mezclasOrden: this.toDosisOrden(production.mezclas.filter(m => m !== mezcla))
+        }
       });
+
+      // Conservar las advertencias ya aceptadas y agregar las nuevas como pendientes
+      mezcla.advertencias = this.mergeAdvertencias(mezcla.advertencias || [], validacion.warnings || []);
     }
 
+    production.markModified('mezclas');
+    await production.save();
+
     // Transicionar a VALIDADO si está en CREADO
     if (production.estado === 'CREADO') {
       await productionWorkflowService.validateProduction(
         productionId,
         userId,
-        userRole as any
+        userRole as any,
+        firma
       );
     }
 
@@ -313,6 +548,429 @@ export class ProductionService {
     return finalProduction;
   }
 
+  /**
+   * Acepta una advertencia clínica de una mezcla (override de QF)
+   * Solo un químico farmacéutico puede aceptarla y el motivo queda en auditoría
+   */
+  async overrideAdvertencia(
+    productionId: Types.ObjectId,
+    mezclaIndex: number,
+    codigo: string,
+    motivo: string,
+    userId: Types.ObjectId
+  ): Promise<IProduction> {
+    if (!motivo || !motivo.trim()) {
+      throw new ResponseError(400, 'El motivo es obligatorio para aceptar una advertencia');
+    }
+
+    const user = await User.findById(userId);
+    if (!user || user.tipoUsuario !== 'QUÍMICO FARMACÉUTICO') {
+      throw new ResponseError(403, 'Solo un químico farmacéutico puede aceptar advertencias clínicas');
+    }
+
+    const production = await Production.findById(productionId);
+    if (!production) {
+      throw new ResponseError(404, 'Producción no encontrada');
+    }
+
+    if (production.estado !== 'CREADO' && production.estado !== 'VALIDADO') {
+      throw new ResponseError(400, `No se pueden aceptar advertencias en estado ${production.estado}`);
+    }
+
+    const mezcla = production.mezclas[mezclaIndex];
+    if (!mezcla) {
+      throw new ResponseError(404, `Mezcla ${mezclaIndex} no encontrada`);
+    }
+
+    const advertencia = (mezcla.advertencias || []).find(a => a.codigo === codigo);
+    if (!advertencia) {
+      throw new ResponseError(404, `Advertencia ${codigo} no encontrada en la mezcla`);
+    }
+
+    if (advertencia.aceptada) {
+      throw new ResponseError(400, `La advertencia ${codigo} ya fue aceptada`);
+    }
+
+    advertencia.aceptada = true;
+    advertencia.aceptadaPor = userId;
+    advertencia.motivo = motivo.trim();
+    advertencia.fechaAceptacion = dayjs().toDate();
+
+    production.markModified('mezclas');
+    await production.save();
+
+    await auditService.logAction(
+      'Production',
+      productionId,
+      'OVERRIDE_ADVERTENCIA',
+      {
+        mezclaIndex,
+        paciente: mezcla.paciente.documento,
+        medicamento: mezcla.medicamento.nombre,
+        codigo,
+        mensaje: advertencia.mensaje,
+        motivo: advertencia.motivo
+      },
+      userId
+    );
+
+    const updatedProduction = await this.getProductionById(productionId);
+    if (!updatedProduction) {
+      throw new ResponseError(500, 'Error al obtener la producción actualizada');
+    }
+
+    return updatedProduction;
+  }
+
+  /**
+   * Reconstruye los datos de entrada de una mezcla existente para recalcularla
+   * El volumen de vehículo no se conserva: lo recalcula el motor salvo que se envíe de nuevo
+   */
+  private toMezclaDTO(mezcla: IMezcla): CreateMezclaDTO {
+    const dosificacion = mezcla.dosificacion;
+
+    return {
+      paciente: { ...mezcla.paciente },
+      medicamentoId: mezcla.medicamento.id.toString(),
+      vehiculoId: mezcla.vehiculo.id.toString(),
+      envaseId: mezcla.envase.id.toString(),
+      dosisPrescrita: dosificacion ? undefined : mezcla.medicamento.dosisPrescrita,
+      unidadDosis: mezcla.medicamento.unidadDosis,
+      dosificacion: dosificacion
+        ? {
+          tipo: dosificacion.tipo,
+          dosisReferencia: dosificacion.dosisReferencia,
+          formulaSC: dosificacion.formulaSC,
+          superficieCorporalMaxima: dosificacion.superficieCorporalMaxima,
+          dosisMaxima: dosificacion.dosisMaxima,
+          creatininaSerica: dosificacion.creatininaSerica,
+          // Sin creatinina la TFG fue ingresada directamente
+          tfg: dosificacion.creatininaSerica ? undefined : dosificacion.tfg
+        }
+        : undefined,
+      cantidadMezclas: mezcla.cantidadMezclas,
+      criterioPresentacion: mezcla.snapshotCalculo?.entrada.criterioPresentacion,
+      condicionAlmacenamiento: mezcla.estabilidad?.condiciones
+    };
+  }
+
+  /**
+   * Diferencias campo a campo entre dos objetos (rutas con punto)
+   */
+  private diffCampos(anterior: any, nueva: any, excluir: string[] = [], prefijo = ''): CambiosCampo {
+    const cambios: CambiosCampo = {};
+    const claves = new Set([...Object.keys(anterior || {}), ...Object.keys(nueva || {})]);
+
+    claves.forEach(clave => {
+      if (!prefijo && excluir.includes(clave)) return;
+
+      const ruta = prefijo ? `${prefijo}.${clave}` : clave;
+      const valorAnterior = anterior?.[clave];
+      const valorNuevo = nueva?.[clave];
+      // Los arreglos se comparan por posición (ej: calculos.presentaciones.0.unidades)
+      const esObjeto = (valor: any) =>
+        valor !== null && typeof valor === 'object' &&
+        !(valor instanceof Date) && !(valor instanceof Types.ObjectId);
+
+      if (esObjeto(valorAnterior) || esObjeto(valorNuevo)) {
+        Object.assign(cambios, this.diffCampos(valorAnterior, valorNuevo, excluir, ruta));
+      } else if (JSON.stringify(valorAnterior) !== JSON.stringify(valorNuevo)) {
+        cambios[ruta] = { anterior: valorAnterior ?? null, nuevo: valorNuevo ?? null };
+      }
+    });
+
+    return cambios;
+  }
+
+  /**
+   * Obtiene una orden editable: las mezclas solo se modifican antes de validar
+   */
+  private async getEditableProduction(productionId: Types.ObjectId) {
+    const production = await Production.findById(productionId);
+    if (!production) {
+      throw new ResponseError(404, 'Producción no encontrada');
+    }
+
+    if (production.estado !== 'CREADO') {
+      throw new ResponseError(400, `Las mezclas solo se pueden editar en estado CREADO (estado actual: ${production.estado})`);
+    }
+
+    return production;
+  }
+
+  /**
+   * Agrega una mezcla a una orden en estado CREADO
+   */
+  async addMezcla(
+    productionId: Types.ObjectId,
+    data: CreateMezclaDTO,
+    userId: Types.ObjectId
+  ): Promise<IProduction> {
+    const production = await this.getEditableProduction(productionId);
+    const fechaProduccion = production.fechaProduccion || dayjs().toDate();
+
+    const mezcla = await this.buildMezcla(data, production.lineaProduccion, fechaProduccion, productionId, production.mezclas);
+    production.mezclas.push(mezcla);
+    production.cantidadMezclas = production.mezclas.length;
+
+    // El lote se reserva en la misma transacción que guarda la mezcla
+    await mongoose.connection.transaction(async (session) => {
+      [mezcla.loteMezcla] = await sequenceService.generateLotesMezcla(
+        production.lineaProduccion,
+        fechaProduccion,
+        1,
+        session
+      );
+      production.mezclas[production.mezclas.length - 1].loteMezcla = mezcla.loteMezcla;
+      production.markModified('mezclas');
+      await production.save({ session });
+    });
+
+    await auditService.logAction(
+      'Production',
+      productionId,
+      'MEZCLA_ADD',
+      {
+        mezclaIndex: production.mezclas.length - 1,
+        loteMezcla: mezcla.loteMezcla,
+        paciente: mezcla.paciente.documento,
+        medicamento: mezcla.medicamento.nombre,
+        dosisPrescrita: mezcla.medicamento.dosisPrescrita,
+        cantidadMezclas: production.cantidadMezclas
+      },
+      userId
+    );
+
+    return await this.getUpdatedProduction(productionId);
+  }
+
+  /**
+   * Corrige una mezcla de una orden en estado CREADO y la recalcula
+   * Conserva el lote y las advertencias ya aceptadas que sigan aplicando
+   */
+  async updateMezcla(
+    productionId: Types.ObjectId,
+    mezclaIndex: number,
+    data: UpdateMezclaDTO,
+    userId: Types.ObjectId
+  ): Promise<IProduction> {
+    const production = await this.getEditableProduction(productionId);
+
+    const actual = production.mezclas[mezclaIndex];
+    if (!actual) {
+      throw new ResponseError(404, `Mezcla ${mezclaIndex} no encontrada`);
+    }
+
+    const base = this.toMezclaDTO(actual);
+    const mezclaData: CreateMezclaDTO = {
+      ...base,
+      ...data,
+      paciente: { ...base.paciente, ...data.paciente },
+      // Una dosis absoluta explícita reemplaza la dosificación por SC, peso o AUC
+      dosificacion: data.dosificacion ?? (data.dosisPrescrita !== undefined ? undefined : base.dosificacion)
+    };
+
+    const fechaProduccion = production.fechaProduccion || dayjs().toDate();
+    const nueva = await this.buildMezcla(
+      mezclaData,
+      production.lineaProduccion,
+      fechaProduccion,
+      productionId,
+      production.mezclas.filter((_, index) => index !== mezclaIndex)
+    );
+
+    nueva.loteMezcla = actual.loteMezcla;
+    nueva.advertencias = this.mergeAdvertencias(actual.advertencias || [], nueva.advertencias || []);
+
+    const cambios = this.diffCampos(
+      JSON.parse(JSON.stringify(actual)),
+      JSON.parse(JSON.stringify(nueva)),
+      CAMPOS_SIN_DIFF
+    );
+
+    if (Object.keys(cambios).length === 0) {
+      throw new ResponseError(400, 'Los datos enviados no modifican la mezcla');
+    }
+
+    production.mezclas[mezclaIndex] = nueva;
+    production.cantidadMezclas = production.mezclas.length;
+    production.markModified('mezclas');
+    await production.save();
+
+    await auditService.logAction(
+      'Production',
+      productionId,
+      'MEZCLA_UPDATE',
+      {
+        mezclaIndex,
+        loteMezcla: nueva.loteMezcla,
+        cambios
+      },
+      userId
+    );
+
+    return await this.getUpdatedProduction(productionId);
+  }
+
+  /**
+   * Elimina una mezcla de una orden en estado CREADO
+   * Su lote no se reutiliza para no repetir consecutivos
+   */
+  async removeMezcla(
+    productionId: Types.ObjectId,
+    mezclaIndex: number,
+    userId: Types.ObjectId
+  ): Promise<IProduction> {
+    const production = await this.getEditableProduction(productionId);
+
+    const mezcla = production.mezclas[mezclaIndex];
+    if (!mezcla) {
+      throw new ResponseError(404, `Mezcla ${mezclaIndex} no encontrada`);
+    }
+
+    if (production.mezclas.length === 1) {
+      throw new ResponseError(400, 'La orden debe conservar al menos una mezcla; anúlela si ya no se requiere');
+    }
+
+    production.mezclas.splice(mezclaIndex, 1);
+    production.cantidadMezclas = production.mezclas.length;
+    production.markModified('mezclas');
+    await production.save();
+
+    await auditService.logAction(
+      'Production',
+      productionId,
+      'MEZCLA_REMOVE',
+      {
+        mezclaIndex,
+        loteMezcla: mezcla.loteMezcla,
+        paciente: mezcla.paciente.documento,
+        medicamento: mezcla.medicamento.nombre,
+        dosisPrescrita: mezcla.medicamento.dosisPrescrita,
+        cantidadMezclas: production.cantidadMezclas
+      },
+      userId
+    );
+
+    return await this.getUpdatedProduction(productionId);
+  }
+
+  /**
+   * Recalcula una producción con la versión actual del motor sin modificarla
+   * Separa el efecto del motor (misma entrada guardada) del efecto de cambios en el catálogo
+   */
+  async recalculateProduction(productionId: Types.ObjectId): Promise<RecalculoProduccion> {
+    const production = await Production.findById(productionId).lean<IProduction>();
+    if (!production) {
+      throw new ResponseError(404, 'Producción no encontrada');
+    }
+
+    const versionMotorOriginal = production.versionMotorCalculo || 'desconocida';
+    const mezclas: RecalculoMezcla[] = [];
+
+    for (const [mezclaIndex, mezcla] of production.mezclas.entries()) {
+      const snapshot = mezcla.snapshotCalculo;
+      const calculosGuardados = JSON.parse(JSON.stringify(mezcla.calculos));
+      const recalculo: RecalculoMezcla = {
+        mezclaIndex,
+        loteMezcla: mezcla.loteMezcla,
+        versionMotorOriginal: snapshot?.versionMotor || versionMotorOriginal,
+        conSnapshot: !!snapshot,
+        cambiosEntrada: {},
+        cambiosMotor: {},
+        cambiosResultado: {}
+      };
+
+      try {
+        if (snapshot) {
+          const resultadoMotor = await calculationEngineService.calculateComplete(snapshot.entrada as CalculationInput);
+          recalculo.cambiosMotor = this.diffCampos(
+            calculosGuardados,
+            JSON.parse(JSON.stringify(this.toCalculos(resultadoMotor)))
+          );
+        }
+
+        const estabilidad = (mezcla.estabilidad && await Stability.findById(mezcla.estabilidad.id)) ||
+          await this.findEstabilidad(
+            mezcla.medicamento.id,
+            mezcla.vehiculo.id,
+            mezcla.envase.id,
+            mezcla.estabilidad?.condiciones
+          );
+
+        const entradaActual = await calculationEngineService.buildInputFromDatabase(
+          mezcla.medicamento.id,
+          estabilidad.laboratorioId,
+          mezcla.vehiculo.id,
+          mezcla.envase.id,
+          mezcla.medicamento.dosisPrescrita,
+          mezcla.medicamento.unidadDosis,
+          {
+            criterioPresentacion: snapshot?.entrada.criterioPresentacion,
+            fechaPreparacion: snapshot?.entrada.fechaPreparacion || production.fechaProduccion,
+            volumenVehiculo: snapshot?.entrada.volumenVehiculo,
+            estabilidadId: estabilidad._id as Types.ObjectId
+          }
+        );
+
+        if (snapshot) {
+          recalculo.cambiosEntrada = this.diffCampos(
+            JSON.parse(JSON.stringify(snapshot.entrada)),
+            JSON.parse(JSON.stringify(entradaActual)),
+            ENTRADA_SIN_DIFF
+          );
+        }
+
+        const resultadoActual = await calculationEngineService.calculateComplete(entradaActual);
+        recalculo.cambiosResultado = this.diffCampos(
+          calculosGuardados,
+          JSON.parse(JSON.stringify(this.toCalculos(resultadoActual)))
+        );
+      } catch (error) {
+        if (!(error instanceof ResponseError)) throw error;
+        recalculo.error = error.message;
+      }
+
+      mezclas.push(recalculo);
+    }
+
+    return {
+      productionId,
+      codigo: production.codigo,
+      estado: production.estado,
+      versionMotorOriginal,
+      versionMotorActual: calculationEngineService.getVersion(),
+      hayDiferencias: mezclas.some(m =>
+        !!m.error ||
+        Object.keys(m.cambiosEntrada).length > 0 ||
+        Object.keys(m.cambiosMotor).length > 0 ||
+        Object.keys(m.cambiosResultado).length > 0
+      ),
+      mezclas
+    };
+  }
+
+  /**
+   * Consolida los insumos de la orden compartiendo viales abiertos
+   */
+  async consolidateInsumos(productionId: Types.ObjectId): Promise<ConsolidadoInsumos> {
+    const production = await Production.findById(productionId).lean<IProduction>();
+    if (!production) {
+      throw new ResponseError(404, 'Producción no encontrada');
+    }
+
+    return await inventoryService.consolidate(production);
+  }
+
+  private async getUpdatedProduction(productionId: Types.ObjectId): Promise<IProduction> {
+    const updatedProduction = await this.getProductionById(productionId);
+    if (!updatedProduction) {
+      throw new ResponseError(500, 'Error al obtener la producción actualizada');
+    }
+
+    return updatedProduction;
+  }
+
   /**
    * Obtiene una producción por ID
    */
@@ -327,6 +985,7 @@ export class ProductionService {
   async getProductions(filters: {
     estado?: string;
     lineaProduccion?: LineaProduccion;
+    loteMezcla?: string;
     fechaDesde?: Date;
     fechaHasta?: Date;
     limit?: number;
@@ -342,6 +1001,11 @@ export class ProductionService {
       query.lineaProduccion = filters.lineaProduccion;
     }
 
+    // Lote leído del código de barras de la etiqueta
+    if (filters.loteMezcla) {
+      query['mezclas.loteMezcla'] = filters.loteMezcla;
+    }
+
     if (filters.fechaDesde || filters.fechaHasta) {
       query.createdAt = {};
       if (filters.fechaDesde) {
@@ -0,0 +1,619 @@
+import { Types } from 'mongoose';
+import dayjs from 'dayjs';
+import { Production, LineaProduccion, ProductionState } from '@/models/Production.model';
+import { ScheduleResource, IScheduleResource, ITurno } from '@/models/ScheduleResource.model';
+import { ScheduleAssignment, IScheduleAssignment } from '@/models/ScheduleAssignment.model';
+import { UserRole } from '@/models/User.model';
+import { productionWorkflowService } from '@/services/workflow/productionWorkflow.service';
+import { auditService } from '@/services/workflow/audit.service';
+import { ResponseError } from '@/utils/erros';
+
+export type VistaTablero = 'dia' | 'semana';
+
+export interface AsignarTurnoDTO {
+  productionId: string;
+  recursoId: string;
+  fecha: string; // YYYY-MM-DD
+  turno: string;
+  permitirSobrecupo?: boolean; // El coordinador acepta superar la capacidad del turno
+}
+
+export interface AsignacionTablero {
+  asignacionId: Types.ObjectId;
+  productionId: Types.ObjectId;
+  codigo: string;
+  estado: ProductionState;
+  cantidadMezclas: number;
+  sobrecupo: boolean;
+}
+
+export interface TurnoTablero {
+  nombre: string;
+  horaInicio: string;
+  horaFin: string;
+  capacidad: number;
+  ocupado: number;
+  disponible: number;
+  sobrecupo: boolean;
+  asignaciones: AsignacionTablero[];
+}
+
+export interface RecursoTablero {
+  recursoId: Types.ObjectId;
+  nombre: string;
+  tipo: string;
+  lineaProduccion: LineaProduccion;
+  turnos: TurnoTablero[];
+}
+
+export interface DiaTablero {
+  fecha: string;
+  recursos: RecursoTablero[];
+}
+
+export interface OrdenSinTurno {
+  productionId: Types.ObjectId;
+  codigo: string;
+  estado: ProductionState;
+  lineaProduccion: LineaProduccion;
+  cantidadMezclas: number;
+  fechaProduccion?: Date;
+}
+
+export interface TableroProgramacion {
+  vista: VistaTablero;
+  desde: string;
+  hasta: string;
+  lineaProduccion?: LineaProduccion;
+  dias: DiaTablero[];
+  turnosConSobrecupo: number;
+  pendientes: OrdenSinTurno[]; // CALCULADO, listas para programar
+  programadasSinTurno: OrdenSinTurno[]; // PROGRAMADO sin asignación vigente
+}
+
+// Estados en los que una orden se puede asignar o reasignar a un turno
+const ESTADOS_ASIGNABLES: ProductionState[] = ['CALCULADO', 'PROGRAMADO'];
+
+const HORA_REGEX = /^([01]\d|2[0-3]):[0-5]\d$/;
+const FECHA_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+// Campos del recurso que no se modifican por actualización
+const CAMPOS_INMUTABLES = ['_id', '__v', 'createdAt', 'updatedAt'];
+
+/**
+ * Servicio de Programación de Producción
+ * Administra cabinas por línea con turnos y capacidad, asigna órdenes a turnos
+ * y arma el tablero diario o semanal con la ocupación de cada turno
+ */
+export class ScheduleService {
+  private parseFecha(fecha: string | undefined, campo = 'fecha'): dayjs.Dayjs {
+    if (!fecha || !FECHA_REGEX.test(fecha) || !dayjs(fecha).isValid()) {
+      throw new ResponseError(400, `${campo} inválida, use el formato YYYY-MM-DD`);
+    }
+    return dayjs(fecha).startOf('day');
+  }
+
+  /**
+   * Valida los turnos de un recurso: formato de hora, nombres únicos y capacidad
+   */
+  private validateTurnos(turnos: ITurno[] | undefined): ITurno[] {
+    if (!Array.isArray(turnos) || turnos.length === 0) {
+      throw new ResponseError(400, 'El recurso debe tener al menos un turno');
+    }
+
+    const nombres = new Set<string>();
+
+    return turnos.map(turno => {
+      const nombre = (turno.nombre || '').trim().toUpperCase();
+      if (!nombre) {
+        throw new ResponseError(400, 'Cada turno debe tener nombre');
+      }
+      if (nombres.has(nombre)) {
+        throw new ResponseError(400, `Turno duplicado: ${nombre}`);
+      }
+      nombres.add(nombre);
+
+      if (!HORA_REGEX.test(turno.horaInicio) || !HORA_REGEX.test(turno.horaFin) || turno.horaInicio === turno.horaFin) {
+        throw new ResponseError(400, `Horario inválido en el turno ${nombre}, use HH:mm con inicio distinto de fin`);
+      }
+
+      if (!Number.isInteger(turno.capacidadMezclas) || turno.capacidadMezclas < 1) {
+        throw new ResponseError(400, `La capacidad del turno ${nombre} debe ser un entero mayor a 0`);
+      }
+
+      return {
+        nombre,
+        horaInicio: turno.horaInicio,
+        horaFin: turno.horaFin,
+        capacidadMezclas: turno.capacidadMezclas
+      };
+    });
+  }
+
+  /**
+   * Inicio y fin del turno en un día; si termina antes de empezar, cruza la medianoche
+   */
+  private getHorarioTurno(dia: dayjs.Dayjs, turno: ITurno): { inicio: Date; fin: Date } {
+    const [horaInicio, minutoInicio] = turno.horaInicio.split(':').map(Number);
+    const [horaFin, minutoFin] = turno.horaFin.split(':').map(Number);
+
+    const inicio = dia.hour(horaInicio).minute(minutoInicio);
+    let fin = dia.hour(horaFin).minute(minutoFin);
+    if (!fin.isAfter(inicio)) {
+      fin = fin.add(1, 'day');
+    }
+
+    return { inicio: inicio.toDate(), fin: fin.toDate() };
+  }
+
+  private getCantidadMezclas(mezclas: { cantidadMezclas?: number }[]): number {
+    return mezclas.reduce((total, mezcla) => total + (mezcla.cantidadMezclas || 1), 0);
+  }
+
+  /**
+   * Mezclas ya asignadas a un turno de un recurso en un día
+   */
+  private async getOcupacion(
+    recursoId: Types.ObjectId,
+    fecha: Date,
+    turno: string,
+    excluirProduccionId?: Types.ObjectId
+  ): Promise<number> {
+    const asignaciones = await ScheduleAssignment.find({
+      recursoId,
+      fecha,
+      turno,
+      activa: true,
+      ...(excluirProduccionId && { productionId: { $ne: excluirProduccionId } })
+    }).lean();
+
+    return asignaciones.reduce((total, asignacion) => total + asignacion.cantidadMezclas, 0);
+  }
+
+  /**
+   * Lista los recursos de programación
+   */
+  async listResources(params: { lineaProduccion?: string; habilitado?: string }) {
+    const filtro: Record<string, any> = {};
+
+    if (params.lineaProduccion) {
+      filtro.lineaProduccion = params.lineaProduccion;
+    }
+    if (params.habilitado !== undefined) {
+      filtro.habilitado = params.habilitado === 'true';
+    }
+
+    return await ScheduleResource.find(filtro).sort({ lineaProduccion: 1, nombre: 1 });
+  }
+
+  /**
+   * Crea un recurso (cabina) con sus turnos
+   */
+  async createResource(data: Partial<IScheduleResource>, userId: Types.ObjectId): Promise<IScheduleResource> {
+    const turnos = this.validateTurnos(data.turnos);
+
+    try {
+      const recurso = await ScheduleResource.create({ ...data, turnos });
+
+      await auditService.logAction(
+        'ScheduleResource',
+        recurso._id as Types.ObjectId,
+        'CREATE',
+        recurso.toObject(),
+        userId
+      );
+
+      return recurso;
+    } catch (error: any) {
+      if (error?.code === 11000) {
+        throw new ResponseError(409, `Ya existe un recurso con el nombre ${data.nombre}`);
+      }
+      if (error?.name === 'ValidationError') {
+        throw new ResponseError(400, error.message);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Actualiza un recurso; los cambios de capacidad aplican a las asignaciones futuras
+   */
+  async updateResource(
+    id: string,
+    data: Record<string, any>,
+    userId: Types.ObjectId
+  ): Promise<IScheduleResource> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new ResponseError(400, 'ID inválido');
+    }
+
+    const anterior = await ScheduleResource.findById(id);
+    if (!anterior) {
+      throw new ResponseError(404, 'Recurso no encontrado');
+    }
+
+    const updateData = { ...data };
+    CAMPOS_INMUTABLES.forEach(campo => delete updateData[campo]);
+
+    if (Object.keys(updateData).length === 0) {
+      throw new ResponseError(400, 'No se enviaron campos para actualizar');
+    }
+
+    if (updateData.turnos !== undefined) {
+      updateData.turnos = this.validateTurnos(updateData.turnos);
+    }
+
+    let actualizado: IScheduleResource | null;
+    try {
+      actualizado = await ScheduleResource.findByIdAndUpdate(id, updateData, { new: true, runValidators: true });
+    } catch (error: any) {
+      if (error?.code === 11000) {
+        throw new ResponseError(409, `Ya existe un recurso con el nombre ${updateData.nombre}`);
+      }
+      if (error?.name === 'ValidationError' || error?.name === 'CastError') {
+        throw new ResponseError(400, error.message);
+      }
+      throw error;
+    }
+
+    if (!actualizado) {
+      throw new ResponseError(404, 'Recurso no encontrado');
+    }
+
+    const previo = anterior.toObject() as Record<string, any>;
+    const nuevo = actualizado.toObject() as Record<string, any>;
+    const cambios: Record<string, { anterior: any; nuevo: any }> = {};
+
+    Object.keys(updateData).forEach(campo => {
+      if (JSON.stringify(previo[campo]) !== JSON.stringify(nuevo[campo])) {
+        cambios[campo] = { anterior: previo[campo], nuevo: nuevo[campo] };
+      }
+    });
+
+    if (Object.keys(cambios).length > 0) {
+      await auditService.logAction('ScheduleResource', actualizado._id as Types.ObjectId, 'UPDATE', cambios, userId);
+    }
+
+    return actualizado;
+  }
+
+  /**
+   * Asigna una orden a un turno de una cabina
+   * Una orden CALCULADO pasa a PROGRAMADO; una PROGRAMADO se reprograma.
+   * Si el turno queda sobre su capacidad se rechaza, salvo que se permita el sobrecupo
+   */
+  async assignProduction(
+    data: AsignarTurnoDTO,
+    userId: Types.ObjectId,
+    userRole: UserRole
+  ): Promise<IScheduleAssignment> {
+    if (!Types.ObjectId.isValid(data.productionId) || !Types.ObjectId.isValid(data.recursoId)) {
+      throw new ResponseError(400, 'productionId y recursoId deben ser IDs válidos');
+    }
+
+    const dia = this.parseFecha(data.fecha);
+    if (dia.isBefore(dayjs().startOf('day'))) {
+      throw new ResponseError(400, 'No se puede programar en una fecha pasada');
+    }
+
+    const productionId = new Types.ObjectId(data.productionId);
+    const production = await Production.findById(productionId);
+    if (!production) {
+      throw new ResponseError(404, 'Producción no encontrada');
+    }
+
+    if (!ESTADOS_ASIGNABLES.includes(production.estado)) {
+      throw new ResponseError(
+        400,
+        `Solo se pueden programar órdenes en ${ESTADOS_ASIGNABLES.join(' o ')} (estado actual: ${production.estado})`
+      );
+    }
+
+    const recurso = await ScheduleResource.findById(data.recursoId);
+    if (!recurso) {
+      throw new ResponseError(404, 'Recurso no encontrado');
+    }
+    if (!recurso.habilitado) {
+      throw new ResponseError(400, `El recurso ${recurso.nombre} está deshabilitado`);
+    }
+    if (recurso.lineaProduccion !== production.lineaProduccion) {
+      throw new ResponseError(
+        400,
+        `El recurso ${recurso.nombre} es de la línea ${recurso.lineaProduccion} y la orden de la línea ${production.lineaProduccion}`
+      );
+    }
+
+    const nombreTurno = (data.turno || '').trim().toUpperCase();
+    const turno = recurso.turnos.find(t => t.nombre === nombreTurno);
+    if (!turno) {
+      throw new ResponseError(
+        400,
+        `Turno ${data.turno} no existe en ${recurso.nombre}. Turnos: ${recurso.turnos.map(t => t.nombre).join(', ')}`
+      );
+    }
+
+    const fecha = dia.toDate();
+    const cantidadMezclas = this.getCantidadMezclas(production.mezclas);
+    const ocupacion = await this.getOcupacion(recurso._id as Types.ObjectId, fecha, turno.nombre, productionId);
+    const sobrecupo = ocupacion + cantidadMezclas > turno.capacidadMezclas;
+
+    if (sobrecupo && !data.permitirSobrecupo) {
+      throw new ResponseError(
+        409,
+        `Sobrecupo en ${recurso.nombre} turno ${turno.nombre} del ${dia.format('YYYY-MM-DD')}: ` +
+        `ocupado ${ocupacion} de ${turno.capacidadMezclas} y la orden tiene ${cantidadMezclas} mezcla(s). ` +
+        'Envíe permitirSobrecupo para asignarla de todas formas'
+      );
+    }
+
+    // Reprogramación: la asignación anterior queda en el historial
+    const anterior = await ScheduleAssignment.findOneAndUpdate(
+      { productionId, activa: true },
+      {
+        $set: {
+          activa: false,
+          liberadaPor: userId,
+          fechaLiberacion: dayjs().toDate(),
+          motivoLiberacion: 'Reprogramada'
+        }
+      },
+      { new: true }
+    );
+
+    const restaurarAnterior = async () => {
+      if (anterior) {
+        await ScheduleAssignment.updateOne(
+          { _id: anterior._id },
+          { $set: { activa: true }, $unset: { liberadaPor: '', fechaLiberacion: '', motivoLiberacion: '' } }
+        );
+      }
+    };
+
+    const { inicio, fin } = this.getHorarioTurno(dia, turno);
+    let asignacion: IScheduleAssignment;
+
+    try {
+      asignacion = await ScheduleAssignment.create({
+        productionId,
+        recursoId: recurso._id,
+        fecha,
+        turno: turno.nombre,
+        inicio,
+        fin,
+        cantidadMezclas,
+        sobrecupo,
+        activa: true,
+        asignadoPor: userId
+      });
+    } catch (error: any) {
+      await restaurarAnterior();
+      if (error?.code === 11000) {
+        throw new ResponseError(409, 'La orden fue programada por otro usuario durante la operación, intente de nuevo');
+      }
+      throw error;
+    }
+
+    // La verificación previa no es atómica: otra asignación simultánea al mismo turno pudo pasarla también.
+    // Se vuelve a contar con la asignación ya insertada y, si hay sobrecupo no permitido, se deshace
+    const ocupacionFinal = await this.getOcupacion(recurso._id as Types.ObjectId, fecha, turno.nombre, productionId);
+    if (ocupacionFinal + cantidadMezclas > turno.capacidadMezclas) {
+      if (!data.permitirSobrecupo) {
+        await ScheduleAssignment.deleteOne({ _id: asignacion._id });
+        await restaurarAnterior();
+        throw new ResponseError(
+          409,
+          `Sobrecupo en ${recurso.nombre} turno ${turno.nombre} del ${dia.format('YYYY-MM-DD')}: ` +
+          `otra orden ocupó el turno durante la operación (ocupado ${ocupacionFinal} de ${turno.capacidadMezclas}). ` +
+          'Intente de nuevo o envíe permitirSobrecupo'
+        );
+      }
+      if (!asignacion.sobrecupo) {
+        asignacion.sobrecupo = true;
+        await asignacion.save();
+      }
+    }
+
+    if (production.estado === 'CALCULADO') {
+      try {
+        await productionWorkflowService.scheduleProduction(productionId, userId, userRole);
+      } catch (error) {
+        // Sin transición no queda asignación vigente
+        await ScheduleAssignment.deleteOne({ _id: asignacion._id });
+        await restaurarAnterior();
+        throw error;
+      }
+    }
+
+    await auditService.logAction(
+      'Production',
+      productionId,
+      anterior ? 'SCHEDULE_REASSIGN' : 'SCHEDULE_ASSIGN',
+      {
+        asignacionId: (asignacion._id as Types.ObjectId).toString(),
+        recurso: recurso.nombre,
+        fecha: dia.format('YYYY-MM-DD'),
+        turno: turno.nombre,
+        cantidadMezclas,
+        ocupacionPrevia: ocupacionFinal,
+        capacidad: turno.capacidadMezclas,
+        sobrecupo: asignacion.sobrecupo,
+        ...(anterior && {
+          anterior: {
+            recursoId: anterior.recursoId.toString(),
+            fecha: dayjs(anterior.fecha).format('YYYY-MM-DD'),
+            turno: anterior.turno
+          }
+        })
+      },
+      userId
+    );
+
+    return asignacion;
+  }
+
+  /**
+   * Libera la asignación vigente de una orden que aún no se ha producido
+   */
+  async releaseAssignment(
+    assignmentId: string,
+    motivo: string | undefined,
+    userId: Types.ObjectId
+  ): Promise<IScheduleAssignment> {
+    if (!Types.ObjectId.isValid(assignmentId)) {
+      throw new ResponseError(400, 'ID inválido');
+    }
+
+    const motivoNormalizado = (motivo || '').trim();
+    if (!motivoNormalizado) {
+      throw new ResponseError(400, 'El motivo es obligatorio para liberar un turno');
+    }
+
+    const asignacion = await ScheduleAssignment.findById(assignmentId);
+    if (!asignacion) {
+      throw new ResponseError(404, 'Asignación no encontrada');
+    }
+    if (!asignacion.activa) {
+      throw new ResponseError(400, 'La asignación ya no está vigente');
+    }
+
+    const production = await Production.findById(asignacion.productionId, { estado: 1 });
+    if (production && !ESTADOS_ASIGNABLES.includes(production.estado)) {
+      throw new ResponseError(400, `No se puede liberar el turno de una orden en estado ${production.estado}`);
+    }
+
+    asignacion.activa = false;
+    asignacion.liberadaPor = userId;
+    asignacion.fechaLiberacion = dayjs().toDate();
+    asignacion.motivoLiberacion = motivoNormalizado;
+    await asignacion.save();
+
+    await auditService.logAction(
+      'Production',
+      asignacion.productionId,
+      'SCHEDULE_RELEASE',
+      {
+        asignacionId: (asignacion._id as Types.ObjectId).toString(),
+        recursoId: asignacion.recursoId.toString(),
+        fecha: dayjs(asignacion.fecha).format('YYYY-MM-DD'),
+        turno: asignacion.turno,
+        motivo: motivoNormalizado
+      },
+      userId
+    );
+
+    return asignacion;
+  }
+
+  /**
+   * Tablero de programación por día o semana (lunes a domingo)
+   */
+  async getBoard(params: { fecha?: string; vista?: string; lineaProduccion?: string }): Promise<TableroProgramacion> {
+    const vista: VistaTablero = params.vista === 'semana' ? 'semana' : 'dia';
+    if (params.vista && !['dia', 'semana'].includes(params.vista)) {
+      throw new ResponseError(400, 'Vista inválida. Use dia o semana');
+    }
+
+    const referencia = params.fecha ? this.parseFecha(params.fecha) : dayjs().startOf('day');
+    const desde = vista === 'semana'
+      ? referencia.subtract((referencia.day() + 6) % 7, 'day')
+      : referencia;
+    const totalDias = vista === 'semana' ? 7 : 1;
+    const hasta = desde.add(totalDias, 'day');
+
+    const lineaProduccion = params.lineaProduccion as LineaProduccion | undefined;
+    if (lineaProduccion && !['ONCO', 'ESTERIL'].includes(lineaProduccion)) {
+      throw new ResponseError(400, 'Línea de producción inválida');
+    }
+
+    const recursos = await ScheduleResource.find({
+      habilitado: true,
+      ...(lineaProduccion && { lineaProduccion })
+    }).sort({ lineaProduccion: 1, nombre: 1 }).lean();
+
+    const asignaciones = await ScheduleAssignment.find({
+      recursoId: { $in: recursos.map(r => r._id) },
+      fecha: { $gte: desde.toDate(), $lt: hasta.toDate() },
+      activa: true
+    }).populate<{ productionId: { _id: Types.ObjectId; codigo: string; estado: ProductionState } }>(
+      'productionId',
+      'codigo estado'
+    ).lean();
+
+    let turnosConSobrecupo = 0;
+    const dias: DiaTablero[] = [];
+
+    for (let i = 0; i < totalDias; i++) {
+      const dia = desde.add(i, 'day');
+
+      dias.push({
+        fecha: dia.format('YYYY-MM-DD'),
+        recursos: recursos.map(recurso => ({
+          recursoId: recurso._id as Types.ObjectId,
+          nombre: recurso.nombre,
+          tipo: recurso.tipo,
+          lineaProduccion: recurso.lineaProduccion,
+          turnos: recurso.turnos.map(turno => {
+            const delTurno = asignaciones.filter(a =>
+              a.recursoId.equals(recurso._id as Types.ObjectId) &&
+              dayjs(a.fecha).isSame(dia, 'day') &&
+              a.turno === turno.nombre
+            );
+            const ocupado = delTurno.reduce((total, a) => total + a.cantidadMezclas, 0);
+            const sobrecupo = ocupado > turno.capacidadMezclas;
+
+            if (sobrecupo) turnosConSobrecupo++;
+
+            return {
+              nombre: turno.nombre,
+              horaInicio: turno.horaInicio,
+              horaFin: turno.horaFin,
+              capacidad: turno.capacidadMezclas,
+              ocupado,
+              disponible: Math.max(0, turno.capacidadMezclas - ocupado),
+              sobrecupo,
+              asignaciones: delTurno.map(a => ({
+                asignacionId: a._id as Types.ObjectId,
+                productionId: a.productionId?._id,
+                codigo: a.productionId?.codigo,
+                estado: a.productionId?.estado,
+                cantidadMezclas: a.cantidadMezclas,
+                sobrecupo: a.sobrecupo
+              }))
+            };
+          })
+        }))
+      });
+    }
+
+    const programadasConTurno = await ScheduleAssignment.distinct('productionId', { activa: true });
+    const sinTurno = await Production.find({
+      estado: { $in: ESTADOS_ASIGNABLES },
+      _id: { $nin: programadasConTurno },
+      ...(lineaProduccion && { lineaProduccion })
+    }, { codigo: 1, estado: 1, lineaProduccion: 1, mezclas: 1, fechaProduccion: 1 })
+      .sort({ fechaProduccion: 1 })
+      .lean();
+
+    const resumen = sinTurno.map(p => ({
+      productionId: p._id as Types.ObjectId,
+      codigo: p.codigo,
+      estado: p.estado,
+      lineaProduccion: p.lineaProduccion,
+      cantidadMezclas: this.getCantidadMezclas(p.mezclas),
+      fechaProduccion: p.fechaProduccion
+    }));
+
+    return {
+      vista,
+      desde: desde.format('YYYY-MM-DD'),
+      hasta: hasta.subtract(1, 'day').format('YYYY-MM-DD'),
+      lineaProduccion,
+      dias,
+      turnosConSobrecupo,
+      pendientes: resumen.filter(p => p.estado === 'CALCULADO'),
+      programadasSinTurno: resumen.filter(p => p.estado === 'PROGRAMADO')
+    };
+  }
+}
+
+export const scheduleService = new ScheduleService();
@@ -0,0 +1,130 @@
+import dayjs from 'dayjs';
+import { ClientSession } from 'mongoose';
+import { Counter } from '@/models/Counter.model';
+import { LineaProduccion } from '@/models/Production.model';
+import { GLOBAL_ENV } from '@/shared/constants';
+import { ResponseError } from '@/utils/erros';
+
+const LINEA_CODES: Record<LineaProduccion, string> = {
+  ONCO: 'ON',
+  ESTERIL: 'ET'
+};
+
+const SEQ_TOKEN = /\{SEQ(?::(\d+))?\}/;
+const LINEA_TOKEN = '{LINEA}';
+
+/**
+ * Servicio de Secuencias
+ * Entrega consecutivos atómicos respaldados en MongoDB para códigos de producción y lotes
+ * El alcance de cada secuencia es el código renderizado sin el consecutivo, así un formato
+ * con fecha reinicia cada día. Los formatos deben llevar {LINEA}: cada línea tiene su secuencia
+ * y sus códigos no chocan entre sí
+ */
+export class SequenceService {
+  private readonly MAX_REINTENTOS = 3;
+
+  /**
+   * Reserva un bloque de consecutivos de forma atómica
+   * @param clave - Alcance de la secuencia
+   * @param cantidad - Cantidad de consecutivos a reservar
+   * @param session - Transacción del registro que usa los consecutivos: si se aborta, se liberan
+   * @returns Primer consecutivo del bloque
+   */
+  async next(clave: string, cantidad: number = 1, session?: ClientSession): Promise<number> {
+    if (cantidad < 1) {
+      throw new ResponseError(400, 'La cantidad de consecutivos debe ser mayor a 0');
+    }
+
+    for (let intento = 1; intento <= this.MAX_REINTENTOS; intento++) {
+      try {
+        const counter = await Counter.findOneAndUpdate(
+          { clave },
+          { $inc: { secuencia: cantidad } },
+          { new: true, upsert: true, session }
+        );
+
+        return counter.secuencia - cantidad + 1;
+      } catch (error: any) {
+        // Dos upserts simultáneos sobre una clave nueva: uno falla por índice único y se reintenta
+        // Dentro de una transacción no se puede reintentar aquí: la reintenta quien la abrió
+        if (error?.code !== 11000 || session || intento === this.MAX_REINTENTOS) {
+          throw error;
+        }
+      }
+    }
+
+    throw new ResponseError(500, 'No fue posible obtener el consecutivo');
+  }
+
+  /**
+   * Renderiza un formato de código
+   * Tokens: {LINEA} (ON/ET), {SEQ:n} (consecutivo con n dígitos) y formatos dayjs ({YYYYMMDD}, {YYMMDD}...)
+   */
+  formatCode(formato: string, fecha: Date, linea?: LineaProduccion, secuencia?: number): string {
+    return formato.replace(/\{([^}]+)\}/g, (_match, token: string) => {
+      if (token === 'LINEA') {
+        return linea ? LINEA_CODES[linea] : '';
+      }
+
+      const seq = token.match(/^SEQ(?::(\d+))?$/);
+      if (seq) {
+        if (secuencia === undefined) return `{${token}}`;
+        return secuencia.toString().padStart(seq[1] ? parseInt(seq[1]) : 1, '0');
+      }
+
+      return dayjs(fecha).format(token);
+    });
+  }
+
+  /**
+   * Reserva consecutivos para un formato y devuelve los códigos renderizados
+   */
+  private async generateCodes(
+    formato: string,
+    fecha: Date,
+    linea: LineaProduccion,
+    cantidad: number,
+    session?: ClientSession
+  ): Promise<string[]> {
+    if (!SEQ_TOKEN.test(formato)) {
+      throw new ResponseError(500, `El formato ${formato} debe incluir el token {SEQ:n}`);
+    }
+    // Sin la línea en el código, dos líneas con su propia secuencia generarían el mismo código
+    if (!formato.includes(LINEA_TOKEN)) {
+      throw new ResponseError(500, `El formato ${formato} debe incluir el token ${LINEA_TOKEN}`);
+    }
+
+    const clave = this.formatCode(formato, fecha, linea);
+    const primero = await this.next(clave, cantidad, session);
+
+    return Array.from({ length: cantidad }, (_, i) =>
+      this.formatCode(formato, fecha, linea, primero + i)
+    );
+  }
+
+  /**
+   * Genera el código de una orden de producción (ej: PROD-ON-20261019-0001)
+   */
+  async generateProductionCode(
+    linea: LineaProduccion,
+    fecha: Date = dayjs().toDate(),
+    session?: ClientSession
+  ): Promise<string> {
+    const [codigo] = await this.generateCodes(GLOBAL_ENV.PRODUCTION_CODE_FORMAT, fecha, linea, 1, session);
+    return codigo;
+  }
+
+  /**
+   * Genera lotes consecutivos para las mezclas de una orden (ej: HG261019-ON-00001)
+   */
+  async generateLotesMezcla(
+    linea: LineaProduccion,
+    fecha: Date,
+    cantidad: number,
+    session?: ClientSession
+  ): Promise<string[]> {
+    return await this.generateCodes(GLOBAL_ENV.LOTE_MEZCLA_FORMAT, fecha, linea, cantidad, session);
+  }
+}
+
+export const sequenceService = new SequenceService();
@@ -0,0 +1,180 @@
+import crypto from 'crypto';
+import bcrypt from 'bcrypt';
+import { ClientSession, Types } from 'mongoose';
+import dayjs from 'dayjs';
+import { Production, ProductionState } from '@/models/Production.model';
+import { User } from '@/models/User.model';
+import { Signature, ISignature, SignificadoFirma } from '@/models/Signature.model';
+import { auditService } from '@/services/workflow/audit.service';
+import { userService } from '@/services/users/user.service';
+import { ResponseError } from '@/utils/erros';
+
+export interface DatosFirma {
+  password: string; // Contraseña reingresada por el firmante
+  significado: SignificadoFirma;
+}
+
+// Firma con la URL de su imagen, que no se guarda porque vence
+export type FirmaConImagen = ReturnType<ISignature['toObject']> & { firmaUrl?: string };
+
+const SIGNIFICADOS: SignificadoFirma[] = ['REVISADO', 'APROBADO'];
+
+// Campos que cambian sin alterar el contenido de la orden
+const CAMPOS_EXCLUIDOS_HASH = ['__v', 'updatedAt'];
+
+/**
+ * Servicio de Firmas Electrónicas
+ * Firma de transiciones críticas con reautenticación y hash del contenido (estilo 21 CFR Part 11)
+ */
+export class SignatureService {
+  private readonly ALGORITMO_HASH = 'SHA-256';
+
+  /**
+   * Estados del flujo que exigen firma electrónica
+   */
+  readonly ESTADOS_CON_FIRMA: ProductionState[] = ['VALIDADO', 'QC', 'FINALIZADO'];
+
+  requiresSignature(estado: ProductionState): boolean {
+    return this.ESTADOS_CON_FIRMA.includes(estado);
+  }
+
+  /**
+   * Serializa un valor con llaves ordenadas para que el hash sea reproducible
+   */
+  private canonicalize(valor: any): any {
+    if (valor === null || valor === undefined) return null;
+    if (valor instanceof Types.ObjectId) return valor.toString();
+    if (valor instanceof Date) return valor.toISOString();
+    if (Buffer.isBuffer(valor)) return valor.toString('base64');
+    if (Array.isArray(valor)) return valor.map(item => this.canonicalize(item));
+
+    if (typeof valor === 'object') {
+      return Object.keys(valor)
+        .filter(clave => !CAMPOS_EXCLUIDOS_HASH.includes(clave))
+        .sort()
+        .reduce((resultado: Record<string, any>, clave) => {
+          resultado[clave] = this.canonicalize(valor[clave]);
+          return resultado;
+        }, {});
+    }
+
+    return valor;
+  }
+
+  /**
+   * Calcula el hash SHA-256 del contenido actual de la orden
+   * @param session - Transacción en curso: el hash incluye sus cambios aún sin confirmar
+   */
+  async computeContentHash(productionId: Types.ObjectId, session?: ClientSession): Promise<string> {
+    const production = await Production.findById(productionId).session(session || null).lean();
+    if (!production) {
+      throw new ResponseError(404, 'Producción no encontrada');
+    }
+
+    return crypto
+      .createHash('sha256')
+      .update(JSON.stringify(this.canonicalize(production)))
+      .digest('hex');
+  }
+
+  /**
+   * Reautentica al firmante y valida el significado de la firma
+   * Se llama antes de aplicar la transición para no cambiar el estado sin firma válida
+   */
+  async verifySigner(userId: Types.ObjectId, firma?: DatosFirma) {
+    if (!firma?.password) {
+      throw new ResponseError(400, 'La firma electrónica requiere reingresar la contraseña');
+    }
+
+    if (!SIGNIFICADOS.includes(firma.significado)) {
+      throw new ResponseError(400, `Significado de firma inválido. Use: ${SIGNIFICADOS.join(', ')}`);
+    }
+
+    const user = await User.findById(userId);
+    if (!user || !user.activo) {
+      throw new ResponseError(401, 'Usuario no válido para firmar');
+    }
+
+    const isPasswordValid = await bcrypt.compare(firma.password, user.hashPassword);
+    if (!isPasswordValid) {
+      await auditService.logAction('User', user._id as Types.ObjectId, 'SIGNATURE_FAILED', {}, user._id as Types.ObjectId);
+      throw new ResponseError(401, 'Contraseña incorrecta, la firma no fue aplicada');
+    }
+
+    return user;
+  }
+
+  /**
+   * Registra la firma de una transición con el hash de la orden en ese momento
+   * Se crea en la misma transacción que el cambio de estado: sin firma, el cambio no se confirma
+   */
+  async sign(
+    productionId: Types.ObjectId,
+    estado: ProductionState,
+    userId: Types.ObjectId,
+    significado: SignificadoFirma,
+    session?: ClientSession
+  ): Promise<ISignature> {
+    const user = await User.findById(userId).session(session || null);
+    if (!user) {
+      throw new ResponseError(404, 'Usuario no encontrado');
+    }
+
+    const hashContenido = await this.computeContentHash(productionId, session);
+
+    const [signature] = await Signature.create([{
+      productionId,
+      estado,
+      usuarioId: userId,
+      nombre: user.nombre,
+      cargo: user.cargo,
+      tarjetaProfesional: user.tarjetaProfesional,
+      firmaPublicId: user.firmaPublicId,
+      firmaStorageDriver: user.firmaPublicId ? user.firmaStorageDriver || 'cloudinary' : undefined,
+      significado,
+      hashContenido,
+      algoritmoHash: this.ALGORITMO_HASH,
+      fechaFirma: dayjs().toDate()
+    }], { session });
+
+    return signature;
+  }
+
+  /**
+   * Registra en auditoría una firma ya confirmada
+   */
+  async logSignature(signature: ISignature): Promise<void> {
+    await auditService.logAction(
+      'Production',
+      signature.productionId,
+      'E_SIGNATURE',
+      {
+        firmaId: (signature._id as Types.ObjectId).toString(),
+        estado: signature.estado,
+        significado: signature.significado,
+        hashContenido: signature.hashContenido
+      },
+      signature.usuarioId
+    );
+  }
+
+  /**
+   * Obtiene las firmas de una producción en orden cronológico
+   */
+  async getSignatures(productionId: Types.ObjectId): Promise<ISignature[]> {
+    return await Signature.find({ productionId }).sort({ fechaFirma: 1 });
+  }
+
+  /**
+   * Firmas de una producción con la URL de la imagen de firma generada al leer
+   */
+  async getSignaturesConImagen(productionId: Types.ObjectId): Promise<FirmaConImagen[]> {
+    const firmas = await this.getSignatures(productionId);
+    return Promise.all(firmas.map(async (firma) => ({
+      ...firma.toObject(),
+      firmaUrl: await userService.getFirmaUrl(firma)
+    })));
+  }
+}
+
+export const signatureService = new SignatureService();
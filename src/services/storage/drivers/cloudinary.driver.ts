@@ -0,0 +1,153 @@
+import https from 'https';
+import path from 'path';
+import { Readable } from 'stream';
+import { v2 as cloudinary } from 'cloudinary';
+import { GLOBAL_ENV } from '@/shared/constants';
+import { ResponseError } from '@/utils/erros';
+import { StorageDriver, StoredFile, UploadOptions } from '../storage.types';
+
+type ResourceType = 'image' | 'raw';
+
+type DeliveryType = 'upload' | 'authenticated';
+
+/**
+ * Driver de Cloudinary
+ * Las imágenes (firmas) se suben como 'image' y el resto (PDF) como 'raw' privado ('authenticated'):
+ * los PDF solo se leen con URLs firmadas que vencen en CLOUDINARY_URL_EXPIRATION segundos
+ */
+export class CloudinaryDriver implements StorageDriver {
+  readonly name = 'cloudinary' as const;
+
+  constructor() {
+    if (!GLOBAL_ENV.CLOUD_NAME || !GLOBAL_ENV.API_KEY_CLOUDINARY || !GLOBAL_ENV.API_SECRET_CLOUDINARY) {
+      throw new ResponseError(500, 'Cloudinary no está configurado correctamente');
+    }
+
+    cloudinary.config({
+      cloud_name: GLOBAL_ENV.CLOUD_NAME,
+      api_key: GLOBAL_ENV.API_KEY_CLOUDINARY,
+      api_secret: GLOBAL_ENV.API_SECRET_CLOUDINARY
+    });
+  }
+
+  /**
+   * En Cloudinary el public_id de los archivos raw conserva la extensión y el de las imágenes no
+   */
+  private getResourceType(key: string): ResourceType {
+    return path.extname(key) ? 'raw' : 'image';
+  }
+
+  /**
+   * URL firmada y con vencimiento de la API de descarga; sirve para archivos raw privados o públicos
+   */
+  private getDownloadUrl(key: string, type: DeliveryType): string {
+    return cloudinary.utils.private_download_url(key, '', {
+      resource_type: 'raw',
+      type,
+      expires_at: Math.floor(Date.now() / 1000) + GLOBAL_ENV.CLOUDINARY_URL_EXPIRATION
+    });
+  }
+
+  async upload(data: Buffer, options: UploadOptions): Promise<StoredFile> {
+    const resourceType: ResourceType = options.contentType.startsWith('image/') ? 'image' : 'raw';
+    const publicId = resourceType === 'image'
+      ? path.basename(options.fileName, path.extname(options.fileName))
+      : options.fileName;
+
+    try {
+      const result = await cloudinary.uploader.upload(
+        `data:${options.contentType};base64,${data.toString('base64')}`,
+        {
+          folder: options.folder,
+          public_id: publicId,
+          resource_type: resourceType,
+          type: resourceType === 'raw' ? 'authenticated' : 'upload',
+          ...(resourceType === 'image' && { format: path.extname(options.fileName).slice(1) || 'png' }),
+          overwrite: options.overwrite ?? false
+        }
+      );
+
+      return {
+        driver: this.name,
+        key: result.public_id,
+        url: resourceType === 'raw' ? this.getDownloadUrl(result.public_id, 'authenticated') : result.secure_url
+      };
+    } catch (error: any) {
+      console.error('Error al subir archivo a Cloudinary:', error);
+      throw new ResponseError(500, `Error al subir archivo: ${error.message || 'Error desconocido'}`);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      if (this.getResourceType(key) === 'image') {
+        await cloudinary.uploader.destroy(key, { resource_type: 'image' });
+        return;
+      }
+
+      // Los PDF anteriores se subieron públicos: si no está como privado se busca como 'upload'
+      const result = await cloudinary.uploader.destroy(key, { resource_type: 'raw', type: 'authenticated' });
+      if (result.result === 'not found') {
+        await cloudinary.uploader.destroy(key, { resource_type: 'raw', type: 'upload' });
+      }
+    } catch (error: any) {
+      console.error('Error al eliminar archivo de Cloudinary:', error);
+      throw new ResponseError(500, `Error al eliminar archivo: ${error.message || 'Error desconocido'}`);
+    }
+  }
+
+  async getUrl(key: string): Promise<string> {
+    if (this.getResourceType(key) === 'raw') {
+      return this.getDownloadUrl(key, 'authenticated');
+    }
+
+    return cloudinary.url(key, {
+      resource_type: this.getResourceType(key),
+      secure: true
+    });
+  }
+
+  async stream(key: string): Promise<Readable> {
+    if (this.getResourceType(key) === 'image') {
+      return this.fetch(await this.getUrl(key));
+    }
+
+    try {
+      return await this.fetch(this.getDownloadUrl(key, 'authenticated'));
+    } catch (error) {
+      // PDF anterior a la subida privada
+      if (error instanceof ResponseError && error.statusCode === 404) {
+        return this.fetch(this.getDownloadUrl(key, 'upload'));
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Lee una URL de Cloudinary; la API de descarga puede redirigir a la URL de entrega
+   */
+  private fetch(url: string, redirecciones = 3): Promise<Readable> {
+    return new Promise((resolve, reject) => {
+      https.get(url, (response) => {
+        const destino = response.headers.location;
+        if (response.statusCode && response.statusCode >= 300 && response.statusCode < 400 && destino && redirecciones > 0) {
+          response.resume();
+          this.fetch(new URL(destino, url).toString(), redirecciones - 1).then(resolve, reject);
+          return;
+        }
+        if (response.statusCode !== 200) {
+          response.resume();
+          reject(new ResponseError(
+            response.statusCode === 404 ? 404 : 502,
+            response.statusCode === 404 ? 'Archivo no encontrado en el almacenamiento' : 'Error al leer archivo de Cloudinary'
+          ));
+          return;
+        }
+        resolve(response);
+      }).on('error', (error) => {
+        console.error('Error al leer archivo de Cloudinary:', error);
+        reject(new ResponseError(502, 'Error al leer archivo de Cloudinary'));
+      });
+    });
+  }
+}
@@ -0,0 +1,85 @@
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { pathToFileURL } from 'url';
+import { GLOBAL_ENV } from '@/shared/constants';
+import { ResponseError } from '@/utils/erros';
+import { StorageDriver, StoredFile, UploadOptions } from '../storage.types';
+
+/**
+ * Driver de sistema de archivos local
+ * La clave es la ruta relativa a STORAGE_LOCAL_PATH (ej: 'documentos/solicitud-<id>.pdf')
+ */
+export class LocalDriver implements StorageDriver {
+  readonly name = 'local' as const;
+  private readonly root: string;
+
+  constructor() {
+    this.root = path.resolve(GLOBAL_ENV.STORAGE_LOCAL_PATH);
+  }
+
+  /**
+   * Ruta absoluta de la clave, sin permitir salir de la carpeta raíz
+   */
+  private resolvePath(key: string): string {
+    const filePath = path.resolve(this.root, key);
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new ResponseError(400, 'Clave de almacenamiento inválida');
+    }
+    return filePath;
+  }
+
+  async upload(data: Buffer, options: UploadOptions): Promise<StoredFile> {
+    const key = path.posix.join(options.folder, options.fileName);
+    const filePath = this.resolvePath(key);
+
+    try {
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.promises.writeFile(filePath, data, { flag: options.overwrite ? 'w' : 'wx' });
+    } catch (error: any) {
+      if (error.code === 'EEXIST') {
+        throw new ResponseError(409, `Ya existe el archivo ${key}`);
+      }
+      console.error('Error al guardar archivo local:', error);
+      throw new ResponseError(500, `Error al subir archivo: ${error.message || 'Error desconocido'}`);
+    }
+
+    return {
+      driver: this.name,
+      key,
+      url: await this.getUrl(key)
+    };
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await fs.promises.rm(this.resolvePath(key), { force: true });
+    } catch (error: any) {
+      if (error instanceof ResponseError) throw error;
+      console.error('Error al eliminar archivo local:', error);
+      throw new ResponseError(500, `Error al eliminar archivo: ${error.message || 'Error desconocido'}`);
+    }
+  }
+
+  /**
+   * URL pública si se sirve la carpeta (STORAGE_LOCAL_URL), si no la ruta file://
+   */
+  async getUrl(key: string): Promise<string> {
+    if (GLOBAL_ENV.STORAGE_LOCAL_URL) {
+      return `${GLOBAL_ENV.STORAGE_LOCAL_URL.replace(/\/+$/, '')}/${key}`;
+    }
+    return pathToFileURL(this.resolvePath(key)).href;
+  }
+
+  async stream(key: string): Promise<Readable> {
+    const filePath = this.resolvePath(key);
+
+    try {
+      await fs.promises.access(filePath, fs.constants.R_OK);
+    } catch (error) {
+      throw new ResponseError(404, 'Archivo no encontrado en el almacenamiento');
+    }
+
+    return fs.createReadStream(filePath);
+  }
+}
@@ -0,0 +1,251 @@
+import crypto from 'crypto';
+import http from 'http';
+import https from 'https';
+import path from 'path';
+import { Readable } from 'stream';
+import dayjs from 'dayjs';
+import { GLOBAL_ENV } from '@/shared/constants';
+import { ResponseError } from '@/utils/erros';
+import { StorageDriver, StoredFile, UploadOptions } from '../storage.types';
+
+const ALGORITMO = 'AWS4-HMAC-SHA256';
+const SERVICIO = 's3';
+const PAYLOAD_SIN_FIRMA = 'UNSIGNED-PAYLOAD';
+
+interface SolicitudS3 {
+  method: 'GET' | 'PUT' | 'DELETE';
+  key: string;
+  body?: Buffer;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Codificación URI de AWS: todo salvo A-Z a-z 0-9 - _ . ~
+ */
+const encodeRfc3986 = (valor: string): string =>
+  encodeURIComponent(valor).replace(/[!'()*]/g, (caracter) => `%${caracter.charCodeAt(0).toString(16).toUpperCase()}`);
+
+const sha256 = (valor: string | Buffer): string => crypto.createHash('sha256').update(valor).digest('hex');
+
+const hmac = (clave: string | Buffer, valor: string): Buffer => crypto.createHmac('sha256', clave).update(valor).digest();
+
+/**
+ * Driver compatible con S3 (AWS, MinIO, R2...)
+ * Firma las peticiones con AWS Signature V4 sin SDK; las URLs de lectura son prefirmadas
+ * salvo que se defina S3_PUBLIC_URL
+ */
+export class S3Driver implements StorageDriver {
+  readonly name = 's3' as const;
+  private readonly endpoint: URL;
+  private readonly pathStyle: boolean;
+
+  constructor() {
+    if (!GLOBAL_ENV.S3_BUCKET || !GLOBAL_ENV.S3_ACCESS_KEY_ID || !GLOBAL_ENV.S3_SECRET_ACCESS_KEY) {
+      throw new ResponseError(500, 'El almacenamiento S3 no está configurado correctamente');
+    }
+
+    this.endpoint = new URL(GLOBAL_ENV.S3_ENDPOINT || `https://s3.${GLOBAL_ENV.S3_REGION}.amazonaws.com`);
+    // Los endpoints propios (MinIO) suelen requerir el bucket en la ruta
+    this.pathStyle = GLOBAL_ENV.S3_FORCE_PATH_STYLE
+      ? GLOBAL_ENV.S3_FORCE_PATH_STYLE === 'true'
+      : Boolean(GLOBAL_ENV.S3_ENDPOINT);
+  }
+
+  private getHost(): string {
+    return this.pathStyle ? this.endpoint.host : `${GLOBAL_ENV.S3_BUCKET}.${this.endpoint.host}`;
+  }
+
+  private getCanonicalUri(key: string): string {
+    const basePath = this.endpoint.pathname.replace(/\/+$/, '');
+    const objectPath = key.split('/').map(encodeRfc3986).join('/');
+    return this.pathStyle
+      ? `${basePath}/${encodeRfc3986(GLOBAL_ENV.S3_BUCKET)}/${objectPath}`
+      : `${basePath}/${objectPath}`;
+  }
+
+  private getCredentialScope(fecha: string): string {
+    return `${fecha.slice(0, 8)}/${GLOBAL_ENV.S3_REGION}/${SERVICIO}/aws4_request`;
+  }
+
+  /**
+   * Firma SigV4 de una petición ya canonizada
+   * @param fecha - Fecha en formato YYYYMMDDTHHmmssZ
+   */
+  private sign(
+    method: string,
+    canonicalUri: string,
+    query: Record<string, string>,
+    headers: Record<string, string>,
+    payloadHash: string,
+    fecha: string
+  ): { signature: string; signedHeaders: string } {
+    const canonicalQuery = Object.keys(query)
+      .sort()
+      .map(nombre => `${encodeRfc3986(nombre)}=${encodeRfc3986(query[nombre])}`)
+      .join('&');
+
+    const nombresHeaders = Object.keys(headers).map(nombre => nombre.toLowerCase()).sort();
+    const valoresHeaders = Object.fromEntries(Object.entries(headers).map(([nombre, valor]) => [nombre.toLowerCase(), valor.trim()]));
+    const canonicalHeaders = nombresHeaders.map(nombre => `${nombre}:${valoresHeaders[nombre]}\n`).join('');
+    const signedHeaders = nombresHeaders.join(';');
+
+    const canonicalRequest = [method, canonicalUri, canonicalQuery, canonicalHeaders, signedHeaders, payloadHash].join('\n');
+    const stringToSign = [ALGORITMO, fecha, this.getCredentialScope(fecha), sha256(canonicalRequest)].join('\n');
+
+    const signingKey = [fecha.slice(0, 8), GLOBAL_ENV.S3_REGION, SERVICIO, 'aws4_request']
+      .reduce<Buffer | string>((clave, valor) => hmac(clave, valor), `AWS4${GLOBAL_ENV.S3_SECRET_ACCESS_KEY}`);
+
+    return {
+      signature: crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex'),
+      signedHeaders
+    };
+  }
+
+  private getFecha(): string {
+    return dayjs().toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  }
+
+  /**
+   * Envía una petición firmada y devuelve la respuesta sin consumir
+   */
+  private request(solicitud: SolicitudS3): Promise<http.IncomingMessage> {
+    const fecha = this.getFecha();
+    const canonicalUri = this.getCanonicalUri(solicitud.key);
+    const payloadHash = sha256(solicitud.body || '');
+    const headers: Record<string, string> = {
+      host: this.getHost(),
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': fecha,
+      ...(solicitud.headers || {})
+    };
+
+    const { signature, signedHeaders } = this.sign(solicitud.method, canonicalUri, {}, headers, payloadHash, fecha);
+    headers.authorization = `${ALGORITMO} Credential=${GLOBAL_ENV.S3_ACCESS_KEY_ID}/${this.getCredentialScope(fecha)}, SignedHeaders=${signedHeaders}, Signature=${signature}`;
+    if (solicitud.body) {
+      headers['content-length'] = String(solicitud.body.length);
+    }
+
+    const cliente = this.endpoint.protocol === 'http:' ? http : https;
+
+    return new Promise((resolve, reject) => {
+      const peticion = cliente.request({
+        protocol: this.endpoint.protocol,
+        hostname: this.pathStyle ? this.endpoint.hostname : `${GLOBAL_ENV.S3_BUCKET}.${this.endpoint.hostname}`,
+        port: this.endpoint.port || undefined,
+        method: solicitud.method,
+        path: canonicalUri,
+        headers
+      }, resolve);
+
+      peticion.on('error', reject);
+      peticion.end(solicitud.body);
+    });
+  }
+
+  /**
+   * Lee el cuerpo de una respuesta de error para el log
+   */
+  private async readError(response: http.IncomingMessage): Promise<string> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of response) {
+      chunks.push(chunk);
+    }
+    return Buffer.concat(chunks).toString('utf8');
+  }
+
+  async upload(data: Buffer, options: UploadOptions): Promise<StoredFile> {
+    const key = path.posix.join(options.folder, options.fileName);
+
+    try {
+      const response = await this.request({
+        method: 'PUT',
+        key,
+        body: data,
+        headers: {
+          'content-type': options.contentType,
+          // Escritura condicional: falla si el objeto ya existe
+          ...(!options.overwrite && { 'if-none-match': '*' })
+        }
+      });
+
+      if (response.statusCode === 412) {
+        response.resume();
+        throw new ResponseError(409, `Ya existe el archivo ${key}`);
+      }
+      if (response.statusCode !== 200) {
+        throw new Error(`S3 respondió ${response.statusCode}: ${await this.readError(response)}`);
+      }
+      response.resume();
+    } catch (error: any) {
+      if (error instanceof ResponseError) throw error;
+      console.error('Error al subir archivo a S3:', error);
+      throw new ResponseError(500, `Error al subir archivo: ${error.message || 'Error desconocido'}`);
+    }
+
+    return {
+      driver: this.name,
+      key,
+      url: await this.getUrl(key)
+    };
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      const response = await this.request({ method: 'DELETE', key });
+      if (response.statusCode !== 204 && response.statusCode !== 200) {
+        throw new Error(`S3 respondió ${response.statusCode}: ${await this.readError(response)}`);
+      }
+      response.resume();
+    } catch (error: any) {
+      console.error('Error al eliminar archivo de S3:', error);
+      throw new ResponseError(500, `Error al eliminar archivo: ${error.message || 'Error desconocido'}`);
+    }
+  }
+
+  /**
+   * URL pública (S3_PUBLIC_URL) o prefirmada por S3_URL_EXPIRATION segundos
+   */
+  async getUrl(key: string, fecha: string = this.getFecha()): Promise<string> {
+    if (GLOBAL_ENV.S3_PUBLIC_URL) {
+      return `${GLOBAL_ENV.S3_PUBLIC_URL.replace(/\/+$/, '')}/${key.split('/').map(encodeRfc3986).join('/')}`;
+    }
+
+    const canonicalUri = this.getCanonicalUri(key);
+    const query: Record<string, string> = {
+      'X-Amz-Algorithm': ALGORITMO,
+      'X-Amz-Credential': `${GLOBAL_ENV.S3_ACCESS_KEY_ID}/${this.getCredentialScope(fecha)}`,
+      'X-Amz-Date': fecha,
+      'X-Amz-Expires': String(GLOBAL_ENV.S3_URL_EXPIRATION),
+      'X-Amz-SignedHeaders': 'host'
+    };
+
+    const { signature } = this.sign('GET', canonicalUri, query, { host: this.getHost() }, PAYLOAD_SIN_FIRMA, fecha);
+    const queryString = Object.keys(query)
+      .sort()
+      .map(nombre => `${encodeRfc3986(nombre)}=${encodeRfc3986(query[nombre])}`)
+      .join('&');
+
+    return `${this.endpoint.protocol}//${this.getHost()}${canonicalUri}?${queryString}&X-Amz-Signature=${signature}`;
+  }
+
+  async stream(key: string): Promise<Readable> {
+    let response: http.IncomingMessage;
+    try {
+      response = await this.request({ method: 'GET', key });
+    } catch (error) {
+      console.error('Error al leer archivo de S3:', error);
+      throw new ResponseError(502, 'Error al leer archivo de S3');
+    }
+
+    if (response.statusCode === 404) {
+      response.resume();
+      throw new ResponseError(404, 'Archivo no encontrado en el almacenamiento');
+    }
+    if (response.statusCode !== 200) {
+      console.error('Error al leer archivo de S3:', await this.readError(response));
+      throw new ResponseError(502, 'Error al leer archivo de S3');
+    }
+
+    return response;
+  }
+}
@@ -0,0 +1,87 @@
+import { Readable } from 'stream';
+import { GLOBAL_ENV } from '@/shared/constants';
+import { ResponseError } from '@/utils/erros';
+import { StorageDriver, StorageDriverName, StoredFile, UploadOptions, STORAGE_DRIVERS } from './storage.types';
+import { CloudinaryDriver } from './drivers/cloudinary.driver';
+import { LocalDriver } from './drivers/local.driver';
+import { S3Driver } from './drivers/s3.driver';
+
+const CONSTRUCTORES: Record<StorageDriverName, () => StorageDriver> = {
+  cloudinary: () => new CloudinaryDriver(),
+  local: () => new LocalDriver(),
+  s3: () => new S3Driver()
+};
+
+/**
+ * Servicio de Almacenamiento
+ * Las subidas van al driver configurado en STORAGE_DRIVER; lectura y borrado usan el driver
+ * con el que se guardó cada archivo, así los archivos anteriores siguen accesibles al cambiar de driver
+ */
+export class StorageService {
+  private drivers = new Map<StorageDriverName, StorageDriver>();
+
+  /**
+   * Driver configurado para las nuevas subidas
+   */
+  getActiveDriverName(): StorageDriverName {
+    const nombre = GLOBAL_ENV.STORAGE_DRIVER as StorageDriverName;
+    if (!STORAGE_DRIVERS.includes(nombre)) {
+      throw new ResponseError(500, `STORAGE_DRIVER inválido: ${GLOBAL_ENV.STORAGE_DRIVER}`);
+    }
+    return nombre;
+  }
+
+  /**
+   * Los drivers se crean al primer uso: solo se exige la configuración de los que se usan
+   */
+  getDriver(nombre: StorageDriverName = this.getActiveDriverName()): StorageDriver {
+    if (!CONSTRUCTORES[nombre]) {
+      throw new ResponseError(500, `Driver de almacenamiento desconocido: ${nombre}`);
+    }
+
+    let driver = this.drivers.get(nombre);
+    if (!driver) {
+      driver = CONSTRUCTORES[nombre]();
+      this.drivers.set(nombre, driver);
+    }
+    return driver;
+  }
+
+  /**
+   * Convierte base64 (con o sin prefijo data:) en Buffer
+   */
+  private toBuffer(data: Buffer | string): Buffer {
+    if (Buffer.isBuffer(data)) {
+      return data;
+    }
+
+    const base64 = data.startsWith('data:') ? data.slice(data.indexOf(',') + 1) : data;
+    const buffer = Buffer.from(base64, 'base64');
+    if (buffer.length === 0) {
+      throw new ResponseError(400, 'El archivo está vacío o no es base64 válido');
+    }
+    return buffer;
+  }
+
+  /**
+   * Sube un archivo con el driver configurado
+   * @param data - Buffer o base64 (ej: firma desde el formulario)
+   */
+  async upload(data: Buffer | string, options: UploadOptions): Promise<StoredFile> {
+    return this.getDriver().upload(this.toBuffer(data), options);
+  }
+
+  async delete(key: string, driver?: StorageDriverName): Promise<void> {
+    await this.getDriver(driver).delete(key);
+  }
+
+  async getUrl(key: string, driver?: StorageDriverName): Promise<string> {
+    return this.getDriver(driver).getUrl(key);
+  }
+
+  async stream(key: string, driver?: StorageDriverName): Promise<Readable> {
+    return this.getDriver(driver).stream(key);
+  }
+}
+
+export const storageService = new StorageService();
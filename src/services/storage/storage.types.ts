@@ -0,0 +1,32 @@
+import { Readable } from 'stream';
+
+export type StorageDriverName = 'cloudinary' | 'local' | 's3';
+
+export const STORAGE_DRIVERS: StorageDriverName[] = ['cloudinary', 'local', 's3'];
+
+export interface UploadOptions {
+  folder: string; // Carpeta lógica (ej: 'documentos', 'firmas')
+  fileName: string; // Nombre con extensión (ej: 'solicitud-<id>.pdf')
+  contentType: string;
+  overwrite?: boolean; // Por defecto no se reemplaza un archivo existente
+}
+
+/**
+ * Archivo guardado: driver y clave identifican el archivo en cualquier almacenamiento
+ */
+export interface StoredFile {
+  driver: StorageDriverName;
+  key: string;
+  url: string;
+}
+
+/**
+ * Operaciones que debe implementar cada almacenamiento
+ */
+export interface StorageDriver {
+  readonly name: StorageDriverName;
+  upload(data: Buffer, options: UploadOptions): Promise<StoredFile>;
+  delete(key: string): Promise<void>;
+  getUrl(key: string): Promise<string>;
+  stream(key: string): Promise<Readable>;
+}
@@ -1,8 +1,9 @@
 import { Types } from 'mongoose';
 import bcrypt from 'bcrypt';
 import { User, IUser } from '@/models/User.model';
+import { StorageDriverName } from '@/services/storage/storage.types';
 import { ResponseError } from '@/utils/erros';
-import { cloudinaryService } from '@/services/cloudinary/cloudinary.service';
+import { storageService } from '@/services/storage/storage.service';
 
 /**
  * Servicio de Gestión de Usuarios
@@ -48,6 +49,23 @@ export class UserService {
     };
   }
 
+  /**
+   * URL de la imagen de una firma, generada al leer: las URL del almacenamiento vencen (S3) o son rutas locales
+   * Sin driver registrado la firma es anterior al almacenamiento configurable (Cloudinary)
+   */
+  async getFirmaUrl(firma: { firmaPublicId?: string; firmaStorageDriver?: StorageDriverName }): Promise<string | undefined> {
+    if (!firma.firmaPublicId) {
+      return undefined;
+    }
+
+    try {
+      return await storageService.getUrl(firma.firmaPublicId, firma.firmaStorageDriver || 'cloudinary');
+    } catch (error) {
+      console.error('Error al generar la URL de la firma:', error);
+      return undefined;
+    }
+  }
+
   /**
    * Obtiene un usuario por ID
    */
@@ -86,22 +104,20 @@ export class UserService {
       throw new ResponseError(404, 'Usuario no encontrado');
     }
 
-    // Si se proporciona nueva firma, subirla a Cloudinary
+    // Si se proporciona nueva firma, subirla al almacenamiento
     if (updateData.firma) {
       try {
-        // Eliminar firma anterior si existe
-        if (user.firmaPublicId) {
-          await cloudinaryService.deleteFile(user.firmaPublicId, 'image');
-        }
-
-        // Subir nueva firma
-        const publicId = `firmas/${user.username}_${user.identificacion.replace(/\./g, '_')}`;
-        const uploadResult = await cloudinaryService.uploadSignature(updateData.firma, 'firmas', publicId);
+        // La firma anterior se conserva: las firmas electrónicas ya registradas guardan su clave
+        const storedFile = await storageService.upload(updateData.firma, {
+          folder: 'firmas',
+          fileName: `${user.username}_${user.identificacion.replace(/\./g, '_')}_${Date.now()}.png`,
+          contentType: 'image/png'
+        });
         
         updateData = {
           ...updateData,
-          firmaUrl: uploadResult.secure_url,
-          firmaPublicId: uploadResult.public_id
+          firmaPublicId: storedFile.key,
+          firmaStorageDriver: storedFile.driver
         } as any;
 
         // Eliminar la firma base64 del objeto de actualización
@@ -196,12 +212,12 @@ export class UserService {
       throw new ResponseError(404, 'Usuario no encontrado');
     }
 
-    // Eliminar firma de Cloudinary si existe
+    // Eliminar firma del almacenamiento si existe
     if (user.firmaPublicId) {
       try {
-        await cloudinaryService.deleteFile(user.firmaPublicId, 'image');
+        await storageService.delete(user.firmaPublicId, user.firmaStorageDriver || 'cloudinary');
       } catch (error) {
-        console.error('Error al eliminar firma de Cloudinary:', error);
+        console.error('Error al eliminar firma del almacenamiento:', error);
       }
     }
 
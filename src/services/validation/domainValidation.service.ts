@@ -1,11 +1,20 @@
 import { Types } from 'mongoose';
+import dayjs from 'dayjs';
 import { Medicine } from '@/models/Medicine.model';
 import { Lab } from '@/models/Lab.model';
 import { Vehicle } from '@/models/Vehicle.model';
 import { Container } from '@/models/Container.model';
 import { Stability } from '@/models/Stability.model';
-import { ValidationResult, ProductionValidationData } from '@/contracts/types/production.types';
+import { Production } from '@/models/Production.model';
+import {
+  ValidationResult,
+  ProductionValidationData,
+  MezclaValidationData,
+  DosisMezclaOrden,
+  AdvertenciaValidacion
+} from '@/contracts/types/production.types';
 import { ResponseError } from '@/utils/erros';
+import { unitConversionService } from '@/services/calculation/unitConversion.service';
 
 /**
  * Servicio de validación del dominio farmacéutico
@@ -74,6 +83,11 @@ export class DomainValidationService {
       return { isValid: false, errors };
     }
     
+    // Registros anteriores al borrado lógico no tienen el campo: se consideran habilitados
+    if (vehiculo.habilitado === false) {
+      errors.push('Vehículo no habilitado');
+    }
+    
     if (!vehiculo.compatibleConLinea.includes(lineaProductiva)) {
       errors.push(`Vehículo no compatible con línea ${lineaProductiva}`);
     }
@@ -97,6 +111,10 @@ export class DomainValidationService {
       return { isValid: false, errors };
     }
     
+    if (envase.habilitado === false) {
+      errors.push('Envase no habilitado');
+    }
+    
     return {
       isValid: errors.length === 0,
       errors
@@ -105,11 +123,13 @@ export class DomainValidationService {
 
   /**
    * Valida que exista estabilidad para la combinación medicamento + laboratorio + vehículo + envase
+   * (la elegida por condición de almacenamiento, si se envía estabilidadId)
    */
   async validateStability(data: ProductionValidationData): Promise<ValidationResult> {
     const errors: string[] = [];
     
     const estabilidad = await Stability.findOne({
+      ...(data.estabilidadId && { _id: data.estabilidadId }),
       medicamentoId: data.medicamentoId,
       laboratorioId: data.laboratorioId,
       vehiculoId: data.vehiculoId,
@@ -118,6 +138,8 @@ export class DomainValidationService {
     
     if (!estabilidad) {
       errors.push('No existe estabilidad registrada para esta combinación de medicamento, laboratorio, vehículo y envase');
+    } else if (estabilidad.habilitado === false) {
+      errors.push('La estabilidad registrada para esta combinación no está habilitada');
     }
     
     return {
@@ -126,9 +148,171 @@ export class DomainValidationService {
     };
   }
 
+  /**
+   * Suma la dosis de un medicamento para un paciente en las demás mezclas no rechazadas:
+   * otras producciones dentro de la ventana del ciclo y las otras mezclas de la misma orden
+   * @param diasVentana - Días a cada lado de la fecha de producción; sin ventana se suma toda la historia
+   * @returns Dosis acumulada en la unidad indicada y las unidades de las mezclas que no se pudieron sumar
+   * (otra dimensión, ej: UI contra mg, o unidad no soportada): un registro antiguo no bloquea la orden
+   */
+  private async getDosisAcumulada(
+    medicamentoId: Types.ObjectId,
+    pacienteDocumento: string,
+    unidad: string,
+    opciones: {
+      excluirProduccionId?: Types.ObjectId;
+      fechaProduccion?: Date;
+      diasVentana?: number;
+      mezclasOrden?: DosisMezclaOrden[];
+    } = {}
+  ): Promise<{ dosis: number; unidadesOmitidas: string[] }> {
+    const match: any = {
+      'mezclas.paciente.documento': pacienteDocumento,
+      'mezclas.medicamento.id': medicamentoId,
+      estado: { $ne: 'ANULADO' } // Las órdenes anuladas no se administran
+    };
+
+    if (opciones.excluirProduccionId) {
+      match._id = { $ne: opciones.excluirProduccionId };
+    }
+
+    if (opciones.diasVentana) {
+      const fecha = dayjs(opciones.fechaProduccion);
+      match.fechaProduccion = {
+        $gt: fecha.subtract(opciones.diasVentana, 'day').toDate(),
+        $lt: fecha.add(opciones.diasVentana, 'day').toDate()
+      };
+    }
+
+    const mezclas: { dosis: number; unidad: string; cantidad: number }[] = await Production.aggregate([
+      { $match: match },
+      { $unwind: '$mezclas' },
+      {
+        $match: {
+          'mezclas.paciente.documento': pacienteDocumento,
+          'mezclas.medicamento.id': medicamentoId,
+          'mezclas.estado': { $ne: 'RECHAZADA' } // Una mezcla rechazada no se administra
+        }
+      },
+      {
+        $project: {
+          _id: 0,
+          dosis: '$mezclas.medicamento.dosisPrescrita',
+          unidad: '$mezclas.medicamento.unidadDosis',
+          cantidad: '$mezclas.cantidadMezclas'
+        }
+      }
+    ]);
+
+    (opciones.mezclasOrden || [])
+      .filter(m => m.pacienteDocumento === pacienteDocumento && m.medicamentoId.equals(medicamentoId))
+      .forEach(m => mezclas.push({ dosis: m.dosisPrescrita, unidad: m.unidadDosis, cantidad: m.cantidadMezclas }));
+
+    let dosis = 0;
+    const unidadesOmitidas: string[] = [];
+    mezclas.forEach(m => {
+      try {
+        dosis += unitConversionService.convert(m.dosis, m.unidad, unidad) * (m.cantidad || 1);
+      } catch (error) {
+        if (!(error instanceof ResponseError)) throw error;
+        unidadesOmitidas.push(m.unidad);
+      }
+    });
+
+    return { dosis, unidadesOmitidas };
+  }
+
+  /**
+   * Valida los límites clínicos de una mezcla según las reglas del medicamento
+   * - Dosis máxima por administración y rango de concentración final → bloqueantes
+   * - Dosis acumulada del paciente y dosis limitada por tope → advertencias
+   */
+  async validateClinicalLimits(
+    medicamentoId: Types.ObjectId,
+    mezcla: MezclaValidationData
+  ): Promise<ValidationResult> {
+    const errors: string[] = [];
+    const warnings: AdvertenciaValidacion[] = [];
+
+    const medicamento = await Medicine.findById(medicamentoId);
+
+    if (!medicamento) {
+      errors.push('Medicamento no encontrado');
+      return { isValid: false, errors, warnings };
+    }
+
+    const unidad = medicamento.unidadDosisMaxima || 'mg';
+
+    if (medicamento.dosisMaximaUnica || medicamento.dosisMaximaAcumulada) {
+      const dosis = unitConversionService.convert(mezcla.dosisPrescrita, mezcla.unidadDosis, unidad);
+
+      if (medicamento.dosisMaximaUnica && dosis > medicamento.dosisMaximaUnica) {
+        errors.push(
+          `Dosis ${mezcla.dosisPrescrita} ${mezcla.unidadDosis} supera la dosis máxima por administración de ${medicamento.nombre} (${medicamento.dosisMaximaUnica} ${unidad})`
+        );
+      }
+
+      if (medicamento.dosisMaximaAcumulada) {
+        const { dosis: acumulada, unidadesOmitidas } = await this.getDosisAcumulada(
+          medicamentoId,
+          mezcla.pacienteDocumento,
+          unidad,
+          {
+            excluirProduccionId: mezcla.excluirProduccionId,
+            fechaProduccion: mezcla.fechaProduccion,
+            diasVentana: medicamento.diasDosisAcumulada,
+            mezclasOrden: mezcla.mezclasOrden
+          }
+        );
+        const total = Math.round((acumulada + dosis * (mezcla.cantidadMezclas || 1)) * 100) / 100;
+
+        if (total > medicamento.dosisMaximaAcumulada) {
+          warnings.push({
+            codigo: 'DOSIS_ACUMULADA_EXCEDIDA',
+            mensaje: `Dosis acumulada del paciente ${mezcla.pacienteDocumento} (${total} ${unidad}${medicamento.diasDosisAcumulada ? ` en ${medicamento.diasDosisAcumulada} días` : ''}) supera el máximo acumulado de ${medicamento.nombre} (${medicamento.dosisMaximaAcumulada} ${unidad})`
+          });
+        }
+
+        if (unidadesOmitidas.length > 0) {
+          warnings.push({
+            codigo: 'DOSIS_ACUMULADA_INCOMPLETA',
+            mensaje: `La dosis acumulada del paciente ${mezcla.pacienteDocumento} no incluye ${unidadesOmitidas.length} mezcla(s) anteriores de ${medicamento.nombre} en unidades no convertibles a ${unidad} (${[...new Set(unidadesOmitidas)].join(', ')})`
+          });
+        }
+      }
+    }
+
+    if (mezcla.concentracionFinal !== undefined && mezcla.concentracionFinal !== null) {
+      if (medicamento.concentracionFinalMin && mezcla.concentracionFinal < medicamento.concentracionFinalMin) {
+        errors.push(
+          `Concentración final ${mezcla.concentracionFinal}/ml por debajo del mínimo permitido (${medicamento.concentracionFinalMin}/ml)`
+        );
+      }
+      if (medicamento.concentracionFinalMax && mezcla.concentracionFinal > medicamento.concentracionFinalMax) {
+        errors.push(
+          `Concentración final ${mezcla.concentracionFinal}/ml supera el máximo permitido (${medicamento.concentracionFinalMax}/ml)`
+        );
+      }
+    }
+
+    if (mezcla.topeAplicado) {
+      warnings.push({
+        codigo: 'DOSIS_CON_TOPE',
+        mensaje: `La dosis de ${medicamento.nombre} fue limitada por un tope de superficie corporal, TFG o dosis máxima`
+      });
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+      warnings
+    };
+  }
+
   /**
    * Valida todo el dominio farmacéutico completo
-   * Si falla cualquier validación → bloquea el proceso
+   * Si falla cualquier validación bloqueante → bloquea el proceso
+   * Las advertencias se devuelven para que un QF las acepte con motivo
    */
   async validateCompleteDomain(data: ProductionValidationData): Promise<ValidationResult> {
     const allErrors: string[] = [];
@@ -163,13 +347,24 @@ export class DomainValidationService {
       allErrors.push(...estabilidadValidation.errors);
     }
     
+    // Validar límites clínicos de la mezcla
+    let warnings: AdvertenciaValidacion[] = [];
+    if (data.mezcla) {
+      const clinicaValidation = await this.validateClinicalLimits(data.medicamentoId, data.mezcla);
+      if (!clinicaValidation.isValid) {
+        allErrors.push(...clinicaValidation.errors);
+      }
+      warnings = clinicaValidation.warnings || [];
+    }
+    
     if (allErrors.length > 0) {
       throw new ResponseError(400, `Validación fallida: ${allErrors.join('; ')}`);
     }
     
     return {
       isValid: true,
-      errors: []
+      errors: [],
+      warnings
     };
   }
 }
@@ -202,7 +202,7 @@ export class AuditService {
           .lean();
       } else if (entidad === 'Document') {
         entities = await Model.find({ _id: { $in: entidadIds } })
-          .select('_id tipo productionId fileUrl')
+          .select('_id tipo productionId versionPlantilla')
           .limit(100)
           .sort({ createdAt: -1 })
           .lean();
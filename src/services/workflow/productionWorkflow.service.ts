@@ -1,9 +1,46 @@
-import { Types } from 'mongoose';
+import mongoose, { Types } from 'mongoose';
 import dayjs from 'dayjs';
-import { Production, IProduction, ProductionState } from '@/models/Production.model';
-import { UserRole } from '@/models/User.model';
+import { Production, IProduction, IMezcla, ProductionState, EstadoMezcla } from '@/models/Production.model';
+import { User, UserRole } from '@/models/User.model';
+import { ScheduleAssignment } from '@/models/ScheduleAssignment.model';
+import { GLOBAL_ENV } from '@/shared/constants';
 import { ResponseError } from '@/utils/erros';
 import { auditService } from './audit.service';
+import { calculationEngineService } from '@/services/calculation/calculationEngine.service';
+import { signatureService, DatosFirma } from '@/services/signature/signature.service';
+import { ISignature } from '@/models/Signature.model';
+import { inventoryService, MovimientoOrden } from '@/services/inventory/inventory.service';
+
+export type FuncionFarmaceutica = 'esInterpretacion' | 'esProduccion' | 'esCalidad';
+
+/**
+ * Regla de segregación de funciones
+ * Aplica al pasar la orden a `estado` o una mezcla a `estadoMezcla`
+ */
+export interface ReglaSegregacion {
+  estado?: ProductionState;
+  estadoMezcla?: EstadoMezcla;
+  distintoDe?: ProductionState[]; // El usuario no puede ser quien registró estas etapas de la orden
+  distintoDeMezcla?: EstadoMezcla[]; // El usuario no puede ser quien marcó la mezcla en estos estados
+  funcion?: FuncionFarmaceutica; // Función farmacéutica que debe tener habilitada el usuario
+}
+
+/**
+ * Reglas por defecto (BPM): quien valida no es quien creó, quien aprueba QC no es quien produjo
+ */
+const DEFAULT_SEGREGATION_RULES: ReglaSegregacion[] = [
+  { estado: 'VALIDADO', distintoDe: ['CREADO'], funcion: 'esInterpretacion' },
+  { estado: 'PRODUCIDO', funcion: 'esProduccion' },
+  { estado: 'QC', distintoDe: ['PRODUCIDO'], funcion: 'esCalidad' },
+  { estadoMezcla: 'QC_APROBADA', distintoDe: ['PRODUCIDO'], distintoDeMezcla: ['PREPARADA'], funcion: 'esCalidad' },
+  { estadoMezcla: 'RECHAZADA', distintoDe: ['PRODUCIDO'], distintoDeMezcla: ['PREPARADA'], funcion: 'esCalidad' }
+];
+
+const NOMBRES_FUNCION: Record<FuncionFarmaceutica, string> = {
+  esInterpretacion: 'QF de interpretación',
+  esProduccion: 'QF de producción',
+  esCalidad: 'QF de calidad'
+};
 
 /**
  * Servicio de flujo de trabajo (Workflow) para producciones
@@ -11,7 +48,7 @@ import { auditService } from './audit.service';
  */
 export class ProductionWorkflowService {
   /**
-   * Estados válidos y sus transiciones permitidas
+   * Estados válidos y sus transiciones de avance
    */
   private readonly STATE_TRANSITIONS: Record<ProductionState, ProductionState[]> = {
     CREADO: ['VALIDADO'],
@@ -21,9 +58,35 @@ export class ProductionWorkflowService {
     PRODUCIDO: ['QC'],
     QC: ['ETIQUETADO'],
     ETIQUETADO: ['FINALIZADO'],
-    FINALIZADO: [] // Estado final, no se puede avanzar
+    FINALIZADO: [], // Estado final, no se puede avanzar
+    RECHAZADO: [], // Solo sale por reproceso o anulación
+    ANULADO: [] // Estado final
   };
 
+  /**
+   * Rechazos, retornos (reproceso) y anulaciones
+   * Requieren motivo obligatorio y quedan registrados como novedad de la producción
+   */
+  private readonly BRANCH_TRANSITIONS: Record<ProductionState, ProductionState[]> = {
+    CREADO: ['ANULADO'],
+    VALIDADO: ['CREADO', 'ANULADO'],
+    CALCULADO: ['VALIDADO', 'ANULADO'],
+    PROGRAMADO: ['CALCULADO', 'ANULADO'],
+    PRODUCIDO: ['RECHAZADO'],
+    QC: ['PRODUCIDO', 'RECHAZADO'],
+    ETIQUETADO: ['QC'],
+    FINALIZADO: [],
+    RECHAZADO: ['PROGRAMADO', 'ANULADO'], // Reproceso: se vuelve a programar la preparación
+    ANULADO: []
+  };
+
+  /**
+   * Orden del flujo principal, usado para limpiar las etapas posteriores en un retorno
+   */
+  private readonly MAIN_FLOW: ProductionState[] = [
+    'CREADO', 'VALIDADO', 'CALCULADO', 'PROGRAMADO', 'PRODUCIDO', 'QC', 'ETIQUETADO', 'FINALIZADO'
+  ];
+
   /**
    * Roles permitidos para cada transición
    */
@@ -35,9 +98,197 @@ export class ProductionWorkflowService {
     PRODUCIDO: ['QUIMICO', 'COORDINADOR'],
     QC: ['QUIMICO', 'COORDINADOR'],
     ETIQUETADO: ['AUXILIAR', 'QUIMICO', 'COORDINADOR'],
-    FINALIZADO: ['COORDINADOR']
+    FINALIZADO: ['COORDINADOR'],
+    RECHAZADO: ['QUIMICO', 'COORDINADOR'],
+    ANULADO: ['COORDINADOR']
+  };
+
+  /**
+   * Roles que pueden devolver una producción a una etapa anterior
+   */
+  private readonly BRANCH_ROLES: UserRole[] = ['QUIMICO', 'COORDINADOR'];
+
+  /**
+   * Transiciones de cada mezcla: estados de origen, estado de la orden en que se permiten y roles
+   */
+  private readonly MEZCLA_TRANSITIONS: Record<
+    Exclude<EstadoMezcla, 'PENDIENTE'>,
+    { desde: EstadoMezcla[]; estadoOrden: ProductionState; roles: UserRole[] }
+  > = {
+    PREPARADA: { desde: ['PENDIENTE', 'RECHAZADA'], estadoOrden: 'PROGRAMADO', roles: ['AUXILIAR', 'QUIMICO', 'COORDINADOR'] },
+    QC_APROBADA: { desde: ['PREPARADA'], estadoOrden: 'PRODUCIDO', roles: ['QUIMICO', 'COORDINADOR'] },
+    RECHAZADA: { desde: ['PREPARADA', 'QC_APROBADA'], estadoOrden: 'PRODUCIDO', roles: ['QUIMICO', 'COORDINADOR'] },
+    ETIQUETADA: { desde: ['QC_APROBADA'], estadoOrden: 'QC', roles: ['AUXILIAR', 'QUIMICO', 'COORDINADOR'] }
   };
 
+  /**
+   * Reglas de segregación de funciones (configurables con SEGREGATION_RULES)
+   * Se cargan después de las transiciones porque se validan contra sus estados
+   */
+  private readonly SEGREGATION_RULES: ReglaSegregacion[] = this.loadSegregationRules();
+
+  /**
+   * Estado al que vuelven las mezclas cuando la orden retorna a una etapa anterior
+   * (PROGRAMADO no reinicia: en un reproceso solo se preparan de nuevo las rechazadas)
+   */
+  private readonly MEZCLA_RESET_ON_RETURN: Partial<Record<ProductionState, Partial<Record<EstadoMezcla, EstadoMezcla>>>> = {
+    CREADO: { PREPARADA: 'PENDIENTE', QC_APROBADA: 'PENDIENTE', RECHAZADA: 'PENDIENTE', ETIQUETADA: 'PENDIENTE' },
+    VALIDADO: { PREPARADA: 'PENDIENTE', QC_APROBADA: 'PENDIENTE', RECHAZADA: 'PENDIENTE', ETIQUETADA: 'PENDIENTE' },
+    CALCULADO: { PREPARADA: 'PENDIENTE', QC_APROBADA: 'PENDIENTE', RECHAZADA: 'PENDIENTE', ETIQUETADA: 'PENDIENTE' },
+    PRODUCIDO: { QC_APROBADA: 'PREPARADA', ETIQUETADA: 'PREPARADA' },
+    QC: { ETIQUETADA: 'QC_APROBADA' }
+  };
+
+  /**
+   * Revisa una regla configurada contra los estados y funciones conocidos
+   * Un estado o función mal escrito dejaría la regla sin efecto sin que nadie lo note
+   * @returns Los errores encontrados (vacío si la regla es válida)
+   */
+  private checkSegregationRule(regla: any, index: number): string[] {
+    const prefijo = `Regla ${index}`;
+    if (!regla || typeof regla !== 'object' || Array.isArray(regla)) {
+      return [`${prefijo}: debe ser un objeto`];
+    }
+
+    const estados = Object.keys(this.STATE_TRANSITIONS);
+    const estadosMezcla = Object.keys(this.MEZCLA_TRANSITIONS);
+    const funciones = Object.keys(NOMBRES_FUNCION);
+    const campos = ['estado', 'estadoMezcla', 'distintoDe', 'distintoDeMezcla', 'funcion'];
+    const errores: string[] = [];
+
+    Object.keys(regla)
+      .filter(campo => !campos.includes(campo))
+      .forEach(campo => errores.push(`${prefijo}: campo desconocido ${campo}`));
+
+    if ((regla.estado === undefined) === (regla.estadoMezcla === undefined)) {
+      errores.push(`${prefijo}: debe tener estado o estadoMezcla (solo uno)`);
+    }
+    if (regla.estado !== undefined && !estados.includes(regla.estado)) {
+      errores.push(`${prefijo}: estado ${regla.estado} no existe (${estados.join(', ')})`);
+    }
+    if (regla.estadoMezcla !== undefined && !estadosMezcla.includes(regla.estadoMezcla)) {
+      errores.push(`${prefijo}: estadoMezcla ${regla.estadoMezcla} no existe (${estadosMezcla.join(', ')})`);
+    }
+
+    const listas: [string, string[]][] = [['distintoDe', estados], ['distintoDeMezcla', estadosMezcla]];
+    listas.forEach(([campo, validos]) => {
+      const valor = regla[campo];
+      if (valor === undefined) return;
+      if (!Array.isArray(valor)) {
+        errores.push(`${prefijo}: ${campo} debe ser un arreglo`);
+        return;
+      }
+      valor
+        .filter(estado => !validos.includes(estado))
+        .forEach(estado => errores.push(`${prefijo}: ${campo} tiene el estado ${estado}, que no existe (${validos.join(', ')})`));
+    });
+
+    if (regla.funcion !== undefined && !funciones.includes(regla.funcion)) {
+      errores.push(`${prefijo}: funcion ${regla.funcion} no existe (${funciones.join(', ')})`);
+    }
+    if (regla.distintoDe === undefined && regla.distintoDeMezcla === undefined && regla.funcion === undefined) {
+      errores.push(`${prefijo}: no exige nada (defina distintoDe, distintoDeMezcla o funcion)`);
+    }
+
+    return errores;
+  }
+
+  /**
+   * Carga las reglas de segregación desde configuración, o las reglas por defecto si no se definen
+   * Una configuración inválida detiene el arranque: seguir con otras reglas cambiaría quién puede firmar cada etapa
+   */
+  private loadSegregationRules(): ReglaSegregacion[] {
+    if (!GLOBAL_ENV.SEGREGATION_RULES) {
+      return DEFAULT_SEGREGATION_RULES;
+    }
+
+    let reglas: unknown;
+    try {
+      reglas = JSON.parse(GLOBAL_ENV.SEGREGATION_RULES);
+    } catch (error) {
+      throw new Error(`SEGREGATION_RULES no es un JSON válido: ${(error as Error).message}`);
+    }
+    if (!Array.isArray(reglas)) {
+      throw new Error('SEGREGATION_RULES debe ser un arreglo de reglas');
+    }
+
+    const errores = reglas.flatMap((regla, index) => this.checkSegregationRule(regla, index));
+    if (errores.length > 0) {
+      throw new Error(`SEGREGATION_RULES inválido:\n- ${errores.join('\n- ')}`);
+    }
+
+    return reglas as ReglaSegregacion[];
+  }
+
+  /**
+   * Valida la segregación de funciones para una transición de la orden o de una mezcla
+   * @param production - Producción antes del cambio
+   * @param destino - Estado destino de la orden o de la mezcla
+   * @param mezcla - Mezcla afectada (solo para transiciones de mezcla)
+   */
+  private async validateSegregation(
+    production: IProduction,
+    destino: { estado?: ProductionState; estadoMezcla?: EstadoMezcla },
+    userId: Types.ObjectId,
+    mezcla?: IMezcla
+  ): Promise<void> {
+    const reglas = this.SEGREGATION_RULES.filter(regla =>
+      destino.estado ? regla.estado === destino.estado : regla.estadoMezcla === destino.estadoMezcla
+    );
+
+    if (reglas.length === 0) return;
+
+    const usuario = userId.toString();
+
+    for (const regla of reglas) {
+      for (const etapa of regla.distintoDe || []) {
+        const responsable = (production as any)[`${etapa.toLowerCase()}Por`];
+        if (responsable && responsable.toString() === usuario) {
+          throw new ResponseError(
+            403,
+            `Segregación de funciones: quien registró ${etapa} no puede registrar ${destino.estado || destino.estadoMezcla}`
+          );
+        }
+      }
+
+      for (const estadoMezcla of regla.distintoDeMezcla || []) {
+        const registro = (mezcla?.historialEstado || []).filter(h => h.estadoNuevo === estadoMezcla).pop();
+        if (registro && registro.usuarioId.toString() === usuario) {
+          throw new ResponseError(
+            403,
+            `Segregación de funciones: quien marcó la mezcla como ${estadoMezcla} no puede marcarla como ${destino.estadoMezcla}`
+          );
+        }
+      }
+    }
+
+    const funciones = reglas
+      .map(regla => regla.funcion)
+      .filter((funcion): funcion is FuncionFarmaceutica => !!funcion);
+
+    if (funciones.length === 0) return;
+
+    const user = await User.findById(userId).select('esInterpretacion esProduccion esCalidad');
+    if (!user) {
+      throw new ResponseError(404, 'Usuario no encontrado');
+    }
+
+    const faltante = funciones.find(funcion => !user[funcion]);
+    if (faltante) {
+      throw new ResponseError(
+        403,
+        `Segregación de funciones: el usuario no está habilitado como ${NOMBRES_FUNCION[faltante]}`
+      );
+    }
+  }
+
+  /**
+   * Indica si la transición es un rechazo, retorno o anulación
+   */
+  isBranchTransition(currentState: ProductionState, newState: ProductionState): boolean {
+    return (this.BRANCH_TRANSITIONS[currentState] || []).includes(newState);
+  }
+
   /**
    * Valida si una transición de estado es permitida
    */
@@ -45,7 +296,10 @@ export class ProductionWorkflowService {
     currentState: ProductionState,
     newState: ProductionState
   ): void {
-    const allowedStates = this.STATE_TRANSITIONS[currentState];
+    const allowedStates = [
+      ...(this.STATE_TRANSITIONS[currentState] || []),
+      ...(this.BRANCH_TRANSITIONS[currentState] || [])
+    ];
     
     if (!allowedStates.includes(newState)) {
       throw new ResponseError(
@@ -60,18 +314,74 @@ export class ProductionWorkflowService {
    */
   private validateRolePermission(
     state: ProductionState,
-    userRole: UserRole
+    userRole: UserRole,
+    isBranch: boolean = false
   ): void {
-    const allowedRoles = this.ROLE_PERMISSIONS[state];
+    const allowedRoles = isBranch
+      ? this.ROLE_PERMISSIONS[state].filter(role => this.BRANCH_ROLES.includes(role))
+      : this.ROLE_PERMISSIONS[state];
     
     if (!allowedRoles.includes(userRole)) {
       throw new ResponseError(
         403,
-        `El rol ${userRole} no tiene permisos para realizar acciones en el estado ${state}`
+        isBranch
+          ? `El rol ${userRole} no tiene permisos para devolver, rechazar o anular producciones hacia ${state}`
+          : `El rol ${userRole} no tiene permisos para realizar acciones en el estado ${state}`
       );
     }
   }
 
+  /**
+   * Estado de una mezcla (las mezclas anteriores al seguimiento individual se consideran pendientes)
+   */
+  private getEstadoMezcla(mezcla: IMezcla): EstadoMezcla {
+    return mezcla.estado || 'PENDIENTE';
+  }
+
+  /**
+   * Valida que el estado agregado de las mezclas permita el avance de la orden
+   * - PRODUCIDO: todas preparadas (las rechazadas deben prepararse de nuevo)
+   * - QC: todas revisadas y al menos una aprobada
+   * - ETIQUETADO: todas las aprobadas etiquetadas
+   */
+  private validateMezclasAggregate(mezclas: IMezcla[], newState: ProductionState): void {
+    const conteo = (estados: EstadoMezcla[]) =>
+      mezclas.filter(mezcla => estados.includes(this.getEstadoMezcla(mezcla))).length;
+
+    if (newState === 'PRODUCIDO') {
+      const pendientes = conteo(['PENDIENTE', 'RECHAZADA']);
+      if (pendientes > 0) {
+        throw new ResponseError(400, `Hay ${pendientes} mezcla(s) sin preparar`);
+      }
+    }
+
+    if (newState === 'QC') {
+      const sinRevisar = conteo(['PENDIENTE', 'PREPARADA']);
+      if (sinRevisar > 0) {
+        throw new ResponseError(400, `Hay ${sinRevisar} mezcla(s) sin revisión de QC`);
+      }
+      if (conteo(['QC_APROBADA', 'ETIQUETADA']) === 0) {
+        throw new ResponseError(400, 'Todas las mezclas fueron rechazadas en QC, la orden debe pasar a RECHAZADO');
+      }
+    }
+
+    if (newState === 'ETIQUETADO') {
+      const sinEtiquetar = conteo(['QC_APROBADA']);
+      if (sinEtiquetar > 0) {
+        throw new ResponseError(400, `Hay ${sinEtiquetar} mezcla(s) aprobadas sin etiquetar`);
+      }
+    }
+  }
+
+  /**
+   * Acción de auditoría para transiciones fuera del flujo principal
+   */
+  private getBranchAction(newState: ProductionState): string {
+    if (newState === 'ANULADO') return 'CANCELLATION';
+    if (newState === 'RECHAZADO') return 'REJECTION';
+    return 'STATE_RETURN';
+  }
+
   /**
    * Obtiene el siguiente estado válido desde el estado actual
    */
@@ -88,7 +398,9 @@ export class ProductionWorkflowService {
     productionId: Types.ObjectId,
     newState: ProductionState,
     userId: Types.ObjectId,
-    userRole: UserRole
+    userRole: UserRole,
+    motivo?: string,
+    firma?: DatosFirma
   ): Promise<IProduction> {
     // Obtener producción
     const production = await Production.findById(productionId);
@@ -98,40 +410,191 @@ export class ProductionWorkflowService {
 
     // Validar transición
     this.validateTransition(production.estado, newState);
+
+    const isBranch = this.isBranchTransition(production.estado, newState);
+    const motivoNormalizado = (motivo || '').trim();
+
+    if (isBranch && !motivoNormalizado) {
+      throw new ResponseError(
+        400,
+        `Debe indicar el motivo para pasar de ${production.estado} a ${newState}`
+      );
+    }
     
     // Validar permisos del rol
-    this.validateRolePermission(newState, userRole);
+    this.validateRolePermission(newState, userRole, isBranch);
+
+    // Segregación de funciones (solo en el avance; los retornos no registran responsable)
+    if (!isBranch) {
+      await this.validateSegregation(production, { estado: newState }, userId);
+    }
+
+    // No se puede validar con advertencias clínicas sin aceptar
+    if (newState === 'VALIDADO' && !isBranch) {
+      const pendientes = production.mezclas.filter(
+        mezcla => (mezcla.advertencias || []).some(a => !a.aceptada)
+      ).length;
+      if (pendientes > 0) {
+        throw new ResponseError(
+          400,
+          `Hay ${pendientes} mezcla(s) con advertencias clínicas pendientes de aceptar por un QF`
+        );
+      }
+    }
+
+    // El avance de la orden depende del estado agregado de sus mezclas
+    if (!isBranch) {
+      this.validateMezclasAggregate(production.mezclas, newState);
+    }
+
+    // Transiciones críticas: reautenticación antes de cambiar el estado
+    const requiereFirma = !isBranch && signatureService.requiresSignature(newState);
+    if (requiereFirma) {
+      await signatureService.verifySigner(userId, firma);
+    }
 
     // Preparar actualización
+    const fechaTransicion = dayjs().toDate();
     const updateData: any = {
-      estado: newState,
-      [`timestamps.${newState.toLowerCase()}`]: dayjs().toDate()
+      estado: newState
     };
+    const unsetData: Record<string, ''> = {};
+    const isReturn = isBranch && this.MAIN_FLOW.includes(newState);
 
-    // Asignar usuario según el estado
-    const stateUserField = `${newState.toLowerCase()}Por`;
-    updateData[stateUserField] = userId;
+    if (isReturn) {
+      // Retorno: la etapa destino conserva su registro y las posteriores se limpian para repetirse
+      this.MAIN_FLOW.slice(this.MAIN_FLOW.indexOf(newState) + 1).forEach(state => {
+        unsetData[`timestamps.${state.toLowerCase()}`] = '';
+        unsetData[`${state.toLowerCase()}Por`] = '';
+      });
+    } else {
+      updateData[`timestamps.${newState.toLowerCase()}`] = fechaTransicion;
+      // Asignar usuario según el estado
+      updateData[`${newState.toLowerCase()}Por`] = userId;
+    }
 
-    // Actualizar producción
-    const updatedProduction = await Production.findByIdAndUpdate(
-      productionId,
-      { $set: updateData },
-      { new: true }
-    ).populate('creadoPor validadoPor calculadoPor programadoPor producidoPor qcPor etiquetadoPor finalizadoPor', 'username nombre tipoUsuario cargo identificacion tarjetaProfesional rolSistema');
+    const pushData: Record<string, any> = {};
 
-    if (!updatedProduction) {
-      throw new ResponseError(500, 'Error al actualizar la producción');
+    // En un retorno las mezclas vuelven a la etapa correspondiente para repetirla
+    const resetMezclas = isReturn ? this.MEZCLA_RESET_ON_RETURN[newState] : undefined;
+    if (resetMezclas) {
+      production.mezclas.forEach((mezcla, index) => {
+        const estadoAnterior = this.getEstadoMezcla(mezcla);
+        const estadoNuevo = resetMezclas[estadoAnterior];
+        if (!estadoNuevo) return;
+
+        updateData[`mezclas.${index}.estado`] = estadoNuevo;
+        pushData[`mezclas.${index}.historialEstado`] = {
+          estadoAnterior,
+          estadoNuevo,
+          usuarioId: userId,
+          fecha: fechaTransicion,
+          motivo: `Retorno de la orden a ${newState}: ${motivoNormalizado}`
+        };
+      });
+    }
+
+    if (isBranch) {
+      pushData.novedadesEstado = {
+        estadoAnterior: production.estado,
+        estadoNuevo: newState,
+        motivo: motivoNormalizado,
+        usuarioId: userId,
+        fecha: fechaTransicion
+      };
+    }
+
+    // Una orden anulada o devuelta antes de programar libera su turno y su stock reservado
+    const liberaTurno = newState === 'ANULADO' ||
+      (isReturn && this.MAIN_FLOW.indexOf(newState) < this.MAIN_FLOW.indexOf('PROGRAMADO'));
+
+    // Estado, existencias, kardex, liberación del turno y firma se confirman juntos: si algo falla no cambia nada
+    let updatedProduction!: IProduction;
+    let signature: ISignature | undefined;
+    let inventario: MovimientoOrden | undefined;
+    await mongoose.connection.transaction(async (session) => {
+      // Inventario: se reserva al programar, se consume al producir y se libera al anular o devolver
+      if (newState === 'PROGRAMADO') {
+        inventario = await inventoryService.reserveForProduction(production, session);
+      } else if (newState === 'PRODUCIDO' && !isBranch) {
+        inventario = await inventoryService.consumeForProduction(production, session);
+      } else if (liberaTurno) {
+        inventario = await inventoryService.releaseForProduction(production, session);
+      }
+
+      const setData = { ...updateData };
+      Object.entries(inventario?.lotesPorMezcla || {}).forEach(([index, lotes]) => {
+        setData[`mezclas.${index}.lotesInsumo`] = lotes;
+      });
+
+      const update: any = { $set: setData };
+
+      if (Object.keys(unsetData).length > 0) {
+        update.$unset = unsetData;
+      }
+
+      if (Object.keys(pushData).length > 0) {
+        update.$push = pushData;
+      }
+
+      // Actualizar producción (el estado actual en el filtro evita carreras con otra transición)
+      const actualizada = await Production.findOneAndUpdate(
+        { _id: productionId, estado: production.estado },
+        update,
+        { new: true, session }
+      ).populate('creadoPor validadoPor calculadoPor programadoPor producidoPor qcPor etiquetadoPor finalizadoPor rechazadoPor anuladoPor', 'username nombre tipoUsuario cargo identificacion tarjetaProfesional rolSistema');
+
+      if (!actualizada) {
+        throw new ResponseError(409, 'La producción cambió de estado durante la operación, intente de nuevo');
+      }
+      updatedProduction = actualizada;
+
+      if (inventario) {
+        await inventoryService.recordMovements(
+          inventario.operaciones,
+          productionId,
+          userId,
+          isBranch ? `Orden ${newState}: ${motivoNormalizado}` : undefined,
+          session
+        );
+      }
+
+      if (liberaTurno) {
+        await ScheduleAssignment.updateMany(
+          { productionId, activa: true },
+          {
+            $set: {
+              activa: false,
+              liberadaPor: userId,
+              fechaLiberacion: fechaTransicion,
+              motivoLiberacion: `Orden ${newState}: ${motivoNormalizado}`
+            }
+          },
+          { session }
+        );
+      }
+
+      // La firma queda ligada al contenido de la orden ya en el nuevo estado
+      if (requiereFirma) {
+        signature = await signatureService.sign(productionId, newState, userId, firma!.significado, session);
+      }
+    });
+
+    if (signature) {
+      await signatureService.logSignature(signature);
     }
 
-    // Registrar en auditoría
+    // Registrar en auditoría (rechazos, retornos y anulaciones con su causa)
     await auditService.logAction(
       'Production',
       productionId,
-      'STATE_TRANSITION',
+      isBranch ? this.getBranchAction(newState) : 'STATE_TRANSITION',
       {
         estadoAnterior: production.estado,
         estadoNuevo: newState,
-        usuarioId: userId.toString()
+        usuarioId: userId.toString(),
+        ...(isBranch && { motivo: motivoNormalizado }),
+        ...(inventario?.advertencias.length && { advertenciasInventario: inventario.advertencias })
       },
       userId
     );
@@ -145,13 +608,16 @@ export class ProductionWorkflowService {
   async validateProduction(
     productionId: Types.ObjectId,
     userId: Types.ObjectId,
-    userRole: UserRole
+    userRole: UserRole,
+    firma?: DatosFirma
   ): Promise<IProduction> {
     return await this.transitionToState(
       productionId,
       'VALIDADO',
       userId,
-      userRole
+      userRole,
+      undefined,
+      firma
     );
   }
 
@@ -209,13 +675,16 @@ export class ProductionWorkflowService {
   async approveQC(
     productionId: Types.ObjectId,
     userId: Types.ObjectId,
-    userRole: UserRole
+    userRole: UserRole,
+    firma?: DatosFirma
   ): Promise<IProduction> {
     return await this.transitionToState(
       productionId,
       'QC',
       userId,
-      userRole
+      userRole,
+      undefined,
+      firma
     );
   }
 
@@ -241,13 +710,164 @@ export class ProductionWorkflowService {
   async finalizeProduction(
     productionId: Types.ObjectId,
     userId: Types.ObjectId,
-    userRole: UserRole
+    userRole: UserRole,
+    firma?: DatosFirma
   ): Promise<IProduction> {
     return await this.transitionToState(
       productionId,
       'FINALIZADO',
       userId,
-      userRole
+      userRole,
+      undefined,
+      firma
+    );
+  }
+
+  /**
+   * Cambia el estado de una mezcla de la orden
+   * Registra quién y cuándo; al prepararla fija el vencimiento desde ese momento
+   */
+  async transitionMezcla(
+    productionId: Types.ObjectId,
+    mezclaIndex: number,
+    newState: EstadoMezcla,
+    userId: Types.ObjectId,
+    userRole: UserRole,
+    motivo?: string
+  ): Promise<IProduction> {
+    const production = await Production.findById(productionId);
+    if (!production) {
+      throw new ResponseError(404, 'Producción no encontrada');
+    }
+
+    const mezcla = production.mezclas[mezclaIndex];
+    if (!mezcla) {
+      throw new ResponseError(404, `Mezcla ${mezclaIndex} no encontrada`);
+    }
+
+    const regla = this.MEZCLA_TRANSITIONS[newState as Exclude<EstadoMezcla, 'PENDIENTE'>];
+    if (!regla) {
+      throw new ResponseError(400, `Estado de mezcla no válido: ${newState}`);
+    }
+
+    const estadoAnterior = this.getEstadoMezcla(mezcla);
+
+    if (!regla.desde.includes(estadoAnterior)) {
+      throw new ResponseError(
+        400,
+        `Transición de mezcla no permitida: no se puede pasar de ${estadoAnterior} a ${newState}`
+      );
+    }
+
+    if (production.estado !== regla.estadoOrden) {
+      throw new ResponseError(
+        400,
+        `La mezcla solo puede pasar a ${newState} con la orden en estado ${regla.estadoOrden} (actual: ${production.estado})`
+      );
+    }
+
+    if (!regla.roles.includes(userRole)) {
+      throw new ResponseError(403, `El rol ${userRole} no tiene permisos para marcar mezclas como ${newState}`);
+    }
+
+    await this.validateSegregation(production, { estadoMezcla: newState }, userId, mezcla);
+
+    const motivoNormalizado = (motivo || '').trim();
+    if (newState === 'RECHAZADA' && !motivoNormalizado) {
+      throw new ResponseError(400, 'Debe indicar el motivo del rechazo de la mezcla');
+    }
+
+    const fecha = dayjs().toDate();
+    const updateData: any = {
+      [`mezclas.${mezclaIndex}.estado`]: newState
+    };
+
+    // El vencimiento se cuenta desde el momento real de la preparación de la mezcla
+    if (newState === 'PREPARADA' && mezcla.estabilidad?.horasEstabilidad) {
+      updateData[`mezclas.${mezclaIndex}.fechaVencimiento`] = calculationEngineService.calculateFechaVencimiento(
+        mezcla.estabilidad.horasEstabilidad,
+        fecha
+      );
+    }
+
+    // Las mezclas anteriores al seguimiento individual no tienen el campo estado
+    const filtroEstadoMezcla = estadoAnterior === 'PENDIENTE' ? { $in: ['PENDIENTE', null] } : estadoAnterior;
+
+    const updatedProduction = await Production.findOneAndUpdate(
+      {
+        _id: productionId,
+        estado: production.estado,
+        [`mezclas.${mezclaIndex}.estado`]: filtroEstadoMezcla
+      },
+      {
+        $set: updateData,
+        $push: {
+          [`mezclas.${mezclaIndex}.historialEstado`]: {
+            estadoAnterior,
+            estadoNuevo: newState,
+            usuarioId: userId,
+            fecha,
+            ...(motivoNormalizado && { motivo: motivoNormalizado })
+          }
+        }
+      },
+      { new: true }
+    );
+
+    if (!updatedProduction) {
+      throw new ResponseError(409, 'La mezcla cambió de estado durante la operación, intente de nuevo');
+    }
+
+    await auditService.logAction(
+      'Production',
+      productionId,
+      'MEZCLA_STATE_TRANSITION',
+      {
+        mezclaIndex,
+        loteMezcla: mezcla.loteMezcla,
+        estadoAnterior,
+        estadoNuevo: newState,
+        ...(motivoNormalizado && { motivo: motivoNormalizado })
+      },
+      userId
+    );
+
+    return updatedProduction;
+  }
+
+  /**
+   * Rechaza una producción (PRODUCIDO/QC → RECHAZADO)
+   */
+  async rejectProduction(
+    productionId: Types.ObjectId,
+    userId: Types.ObjectId,
+    userRole: UserRole,
+    motivo: string
+  ): Promise<IProduction> {
+    return await this.transitionToState(
+      productionId,
+      'RECHAZADO',
+      userId,
+      userRole,
+      motivo
+    );
+  }
+
+  /**
+   * Anula una producción (desde cualquier estado previo a producir, o rechazada)
+   */
+  async cancelProduction(
+    productionId: Types.ObjectId,
+    userId: Types.ObjectId,
+    userRole: UserRole,
+    motivo: string
+  ): Promise<IProduction> {
+    return await this.transitionToState(
+      productionId,
+      'ANULADO',
+      userId,
+      userRole,
+      motivo
     );
   }
 }
@@ -28,6 +28,36 @@ export const GLOBAL_ENV = {
     CLOUD_NAME: process.env.CLOUD_NAME as string,
     API_KEY_CLOUDINARY: process.env.API_KEY_CLOUDINARY as string,
     API_SECRET_CLOUDINARY: process.env.API_SECRET_CLOUDINARY as string,
+    // Segundos de validez de las URLs firmadas de los archivos privados (PDF) en Cloudinary
+    CLOUDINARY_URL_EXPIRATION: parseInt(process.env.CLOUDINARY_URL_EXPIRATION || '3600'),
+
+    // Almacenamiento de documentos y firmas: cloudinary, local o s3
+    STORAGE_DRIVER: (process.env.STORAGE_DRIVER || 'cloudinary') as string,
+    // Driver local: carpeta raíz y URL base si la carpeta se publica (si no, las URLs son file://)
+    STORAGE_LOCAL_PATH: (process.env.STORAGE_LOCAL_PATH || 'storage') as string,
+    STORAGE_LOCAL_URL: process.env.STORAGE_LOCAL_URL as string | undefined,
+    // Driver S3: S3_ENDPOINT solo para servicios compatibles (MinIO, R2...); sin S3_PUBLIC_URL las URLs son prefirmadas
+    S3_ENDPOINT: process.env.S3_ENDPOINT as string | undefined,
+    S3_REGION: (process.env.S3_REGION || 'us-east-1') as string,
+    S3_BUCKET: process.env.S3_BUCKET as string,
+    S3_ACCESS_KEY_ID: process.env.S3_ACCESS_KEY_ID as string,
+    S3_SECRET_ACCESS_KEY: process.env.S3_SECRET_ACCESS_KEY as string,
+    S3_FORCE_PATH_STYLE: process.env.S3_FORCE_PATH_STYLE as string | undefined,
+    S3_PUBLIC_URL: process.env.S3_PUBLIC_URL as string | undefined,
+    S3_URL_EXPIRATION: parseInt(process.env.S3_URL_EXPIRATION || '3600'),
+
+    // Formatos de codificación: {LINEA} y {SEQ:n} (obligatorios) y cualquier formato de dayjs entre llaves
+    PRODUCTION_CODE_FORMAT: (process.env.PRODUCTION_CODE_FORMAT || 'PROD-{LINEA}-{YYYYMMDD}-{SEQ:4}') as string,
+    LOTE_MEZCLA_FORMAT: (process.env.LOTE_MEZCLA_FORMAT || 'HG{YYMMDD}-{LINEA}-{SEQ:5}') as string,
+
+    // Reglas de segregación de funciones (JSON). Si no se define se usan las reglas por defecto del workflow
+    SEGREGATION_RULES: process.env.SEGREGATION_RULES as string | undefined,
+
+    // Stock insuficiente al programar: BLOQUEAR impide pasar a PROGRAMADO, ADVERTIR programa y registra la advertencia
+    INVENTORY_STOCK_POLICY: (process.env.INVENTORY_STOCK_POLICY || 'BLOQUEAR') as string,
+
+    // Diseño de etiquetas por línea (JSON, ej: {"ONCO": {"ancho": 100, "alto": 75}}). Lo no definido usa el diseño por defecto
+    LABEL_LAYOUTS: process.env.LABEL_LAYOUTS as string | undefined,
 
     FRONT_DOMAIN: process.env.FRONT_DOMAIN as string,
     ROUTER_SUBFIJE: process.env.ROUTER_SUBFIJE as string,
@@ -0,0 +1,136 @@
+import { describe, it, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { Types } from 'mongoose';
+import { Medicine } from '@/models/Medicine.model';
+import { Stability } from '@/models/Stability.model';
+import { Container } from '@/models/Container.model';
+import { calculationEngineService } from '@/services/calculation/calculationEngine.service';
+import { CalculationOptions, PresentacionDisponible } from '@/contracts/types/production.types';
+
+/**
+ * Regresión del motor de cálculo contra el libro de Excel de referencia
+ * Cada caso del archivo golden reproduce una fila del Excel con sus datos de catálogo;
+ * los modelos se simulan para que el motor calcule exactamente con esos datos.
+ * GOLDEN_FILE permite correr la suite contra otro archivo exportado del Excel.
+ */
+
+interface CasoGolden {
+  id: string;
+  descripcion?: string;
+  medicamento: {
+    concentracion: string;
+    presentaciones: PresentacionDisponible[];
+    concentracionFinalMin?: number;
+    concentracionFinalMax?: number;
+  };
+  envase: {
+    volumenesEstandar?: number[];
+    volumenMax?: number;
+  };
+  horasEstabilidad: number;
+  dosisPrescrita: number;
+  unidadDosis: string;
+  opciones?: CalculationOptions;
+  esperado: {
+    volumenExtraer: number;
+    unidadesInsumo: number;
+    volumenTotal: number;
+  };
+  tolerancia?: number; // Sobrescribe la tolerancia general para este caso
+}
+
+interface ArchivoGolden {
+  descripcion?: string;
+  versionesCertificadas: string[];
+  tolerancia: number; // Diferencia máxima en ml por redondeo
+  casos: CasoGolden[];
+}
+
+const archivo = process.env.GOLDEN_FILE
+  ? path.resolve(process.env.GOLDEN_FILE)
+  : path.join(__dirname, 'fixtures', 'calculationEngine.golden.json');
+
+const golden: ArchivoGolden = JSON.parse(fs.readFileSync(archivo, 'utf8'));
+
+// El caso en ejecución; los modelos simulados leen de aquí
+let casoActual: CasoGolden;
+
+const diferencias = (caso: CasoGolden, obtenido: CasoGolden['esperado']): string[] => {
+  const tolerancia = caso.tolerancia ?? golden.tolerancia;
+  const errores: string[] = [];
+
+  (['volumenExtraer', 'volumenTotal'] as const).forEach(campo => {
+    if (Math.abs(obtenido[campo] - caso.esperado[campo]) > tolerancia + Number.EPSILON) {
+      errores.push(`${campo}: esperado ${caso.esperado[campo]}, obtenido ${obtenido[campo]} (tolerancia ${tolerancia})`);
+    }
+  });
+
+  // Las unidades abiertas no admiten redondeo
+  if (obtenido.unidadesInsumo !== caso.esperado.unidadesInsumo) {
+    errores.push(`unidadesInsumo: esperado ${caso.esperado.unidadesInsumo}, obtenido ${obtenido.unidadesInsumo}`);
+  }
+
+  return errores;
+};
+
+describe(`Motor de cálculo v${calculationEngineService.getVersion()} contra ${path.basename(archivo)}`, () => {
+  before(() => {
+    mock.method(Medicine as any, 'findById', async () => ({
+      concentracion: casoActual.medicamento.concentracion,
+      presentaciones: casoActual.medicamento.presentaciones,
+      concentracionFinalMin: casoActual.medicamento.concentracionFinalMin,
+      concentracionFinalMax: casoActual.medicamento.concentracionFinalMax
+    }));
+    mock.method(Stability as any, 'findOne', async () => ({
+      horasEstabilidad: casoActual.horasEstabilidad
+    }));
+    mock.method(Container as any, 'findById', async () => ({
+      volumenesEstandar: casoActual.envase.volumenesEstandar || [],
+      volumenMax: casoActual.envase.volumenMax
+    }));
+  });
+
+  after(() => {
+    mock.restoreAll();
+  });
+
+  it('el archivo golden tiene casos', () => {
+    assert.ok(golden.casos.length > 0, `${archivo} no contiene casos`);
+  });
+
+  golden.casos.forEach(caso => {
+    it(`${caso.id}${caso.descripcion ? ` - ${caso.descripcion}` : ''}`, async () => {
+      casoActual = caso;
+
+      const resultado = await calculationEngineService.calculateFromDatabase(
+        new Types.ObjectId(),
+        new Types.ObjectId(),
+        new Types.ObjectId(),
+        new Types.ObjectId(),
+        caso.dosisPrescrita,
+        caso.unidadDosis,
+        caso.opciones
+      );
+
+      const errores = diferencias(caso, {
+        volumenExtraer: resultado.volumenExtraer,
+        unidadesInsumo: resultado.unidadesInsumo,
+        volumenTotal: resultado.volumenFinal
+      });
+
+      assert.deepEqual(errores, [], `Caso ${caso.id} no coincide con el Excel:\n  ${errores.join('\n  ')}`);
+    });
+  });
+
+  // Al cambiar VERSION la suite falla hasta que los casos pasen y la versión se agregue al archivo
+  it('la versión actual del motor está certificada', () => {
+    const version = calculationEngineService.getVersion();
+    assert.ok(
+      golden.versionesCertificadas.includes(version),
+      `La versión ${version} del motor no está certificada en ${path.basename(archivo)}. ` +
+      'Si todos los casos pasan, agréguela a versionesCertificadas'
+    );
+  });
+});
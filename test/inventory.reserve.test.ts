@@ -0,0 +1,101 @@
+import { describe, it, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { Types } from 'mongoose';
+import dayjs from 'dayjs';
+import { InventoryLot } from '@/models/InventoryLot.model';
+import { Medicine } from '@/models/Medicine.model';
+import { ScheduleAssignment } from '@/models/ScheduleAssignment.model';
+import { IProduction } from '@/models/Production.model';
+import { inventoryService } from '@/services/inventory/inventory.service';
+
+/**
+ * Reserva de inventario sobre el consolidado de la orden
+ * Las mezclas que caben en el vial abierto por otra no reservan unidades propias,
+ * pero registran el lote del fabricante de ese vial
+ */
+
+const medicamentoId = new Types.ObjectId();
+const loteId = new Types.ObjectId();
+const fechaPreparacion = dayjs().add(1, 'day').startOf('hour');
+
+// Un solo lote de viales de 10 ml; las operaciones lo modifican como lo haría la base
+const lote = {
+  _id: loteId,
+  medicamentoId,
+  presentacion: { volumen: 10, unidad: 'ml', tipoEnvase: 'Vial' },
+  loteFabricante: 'AB1234',
+  fechaVencimiento: dayjs().add(1, 'year').toDate(),
+  habilitado: true,
+  cantidadDisponible: 5,
+  cantidadReservada: 0
+};
+
+const crearMezcla = (loteMezcla: string, minutos: number) => ({
+  estado: 'PENDIENTE',
+  loteMezcla,
+  cantidadMezclas: 1,
+  fechaVencimiento: fechaPreparacion.add(2, 'day').toDate(),
+  medicamento: { id: medicamentoId, nombre: 'CICLOFOSFAMIDA', concentracion: '20 mg/ml' },
+  // Calculada por separado: 3 ml de un vial de 10 ml
+  calculos: {
+    volumenExtraer: 3,
+    unidadesInsumo: 1,
+    volumenDesperdicio: 7,
+    presentaciones: [{ volumen: 10, unidad: 'ml', tipoEnvase: 'Vial', volumenUnidad: 10, unidades: 1 }]
+  },
+  historialEstado: [{ estadoNuevo: 'PREPARADA', fecha: fechaPreparacion.add(minutos, 'minute').toDate() }],
+  lotesInsumo: []
+});
+
+const crearOrden = (): IProduction => {
+  const orden = {
+    _id: new Types.ObjectId(),
+    codigo: 'PROD-ONCO-20261020-0001',
+    estado: 'CALCULADO',
+    mezclas: [crearMezcla('HG261020-ONCO-00001', 0), crearMezcla('HG261020-ONCO-00002', 30)]
+  };
+  return { ...orden, toObject: () => orden } as unknown as IProduction;
+};
+
+describe('Reserva de inventario con viales compartidos', () => {
+  before(() => {
+    const sinAsignacion = { session: () => sinAsignacion, lean: async () => null };
+    mock.method(ScheduleAssignment as any, 'findOne', () => sinAsignacion);
+    mock.method(Medicine as any, 'findById', () => ({
+      lean: async () => ({
+        horasEstabilidadViaAbierto: 24,
+        presentaciones: [{ volumen: 10, unidad: 'ml', cantidad: 1, tipoEnvase: 'Vial' }]
+      })
+    }));
+    mock.method(InventoryLot as any, 'find', () => ({
+      sort: () => ({ session: async () => (lote.cantidadDisponible > 0 ? [{ ...lote }] : []) })
+    }));
+    mock.method(InventoryLot as any, 'findOneAndUpdate', async (filtro: any, update: any) => {
+      const guarda = filtro.cantidadDisponible?.$gte ?? 0;
+      if (lote.cantidadDisponible < guarda) return null;
+      lote.cantidadDisponible += update.$inc.cantidadDisponible || 0;
+      lote.cantidadReservada += update.$inc.cantidadReservada || 0;
+      return { ...lote };
+    });
+  });
+
+  after(() => {
+    mock.restoreAll();
+  });
+
+  it('dos mezclas de 3 ml reservan un solo vial de 10 ml', async () => {
+    const resultado = await inventoryService.reserveForProduction(crearOrden());
+
+    const unidades = resultado.operaciones.reduce((total, operacion) => total + operacion.unidades, 0);
+    assert.equal(unidades, 1);
+    assert.equal(lote.cantidadReservada, 1);
+    assert.deepEqual(resultado.operaciones.map(operacion => operacion.mezclaIndex), [0]);
+
+    // La segunda mezcla registra el lote del vial que abrió la primera, sin unidades propias
+    const [compartido] = resultado.lotesPorMezcla[1];
+    assert.equal(resultado.lotesPorMezcla[1].length, 1);
+    assert.equal(compartido.loteFabricante, 'AB1234');
+    assert.equal(compartido.unidades, 0);
+    assert.equal(compartido.vialCompartidoDe, 'HG261020-ONCO-00001');
+  });
+});